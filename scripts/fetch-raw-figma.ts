@@ -8,6 +8,7 @@
  *   bunx tsx scripts/fetch-raw-figma.ts [figma-url]
  *
  * Output:
+ *   debug/0-snapshot.json         - fetchNodes result (usable as get_screen snapshotPath)
  *   debug/1-raw-figma-api.json    - Raw API response
  *   debug/2-transformed-node.json - After transformNode()
  *   debug/3-normalized.json       - After normalize stage
@@ -88,6 +89,12 @@ async function main() {
       fs.mkdirSync(debugDir, { recursive: true });
     }
 
+    // 0. Save snapshot for offline generation (without the bulky raw response)
+    const snapshotPath = path.join(debugDir, '0-snapshot.json');
+    const { rawResponse: _rawResponse, ...snapshot } = result;
+    fs.writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2));
+    console.log(`✅ Saved snapshot to ${snapshotPath}`);
+
     // 1. Save Raw API Response
     const rawPath = path.join(debugDir, '1-raw-figma-api.json');
     fs.writeFileSync(rawPath, JSON.stringify(rawNodeData.document, null, 2));
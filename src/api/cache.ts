@@ -1,6 +1,9 @@
 /**
  * Cache for Figma API responses
  * Prevents redundant API calls and respects rate limits
+ *
+ * Entries may carry the file version they were fetched at; a read with a
+ * different version treats the entry as stale regardless of TTL.
  */
 
 import * as fs from 'fs';
@@ -51,7 +54,7 @@ export class FigmaCache {
     return path.join(this.cacheDir, `${hash}.json`);
   }
 
-  get<T>(key: CacheKey): T | null {
+  get<T>(key: CacheKey, version?: string): T | null {
     if (!this.enabled) return null;
 
     const filePath = this.getCacheFilePath(key);
@@ -63,7 +66,8 @@ export class FigmaCache {
       const entry: CacheEntry<T> = JSON.parse(content);
 
       const age = Date.now() - entry.timestamp;
-      if (age > entry.ttl) {
+      const isOutdated = version !== undefined && entry.version !== version;
+      if (age > entry.ttl || isOutdated) {
         fs.unlinkSync(filePath);
         return null;
       }
@@ -74,12 +78,13 @@ export class FigmaCache {
     }
   }
 
-  set<T>(key: CacheKey, data: T, ttl?: number): void {
+  set<T>(key: CacheKey, data: T, ttl?: number, version?: string): void {
     if (!this.enabled) return;
 
     const entry: CacheEntry<T> = {
       data,
       timestamp: Date.now(),
+      version,
       ttl: ttl ?? this.defaultTtl,
     };
 
@@ -90,8 +95,8 @@ export class FigmaCache {
     }
   }
 
-  has(key: CacheKey): boolean {
-    return this.get(key) !== null;
+  has(key: CacheKey, version?: string): boolean {
+    return this.get(key, version) !== null;
   }
 
   invalidate(key: CacheKey): void {
@@ -146,6 +151,6 @@ export class FigmaCache {
 }
 
 export function createCache(cacheDir?: string): FigmaCache {
-  const defaultCacheDir = cacheDir ?? path.join(process.cwd(), '.figma', '.cache');
+  const defaultCacheDir = cacheDir ?? path.join(process.cwd(), '.figma', 'cache');
   return new FigmaCache({ cacheDir: defaultCacheDir });
 }
@@ -7,22 +7,80 @@ import type {
   ParsedFigmaUrl,
   FetchNodesResult,
   TransformedNode,
+  PageFrame,
   ImageExportOptions,
   ImageExportResult,
   VariablesResult,
   StylesResult,
-  FigmaStyle,
 } from './types.js';
 import { FigmaApiError, createApiError } from './errors.js';
 import { parseFigmaUrl } from './url.js';
+import { transformComponentMetadata, transformStyleMetadata, transformVariables } from './transformers.js';
+import type { FigmaCache, CacheKey } from './cache.js';
+
+/**
+ * TTL for entries validated by file version (image URLs stay valid for days)
+ */
+const VERSIONED_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Node types treated as screens when listing page frames
+ */
+const SCREEN_FRAME_TYPES = new Set(['FRAME', 'COMPONENT']);
+
+export interface FigmaClientOptions {
+  /** Response cache for nodes/images/styles (disabled when omitted) */
+  cache?: FigmaCache;
+  /** Skip cache reads but still store fresh responses */
+  forceRefresh?: boolean;
+}
 
 export class FigmaClient {
   private api: Figma.Api;
   private token: string;
+  private cache?: FigmaCache;
+  private forceRefresh: boolean;
+  private versions = new Map<string, Promise<string | undefined>>();
 
-  constructor(token: string) {
+  constructor(token: string, options: FigmaClientOptions = {}) {
     this.token = token;
     this.api = new Figma.Api({ personalAccessToken: token });
+    this.cache = options.cache;
+    this.forceRefresh = options.forceRefresh ?? false;
+  }
+
+  /**
+   * Current file version (falls back to lastModified)
+   * Fetched once per client with depth=1 to keep the probe cheap.
+   * Returns undefined if the probe fails - cache then relies on TTL only.
+   */
+  async getFileVersion(fileKey: string): Promise<string | undefined> {
+    if (!this.versions.has(fileKey)) {
+      const probe = this.api
+        .getFile({ file_key: fileKey }, { depth: 1 })
+        .then((file: any) => file?.version || file?.lastModified || undefined)
+        .catch(() => undefined);
+      this.versions.set(fileKey, probe);
+    }
+    return this.versions.get(fileKey);
+  }
+
+  /**
+   * Read-through cache helper
+   * Entries are bound to the file version so edits in Figma invalidate them.
+   */
+  private async cached<T>(key: CacheKey, fetcher: () => Promise<T>): Promise<T> {
+    if (!this.cache) return fetcher();
+
+    const version = await this.getFileVersion(key.fileKey);
+    if (!this.forceRefresh) {
+      const hit = this.cache.get<T>(key, version);
+      if (hit !== null) return hit;
+    }
+
+    const data = await fetcher();
+    this.cache.set(key, data, version ? VERSIONED_CACHE_TTL : undefined, version);
+    return data;
   }
 
   /**
@@ -43,9 +101,10 @@ export class FigmaClient {
    */
   async fetchNodes(fileKey: string, nodeIds: string[]): Promise<FetchNodesResult> {
     try {
-      const response = await this.api.getFileNodes(
-        { file_key: fileKey },
-        { ids: nodeIds.join(',') }
+      const ids = nodeIds.join(',');
+      const response = await this.cached(
+        { fileKey, nodeId: [...nodeIds].sort().join(','), endpoint: 'nodes' },
+        () => this.api.getFileNodes({ file_key: fileKey }, { ids })
       );
 
       // Transform nodes - preserve raw document for extraction
@@ -64,6 +123,8 @@ export class FigmaClient {
               x: doc.absoluteBoundingBox.x,
               y: doc.absoluteBoundingBox.y,
             } : undefined,
+            styles: transformStyleMetadata((nodeData as any).styles),
+            components: transformComponentMetadata((nodeData as any).components, (nodeData as any).componentSets),
           };
         }
       }
@@ -91,6 +152,51 @@ export class FigmaClient {
     return this.fetchNodes(parsed.fileKey, [parsed.nodeId]);
   }
 
+  /**
+   * List top-level frames of every page, including frames inside sections
+   * Uses a shallow file fetch (document → page → section → frame)
+   */
+  async fetchPageFrames(fileKey: string): Promise<PageFrame[]> {
+    try {
+      const file: any = await this.cached(
+        { fileKey, endpoint: 'frames' },
+        () => this.api.getFile({ file_key: fileKey }, { depth: 3 })
+      );
+
+      const frames: PageFrame[] = [];
+      for (const page of file?.document?.children ?? []) {
+        for (const child of page.children ?? []) {
+          if (child.type === 'SECTION') {
+            for (const nested of child.children ?? []) {
+              if (!SCREEN_FRAME_TYPES.has(nested.type)) continue;
+              frames.push({
+                id: nested.id,
+                name: nested.name,
+                type: nested.type,
+                pageId: page.id,
+                pageName: page.name,
+                sectionId: child.id,
+                sectionName: child.name,
+              });
+            }
+          } else if (SCREEN_FRAME_TYPES.has(child.type)) {
+            frames.push({
+              id: child.id,
+              name: child.name,
+              type: child.type,
+              pageId: page.id,
+              pageName: page.name,
+            });
+          }
+        }
+      }
+
+      return frames;
+    } catch (error) {
+      throw createApiError(error);
+    }
+  }
+
   /**
    * Export nodes as images
    */
@@ -113,7 +219,14 @@ export class FigmaClient {
         queryParams.svg_simplify_stroke = options.svgOptions.svgSimplifyStroke;
       }
 
-      const response = await this.api.getImages({ file_key: fileKey }, queryParams);
+      const response = await this.cached(
+        {
+          fileKey,
+          nodeId: [...nodeIds].sort().join(','),
+          endpoint: `images:${queryParams.format}@${queryParams.scale}:${queryParams.svg_include_id ?? ''}:${queryParams.svg_simplify_stroke ?? ''}`,
+        },
+        () => this.api.getImages({ file_key: fileKey }, queryParams)
+      );
 
       const results: ImageExportResult[] = [];
       for (const nodeId of nodeIds) {
@@ -141,54 +254,48 @@ export class FigmaClient {
    * Uses direct fetch since figma-api library may not support it
    */
   async fetchVariables(fileKey: string): Promise<VariablesResult> {
-    try {
-      // Direct fetch to variables endpoint
-      const response = await fetch(
-        `https://api.figma.com/v1/files/${fileKey}/variables/local`,
-        {
-          headers: {
-            'X-Figma-Token': this.token,
-          },
-        }
-      );
+    const failure = (error: string): VariablesResult => ({
+      success: false,
+      isEnterprise: false,
+      variables: {},
+      colors: {},
+      collections: {},
+      error,
+    });
 
-      if (response.status === 403) {
-        return {
-          success: false,
-          isEnterprise: false,
-          colors: {},
-          collections: {},
-          error: 'Variables API requires Figma Enterprise plan',
-        };
-      }
+    try {
+      // Only successful responses reach the cache (non-ok statuses throw)
+      const body = await this.cached({ fileKey, endpoint: 'variables' }, async () => {
+        const response = await fetch(
+          `https://api.figma.com/v1/files/${fileKey}/variables/local`,
+          {
+            headers: {
+              'X-Figma-Token': this.token,
+            },
+          }
+        );
 
-      if (!response.ok) {
-        return {
-          success: false,
-          isEnterprise: false,
-          colors: {},
-          collections: {},
-          error: `HTTP ${response.status}: ${response.statusText}`,
-        };
-      }
+        if (!response.ok) {
+          throw new FigmaApiError(
+            `HTTP ${response.status}: ${response.statusText}`,
+            response.status === 403 ? 'PERMISSION_DENIED' : 'UNKNOWN',
+            response.status
+          );
+        }
 
-      // Parse response (structure depends on Figma API)
-      await response.json(); // Response parsed but not processed in MVP
+        return response.json();
+      });
 
       return {
         success: true,
         isEnterprise: true,
-        colors: {},
-        collections: {},
+        ...transformVariables((body as any)?.meta),
       };
     } catch (error: any) {
-      return {
-        success: false,
-        isEnterprise: false,
-        colors: {},
-        collections: {},
-        error: error?.message || 'Failed to fetch variables',
-      };
+      if (error instanceof FigmaApiError && error.statusCode === 403) {
+        return failure('Variables API requires Figma Enterprise plan');
+      }
+      return failure(error?.message || 'Failed to fetch variables');
     }
   }
 
@@ -198,22 +305,18 @@ export class FigmaClient {
    */
   async fetchStyles(fileKey: string): Promise<StylesResult> {
     try {
-      const response = await this.api.getFileStyles({ file_key: fileKey });
-
-      const styles: Record<string, FigmaStyle> = {};
-      if (response.meta?.styles) {
-        for (const [key, style] of Object.entries(response.meta.styles)) {
-          const s = style as any;
-          styles[key] = {
-            key: s.key,
-            name: s.name,
-            styleType: s.style_type,
-            description: s.description,
-          };
-        }
+      const response = await this.cached(
+        { fileKey, endpoint: 'styles' },
+        () => this.api.getFileStyles({ file_key: fileKey })
+      );
+
+      // Keyed by node_id so node style references resolve directly
+      const byNodeId: Record<string, unknown> = {};
+      for (const style of (response.meta?.styles ?? []) as any[]) {
+        byNodeId[style.node_id ?? style.key] = style;
       }
 
-      return { styles };
+      return { styles: transformStyleMetadata(byNodeId) };
     } catch (error) {
       throw createApiError(error);
     }
@@ -4,6 +4,7 @@
 
 // Client
 export { FigmaClient } from './client.js';
+export type { FigmaClientOptions } from './client.js';
 
 // Errors
 export { FigmaApiError, createApiError, isFigmaApiError, hasErrorCode, retryOnError } from './errors.js';
@@ -23,6 +24,7 @@ export {
   parseFigmaUrl,
   extractNodeIdFromUrl,
   normalizeFigmaUrl,
+  buildFigmaUrl,
 } from './url.js';
 
 // Core types
@@ -38,6 +40,7 @@ export type {
   CrossAxisAlign,
   LayoutInfo,
   TypographyInfo,
+  TextRun,
   ShadowEffect,
   BlurEffect,
   Effect,
@@ -48,17 +51,24 @@ export type {
   Stroke,
   ComponentPropertyType,
   ComponentProperty,
+  Reaction,
   NodeType,
   FigmaNode,
   FigmaFile,
   TransformedNode,
   FetchNodesResult,
+  PageFrame,
   ImageFormat,
   ImageExportOptions,
   ImageExportResult,
   ColorVariable,
+  VariableResolvedType,
+  VariableValue,
+  FigmaVariable,
+  VariableCollection,
   VariablesResult,
   FigmaStyle,
+  FigmaComponent,
   StylesResult,
 } from './types.js';
 
@@ -67,11 +77,16 @@ export {
   transformColor,
   transformLayout,
   transformTypography,
+  transformTextRuns,
   transformEffects,
   transformFills,
   transformStroke,
   transformCornerRadius,
   transformComponentProperties,
+  transformReactions,
   transformNode,
   transformFile,
+  transformStyleMetadata,
+  transformComponentMetadata,
+  transformVariables,
 } from './transformers.js';
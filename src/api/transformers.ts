@@ -14,9 +14,18 @@ import type {
   BoundingBox,
   FigmaFile,
   ComponentProperty,
+  Reaction,
   ShadowEffect,
   BlurEffect,
   Padding,
+  VariablesResult,
+  VariableCollection,
+  VariableValue,
+  FigmaVariable,
+  ColorVariable,
+  FigmaStyle,
+  FigmaComponent,
+  TextRun,
 } from './types.js';
 
 /**
@@ -67,15 +76,9 @@ export function transformLayout(raw: any): LayoutInfo | null {
 }
 
 /**
- * Extract typography information from text style
+ * Map a Figma TypeStyle to typography info
  */
-export function transformTypography(raw: any): TypographyInfo | null {
-  if (!raw.style) {
-    return null;
-  }
-
-  const style = raw.style;
-
+function typeStyleToTypography(style: any): TypographyInfo {
   const mapTextAlign = (align?: string): 'left' | 'right' | 'center' | 'justify' => {
     if (!align) return 'left';
     const lower = align.toLowerCase();
@@ -86,7 +89,7 @@ export function transformTypography(raw: any): TypographyInfo | null {
     return 'left';
   };
 
-  return {
+  const typography: TypographyInfo = {
     fontFamily: style.fontFamily || 'System',
     fontSize: style.fontSize || 14,
     fontWeight: style.fontWeight || 400,
@@ -94,6 +97,73 @@ export function transformTypography(raw: any): TypographyInfo | null {
     letterSpacing: style.letterSpacing || 0,
     textAlign: mapTextAlign(style.textAlignHorizontal),
   };
+
+  if (style.textDecoration === 'UNDERLINE') typography.textDecoration = 'underline';
+  if (style.textDecoration === 'STRIKETHROUGH') typography.textDecoration = 'line-through';
+
+  return typography;
+}
+
+/**
+ * Extract typography information from text style
+ */
+export function transformTypography(raw: any): TypographyInfo | null {
+  if (!raw.style) {
+    return null;
+  }
+
+  return typeStyleToTypography(raw.style);
+}
+
+/**
+ * Split mixed-style text into runs
+ *
+ * characterStyleOverrides holds one override ID per character (0 or missing =
+ * base style, the array may be shorter than the text); styleOverrideTable holds
+ * partial TypeStyles merged over the base style. Adjacent characters with the
+ * same resolved style form one run. Returns null when the text has a single style.
+ */
+export function transformTextRuns(raw: any): TextRun[] | null {
+  const overrides: number[] | undefined = raw.characterStyleOverrides;
+  const table: Record<string, any> = raw.styleOverrideTable ?? {};
+  const text: string | undefined = raw.characters;
+  if (!text || !raw.style || !overrides?.some(id => id && table[id])) {
+    return null;
+  }
+
+  const baseFills = transformFills(raw);
+  const baseKey = JSON.stringify([typeStyleToTypography(raw.style), baseFills]);
+
+  // Resolved style per override ID (undefined = same as base)
+  const resolved = new Map<number, { typography: TypographyInfo; fills: Fill[]; key: string } | undefined>();
+  const resolve = (id: number) => {
+    if (!resolved.has(id)) {
+      const override = id ? table[id] : undefined;
+      if (!override) {
+        resolved.set(id, undefined);
+      } else {
+        const typography = typeStyleToTypography({ ...raw.style, ...override });
+        const fills = override.fills ? transformFills(override) : baseFills;
+        const key = JSON.stringify([typography, fills]);
+        resolved.set(id, key === baseKey ? undefined : { typography, fills, key });
+      }
+    }
+    return resolved.get(id);
+  };
+
+  const runs: TextRun[] = [];
+  let lastKey: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const style = resolve(overrides[i] ?? 0);
+    if (runs.length > 0 && lastKey === style?.key) {
+      runs[runs.length - 1].text += text[i];
+    } else {
+      runs.push(style ? { text: text[i], typography: style.typography, fills: style.fills } : { text: text[i] });
+      lastKey = style?.key;
+    }
+  }
+
+  return runs.length > 1 ? runs : null;
 }
 
 /**
@@ -305,6 +375,35 @@ export function transformComponentProperties(raw: any): Record<string, Component
   return Object.keys(properties).length > 0 ? properties : null;
 }
 
+/**
+ * Transform prototype reactions into one entry per action
+ * Handles both the actions array and the deprecated single action field.
+ */
+export function transformReactions(raw: any): Reaction[] {
+  const reactions: Reaction[] = [];
+
+  for (const reaction of raw.reactions ?? []) {
+    const trigger = reaction?.trigger?.type;
+    const actions = reaction?.actions ?? (reaction?.action ? [reaction.action] : []);
+    if (!trigger) continue;
+
+    for (const action of actions) {
+      if (!action?.type) continue;
+      // Node actions carry the navigation kind (NAVIGATE, OVERLAY, SWAP, ...)
+      const type = action.type === 'NODE' ? action.navigation : action.type;
+      if (!type) continue;
+      reactions.push({
+        trigger,
+        action: type,
+        destinationId: action.destinationId ?? undefined,
+        url: action.url ?? undefined,
+      });
+    }
+  }
+
+  return reactions;
+}
+
 /**
  * Extract bound variables (tokens)
  */
@@ -330,6 +429,11 @@ export function transformStyles(raw: any): any {
   return raw.styles || null;
 }
 
+/**
+ * Auto-layout min/max size fields
+ */
+const SIZE_BOUND_FIELDS = ['minWidth', 'maxWidth', 'minHeight', 'maxHeight'] as const;
+
 /**
  * Main recursive transformer for Figma nodes
  */
@@ -374,6 +478,11 @@ export function transformNode(raw: any, _parentBounds?: BoundingBox): FigmaNode
     node.text = raw.characters;
   }
 
+  const textRuns = transformTextRuns(raw);
+  if (textRuns) {
+    node.textRuns = textRuns;
+  }
+
   // Fills
   const fills = transformFills(raw);
   if (fills.length > 0) {
@@ -408,6 +517,12 @@ export function transformNode(raw: any, _parentBounds?: BoundingBox): FigmaNode
     node.componentProperties = componentProperties;
   }
 
+  // Prototype interactions
+  const reactions = transformReactions(raw);
+  if (reactions.length > 0) {
+    node.reactions = reactions;
+  }
+
   // Export settings (designer's intent for asset export)
   if (raw.exportSettings && raw.exportSettings.length > 0) {
     node.exportSettings = raw.exportSettings.map(s => ({
@@ -425,6 +540,10 @@ export function transformNode(raw: any, _parentBounds?: BoundingBox): FigmaNode
   if (raw.layoutAlign) node.layoutAlign = raw.layoutAlign;
   if (raw.layoutGrow !== undefined) node.layoutGrow = raw.layoutGrow;
   if (raw.layoutPositioning) node.layoutPositioning = raw.layoutPositioning;
+  for (const key of SIZE_BOUND_FIELDS) {
+    // Unset bounds come back as null
+    if (typeof raw[key] === 'number') node[key] = raw[key];
+  }
 
   // New Advanced Properties
   if (raw.boundVariables) node.boundVariables = raw.boundVariables;
@@ -462,3 +581,125 @@ export function transformFile(fileKey: string, response: any): FigmaFile {
     thumbnailUrl: response.thumbnailUrl,
   };
 }
+
+/**
+ * Transform style metadata keyed by style node ID
+ * Accepts both the nodes endpoint shape (styleType) and the styles endpoint shape (style_type).
+ */
+export function transformStyleMetadata(raw: any): Record<string, FigmaStyle> {
+  const styles: Record<string, FigmaStyle> = {};
+  for (const [id, style] of Object.entries<any>(raw ?? {})) {
+    if (!style?.name) continue;
+    styles[id] = {
+      key: style.key,
+      name: style.name,
+      styleType: style.styleType ?? style.style_type,
+      description: style.description || undefined,
+    };
+  }
+  return styles;
+}
+
+/**
+ * Transform component metadata keyed by component ID, with the names of their component sets
+ */
+export function transformComponentMetadata(raw: any, rawSets?: any): Record<string, FigmaComponent> {
+  const components: Record<string, FigmaComponent> = {};
+  for (const [id, component] of Object.entries<any>(raw ?? {})) {
+    if (!component?.name) continue;
+    const setName = component.componentSetId ? rawSets?.[component.componentSetId]?.name : undefined;
+    components[id] = {
+      key: component.key,
+      name: component.name,
+      ...(setName && { componentSetName: setName }),
+    };
+  }
+  return components;
+}
+
+/**
+ * Maximum alias chain length followed when resolving variable values
+ */
+const MAX_ALIAS_DEPTH = 10;
+
+/**
+ * Transform /variables/local response meta into typed variables
+ * Aliases are resolved to concrete values: within the same mode when the
+ * target shares the collection, otherwise via the target's default mode.
+ */
+export function transformVariables(meta: any): Pick<VariablesResult, 'variables' | 'colors' | 'collections'> {
+  const rawVariables: Record<string, any> = meta?.variables ?? {};
+  const rawCollections: Record<string, any> = meta?.variableCollections ?? {};
+
+  const collections: Record<string, VariableCollection> = {};
+  for (const [id, raw] of Object.entries(rawCollections)) {
+    collections[id] = {
+      id,
+      name: raw.name ?? id,
+      modes: (raw.modes ?? []).map((m: any) => ({ modeId: m.modeId, name: m.name })),
+      defaultModeId: raw.defaultModeId ?? raw.modes?.[0]?.modeId ?? '',
+    };
+  }
+
+  const resolveValue = (variableId: string, modeId: string, depth: number): VariableValue | undefined => {
+    const raw = rawVariables[variableId];
+    if (!raw || depth > MAX_ALIAS_DEPTH) return undefined;
+
+    const values = raw.valuesByMode ?? {};
+    const value = modeId in values
+      ? values[modeId]
+      : values[collections[raw.variableCollectionId]?.defaultModeId] ?? Object.values(values)[0];
+
+    if (value && typeof value === 'object' && value.type === 'VARIABLE_ALIAS') {
+      const target = rawVariables[value.id];
+      const targetMode = target?.variableCollectionId === raw.variableCollectionId
+        ? modeId
+        : collections[target?.variableCollectionId]?.defaultModeId ?? modeId;
+      return resolveValue(value.id, targetMode, depth + 1);
+    }
+
+    if (raw.resolvedType === 'COLOR' && value && typeof value === 'object') {
+      return transformColor(value);
+    }
+
+    return value as VariableValue | undefined;
+  };
+
+  const variables: Record<string, FigmaVariable> = {};
+  const colors: Record<string, ColorVariable> = {};
+
+  for (const [id, raw] of Object.entries(rawVariables)) {
+    const collection = collections[raw.variableCollectionId];
+    const valuesByMode: Record<string, VariableValue> = {};
+    for (const modeId of Object.keys(raw.valuesByMode ?? {})) {
+      const value = resolveValue(id, modeId, 0);
+      if (value !== undefined) valuesByMode[modeId] = value;
+    }
+
+    variables[id] = {
+      id,
+      name: raw.name,
+      collectionId: raw.variableCollectionId,
+      collectionName: collection?.name ?? '',
+      resolvedType: raw.resolvedType,
+      valuesByMode,
+    };
+
+    if (raw.resolvedType === 'COLOR') {
+      const values: ColorVariable['values'] = {};
+      for (const [modeId, value] of Object.entries(valuesByMode)) {
+        const color = value as Color;
+        values[modeId] = { color, opacity: color.rgba.a };
+      }
+      colors[id] = {
+        id,
+        name: raw.name,
+        collectionId: raw.variableCollectionId,
+        collectionName: collection?.name ?? '',
+        values,
+      };
+    }
+  }
+
+  return { variables, colors, collections };
+}
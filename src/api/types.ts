@@ -130,6 +130,19 @@ export interface TypographyInfo {
   textTransform?: 'none' | 'uppercase' | 'lowercase' | 'capitalize';
 }
 
+/**
+ * Segment of a text node with its own character style
+ * (characterStyleOverrides + styleOverrideTable)
+ */
+export interface TextRun {
+  /** Characters of the segment */
+  text: string;
+  /** Resolved style of an overridden segment; absent when it uses the node's base style */
+  typography?: TypographyInfo;
+  /** Fills of an overridden segment (base fills when the override keeps them) */
+  fills?: Fill[];
+}
+
 /**
  * Shadow effect
  */
@@ -281,6 +294,23 @@ export type NodeType =
   | 'SHAPE_WITH_TEXT'
   | 'CONNECTOR';
 
+/**
+ * Prototype interaction of a node (one Figma reaction action)
+ */
+export interface Reaction {
+  /** Trigger type (ON_CLICK, ON_PRESS, ON_HOVER, AFTER_TIMEOUT, ...) */
+  trigger: string;
+  /**
+   * Action: NAVIGATE, OVERLAY (open overlay), SWAP (replace open overlay),
+   * SCROLL_TO, CHANGE_TO, BACK, CLOSE (close overlay) or URL
+   */
+  action: string;
+  /** Target node ID for node actions */
+  destinationId?: string;
+  /** Target URL for URL actions */
+  url?: string;
+}
+
 /**
  * Complete Figma node representation
  */
@@ -301,6 +331,8 @@ export interface FigmaNode {
   typography?: TypographyInfo;
   /** Text content (for text nodes) */
   text?: string;
+  /** Styled segments (for text nodes with mixed character styles) */
+  textRuns?: TextRun[];
   /** Fill styles */
   fills?: Fill[];
   /** Stroke styles */
@@ -325,6 +357,8 @@ export interface FigmaNode {
   componentId?: string;
   /** Component set ID (for variant instances) */
   componentSetId?: string;
+  /** Prototype interactions */
+  reactions?: Reaction[];
   /** Export settings */
   exportSettings?: ImageExportOptions[];
   /** Constraints for resizing behavior */
@@ -345,6 +379,11 @@ export interface FigmaNode {
   layoutGrow?: number;
   /** Whether the node is absolutely positioned within an auto-layout frame */
   layoutPositioning?: 'AUTO' | 'ABSOLUTE';
+  /** Auto-layout size bounds (min/max width and height) */
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
   /** Scrolling behavior */
   overflowDirection?: 'NONE' | 'HORIZONTAL_SCROLLING' | 'VERTICAL_SCROLLING' | 'BOTH_SCROLLING';
   /** explicit scroll behavior property */
@@ -387,6 +426,10 @@ export interface TransformedNode {
     x?: number;
     y?: number;
   };
+  /** Styles referenced in the node subtree, by style node ID */
+  styles?: Record<string, FigmaStyle>;
+  /** Main components of the instances in the node subtree, by component ID */
+  components?: Record<string, FigmaComponent>;
 }
 
 /**
@@ -401,6 +444,20 @@ export interface FetchNodesResult {
   rawResponse?: unknown;
 }
 
+/**
+ * Top-level frame on a page (frames nested in sections included)
+ */
+export interface PageFrame {
+  id: string;
+  name: string;
+  type: string;
+  pageId: string;
+  pageName: string;
+  /** Set when the frame lives inside a section */
+  sectionId?: string;
+  sectionName?: string;
+}
+
 /**
  * Image export format
  */
@@ -462,6 +519,44 @@ export interface ColorVariable {
   >;
 }
 
+/**
+ * Variable data type as reported by the Variables API
+ */
+export type VariableResolvedType = 'COLOR' | 'FLOAT' | 'STRING' | 'BOOLEAN';
+
+/**
+ * Resolved variable value (aliases already followed)
+ */
+export type VariableValue = Color | number | string | boolean;
+
+/**
+ * Variable definition of any type
+ */
+export interface FigmaVariable {
+  /** Variable ID (matches VariableAlias.id in boundVariables) */
+  id: string;
+  /** Variable name, slash-separated groups (e.g. "colors/primary/500") */
+  name: string;
+  /** Collection ID */
+  collectionId: string;
+  /** Collection name */
+  collectionName: string;
+  /** Data type */
+  resolvedType: VariableResolvedType;
+  /** Resolved values by mode ID */
+  valuesByMode: Record<string, VariableValue>;
+}
+
+/**
+ * Variable collection metadata
+ */
+export interface VariableCollection {
+  id: string;
+  name: string;
+  modes: Array<{ modeId: string; name: string }>;
+  defaultModeId: string;
+}
+
 /**
  * Variables API result
  */
@@ -470,17 +565,12 @@ export interface VariablesResult {
   success: boolean;
   /** Whether the file has Enterprise plan (required for variables) */
   isEnterprise: boolean;
+  /** All variables by ID */
+  variables: Record<string, FigmaVariable>;
   /** Color variables */
   colors: Record<string, ColorVariable>;
   /** Collections metadata */
-  collections: Record<
-    string,
-    {
-      id: string;
-      name: string;
-      modes: Array<{ modeId: string; name: string }>;
-    }
-  >;
+  collections: Record<string, VariableCollection>;
   /** Error message if failed */
   error?: string;
 }
@@ -495,9 +585,21 @@ export interface FigmaStyle {
   description?: string;
 }
 
+/**
+ * Main component metadata from Figma (nodes response `components`)
+ */
+export interface FigmaComponent {
+  /** Published component key, stable across files */
+  key: string;
+  name: string;
+  /** Name of the component set a variant belongs to */
+  componentSetName?: string;
+}
+
 /**
  * Result from fetching styles
  */
 export interface StylesResult {
+  /** Published styles by style node ID (the IDs node style references point to) */
   styles: Record<string, FigmaStyle>;
 }
@@ -58,3 +58,12 @@ export function normalizeFigmaUrl(url: string): string {
     return url;
   }
 }
+
+/**
+ * Build canonical design URL from fileKey and optional node-id.
+ * Used when generation runs without a live URL (e.g. from a saved snapshot).
+ */
+export function buildFigmaUrl(fileKey: string, nodeId?: string): string {
+  const base = `https://www.figma.com/design/${fileKey}`;
+  return nodeId ? `${base}?node-id=${nodeId.replace(/:/g, '-')}` : base;
+}
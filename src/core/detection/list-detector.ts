@@ -4,6 +4,8 @@
  * Detects containers that should become FlatList based on:
  * 1. Intent: Explicit scrolling enabled (overflow: scroll)
  * 2. Scale: 3+ structurally similar items
+ *
+ * Wrapped rows that span several lines become grids (vertical list with numColumns).
  */
 
 import type { IRNode, ContainerIR, CardIR, LayoutMeta } from '../types.js';
@@ -105,6 +107,17 @@ function getOrientation(layout: LayoutMeta): 'horizontal' | 'vertical' {
   return layout.type === 'row' ? 'horizontal' : 'vertical';
 }
 
+/**
+ * Items per line of a wrapped row: children sharing the first child's top edge
+ * Returns null when everything fits on one line (not a grid).
+ */
+function getWrappedColumns(children: IRNode[]): number | null {
+  const firstTop = children[0].boundingBox.y;
+  const tolerance = Math.max(children[0].boundingBox.height, MIN_DIMENSION) * SIZE_TOLERANCE;
+  const columns = children.filter(child => Math.abs(child.boundingBox.y - firstTop) <= tolerance).length;
+  return columns < children.length ? columns : null;
+}
+
 /**
  * Check if a container's children form a list pattern
  */
@@ -142,12 +155,21 @@ function detectListInContainer(container: ContainerIR | CardIR): ListHint | null
     }
   }
 
-  return {
+  const hint: ListHint = {
     containerId: container.id,
     itemIds: children.map(c => c.id),
     orientation: getOrientation(layout),
     itemType: inferTypeName(firstChild),
   };
+
+  // Rule 3: Wrapped rows spanning several lines are grids
+  const numColumns = layout.wrap && layout.type === 'row' ? getWrappedColumns(children) : null;
+  if (numColumns) {
+    hint.orientation = 'vertical';
+    hint.numColumns = numColumns;
+  }
+
+  return hint;
 }
 
 function detectListsRecursive(node: IRNode, results: ListHint[]): void {
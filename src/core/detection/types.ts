@@ -16,6 +16,8 @@ export interface ListHint {
   orientation: 'horizontal' | 'vertical';
   /** Inferred type name for the list item (e.g., "ProductCard") */
   itemType: string;
+  /** Items per row for wrapped grids (FlatList numColumns) */
+  numColumns?: number;
 }
 
 /**
@@ -2,6 +2,8 @@
  * Content pattern detection for semantic prop names.
  */
 
+import type { InputTraits } from '../types.js';
+
 interface ContentPattern {
   priority: number;
   name: string;
@@ -204,6 +206,77 @@ export function detectContentPattern(text: string): string | null {
   return null;
 }
 
+interface InputPattern {
+  test: RegExp;
+  traits: InputTraits;
+}
+
+/**
+ * Text field kinds recognised from label, placeholder or layer name.
+ * Order matters: "confirm password" is a new password, "postal code" is not an email.
+ */
+const INPUT_PATTERNS: InputPattern[] = [
+  {
+    test: /(new|confirm|repeat|create)\s*password|новый\s*пароль|повтор\S*\s*пароль/i,
+    traits: { secureTextEntry: true, autoComplete: 'new-password', textContentType: 'newPassword', autoCapitalize: 'none' },
+  },
+  {
+    test: /pass(word|code)|парол/i,
+    traits: { secureTextEntry: true, autoComplete: 'password', textContentType: 'password', autoCapitalize: 'none' },
+  },
+  {
+    test: /zip|postal|почтов\S*\s*индекс/i,
+    traits: { autoComplete: 'postal-code', textContentType: 'postalCode' },
+  },
+  {
+    test: /e-?mail|почт|^[^\s@]+@[^\s@]+\.[^\s@]+$/i,
+    traits: { keyboardType: 'email-address', autoComplete: 'email', textContentType: 'emailAddress', autoCapitalize: 'none' },
+  },
+  {
+    test: /phone|mobile|телефон|^\+\d[\d\s\-().]{7,}$/i,
+    traits: { keyboardType: 'phone-pad', autoComplete: 'tel', textContentType: 'telephoneNumber' },
+  },
+  {
+    test: /\b(otp|sms code|verification code|pin)\b|(^|\s)код/i,
+    traits: { keyboardType: 'number-pad', autoComplete: 'sms-otp', textContentType: 'oneTimeCode' },
+  },
+  {
+    test: /user\s*name|login|логин/i,
+    traits: { autoComplete: 'username', textContentType: 'username', autoCapitalize: 'none' },
+  },
+  {
+    test: /website|\burl\b|^https?:\/\//i,
+    traits: { keyboardType: 'url', textContentType: 'URL', autoCapitalize: 'none' },
+  },
+  {
+    test: /\b(full\s*)?name\b|имя|фио/i,
+    traits: { autoComplete: 'name', textContentType: 'name' },
+  },
+  {
+    test: /amount|price|sum\b|сумм/i,
+    traits: { keyboardType: 'decimal-pad' },
+  },
+];
+
+/**
+ * Keyboard, secure-entry and autofill hints for a text field.
+ * Texts are tried in order (label/placeholder first, layer name last);
+ * returns null when none names a known field kind.
+ */
+export function detectInputTraits(...texts: Array<string | undefined>): InputTraits | null {
+  for (const text of texts) {
+    const trimmed = text?.trim();
+    if (!trimmed) continue;
+
+    const pattern = INPUT_PATTERNS.find(p => p.test.test(trimmed));
+    if (pattern) {
+      return { ...pattern.traits };
+    }
+  }
+
+  return null;
+}
+
 export function isGenericFigmaName(name: string): boolean {
   if (!name || typeof name !== 'string') {
     return true;
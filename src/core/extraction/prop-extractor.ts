@@ -1,10 +1,10 @@
-import { IRNode, StylesBundle, SemanticType } from '../types.js';
-import { toValidIdentifier } from '../shared/naming.js';
+import { IRNode, StylesBundle, SemanticType, TextIR, InputIR, ControlIR, ControlKind, PropDefinition } from '../types.js';
+import { toValidIdentifier, toPascalCase } from '../shared/naming.js';
 import { detectContentPattern } from './content-pattern.js';
 import { isMeaningfulPropName } from './text-props-extractor.js';
 
 export interface ExtractedProps {
-  props: Record<string, { type: 'string' | 'image' | 'style'; value: string; defaultValue: string; property?: string }>;
+  props: Record<string, PropDefinition>;
 }
 
 export interface ExtractPropsOptions {
@@ -81,6 +81,18 @@ export function deriveNameFromAncestry(
   return null;
 }
 
+/**
+ * Value prop names of controls without a meaningful name or label
+ */
+const CONTROL_DEFAULT_PROPS: Record<ControlKind, string> = {
+  switch: 'isEnabled',
+  checkbox: 'isChecked',
+  radio: 'isSelected',
+  slider: 'value',
+  stepper: 'quantity',
+  rating: 'rating',
+};
+
 /**
  * Scans a component's children to identify and extract potential props.
  * Supports project-agnostic visual property extraction if variations are provided.
@@ -173,8 +185,8 @@ export function extractProps(
       }
     }
 
-    // 2. Extract Text
-    if (node.semanticType === 'Text' && 'text' in node && node.text) {
+    // 2. Extract Text (rich text with styled runs stays inline)
+    if (node.semanticType === 'Text' && 'text' in node && node.text && !(node as TextIR).runs) {
       const textNode = node as any;
       const contentKey = `${nodeName}|text|${textNode.text}`;
       
@@ -289,10 +301,73 @@ export function extractProps(
       }
     }
 
-    // 4. Recurse into children
+    // 3b. Extract Inputs: controlled value prop + change handler
+    if (node.semanticType === 'Input') {
+      const inputNode = node as InputIR;
+      // "Email Field" → email, "Password Input" → password
+      const fieldName = nodeName.replace(/[\s_-]*(text\s*)?(input|field|box)$/i, '');
+      const propName = deriveNameFromAncestry(nodeName, 'Input', ancestry) ?? toValidIdentifier(fieldName || nodeName);
+
+      let finalName = propName;
+      let counter = 1;
+      while (props[finalName]) {
+        finalName = `${propName}${counter++}`;
+      }
+
+      const onChangeProp = `onChange${toPascalCase(finalName)}`;
+      props[finalName] = {
+        type: 'input',
+        value: inputNode.placeholder,
+        defaultValue: '',
+      };
+      props[onChangeProp] = {
+        type: 'handler',
+        value: '',
+        defaultValue: '',
+      };
+
+      node.propName = finalName;
+      inputNode.onChangeProp = onChangeProp;
+    }
+
+    // 3c. Extract Controls: boolean/number value prop + change handler
+    if (node.semanticType === 'Control') {
+      const controlNode = node as ControlIR;
+      // "Notifications Toggle" → notifications; bare "Switch" falls back to the label text
+      const controlName = nodeName.replace(/[\s_/-]*(switch|toggle|check\s*box|radio(\s*button)?|slider|range|stepper|counter|rating|stars?)$/i, '');
+      const label = controlNode.children.find(child => child.id === controlNode.labelId) as TextIR | undefined;
+      const baseName = controlName && !isGenericName(controlName) ? controlName : label?.text;
+      const propName = baseName ? toValidIdentifier(baseName) : CONTROL_DEFAULT_PROPS[controlNode.control];
+
+      let finalName = propName;
+      let counter = 1;
+      while (props[finalName]) {
+        finalName = `${propName}${counter++}`;
+      }
+
+      const valueType = typeof controlNode.value === 'boolean' ? 'boolean' : 'number';
+      const onChangeProp = `onChange${toPascalCase(finalName)}`;
+      props[finalName] = {
+        type: valueType,
+        value: String(controlNode.value),
+        defaultValue: String(controlNode.value),
+      };
+      props[onChangeProp] = {
+        type: 'handler',
+        value: '',
+        defaultValue: '',
+        property: valueType,
+      };
+
+      node.propName = finalName;
+      controlNode.onChangeProp = onChangeProp;
+    }
+
+    // 4. Recurse into children (an Input's placeholder is not a text prop)
     const shouldStopTraversal = depth > 0 && stopAtSemanticBoundaries.has(node.semanticType);
     if (!shouldStopTraversal && 'children' in node && node.children) {
       node.children.forEach((child, idx) => {
+        if (node.semanticType === 'Input' && child.id === (node as InputIR).placeholderId) return;
         traverse(child, depth + 1, path.concat(`child${idx}`), [...ancestry, nodeName]);
       });
     }
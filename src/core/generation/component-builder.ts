@@ -3,14 +3,23 @@
  * Supports both single-file and multi-file output with detection hints
  */
 
-import type { ScreenIR, IRNode, ComponentIR, StylesBundle, RepeaterIR } from '../types.js';
-import type { TokenMappings } from '../mapping/token-matcher.js';
+import type { ScreenIR, IRNode, ComponentIR, StylesBundle, RepeaterIR, ModeThemes, PropDefinition, StylePattern, ScalingStrategy } from '../types.js';
+import { createEmptyMappings, type TokenMappings } from '../mapping/token-matcher.js';
 import type { DetectionResult, ComponentHint } from '../detection/types.js';
-import { buildImports, type ImportConfig } from './imports-builder.js';
-import { buildJSX } from './jsx-builder.js';
+import { buildImports, buildSharedComponentImports, type ImportConfig, type SharedComponents } from './imports-builder.js';
+import { buildJSX, getSharedComponentProps, type StyledElementResolver } from './jsx-builder.js';
 import { buildStyles } from './styles-builder.js';
+import { createStyleBackend, isStyleBackend } from './style-backends.js';
 import { generateItemComponent } from './list-generator.js';
 import { generateTokensIfNeeded } from './tokens-generator.js';
+import { detectForm, buildFormImports, buildFormSchema, buildFormHook } from './form-builder.js';
+import {
+  collectInteractionImports,
+  usesNavigation,
+  buildNavigationImports,
+  buildNavigationHook,
+  type NavigationTargets,
+} from './navigation-builder.js';
 import { extractProps } from './prop-extractor.js';
 import { mergePropsVariations, extractVariableProps } from '../detection/repetition-detector.js';
 import { detectSemanticState } from '../detection/state-detector.js';
@@ -57,14 +66,30 @@ export interface GenerationOptions {
   scaleFunction?: string;
   /** Import path to scaling function for import generation */
   scaleFunctionImportPath?: string;
-  /** Style pattern: useTheme, StyleSheet, or unistyles */
-  stylePattern?: 'useTheme' | 'StyleSheet' | 'unistyles';
+  /** Scale functions by axis (imported from scaleFunctionImportPath) and values left unscaled */
+  scaling?: ScalingStrategy;
+  /** Width of the Figma root frame; values are converted to scaling.baseWidth before scaling */
+  designWidth?: number;
+  /** Style pattern: useTheme, StyleSheet, unistyles, or a styling library (nativewind, restyle, tamagui, styled-components) */
+  stylePattern?: StylePattern;
   /** Path to useTheme hook if discovered */
   useThemeHookPath?: string;
   /** Import prefix from tsconfig (e.g., '@app') */
   importPrefix?: string;
+  /** Figma variable modes bound in the screen (light/dark); styles then follow the active mode */
+  modeThemes?: ModeThemes | null;
+  /** Emit react-hook-form + zod wiring when the screen has input fields and a primary button */
+  forms?: boolean;
+  /** Route names by Figma node ID; when set, prototype interactions become navigation handlers */
+  navigationTargets?: NavigationTargets;
+  /** Components already generated into .figma/components by Figma component ID; instances import them */
+  sharedComponents?: SharedComponents;
+  /** Icon components written next to exported SVGs, by asset path; used instead of SvgIcon */
+  svgComponents?: Record<string, string>;
   /** Semantic state information for state-based styling (internal use) */
   semanticState?: import('../detection/state-detector.js').SemanticState;
+  /** Style library rendering elements with a plain style reference (internal use) */
+  styledElement?: StyledElementResolver;
 }
 
 /**
@@ -105,10 +130,105 @@ function toPascalCase(str: string): string {
     .replace(/[^a-zA-Z0-9]/g, '');
 }
 
-function isOptionalUnresolvedImageProp(config: { type: 'string' | 'image' | 'style'; defaultValue: string }): boolean {
+function isOptionalUnresolvedImageProp(config: PropDefinition): boolean {
   return config.type === 'image' && config.defaultValue.trim().length === 0;
 }
 
+/**
+ * Input/control values and change handlers stay optional so the element also renders uncontrolled
+ */
+function isBindingProp(config: PropDefinition): boolean {
+  return ['input', 'handler', 'boolean', 'number'].includes(config.type);
+}
+
+/**
+ * TypeScript type of a generated prop
+ */
+function propTypeOf(config: PropDefinition): string {
+  if (config.type === 'image') return 'ImageSourcePropType';
+  if (config.type === 'boolean' || config.type === 'number') return config.type;
+  if (config.type === 'handler') {
+    return config.property ? `(value: ${config.property}) => void` : '(text: string) => void';
+  }
+  return 'string';
+}
+
+/**
+ * Doc comment text of a generated prop
+ */
+function propDocOf(config: PropDefinition): string {
+  if (config.type === 'style') return `Visual property: ${config.property}`;
+  if (config.type === 'input') return `Field value (placeholder: "${config.value}")`;
+  if (config.type === 'handler') return config.property ? 'Called with the new value' : 'Called with the edited text';
+  if (config.type === 'boolean' || config.type === 'number') return `Default: ${config.defaultValue}`;
+  return `Default: "${config.defaultValue}"`;
+}
+
+/**
+ * Single-quoted string literal
+ */
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Component set variant props the root JSX switches styles on
+ * Component and Repeater subtrees carry no variant styles (see applyVariantStyles).
+ */
+function collectUsedVariantProps(node: IRNode, used = new Set<string>()): Set<string> {
+  for (const variants of Object.values(node.variantStyles ?? {})) {
+    variants.forEach(variant => used.add(variant.prop));
+  }
+  if ('children' in node && node.children) {
+    node.children.forEach(child => collectUsedVariantProps(child, used));
+  }
+  return used;
+}
+
+/**
+ * How styles follow Figma variable modes
+ * - 'generated': createStyles + useTheme() from the generated ./tokens file
+ * - 'project': createStyles + the project's useTheme hook
+ * - null: static StyleSheet (unistyles already receives the active theme, style libraries reference tokens by name)
+ */
+function resolveThemeModeSource(options?: GenerationOptions): 'generated' | 'project' | null {
+  if (!options?.modeThemes || options.stylePattern === 'unistyles' || isStyleBackend(options.stylePattern)) return null;
+  if (!options.hasProjectTheme) return 'generated';
+  if (options.stylePattern === 'useTheme' && options.useThemeHookPath) return 'project';
+  return null;
+}
+
+/**
+ * Components rendered as JSX elements in the code. The builder opens every
+ * element on its own line, so tag-like text in string literals and doc
+ * comments (mid-line, or after ' * ') is not mistaken for an element
+ */
+function collectJSXTags(code: string): Set<string> {
+  return new Set(Array.from(code.matchAll(/^[ \t]*<([A-Z]\w*)[\s/>]/gm), match => match[1]));
+}
+
+/**
+ * Drop the given names from the import statements (components a style
+ * library replaced, StyleSheet when every style was translated)
+ */
+function pruneUnusedImports(imports: string, names: string[]): string {
+  const unused = new Set(names);
+  return imports.replace(/^import (?:(\w+)|\{ ([^}]+) \}) from '[^']+';\n?/gm, (line, defaultName: string, named: string) => {
+    if (defaultName) return unused.has(defaultName) ? '' : line;
+    const rest = named.split(', ').filter(name => !unused.has(name));
+    if (rest.length === 0) return '';
+    return line.replace(`{ ${named} }`, `{ ${rest.join(', ')} }`);
+  });
+}
+
+/**
+ * Read styles from the active theme at the top of a component body
+ */
+function injectUseStyles(componentCode: string): string {
+  if (!componentCode.includes('styles.')) return componentCode;
+  return componentCode.replace(/\) \{\n {2}return \(/g, ') {\n  const styles = useStyles();\n\n  return (');
+}
+
 /**
  * Assemble complete TSX file from parts
  */
@@ -145,6 +265,14 @@ export function generateComponent(
   mappings: TokenMappings,
   options?: GenerationOptions
 ): GenerationResult {
+  // Style libraries reference theme tokens by name; what stays in StyleSheet reads
+  // them from the theme import like StyleSheet output, or uses raw values without one
+  const styleBackend = createStyleBackend(options?.stylePattern, screen.root, screen.stylesBundle, mappings);
+  if (styleBackend) {
+    if (!options?.hasProjectTheme) mappings = createEmptyMappings();
+    options = { ...options, styledElement: styleBackend.element };
+  }
+
   // 1. Resolve component name and root props
   const componentName = options?.componentName || toPascalCase(screen.name) || 'GeneratedComponent';
   const { props: rootProps } = extractProps(
@@ -153,17 +281,39 @@ export function generateComponent(
     undefined,
     { stopAtSemanticBoundaries: ['Component', 'Repeater'] }
   );
+
+  // Form mode: field values live in useForm instead of value/handler props
+  const form = options?.forms ? detectForm(screen.root, componentName) : null;
+  if (form) {
+    for (const field of form.fields) {
+      delete rootProps[field.name];
+      if (field.onChangeProp) delete rootProps[field.onChangeProp];
+    }
+  }
+
   const rootPropsList = Object.keys(rootProps);
+
+  // Component set: one optional prop per variant property, defaulting to the default variant
+  const variantProps = (screen.variantProps ?? []).filter(prop => !(prop.name in rootProps));
+  const usedVariantProps = collectUsedVariantProps(screen.root);
   
   // Generate props interface for the main component
   let rootPropsInterface = '';
   let rootPropsDestructure = '';
-  if (rootPropsList.length > 0) {
-    const propLines = Object.entries(rootProps).map(([name, config]: [string, any]) => {
-      const isOptional = isOptionalUnresolvedImageProp(config);
-      const type = config.type === 'image' ? 'ImageSourcePropType' : 'string';
-      return `  /** Default: "${config.defaultValue}" */\n  ${name}${isOptional ? '?' : ''}: ${type};`;
-    });
+  if (rootPropsList.length > 0 || form || variantProps.length > 0) {
+    const propLines = [
+      ...variantProps.map(prop => {
+        const type = prop.isBoolean ? 'boolean' : prop.options.map(quoteLiteral).join(' | ');
+        return `  /** Figma variant "${prop.figmaName}" (default: ${prop.defaultValue}) */\n  ${prop.name}?: ${type};`;
+      }),
+      ...Object.entries(rootProps).map(([name, config]: [string, any]) => {
+        const isOptional = isOptionalUnresolvedImageProp(config) || isBindingProp(config);
+        return `  /** ${propDocOf(config)} */\n  ${name}${isOptional ? '?' : ''}: ${propTypeOf(config)};`;
+      }),
+    ];
+    if (form) {
+      propLines.unshift(`  /** Called with the validated form values */\n  onSubmit: (values: ${form.valuesType}) => void;`);
+    }
     const interfaceName = `${componentName}Props`;
     rootPropsInterface = `interface ${interfaceName} {\n${propLines.join('\n')}\n}\n\n`;
     
@@ -180,12 +330,24 @@ export function generateComponent(
         }
         return name;
       }
+      if (config.type === 'boolean' || config.type === 'number') {
+        return `${name} = ${config.defaultValue}`;
+      }
       const defaultVal = config.defaultValue ? ` = "${config.defaultValue.replace(/"/g, '\\"')}"` : '';
       return `${name}${defaultVal}`;
     });
-    rootPropsDestructure = `{ ${destructureParts.join(', ')} }: ${interfaceName}`;
+    if (form) destructureParts.unshift('onSubmit');
+    // Variants without style overrides stay in the interface only (no unused variables)
+    destructureParts.unshift(...variantProps.filter(prop => usedVariantProps.has(prop.name)).map(prop =>
+      `${prop.name} = ${prop.isBoolean ? prop.defaultValue.toLowerCase() === 'true' : quoteLiteral(prop.defaultValue)}`
+    ));
+    rootPropsDestructure = destructureParts.length > 0
+      ? `{ ${destructureParts.join(', ')} }: ${interfaceName}`
+      : `_props: ${interfaceName}`;
   }
 
+  const themeModeSource = resolveThemeModeSource(options);
+
   // 2. Prepare list overrides and extras
   const jsxOverrides = new Map<string, string>();
   const listExtras = {
@@ -205,12 +367,14 @@ export function generateComponent(
     const { dataConstant, itemComponent, typeDefinition, itemComponentName } = generateRepeaterParts(repeater, screen.stylesBundle, mappings, options, listExtras.generatedComponentNames);
     listExtras.data.push(dataConstant);
     listExtras.types.push(typeDefinition);
-    listExtras.subComponents.push(itemComponent);
+    if (itemComponent) {
+      listExtras.subComponents.push(themeModeSource ? injectUseStyles(itemComponent) : itemComponent);
+    }
     listExtras.generatedComponentNames.add(itemComponentName);
   }
 
   // 7. Collect and generate sub-components
-  const components = collectComponents(screen.root);
+  const components = collectComponents(screen.root, options?.sharedComponents);
   let needsImageSourcePropType = false;
   const subComponentsCodeParts: string[] = [];
   
@@ -219,7 +383,8 @@ export function generateComponent(
     if (listExtras.generatedComponentNames.has(comp.componentName)) {
       continue;
     }
-    const code = generateSubComponent(comp, screen.stylesBundle, mappings, options);
+    let code = generateSubComponent(comp, screen.stylesBundle, mappings, options);
+    if (themeModeSource) code = injectUseStyles(code);
     if (code.includes('ImageSourcePropType')) {
       needsImageSourcePropType = true;
     }
@@ -233,6 +398,7 @@ export function generateComponent(
   const extraRNImports: string[] = [];
   if (listExtras.imports.has('FlatList')) extraRNImports.push('FlatList');
   if (needsImageSourcePropType) extraRNImports.push('ImageSourcePropType');
+  if (options?.navigationTargets) extraRNImports.push(...collectInteractionImports(screen.root));
   
   // Check if any generated code uses Pressable (semantic state components)
   const allSubComponentsCode = [...subComponentsCodeParts, ...listExtras.subComponents].join('\n');
@@ -240,10 +406,10 @@ export function generateComponent(
     extraRNImports.push('Pressable');
   }
   
-  // Check for SVG usage in paths
+  // Check for SVG usage in paths (converted icons import their own component)
   if (options?.imagePathMap) {
     for (const path of options.imagePathMap.values()) {
-      if (path.toLowerCase().endsWith('.svg')) {
+      if (path.toLowerCase().endsWith('.svg') && !options.svgComponents?.[path]) {
         extraRNImports.push('SvgIcon');
         break;
       }
@@ -261,6 +427,7 @@ export function generateComponent(
     hasProjectTheme: options.hasProjectTheme ?? false,
     scaleFunction: options.scaleFunction,
     scaleFunctionImportPath: options.scaleFunctionImportPath,
+    scaling: options.scaling,
   } : undefined;
 
   const imports = buildImports(screen.root, extraRNImports, screen.stylesBundle, importConfig);
@@ -273,8 +440,16 @@ export function generateComponent(
     jsxOverrides,
     screen.stylesBundle,
     mappings,
-    { availableProps: rootPropsList }
+    {
+      availableProps: rootPropsList,
+      form,
+      navigationTargets: options?.navigationTargets,
+      sharedComponents: options?.sharedComponents,
+      svgComponents: options?.svgComponents,
+      styledElement: options?.styledElement,
+    }
   );
+  const navigates = usesNavigation(jsx);
 
   // Fix #8: Extract used style names from ALL generated JSX (main + sub-components) for tree-shaking
   const usedStyles = new Set<string>();
@@ -294,8 +469,11 @@ export function generateComponent(
       usedStyles,
       suppressTodos: options?.suppressTodos,
       scaleFunction: options?.scaleFunction,
+      scaling: options?.scaling,
+      designWidth: options?.designWidth,
       stylePattern: options?.stylePattern,
       hasProjectTheme: options?.hasProjectTheme,
+      themeFactory: themeModeSource !== null,
     }
   );
 
@@ -342,6 +520,49 @@ export function generateComponent(
   // 6. Theme access is via useTheme() hook - no additional imports needed
   // Token paths are prefixed with 'theme.' (e.g., theme.spacing.md, theme.color.primary)
   let finalImports = imports;
+
+  // Style libraries: no StyleSheet when every style was translated
+  if (styleBackend && usedStyles.size === 0) {
+    finalStylesCode = '';
+  }
+
+  // Theme modes: styles are rebuilt whenever the active theme changes
+  if (themeModeSource) {
+    if (themeModeSource === 'generated') {
+      finalImports += `\nimport { useTheme, type Theme } from './tokens';`;
+    } else {
+      finalStylesCode = `type Theme = ReturnType<typeof useTheme>['theme'];\n\n${finalStylesCode}`;
+    }
+    finalStylesCode += `
+
+function useStyles() {
+  const { theme } = useTheme();
+  return React.useMemo(() => createStyles(theme), [theme]);
+}`;
+  }
+  
+  if (form) {
+    finalImports += `\n${buildFormImports()}`;
+  }
+
+  if (navigates) {
+    finalImports += `\n${buildNavigationImports()}`;
+  }
+
+  // Instances of components generated earlier import them instead of inlining a copy
+  const sharedComponents = Array.from(new Map(
+    Object.values(options?.sharedComponents ?? {}).map(shared => [shared.name, shared])
+  ).values()).filter(shared => new RegExp(`<${shared.name}[\\s/>]`).test(allGeneratedJSX));
+  if (sharedComponents.length > 0) {
+    finalImports += `\n${buildSharedComponentImports(sharedComponents)}`;
+  }
+
+  const iconComponents = [...new Set(Object.values(options?.svgComponents ?? {}))]
+    .filter(name => new RegExp(`<${name}[\\s/>]`).test(allGeneratedJSX))
+    .sort();
+  if (iconComponents.length > 0) {
+    finalImports += `\nimport { ${iconComponents.join(', ')} } from './assets/icons';`;
+  }
   
   // Add ImageSourcePropType to imports if needed by root props
   if (Object.values(rootProps).some((p: any) => p.type === 'image') && !finalImports.includes('ImageSourcePropType')) {
@@ -372,7 +593,7 @@ export function generateComponent(
   // 6. Styles
   
   const additionalTypes = listExtras.types.join('\n\n');
-  const additionalData = listExtras.data.join('\n\n');
+  const additionalData = [...(form ? [buildFormSchema(form)] : []), ...listExtras.data].join('\n\n');
   const renderItems = listExtras.renderItems.map(fn => fn.replace(/^ {2}/, '')).join('\n\n');
 
   // Determine if we need SafeAreaView wrapper
@@ -390,8 +611,9 @@ export function generateComponent(
     if (screen.safeAreaInsets?.right && screen.safeAreaInsets.right > 0) edges.push("'right'");
 
     const edgesAttr = edges.length > 0 ? ` edges={[${edges.join(', ')}]}` : '';
+    const safeAreaStyle = styleBackend ? '{ flex: 1 }' : 'styles.safeArea';
     bodyContent = `  return (
-    <SafeAreaView style={styles.safeArea}${edgesAttr}>
+    <SafeAreaView style={${safeAreaStyle}}${edgesAttr}>
 ${jsx}
     </SafeAreaView>
   );`;
@@ -399,9 +621,12 @@ ${jsx}
     bodyContent = `  return (\n${jsx}\n  );`;
   }
 
-  const themeHook = jsx.includes('theme.') && options?.hasProjectTheme
-    ? '  const { theme } = useTheme();\n\n'
-    : '';
+  const usesTheme = jsx.includes('theme.') && (options?.hasProjectTheme || themeModeSource === 'generated');
+  let themeHook = usesTheme ? '  const { theme } = useTheme();\n' : '';
+  if (themeModeSource) themeHook += '  const styles = useStyles();\n';
+  if (navigates) themeHook += buildNavigationHook();
+  if (form) themeHook += buildFormHook(form);
+  if (themeHook) themeHook += '\n';
 
   // Add SafeAreaView import if needed
   let safeAreaImport = '';
@@ -410,7 +635,7 @@ ${jsx}
   }
 
   // Add safeArea style if SafeAreaView is used
-  if (needsSafeArea) {
+  if (needsSafeArea && !styleBackend) {
     // Insert safeArea style at the beginning of the styles
     // Support both standard StyleSheet.create({ and Unistyles StyleSheet.create(theme => ({
     finalStylesCode = finalStylesCode.replace(
@@ -422,6 +647,27 @@ ${jsx}
     );
   }
 
+  // Styled components are declared next to the styles
+  const styledDeclarations = styleBackend?.declarations() ?? '';
+  const body = [rootPropsInterface, additionalData, bodyContent, allSubComponents, renderItems, styledDeclarations, finalStylesCode].join('\n');
+  if (styleBackend) {
+    // styled.View does not use the imported View
+    const tags = collectJSXTags(body);
+    const replaceable = ['View', 'Text', 'Image', 'ScrollView', 'TextInput', 'TouchableOpacity', 'Box', 'XStack', 'YStack'];
+    finalImports = pruneUnusedImports(finalImports, [
+      ...replaceable.filter(tag => !tags.has(tag)),
+      ...(finalStylesCode ? [] : ['StyleSheet']),
+      ...(styledDeclarations ? [] : ['styled']),
+      // Token references outside the styled declarations, which read the ThemeProvider theme
+      ...([bodyContent, allSubComponents, finalStylesCode].some(code => /(?<![\w.])theme\./.test(code)) ? [] : ['theme']),
+    ]);
+  }
+  // Scale functions of axes without scaled values
+  const scaling = options?.scaling;
+  const scaleFunctions = [scaling?.horizontal ?? options?.scaleFunction, scaling?.vertical, scaling?.moderate]
+    .filter((name): name is string => !!name);
+  finalImports = pruneUnusedImports(finalImports, scaleFunctions.filter(name => !new RegExp(`\\b${name}\\(`).test(finalStylesCode)));
+
   let code = `${finalImports}
 ${safeAreaImport}
 ${rootPropsInterface}
@@ -437,25 +683,30 @@ ${allSubComponents}
 
 ${renderItems}
 
+${styledDeclarations}
+
 ${finalStylesCode}
 `;
 
-  // Clean up extra double newlines
-  code = code.replace(/\n{3,}/g, '\n\n');
+  // Clean up extra double newlines (and the empty sections of style library output)
+  code = code.replace(/\n{3,}/g, '\n\n').replace(/\n+$/, '\n');
 
   return {
     code,
-    unmappedTokens: unmapped,
+    unmappedTokens: styleBackend?.unmapped ?? unmapped,
   };
 }
 
 /**
  * Collect all unique Component nodes from the tree
  */
-function collectComponents(root: IRNode): ComponentIR[] {
+function collectComponents(root: IRNode, shared?: SharedComponents): ComponentIR[] {
   const components = new Map<string, { component: ComponentIR; depth: number }>();
 
   function walk(node: IRNode, depth: number) {
+    // Imported from .figma/components: neither it nor its nested instances are generated here
+    if (node.semanticType === 'Component' && shared?.[node.componentId]) return;
+
     if (node.semanticType === 'Component') {
       // Use componentName as key to deduplicate
       if (!components.has(node.componentName)) {
@@ -545,8 +796,22 @@ function generateRepeaterParts(
   }
   repeater.dataPropName = dataConstantName;
 
-  // 1. Identify dynamic fields by comparing children
+  // Items are instances of a component generated earlier: only their data stays here
   const template = repeater.children[0];
+  const sharedId = template?.semanticType === 'Component' ? template.componentId : undefined;
+  const shared = sharedId ? options?.sharedComponents?.[sharedId] : undefined;
+  if (shared && repeater.children.every(child => child.semanticType === 'Component' && child.componentId === sharedId)) {
+    repeater.itemComponentName = shared.name;
+    const sharedItems = repeater.children.map(child => getSharedComponentProps(child as ComponentIR, shared));
+    return {
+      dataConstant: `const ${dataConstantName} = ${JSON.stringify(sharedItems, null, 2)};`,
+      itemComponent: null,
+      typeDefinition: '',
+      itemComponentName: shared.name,
+    };
+  }
+
+  // 1. Identify dynamic fields by comparing children
   const variations = mergePropsVariations(repeater.children, stylesBundle, mappings);
   
   // 2. Detect semantic state (e.g., 1-of-N = isSelected)
@@ -694,7 +959,7 @@ function generateSubComponent(
   options?: GenerationOptions
 ): string {
   const filterUnusedProps = (
-    extractedProps: Record<string, { type: 'string' | 'image' | 'style'; value: string; defaultValue: string; property?: string }>,
+    extractedProps: Record<string, PropDefinition>,
     jsx: string
   ) => {
     const filteredEntries = Object.entries(extractedProps).filter(([name]) => {
@@ -825,6 +1090,9 @@ function generateSubComponent(
       stateProp: statePropName,
       selectedStyleSuffix: 'Selected',
       availableProps: [...Object.keys(extractedProps), ...propNames, statePropName, 'onPress'],
+      sharedComponents: options?.sharedComponents,
+      svgComponents: options?.svgComponents,
+      styledElement: options?.styledElement,
       rootProps: [
         'onPress={onPress}',
         'accessibilityRole="button"',
@@ -850,17 +1118,20 @@ ${jsx}
     undefined,
     stylesBundle,
     mappings,
-    { availableProps: Object.keys(extractedProps) }
+    {
+      availableProps: Object.keys(extractedProps),
+      sharedComponents: options?.sharedComponents,
+      svgComponents: options?.svgComponents,
+      styledElement: options?.styledElement,
+    }
   );
   const filteredProps = filterUnusedProps(extractedProps, jsx);
   component.props = filteredProps;
 
   if (Object.keys(filteredProps).length > 0) {
     const propLines = Object.entries(filteredProps).map(([name, config]: [string, any]) => {
-      const isOptional = isOptionalUnresolvedImageProp(config);
-      const type = (config.type === 'image' || config.type === 'style') ? (config.type === 'image' ? 'ImageSourcePropType' : 'string') : 'string';
-      const typeDoc = config.type === 'style' ? `Visual property: ${config.property}` : `Default: "${config.defaultValue}"`;
-      return `  /** ${typeDoc} */\n  ${name}${isOptional ? '?' : ''}: ${type};`;
+      const isOptional = isOptionalUnresolvedImageProp(config) || isBindingProp(config);
+      return `  /** ${propDocOf(config)} */\n  ${name}${isOptional ? '?' : ''}: ${propTypeOf(config)};`;
     });
     
     const interfaceName = `${component.componentName}Props`;
@@ -878,6 +1149,9 @@ ${jsx}
         }
         return name;
       }
+      if (config.type === 'boolean' || config.type === 'number') {
+        return `${name} = ${config.defaultValue}`;
+      }
       const defaultVal = config.defaultValue ? ` = "${config.defaultValue.replace(/"/g, '\\"')}"` : '';
       return `${name}${defaultVal}`;
     });
@@ -1005,7 +1279,9 @@ export function generateComponentMultiFile(
   const tokensResult = generateTokensIfNeeded(
     screen.stylesBundle.tokens,
     hasProjectTheme,
-    outputDir
+    outputDir,
+    options?.modeThemes,
+    options?.stylePattern
   );
   if (tokensResult) {
     tokens = {
@@ -1042,9 +1318,7 @@ function generateExtractedComponent(
 
   // Generate props interface
   const propLines = Object.entries(extractedProps).map(([name, config]: [string, any]) => {
-    const type = (config.type === 'image' || config.type === 'style') ? (config.type === 'image' ? 'ImageSourcePropType' : 'string') : 'string';
-    const typeDoc = config.type === 'style' ? `Visual property: ${config.property}` : `Default: "${config.defaultValue}"`;
-    return `  /** ${typeDoc} */\n  ${name}?: ${type};`;
+    return `  /** ${propDocOf(config)} */\n  ${name}?: ${propTypeOf(config)};`;
   });
 
   const propsInterface = propLines.length > 0
@@ -0,0 +1,140 @@
+/**
+ * Flow Builder - React Navigation navigator, param list and barrel for a
+ * flow of generated screens
+ */
+
+import type { IRNode, NodeInteraction } from '../types.js';
+
+/**
+ * Navigator flavour of a flow
+ */
+export type NavigatorKind = 'stack' | 'tabs';
+
+/**
+ * Prototype link between two frames of a flow
+ */
+export interface FlowEdge {
+  /** Route of the screen the link starts on */
+  from: string;
+  /** Route of the destination screen */
+  to: string;
+  action: 'navigate' | 'overlay';
+}
+
+/**
+ * Screen registered in the navigator
+ */
+export interface FlowScreen {
+  /** Route name, also the exported component name */
+  route: string;
+  /** Import path of the screen module relative to the flow folder */
+  importPath: string;
+}
+
+/**
+ * Everything needed to emit the flow files
+ */
+export interface FlowSpec {
+  /** Flow name (e.g., "Auth" → AuthNavigator) */
+  name: string;
+  kind: NavigatorKind;
+  screens: FlowScreen[];
+  edges: FlowEdge[];
+}
+
+/**
+ * Navigate/overlay interactions with a destination anywhere in the tree
+ * Unlike handler rendering, Component subtrees count: a link is a link.
+ */
+export function collectNavigationInteractions(root: IRNode): NodeInteraction[] {
+  const interactions: NodeInteraction[] = [];
+
+  const walk = (node: IRNode) => {
+    const { interaction } = node;
+    if (interaction?.destinationId && (interaction.action === 'navigate' || interaction.action === 'overlay')) {
+      interactions.push(interaction);
+    }
+    if ('children' in node && node.children) {
+      node.children.forEach(walk);
+    }
+  };
+  walk(root);
+
+  return interactions;
+}
+
+/**
+ * Entry screen: the first screen no other screen links to
+ * Falls back to the first screen when every screen has an incoming link.
+ */
+export function findInitialRoute(spec: FlowSpec): string | undefined {
+  const targets = new Set(spec.edges.filter(edge => edge.from !== edge.to).map(edge => edge.to));
+  return spec.screens.find(screen => !targets.has(screen.route))?.route ?? spec.screens[0]?.route;
+}
+
+/**
+ * Screens only reached through overlay actions open as modals in a stack
+ */
+function isOverlayOnly(route: string, edges: FlowEdge[]): boolean {
+  const incoming = edges.filter(edge => edge.to === route);
+  return incoming.length > 0 && incoming.every(edge => edge.action === 'overlay');
+}
+
+/**
+ * Navigator component file
+ */
+export function buildNavigatorFile(spec: FlowSpec): string {
+  const isStack = spec.kind === 'stack';
+  const navigator = isStack ? 'Stack' : 'Tab';
+  const factoryImport = isStack
+    ? "import { createNativeStackNavigator } from '@react-navigation/native-stack';"
+    : "import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';";
+  const factory = isStack ? 'createNativeStackNavigator' : 'createBottomTabNavigator';
+  const initialRoute = findInitialRoute(spec);
+
+  const screenImports = spec.screens.map(screen => `import { ${screen.route} } from '${screen.importPath}';`);
+  const screenLines = spec.screens.map(screen => {
+    const options = isStack && isOverlayOnly(screen.route, spec.edges) ? " options={{ presentation: 'modal' }}" : '';
+    return `      <${navigator}.Screen name="${screen.route}" component={${screen.route}}${options} />`;
+  });
+  const initialProp = initialRoute ? ` initialRouteName="${initialRoute}"` : '';
+
+  return `import React from 'react';
+${factoryImport}
+import type { RootStackParamList } from './types';
+${screenImports.join('\n')}
+
+const ${navigator} = ${factory}<RootStackParamList>();
+
+export function ${spec.name}Navigator() {
+  return (
+    <${navigator}.Navigator${initialProp}>
+${screenLines.join('\n')}
+    </${navigator}.Navigator>
+  );
+}
+`;
+}
+
+/**
+ * Param list type: one route per screen, none of them takes params
+ */
+export function buildParamListFile(spec: FlowSpec): string {
+  const routes = spec.screens.map(screen => `  ${screen.route}: undefined;`);
+  return `export type RootStackParamList = {
+${routes.join('\n')}
+};
+`;
+}
+
+/**
+ * Barrel re-exporting the navigator, the param list and every screen
+ */
+export function buildFlowIndex(spec: FlowSpec): string {
+  const lines = [
+    `export { ${spec.name}Navigator } from './navigator';`,
+    "export type { RootStackParamList } from './types';",
+    ...spec.screens.map(screen => `export { ${screen.route} } from '${screen.importPath}';`),
+  ];
+  return `${lines.join('\n')}\n`;
+}
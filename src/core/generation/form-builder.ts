@@ -0,0 +1,190 @@
+/**
+ * Form Builder - react-hook-form + zod setup for screens with input fields
+ * and a primary submit button
+ */
+
+import type { IRNode, InputIR, ButtonIR, TextIR } from '../types.js';
+import { toValidIdentifier } from './utils.js';
+
+/** Minimum number of inputs that make a screen a form */
+const MIN_FORM_FIELDS = 2;
+
+/** Required markers in labels and placeholders ("Email *", "Name (required)") */
+const REQUIRED_MARKER = /\*|\brequired\b|обязательн/i;
+
+/**
+ * Single form field bound to an Input node
+ */
+export interface FormField {
+  /** Form value key (the Input's value prop name) */
+  name: string;
+  inputId: string;
+  /** Human-readable label without required markers */
+  label: string;
+  required: boolean;
+  /** Change handler prop the form replaces */
+  onChangeProp?: string;
+  /** zod schema expression for the value */
+  schema: string;
+}
+
+/**
+ * Detected form: fields, submit button and generated identifiers
+ */
+export interface FormSpec {
+  fields: FormField[];
+  submitId: string;
+  submitLabel: string;
+  /** Schema constant name (e.g., "loginSchema") */
+  schemaName: string;
+  /** Inferred values type name (e.g., "LoginFormValues") */
+  valuesType: string;
+}
+
+interface FieldCandidate {
+  input: InputIR;
+  /** Text placed right above the field */
+  label?: string;
+}
+
+/**
+ * Collect inputs (with the Text sibling preceding each) and primary buttons
+ * Stops at Component/Repeater boundaries, which render their own props.
+ */
+function collectFormNodes(node: IRNode, fields: FieldCandidate[], buttons: ButtonIR[]): void {
+  if (node.semanticType === 'Input') {
+    fields.push({ input: node as InputIR });
+    return;
+  }
+  if (node.semanticType === 'Button') {
+    if ((node as ButtonIR).variant === 'primary') buttons.push(node as ButtonIR);
+    return;
+  }
+  if (node.semanticType === 'Component' || node.semanticType === 'Repeater') {
+    return;
+  }
+
+  const children = 'children' in node && node.children ? node.children : [];
+  children.forEach((child, index) => {
+    const before = fields.length;
+    collectFormNodes(child, fields, buttons);
+
+    const previous = children[index - 1];
+    if (child.semanticType === 'Input' && fields.length > before && previous?.semanticType === 'Text') {
+      fields[fields.length - 1].label = (previous as TextIR).text;
+    }
+  });
+}
+
+/**
+ * Label text without required markers and a trailing colon
+ */
+function stripRequiredMarker(text: string): string {
+  return text.replace(/\*|\(?(required|обязательн\S*)\)?|:\s*$/gi, '').trim();
+}
+
+/**
+ * zod expression for a field, picked from the keyboard hints of its Input
+ */
+function inferFieldSchema(input: InputIR, label: string, required: boolean): string {
+  const requiredCheck = `.min(1, '${label.replace(/'/g, "\\'")} is required')`;
+
+  let rule = '';
+  if (input.keyboardType === 'email-address') {
+    rule = ".email('Invalid email')";
+  } else if (input.keyboardType === 'phone-pad') {
+    rule = ".regex(/^\\+?[\\d\\s()-]{7,}$/, 'Invalid phone number')";
+  } else if (input.keyboardType === 'number-pad') {
+    rule = ".regex(/^\\d+$/, 'Digits only')";
+  } else if (input.keyboardType === 'decimal-pad') {
+    rule = ".regex(/^\\d+([.,]\\d+)?$/, 'Enter a number')";
+  } else if (input.keyboardType === 'url') {
+    rule = ".url('Invalid URL')";
+  }
+
+  if (required) return `z.string()${requiredCheck}${rule}`;
+  // Optional fields start empty, so an empty string must pass the format check
+  return rule ? `z.string()${rule}.or(z.literal(''))` : 'z.string()';
+}
+
+/**
+ * Detect a form in the screen tree
+ *
+ * A form is at least two Input fields plus a primary Button (the last one
+ * wins, submit buttons close the form). Required fields carry a "*" or
+ * "required" marker; when no field is marked, every field is required.
+ * Inputs must have their value prop assigned (extractProps) beforehand.
+ */
+export function detectForm(root: IRNode, componentName: string): FormSpec | null {
+  const candidates: FieldCandidate[] = [];
+  const buttons: ButtonIR[] = [];
+  collectFormNodes(root, candidates, buttons);
+
+  const submit = buttons[buttons.length - 1];
+  const inputs = candidates.filter(candidate => candidate.input.propName);
+  if (!submit || inputs.length < MIN_FORM_FIELDS) {
+    return null;
+  }
+
+  const isMarked = ({ input, label }: FieldCandidate) =>
+    REQUIRED_MARKER.test(label ?? '') || REQUIRED_MARKER.test(input.placeholder);
+  const anyMarked = inputs.some(isMarked);
+
+  const fields = inputs.map((candidate): FormField => {
+    const { input } = candidate;
+    // Text above the field, then its placeholder ("Email *" → "Email"), then the layer name
+    const label = stripRequiredMarker(candidate.label ?? '') || stripRequiredMarker(input.placeholder) || input.name;
+    const required = anyMarked ? isMarked(candidate) : true;
+    return {
+      name: input.propName!,
+      inputId: input.id,
+      label,
+      required,
+      onChangeProp: input.onChangeProp,
+      schema: inferFieldSchema(input, label, required),
+    };
+  });
+
+  return {
+    fields,
+    submitId: submit.id,
+    submitLabel: submit.label,
+    schemaName: `${toValidIdentifier(componentName)}Schema`,
+    valuesType: `${componentName}FormValues`,
+  };
+}
+
+/**
+ * Imports used by the generated form code
+ */
+export function buildFormImports(): string {
+  return [
+    "import { Controller, useForm } from 'react-hook-form';",
+    "import { zodResolver } from '@hookform/resolvers/zod';",
+    "import { z } from 'zod';",
+  ].join('\n');
+}
+
+/**
+ * zod schema constant and the values type inferred from it
+ */
+export function buildFormSchema(form: FormSpec): string {
+  const lines = form.fields.map(field => `  ${field.name}: ${field.schema},`);
+  return `const ${form.schemaName} = z.object({
+${lines.join('\n')}
+});
+
+export type ${form.valuesType} = z.infer<typeof ${form.schemaName}>;`;
+}
+
+/**
+ * useForm setup placed at the top of the component body
+ */
+export function buildFormHook(form: FormSpec): string {
+  const defaults = form.fields.map(field => `${field.name}: ''`).join(', ');
+  return `  const { control, handleSubmit } = useForm<${form.valuesType}>({
+    resolver: zodResolver(${form.schemaName}),
+    defaultValues: { ${defaults} },
+  });
+`;
+}
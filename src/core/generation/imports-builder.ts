@@ -3,7 +3,7 @@
  * Uses discovered project config for hook and theme imports
  */
 
-import type { IRNode, StylesBundle } from '../types.js';
+import type { IRNode, InputIR, ControlIR, ControlKind, StylesBundle, StylePattern, ScalingStrategy } from '../types.js';
 
 /**
  * Configuration for import generation
@@ -19,14 +19,76 @@ export interface ImportConfig {
   themeImportIsDefault?: boolean;
   /** Export name to import for the theme module */
   themeImportName?: string;
-  /** Style pattern: useTheme uses hooks, StyleSheet uses direct imports, unistyles uses react-native-unistyles */
-  stylePattern: 'useTheme' | 'StyleSheet' | 'unistyles';
+  /**
+   * Style pattern: useTheme uses hooks, StyleSheet uses direct imports, unistyles uses react-native-unistyles,
+   * nativewind uses className, restyle / tamagui / styled-components use the library's components
+   */
+  stylePattern: StylePattern;
   /** Has project theme tokens */
   hasProjectTheme: boolean;
   /** Scaling function name */
   scaleFunction?: string;
   /** Scaling function import path */
   scaleFunctionImportPath?: string;
+  /** Scale functions by axis, imported from scaleFunctionImportPath */
+  scaling?: ScalingStrategy;
+}
+
+/**
+ * Figma component property value → prop of a mapped project component
+ */
+export interface SharedPropMapping {
+  prop: string;
+  /** Figma value → prop value; unmapped values pass through */
+  values?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Component imported by screens instead of inlining another copy of its instances:
+ * generated earlier into .figma/components, or an existing project component
+ * mapped in the config
+ */
+export interface SharedComponent {
+  /** Exported component name */
+  name: string;
+  /** Import path relative to the generated file, or a module path */
+  importPath: string;
+  /** String props; instances pass their texts */
+  props?: string[];
+  /** Variant props of a component set: Figma property → prop name */
+  variantProps?: Record<string, string>;
+  /** Mapped project component: Figma property (without the #id suffix) → prop; replaces props and variantProps */
+  propMappings?: Record<string, SharedPropMapping>;
+}
+
+/**
+ * Shared components by Figma component ID
+ */
+export type SharedComponents = Record<string, SharedComponent>;
+
+/**
+ * Relative import path between two folders of the project ('/'-separated)
+ *
+ * @example resolveComponentImportPath('.figma/screens/Home', '.figma/components/ListItem') → '../../components/ListItem'
+ */
+export function resolveComponentImportPath(fromFolder: string, toFolder: string): string {
+  const from = fromFolder.split(/[\\/]/).filter(Boolean);
+  const to = toFolder.split(/[\\/]/).filter(Boolean);
+  let common = 0;
+  while (common < from.length && common < to.length && from[common] === to[common]) {
+    common++;
+  }
+  const path = [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+  return path.startsWith('..') ? path : `./${path}`;
+}
+
+/**
+ * Import statements of the shared components a file renders
+ */
+export function buildSharedComponentImports(components: SharedComponent[]): string {
+  return components
+    .map(component => `import { ${component.name} } from '${component.importPath}';`)
+    .join('\n');
 }
 
 /**
@@ -62,6 +124,28 @@ function collectComponents(node: IRNode, set: Set<string>): void {
         set.add('Text');
       }
       break;
+    case 'Input': {
+      // The placeholder Text is rendered as the TextInput itself
+      const others = children.filter(child => child.id !== (node as InputIR).placeholderId);
+      set.add('TextInput');
+      if (others.length > 0) {
+        set.add('View');
+      }
+      for (const child of others) {
+        collectComponents(child, set);
+      }
+      return;
+    }
+    case 'Control': {
+      // CheckBox and Slider come from community packages (see collectControlKinds)
+      const control = (node as ControlIR).control;
+      if (children.length > 0) set.add('View');
+      if (control === 'switch') set.add('Switch');
+      if (control === 'radio') set.add('Pressable').add('View');
+      if (control === 'stepper') set.add('TouchableOpacity').add('Text').add('View');
+      if (control === 'rating') set.add('Pressable').add('Text').add('View');
+      break;
+    }
     case 'Component':
       set.add('View');
       break;
@@ -89,6 +173,34 @@ function hasGradients(node: IRNode, stylesBundle?: StylesBundle): boolean {
   return false;
 }
 
+/**
+ * Check if any container in tree has a background blur (rendered with BlurView)
+ */
+function hasBackgroundBlur(node: IRNode, stylesBundle?: StylesBundle): boolean {
+  if (stylesBundle && (node.semanticType === 'Container' || node.semanticType === 'Card')) {
+    const style = stylesBundle.styles[node.styleRef];
+    if (style?.backgroundBlur && !style.backgroundGradient) return true;
+  }
+
+  if ('children' in node && node.children) {
+    return node.children.some(child => hasBackgroundBlur(child, stylesBundle));
+  }
+  return false;
+}
+
+/**
+ * Collect control kinds used in the tree
+ */
+function collectControlKinds(node: IRNode, set: Set<ControlKind>): Set<ControlKind> {
+  if (node.semanticType === 'Control') {
+    set.add((node as ControlIR).control);
+  }
+  if ('children' in node && node.children) {
+    node.children.forEach(child => collectControlKinds(child, set));
+  }
+  return set;
+}
+
 /**
  * Generate theme/hook import based on config
  */
@@ -115,15 +227,23 @@ function generateThemeImport(config: ImportConfig): string | null {
   } else if (config.hasProjectTheme) {
     imports.push('// TODO: Wire a theme import for mapped theme tokens.');
   }
-
-  // 3. Scaling function import
-  if (config.scaleFunction && config.scaleFunctionImportPath) {
-    imports.push(`import { ${config.scaleFunction} } from '${config.scaleFunctionImportPath}';`);
-  }
   
   return imports.join('\n');
 }
 
+/**
+ * Scaling function import (one name per axis), with or without a project theme
+ */
+function generateScaleImport(config: ImportConfig): string | null {
+  const scaleFunctions = [...new Set([
+    config.scaling?.horizontal ?? config.scaleFunction,
+    config.scaling?.vertical,
+    config.scaling?.moderate,
+  ].filter(Boolean))];
+  if (scaleFunctions.length === 0 || !config.scaleFunctionImportPath) return null;
+  return `import { ${scaleFunctions.join(', ')} } from '${config.scaleFunctionImportPath}';`;
+}
+
 /**
  * Build import statements from IR tree
  */
@@ -146,6 +266,14 @@ export function buildImports(
     rnComponents.delete('StyleSheet');
   }
 
+  // Restyle and Tamagui render every Text through their own Text (it still takes style)
+  const libraryComponents: string[] = [];
+  if (config?.stylePattern === 'restyle' || config?.stylePattern === 'tamagui') {
+    libraryComponents.push(...(config.stylePattern === 'restyle' ? ['Box'] : ['XStack', 'YStack']));
+    if (rnComponents.delete('Text')) libraryComponents.push('Text');
+    libraryComponents.sort();
+  }
+
   const sorted = Array.from(rnComponents).sort();
 
   const lines = [
@@ -162,11 +290,33 @@ export function buildImports(
     lines.push(`import { StyleSheet } from 'react-native-unistyles';`);
   }
 
+  // Style libraries: unused components are dropped once the JSX is rewritten
+  if (config?.stylePattern === 'tamagui') {
+    lines.push(`import { ${libraryComponents.join(', ')} } from 'tamagui';`);
+  }
+  if (config?.stylePattern === 'styled-components') {
+    lines.push(`import styled from 'styled-components/native';`);
+  }
+
   // Add LinearGradient if needed
   if (hasGradients(root, stylesBundle)) {
     lines.push(`import { LinearGradient } from 'expo-linear-gradient';`);
   }
 
+  // Add BlurView if needed
+  if (hasBackgroundBlur(root, stylesBundle)) {
+    lines.push(`import { BlurView } from '@react-native-community/blur';`);
+  }
+
+  // Controls without a react-native core component
+  const controlKinds = collectControlKinds(root, new Set());
+  if (controlKinds.has('checkbox')) {
+    lines.push(`import CheckBox from '@react-native-community/checkbox';`);
+  }
+  if (controlKinds.has('slider')) {
+    lines.push(`import Slider from '@react-native-community/slider';`);
+  }
+
   // Add theme/hook import based on config
   // Skip for Unistyles - theme is injected via StyleSheet.create callback
   if (config && !isUnistyles) {
@@ -176,15 +326,28 @@ export function buildImports(
     }
   }
 
+  const scaleImport = config && generateScaleImport(config);
+  if (scaleImport) {
+    lines.push(scaleImport);
+  }
+
   // Add SvgIcon if needed (checking extraImports or manually here)
-  if (rnComponents.has('SvgIcon')) {
-    // SvgIcon is likely a custom component in the project
-    // We remove it from RN imports and add it as a separate import
-    rnComponents.delete('SvgIcon');
+  // SvgIcon is likely a custom component in the project
+  // We remove it from RN imports and add it as a separate import
+  const hasSvgIcon = rnComponents.delete('SvgIcon');
+  if (hasSvgIcon) {
     const sortedRN = Array.from(rnComponents).sort();
     lines[1] = `import { ${sortedRN.join(', ')} } from 'react-native';`;
+  }
+
+  // Project components: SvgIcon, and the Restyle components created from the theme
+  const projectComponents = [
+    ...(hasSvgIcon ? ['SvgIcon'] : []),
+    ...(config?.stylePattern === 'restyle' ? libraryComponents : []),
+  ].sort();
+  if (projectComponents.length > 0) {
     const prefix = config?.importPrefix || '@app';
-    lines.push(`import { SvgIcon } from '${prefix}/components';`);
+    lines.push(`import { ${projectComponents.join(', ')} } from '${prefix}/components';`);
   }
 
   return lines.join('\n');
@@ -15,16 +15,47 @@ export type {
 } from './component-builder.js';
 
 // Individual builders (for advanced use cases)
-export { buildImports } from './imports-builder.js';
+export { buildImports, resolveComponentImportPath, buildSharedComponentImports } from './imports-builder.js';
+export type { SharedComponent, SharedComponents, SharedPropMapping } from './imports-builder.js';
 export { buildJSX, collectStyleNames } from './jsx-builder.js';
 export { buildStyles } from './styles-builder.js';
+export { createStyleBackend, isStyleBackend } from './style-backends.js';
+export type { StyleBackend } from './style-backends.js';
+export type { StyledElement, StyledElementResolver } from './jsx-builder.js';
+export { buildSvgComponent, buildIconsIndex } from './svg-component-builder.js';
+export type { SvgComponentSource } from './svg-component-builder.js';
+
+// Form generation
+export { detectForm } from './form-builder.js';
+export type { FormSpec, FormField } from './form-builder.js';
+
+// Navigation wiring
+export { buildInteractionHandler } from './navigation-builder.js';
+export type { NavigationTargets } from './navigation-builder.js';
+
+// Flow navigator files
+export {
+  buildNavigatorFile,
+  buildParamListFile,
+  buildFlowIndex,
+  collectNavigationInteractions,
+  findInitialRoute,
+} from './flow-builder.js';
+export type { FlowSpec, FlowScreen, FlowEdge, NavigatorKind } from './flow-builder.js';
 
 // List generation
 export { generateFlatList, generateItemComponent } from './list-generator.js';
 export type { FlatListResult } from './list-generator.js';
 
 // Token generation
-export { generateTokensFile, generateTokensIfNeeded } from './tokens-generator.js';
+export {
+  generateTokensFile,
+  generateModeThemesFile,
+  generateTokensIfNeeded,
+  mergeDesignTokens,
+  generateDtcgTokens,
+  generateStyleDictionarySource,
+} from './tokens-generator.js';
 export type { TokensGenerationResult } from './tokens-generator.js';
 
 // Utilities
@@ -3,10 +3,13 @@
  * Includes accessibility props for production-ready components
  */
 
-import type { IRNode, IconIR, ImageIR, StylesBundle, ExtractedStyle, RepeaterIR, ButtonIR, ComponentIR } from '../types.js';
+import type { IRNode, IconIR, ImageIR, StylesBundle, ExtractedStyle, RepeaterIR, ButtonIR, InputIR, ControlIR, ComponentIR, TextIR, TextRunIR } from '../types.js';
 import type { TokenMappings } from '../mapping/token-matcher.js';
 import { escapeJSXText } from './utils.js';
 import { mapColor } from './styles-builder.js';
+import type { FormSpec } from './form-builder.js';
+import { buildInteractionHandler, type NavigationTargets } from './navigation-builder.js';
+import type { SharedComponent, SharedComponents } from './imports-builder.js';
 
 /** Minimum touch target size for comfortable interaction */
 const MIN_TOUCH_TARGET = 44;
@@ -21,16 +24,135 @@ function deriveStyleName(node: IRNode): string {
 }
 
 /**
- * Generate the style attribute, merging static and dynamic styles if needed
+ * Conditional entries of the component set variants overriding a style
+ * (size === 'L' && styles.buttonSizeL)
  */
-function getStyleAttribute(node: IRNode, styleName: string): string {
+function getVariantStyleEntries(node: IRNode, styleName: string): string[] {
+  return (node.variantStyles?.[styleName] ?? []).map(({ prop, value, styleRef }) => {
+    if (typeof value === 'boolean') {
+      return `${value ? '' : '!'}${prop} && styles.${styleRef}`;
+    }
+    return `${prop} === '${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}' && styles.${styleRef}`;
+  });
+}
+
+/**
+ * Style expression with the component set variant overrides only
+ */
+function getVariantStyleValue(node: IRNode, styleName: string): string {
+  const variants = getVariantStyleEntries(node, styleName);
+  return variants.length > 0 ? `[styles.${styleName}, ${variants.join(', ')}]` : `styles.${styleName}`;
+}
+
+/**
+ * Generate the style expression, merging static and dynamic styles if needed
+ */
+function getStyleValue(node: IRNode, styleName: string): string {
+  const variants = getVariantStyleEntries(node, styleName);
   if (node.styleProps) {
     const overrides = Object.entries(node.styleProps)
       .map(([prop, name]) => `${prop}: ${name}`)
       .join(', ');
-    return `style={[styles.${styleName}, { ${overrides} }]}`;
+    return `[${[`styles.${styleName}`, ...variants, `{ ${overrides} }`].join(', ')}]`;
   }
-  return `style={styles.${styleName}}`;
+  return getVariantStyleValue(node, styleName);
+}
+
+/**
+ * Element a style library renders for plain style references: its tag and
+ * the attributes replacing `style={styles.x}` ('' drops the attribute)
+ */
+export interface StyledElement {
+  tag: string;
+  attributes: string;
+}
+
+/**
+ * Style library element for a tag and its style names (later ones win, as in
+ * a style array); null keeps the StyleSheet reference
+ */
+export type StyledElementResolver = (tag: string, styleNames: string[]) => StyledElement | null;
+
+/**
+ * Tag and style attribute of an element
+ * Plain style references (`styles.x`, `[styles.x, styles.y]`) go to the style library
+ * when one is set; conditional styles (variants, selected states) and inline
+ * overrides keep their StyleSheet reference.
+ */
+function resolveStyledElement(tag: string, styleValue: string, options?: BuildJSXOptions): StyledElement {
+  const references = /^styles\.\w+$/.test(styleValue)
+    ? styleValue
+    : /^\[(styles\.\w+(?:, styles\.\w+)*)\]$/.exec(styleValue)?.[1];
+  const styleNames = references?.split(', ').map(reference => reference.slice('styles.'.length));
+  const styled = styleNames ? options?.styledElement?.(tag, styleNames) : null;
+  return styled ?? { tag, attributes: `style={${styleValue}}` };
+}
+
+/**
+ * Attributes of an opening tag on one line (leading space, '' when empty)
+ */
+function inlineAttributes(...attributes: string[]): string {
+  return attributes.filter(Boolean).map(attribute => ` ${attribute}`).join('');
+}
+
+/**
+ * JSX attribute with a literal string value
+ */
+function stringAttribute(name: string, value: string): string {
+  return /["{}\n]/.test(value) ? `${name}={${JSON.stringify(value)}}` : `${name}="${value}"`;
+}
+
+/**
+ * Element rendering an exported asset: its icon component when the SVG was
+ * converted (no source), otherwise SvgIcon / Image with a require()
+ */
+function getAssetElement(path: string, options?: BuildJSXOptions): { component: string; source?: string } {
+  const iconComponent = options?.svgComponents?.[path];
+  if (iconComponent) {
+    return { component: iconComponent };
+  }
+  return { component: path.toLowerCase().endsWith('.svg') ? 'SvgIcon' : 'Image', source: `require('${path}')` };
+}
+
+/**
+ * Props a shared component instance passes: variant values, then texts the component takes as props
+ * Mapped project components take their props from the instance's Figma properties instead.
+ */
+export function getSharedComponentProps(comp: ComponentIR, shared: SharedComponent): Record<string, string | number | boolean> {
+  const props: Record<string, string | number | boolean> = {};
+
+  if (shared.propMappings) {
+    for (const [key, value] of Object.entries(comp.componentProps ?? {})) {
+      const mapping = shared.propMappings[key.replace(/#.*$/, '').trim()];
+      if (!mapping) continue;
+      props[mapping.prop] = mapping.values?.[value]
+        ?? (/^(true|false)$/i.test(value) ? value.toLowerCase() === 'true' : value);
+    }
+    return props;
+  }
+
+  for (const [figmaName, propName] of Object.entries(shared.variantProps ?? {})) {
+    const value = comp.componentProps?.[figmaName];
+    if (value === undefined) continue;
+    props[propName] = /^(true|false)$/i.test(value) ? value.toLowerCase() === 'true' : value;
+  }
+
+  for (const [propName, prop] of Object.entries(comp.props ?? {})) {
+    if (prop.type === 'string' && shared.props?.includes(propName)) {
+      props[propName] = prop.defaultValue;
+    }
+  }
+
+  return props;
+}
+
+/**
+ * JSX attributes of a shared component instance
+ */
+function buildSharedComponentAttributes(comp: ComponentIR, shared: SharedComponent): string[] {
+  return Object.entries(getSharedComponentProps(comp, shared)).map(([name, value]) =>
+    typeof value === 'string' ? stringAttribute(name, value) : `${name}={${value}}`
+  );
 }
 
 /**
@@ -146,6 +268,190 @@ ${spaces}  start={{ x: ${start.x.toFixed(2)}, y: ${start.y.toFixed(2)} }}
 ${spaces}  end={{ x: ${end.x.toFixed(2)}, y: ${end.y.toFixed(2)} }}`;
 }
 
+/**
+ * Generate BlurView props for a background blur
+ * Dark translucent backgrounds get the dark material, everything else light.
+ */
+function buildBlurProps(style: ExtractedStyle, spaces: string): string {
+  const hex = style.backgroundColor?.replace('#', '') ?? '';
+  let blurType = 'light';
+  if (hex.length >= 6) {
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+    if (0.2126 * r + 0.7152 * g + 0.0722 * b < 0.5) blurType = 'dark';
+  }
+
+  return `${spaces}  blurType="${blurType}"
+${spaces}  blurAmount={${Math.round(style.backgroundBlur ?? 0)}}`;
+}
+
+/**
+ * Expressions a TextInput is bound to (component props or a form Controller field)
+ */
+interface InputBinding {
+  value: string;
+  onChangeText: string;
+  onBlur?: string;
+}
+
+/**
+ * Generate TextInput attribute lines: bound value, placeholder and keyboard hints
+ */
+function buildInputProps(
+  input: InputIR,
+  spaces: string,
+  binding: InputBinding | null,
+  stylesBundle?: StylesBundle,
+  mappings?: TokenMappings
+): string {
+  const lines: string[] = [];
+
+  if (binding) {
+    lines.push(`value={${binding.value}}`, `onChangeText={${binding.onChangeText}}`);
+    if (binding.onBlur) lines.push(`onBlur={${binding.onBlur}}`);
+  }
+
+  const placeholder = input.placeholder.trim();
+  if (placeholder) {
+    // Plain attribute strings cannot escape quotes or newlines
+    lines.push(/["{}\n\\]/.test(placeholder)
+      ? `placeholder={${JSON.stringify(placeholder)}}`
+      : `placeholder="${placeholder}"`);
+  }
+
+  const placeholderNode = input.children.find(child => child.id === input.placeholderId);
+  const placeholderColor = placeholderNode && stylesBundle?.styles[placeholderNode.styleRef]?.typography?.color;
+  if (placeholderColor) {
+    lines.push(`placeholderTextColor={${mappings ? mapColor(placeholderColor, mappings).value : `'${placeholderColor}'`}}`);
+  }
+
+  if (input.keyboardType) lines.push(`keyboardType="${input.keyboardType}"`);
+  if (input.secureTextEntry) lines.push('secureTextEntry');
+  if (input.autoComplete) lines.push(`autoComplete="${input.autoComplete}"`);
+  if (input.textContentType) lines.push(`textContentType="${input.textContentType}"`);
+  if (input.autoCapitalize) lines.push(`autoCapitalize="${input.autoCapitalize}"`);
+
+  const a11yLabel = deriveA11yLabel(input.name);
+  if (a11yLabel) lines.push(`accessibilityLabel="${a11yLabel}"`);
+
+  return lines.map(line => `${spaces}  ${line}`).join('\n');
+}
+
+/**
+ * Expressions a control is bound to: its value and, when in scope, the change handler
+ */
+interface ControlBinding {
+  value: string;
+  onChange?: string;
+}
+
+/**
+ * Generate the control element replacing a drawn switch/checkbox/radio/slider/stepper/rating variant
+ *
+ * @param styleValue - Style of the control itself (null inside a labelled row)
+ */
+function buildControlElement(
+  control: ControlIR,
+  spaces: string,
+  binding: ControlBinding,
+  styleValue: string | null,
+  a11yLabel: string,
+  stylesBundle?: StylesBundle,
+  mappings?: TokenMappings
+): string {
+  const { value, onChange } = binding;
+  const style = stylesBundle?.styles[control.styleRef];
+  const color = (hex: string) => (mappings ? mapColor(hex, mappings).value : `'${hex}'`);
+  // Attribute lines at the given nesting depth below `spaces`
+  const attrs = (lines: Array<string | false | undefined>, depth = 1) =>
+    lines.filter(Boolean).map(line => `\n${spaces}${'  '.repeat(depth)}${line}`).join('');
+  const handler = (argument: string) => onChange && `() => ${onChange}?.(${argument})`;
+  const withStyle = (extra: string) => (styleValue ? `[${styleValue}, ${extra}]` : extra);
+  const a11y = a11yLabel && `accessibilityLabel="${a11yLabel}"`;
+
+  switch (control.control) {
+    case 'switch':
+    case 'checkbox': {
+      const element = control.control === 'switch' ? 'Switch' : 'CheckBox';
+      // The instance fill of an "on" variant is the active track color
+      const trackColor = control.control === 'switch' && control.value === true && style?.backgroundColor
+        && `trackColor={{ true: ${color(style.backgroundColor)} }}`;
+      return `${spaces}<${element}${attrs([
+        styleValue && `style={${styleValue}}`,
+        `value={${value}}`,
+        onChange && `onValueChange={${onChange}}`,
+        trackColor,
+        a11y,
+      ])}
+${spaces}/>`;
+    }
+
+    case 'radio': {
+      const ring = color(style?.borderColor ?? '#000000');
+      return `${spaces}<Pressable${attrs([
+        styleValue && `style={${styleValue}}`,
+        handler('true') && `onPress={${handler('true')}}`,
+        'accessibilityRole="radio"',
+        `accessibilityState={{ checked: ${value} }}`,
+        a11y,
+        'hitSlop={12}',
+      ])}
+${spaces}>
+${spaces}  <View style={{ width: 20, height: 20, borderRadius: 10, borderWidth: 2, borderColor: ${ring}, alignItems: 'center', justifyContent: 'center' }}>
+${spaces}    {${value} && <View style={{ width: 10, height: 10, borderRadius: 5, backgroundColor: ${ring} }} />}
+${spaces}  </View>
+${spaces}</Pressable>`;
+    }
+
+    case 'slider': {
+      const max = control.max ?? 1;
+      return `${spaces}<Slider${attrs([
+        `style={${styleValue ?? '{ flex: 1 }'}}`,
+        `value={${value}}`,
+        onChange && `onValueChange={${onChange}}`,
+        'minimumValue={0}',
+        `maximumValue={${max}}`,
+        max > 1 && 'step={1}',
+        a11y,
+      ])}
+${spaces}/>`;
+    }
+
+    case 'stepper': {
+      const stepButton = (argument: string, label: string, glyph: string) => `${spaces}  <TouchableOpacity${attrs([
+        handler(argument) && `onPress={${handler(argument)}}`,
+        'accessibilityRole="button"',
+        `accessibilityLabel="${label}"`,
+      ], 2)}
+${spaces}  >
+${spaces}    <Text>${glyph}</Text>
+${spaces}  </TouchableOpacity>`;
+      return `${spaces}<View style={${withStyle("{ flexDirection: 'row', alignItems: 'center', gap: 12 }")}}>
+${stepButton(`Math.max(0, ${value} - 1)`, 'Decrease', '−')}
+${spaces}  <Text>{${value}}</Text>
+${stepButton(`${value} + 1`, 'Increase', '+')}
+${spaces}</View>`;
+    }
+
+    case 'rating': {
+      const max = control.max ?? 5;
+      const onPress = handler('star') ? ` onPress={${handler('star')}}` : '';
+      return `${spaces}<View${attrs([
+        `style={${withStyle("{ flexDirection: 'row' }")}}`,
+        'accessibilityRole="adjustable"',
+        `accessibilityValue={{ min: 0, max: ${max}, now: ${value} }}`,
+        a11y,
+      ])}
+${spaces}>
+${spaces}  {Array.from({ length: ${max} }, (_, index) => index + 1).map((star) => (
+${spaces}    <Pressable key={star}${onPress} accessibilityLabel={\`\${star} of ${max}\`}>
+${spaces}      <Text>{star <= ${value} ? '★' : '☆'}</Text>
+${spaces}    </Pressable>
+${spaces}  ))}
+${spaces}</View>`;
+    }
+  }
+}
+
 /**
  * Options for semantic state support in JSX generation
  */
@@ -160,6 +466,16 @@ export interface BuildJSXOptions {
   rootProps?: string[];
   /** Props that exist in the current render scope and may be forwarded to child components */
   availableProps?: string[];
+  /** Form whose inputs render inside Controllers and whose submit button calls handleSubmit */
+  form?: FormSpec | null;
+  /** Route names by Figma node ID; when set, prototype interactions become onPress handlers */
+  navigationTargets?: NavigationTargets;
+  /** Generated components by Figma component ID; their instances render the imported component */
+  sharedComponents?: SharedComponents;
+  /** Icon components converted from exported SVGs, by asset path; rendered instead of SvgIcon */
+  svgComponents?: Record<string, string>;
+  /** Style library rendering the elements with a plain style reference (see style-backends) */
+  styledElement?: StyledElementResolver;
   /** Whether this is the root node (internal use) */
   _isRoot?: boolean;
 }
@@ -206,16 +522,24 @@ export function buildJSX(
   const availableProps = new Set(options?.availableProps || []);
   const hasAvailablePropsFilter = options?.availableProps !== undefined;
 
+  // onPress from the node's prototype interaction (only when navigation wiring is enabled)
+  const pressHandler = node.interaction && options?.navigationTargets
+    ? buildInteractionHandler(node.interaction, options.navigationTargets)
+    : null;
+  const onPressLine = pressHandler ? `\n${spaces}  onPress={${pressHandler}}` : '';
+
   // Check for conditional rendering (node.conditionalProp wraps element in {prop && ...})
   const conditionalProp = (node as any).conditionalProp as string | undefined;
 
-  // Helper to generate style attribute with optional conditional styling
-  const getConditionalStyleAttr = (baseStyleName: string, applyState: boolean): string => {
+  // Helper to generate the style value with optional conditional styling
+  const getConditionalStyleValue = (baseStyleName: string, applyState: boolean): string => {
     if (applyState && stateProp) {
-      return `style={[styles.${baseStyleName}, ${stateProp} && styles.${baseStyleName}${selectedSuffix}]}`;
+      return `[styles.${baseStyleName}, ${stateProp} && styles.${baseStyleName}${selectedSuffix}]`;
     }
-    return getStyleAttribute(node, baseStyleName);
+    return getStyleValue(node, baseStyleName);
   };
+  // Attribute on its own line of a multi-line opening tag ('' when the style library dropped it)
+  const attributeLine = (attribute: string) => (attribute ? `\n${spaces}  ${attribute}` : '');
 
   // Child options - pass through state but mark as non-root
   const childOptions: BuildJSXOptions | undefined = options ? { ...options, _isRoot: false } : undefined;
@@ -237,75 +561,110 @@ export function buildJSX(
       // Handle gradient wrapping for containers
       if (hasGradient && style?.backgroundGradient) {
         const gradientProps = buildGradientProps(style.backgroundGradient, spaces, mappings);
-        const styleAttr = getStyleAttribute(node, styleName);
+        const gradient = resolveStyledElement('LinearGradient', getStyleValue(node, styleName), options);
 
         if (children.length === 0) {
-          result = `${keyboardWarning}${spaces}<LinearGradient
-${gradientProps}
-${spaces}  ${styleAttr}
+          result = `${keyboardWarning}${spaces}<${gradient.tag}
+${gradientProps}${attributeLine(gradient.attributes)}
 ${spaces}/>`;
           break;
         }
         const childrenJSX = children
           .map((child) => buildJSX(child, indent + 1, imagePathMap, jsxOverrides, stylesBundle, mappings, childOptions))
           .join('\n');
-        result = `${keyboardWarning}${spaces}<LinearGradient
-${gradientProps}
-${spaces}  ${styleAttr}
+        result = `${keyboardWarning}${spaces}<${gradient.tag}
+${gradientProps}${attributeLine(gradient.attributes)}
 ${spaces}>
 ${childrenJSX}
-${spaces}</LinearGradient>`;
+${spaces}</${gradient.tag}>`;
+        break;
+      }
+
+      // Frosted containers: BlurView renders the background blur behind the children
+      if (style?.backgroundBlur && !usesPressable) {
+        const blurProps = buildBlurProps(style, spaces);
+        const blur = resolveStyledElement('BlurView', getStyleValue(node, styleName), options);
+
+        if (children.length === 0) {
+          result = `${keyboardWarning}${spaces}<${blur.tag}
+${blurProps}${attributeLine(blur.attributes)}
+${spaces}/>`;
+          break;
+        }
+        const childrenJSX = children
+          .map((child) => buildJSX(child, indent + 1, imagePathMap, jsxOverrides, stylesBundle, mappings, childOptions))
+          .join('\n');
+        result = `${keyboardWarning}${spaces}<${blur.tag}
+${blurProps}${attributeLine(blur.attributes)}
+${spaces}>
+${childrenJSX}
+${spaces}</${blur.tag}>`;
         break;
       }
 
       // Pressable wrapper for interactive semantic state components
       if (usesPressable) {
-        const pressableStyleAttr = getConditionalStyleAttr(styleName, true);
+        const pressable = resolveStyledElement('Pressable', getConditionalStyleValue(styleName, true), options);
         const rootPropsStr = options?.rootProps?.length
           ? '\n' + options.rootProps.map(p => `${spaces}  ${p}`).join('\n')
           : '';
 
         if (children.length === 0) {
-          result = `${keyboardWarning}${spaces}<Pressable
-${spaces}  ${pressableStyleAttr}${rootPropsStr}
+          result = `${keyboardWarning}${spaces}<${pressable.tag}${attributeLine(pressable.attributes)}${rootPropsStr}
 ${spaces}/>`;
           break;
         }
         const pressableChildrenJSX = children
           .map((child) => buildJSX(child, indent + 1, imagePathMap, jsxOverrides, stylesBundle, mappings, childOptions))
           .join('\n');
-        result = `${keyboardWarning}${spaces}<Pressable
-${spaces}  ${pressableStyleAttr}${rootPropsStr}
+        result = `${keyboardWarning}${spaces}<${pressable.tag}${attributeLine(pressable.attributes)}${rootPropsStr}
 ${spaces}>
 ${pressableChildrenJSX}
-${spaces}</Pressable>`;
+${spaces}</${pressable.tag}>`;
         break;
       }
 
-      // Regular View
-      const viewStyleAttr = getStyleAttribute(node, styleName);
+      // Tappable in the prototype: the box itself becomes the touch target
+      if (pressHandler) {
+        const touchable = resolveStyledElement('TouchableOpacity', getStyleValue(node, styleName), options);
+        const touchableChildrenJSX = children
+          .map((child) => buildJSX(child, indent + 1, imagePathMap, jsxOverrides, stylesBundle, mappings, childOptions))
+          .join('\n');
+        result = `${keyboardWarning}${spaces}<${touchable.tag}${attributeLine(touchable.attributes)}${onPressLine}
+${spaces}  accessibilityRole="button"
+${spaces}>${touchableChildrenJSX ? `\n${touchableChildrenJSX}` : ''}
+${spaces}</${touchable.tag}>`;
+        break;
+      }
 
+      // Regular View
+      const view = resolveStyledElement('View', getStyleValue(node, styleName), options);
       if (children.length === 0) {
-        result = `${keyboardWarning}${spaces}<View ${viewStyleAttr} />`;
+        result = `${keyboardWarning}${spaces}<${view.tag}${inlineAttributes(view.attributes)} />`;
         break;
       }
       const viewChildrenJSX = children
         .map((child) => buildJSX(child, indent + 1, imagePathMap, jsxOverrides, stylesBundle, mappings, childOptions))
         .join('\n');
-      result = `${keyboardWarning}${spaces}<View ${viewStyleAttr}>
+      result = `${keyboardWarning}${spaces}<${view.tag}${inlineAttributes(view.attributes)}>
 ${viewChildrenJSX}
-${spaces}</View>`;
+${spaces}</${view.tag}>`;
       break;
     }
 
     case 'Text': {
-      const content = node.propName ? `{${node.propName}}` : escapeJSXText(node.text);
+      const runs = node.runs;
+      const content = node.propName
+        ? `{${node.propName}}`
+        : runs
+          ? buildTextRuns(runs, options)
+          : escapeJSXText(node.text);
       // Apply conditional styling to text with propName (dynamic content)
       const applyStateToText = !!node.propName && !!stateProp;
-      const textStyleAttr = applyStateToText
-        ? `style={[styles.${styleName}, ${stateProp} && styles.${styleName}${selectedSuffix}]}`
-        : getStyleAttribute(node, styleName);
-      result = `${spaces}<Text ${textStyleAttr}>${content}</Text>`;
+      const text = resolveStyledElement('Text', getConditionalStyleValue(styleName, applyStateToText), options);
+      // Tappable text (e.g. "Forgot password?") is a link
+      const textPressAttrs = pressHandler ? ` onPress={${pressHandler}} accessibilityRole="link"` : '';
+      result = `${spaces}<${text.tag}${inlineAttributes(text.attributes)}${textPressAttrs}>${content}</${text.tag}>`;
       break;
     }
 
@@ -317,16 +676,15 @@ ${spaces}</View>`;
         const imgChildrenJSX = imgNode.children
           .map((child) => buildJSX(child, indent + 1, imagePathMap, jsxOverrides, stylesBundle, mappings, childOptions))
           .join('\n');
-        const imgStyleAttr = getStyleAttribute(node, styleName);
+        const overlay = resolveStyledElement('View', getStyleValue(node, styleName), options);
 
-        result = `${spaces}<View ${imgStyleAttr}>
+        result = `${spaces}<${overlay.tag}${inlineAttributes(overlay.attributes)}>
 ${imgChildrenJSX}
-${spaces}</View>`;
+${spaces}</${overlay.tag}>`;
         break;
       }
 
       // DEFAULT: Render as simple Image component
-      const imgStyleAttr = getStyleAttribute(node, styleName);
       const isUnresolvedDivider =
         !!imgNode.imageRef &&
         !imagePathMap?.has(imgNode.imageRef) &&
@@ -335,39 +693,36 @@ ${spaces}</View>`;
         !!style.borderColor;
 
       if (isUnresolvedDivider) {
-        result = `${spaces}<View ${imgStyleAttr} />`;
+        const divider = resolveStyledElement('View', getStyleValue(node, styleName), options);
+        result = `${spaces}<${divider.tag}${inlineAttributes(divider.attributes)} />`;
         break;
       }
 
       if (imgNode.propName) {
-        result = `${spaces}<Image
-${spaces}  source={${imgNode.propName}}
-${spaces}  ${imgStyleAttr}
+        const image = resolveStyledElement('Image', getStyleValue(node, styleName), options);
+        result = `${spaces}<${image.tag}
+${spaces}  source={${imgNode.propName}}${attributeLine(image.attributes)}
 ${spaces}  accessibilityRole="image"
 ${spaces}/>`;
         break;
       }
 
       // Use imageRef if available, with mapping to local path
-      let imgSource: string;
-      let imgIsSvg = false;
+      let imgElement: { component: string; source?: string };
       if (imgNode.imageRef && imagePathMap?.has(imgNode.imageRef)) {
-        const path = imagePathMap.get(imgNode.imageRef)!;
-        imgSource = `require('${path}')`;
-        imgIsSvg = path.toLowerCase().endsWith('.svg');
+        imgElement = getAssetElement(imagePathMap.get(imgNode.imageRef)!, options);
       } else if (imgNode.imageRef) {
-        imgSource = `{ uri: '' } /* TODO: Image ref: ${imgNode.imageRef} */`;
+        imgElement = { component: 'Image', source: `{ uri: '' } /* TODO: Image ref: ${imgNode.imageRef} */` };
       } else {
-        imgSource = `{ uri: '' } /* TODO: Add image source */`;
+        imgElement = { component: 'Image', source: `{ uri: '' } /* TODO: Add image source */` };
       }
 
-      const imgComponent = imgIsSvg ? 'SvgIcon' : 'Image';
+      const imgSourceLine = imgElement.source ? `\n${spaces}  source={${imgElement.source}}` : '';
       const imgA11yLabel = deriveA11yLabel(node.name);
       const imgA11yProp = imgA11yLabel ? `\n${spaces}  accessibilityLabel="${imgA11yLabel}"` : '';
+      const image = resolveStyledElement(imgElement.component, getStyleValue(node, styleName), options);
 
-      result = `${spaces}<${imgComponent}
-${spaces}  source={${imgSource}}
-${spaces}  ${imgStyleAttr}
+      result = `${spaces}<${image.tag}${imgSourceLine}${attributeLine(image.attributes)}
 ${spaces}  accessibilityRole="image"${imgA11yProp}
 ${spaces}/>`;
       break;
@@ -376,6 +731,7 @@ ${spaces}/>`;
     case 'Button': {
       const btn = node as ButtonIR;
       const escapedLabel = escapeJSXText(btn.label);
+      const onPress = options?.form?.submitId === node.id ? 'handleSubmit(onSubmit)' : pressHandler ?? '() => {}';
 
       // NEW: If button has custom children, render them instead of default reconstruction
       if (btn.children && btn.children.length > 0) {
@@ -383,45 +739,142 @@ ${spaces}/>`;
           .map((child) => buildJSX(child, indent + 1, imagePathMap, jsxOverrides, stylesBundle, mappings, childOptions))
           .join('\n');
 
-        result = `${spaces}<TouchableOpacity
-${spaces}  style={styles.${styleName}}
-${spaces}  onPress={() => {}}
+        const button = resolveStyledElement('TouchableOpacity', getVariantStyleValue(node, styleName), options);
+        result = `${spaces}<${button.tag}${attributeLine(button.attributes)}
+${spaces}  onPress={${onPress}}
 ${spaces}  accessibilityRole="button"
 ${spaces}  accessibilityLabel="${escapedLabel}"
 ${spaces}>
 ${btnChildrenJSX}
-${spaces}</TouchableOpacity>`;
+${spaces}</${button.tag}>`;
         break;
       }
 
       // DEFAULT: Reconstruct from label + iconRef (existing behavior for simple buttons)
       let iconJSX = '';
       if (btn.iconRef && btn.iconStyleRef) {
-        let btnIsSvg = false;
-        let btnIconSource: string;
-        if (imagePathMap?.has(btn.iconRef)) {
-          const path = imagePathMap.get(btn.iconRef)!;
-          btnIconSource = `require('${path}')`;
-          btnIsSvg = path.toLowerCase().endsWith('.svg');
-        } else {
-          btnIconSource = `{ uri: '' } /* TODO: Button icon: ${btn.iconRef} */`;
-        }
+        const btnIcon = imagePathMap?.has(btn.iconRef)
+          ? getAssetElement(imagePathMap.get(btn.iconRef)!, options)
+          : { component: 'Image', source: `{ uri: '' } /* TODO: Button icon: ${btn.iconRef} */` };
 
-        const btnComponent = btnIsSvg ? 'SvgIcon' : 'Image';
-        const iconStyleName = btn.iconStyleRef;
-        iconJSX = `\n${spaces}  <${btnComponent} source={${btnIconSource}} style={styles.${iconStyleName}} />`;
+        const btnIconSource = btnIcon.source ? ` source={${btnIcon.source}}` : '';
+        const icon = resolveStyledElement(btnIcon.component, getVariantStyleValue(node, btn.iconStyleRef), options);
+        iconJSX = `\n${spaces}  <${icon.tag}${btnIconSource}${inlineAttributes(icon.attributes)} />`;
       }
 
       const textStyleName = btn.textStyleRef ? btn.textStyleRef : `${styleName}Text`;
+      const button = resolveStyledElement('TouchableOpacity', getVariantStyleValue(node, styleName), options);
+      const label = resolveStyledElement('Text', getVariantStyleValue(node, textStyleName), options);
 
-      result = `${spaces}<TouchableOpacity
-${spaces}  style={styles.${styleName}}
-${spaces}  onPress={() => {}}
+      result = `${spaces}<${button.tag}${attributeLine(button.attributes)}
+${spaces}  onPress={${onPress}}
 ${spaces}  accessibilityRole="button"
 ${spaces}  accessibilityLabel="${escapedLabel}"
 ${spaces}>${iconJSX}
-${spaces}  <Text style={styles.${textStyleName}}>${escapedLabel}</Text>
-${spaces}</TouchableOpacity>`;
+${spaces}  <${label.tag}${inlineAttributes(label.attributes)}>${escapedLabel}</${label.tag}>
+${spaces}</${button.tag}>`;
+      break;
+    }
+
+    case 'Input': {
+      const input = node as InputIR;
+      const placeholderNode = input.children.find(child => child.id === input.placeholderId);
+      const others = input.children.filter(child => child !== placeholderNode);
+
+      // Form fields bind to their Controller; others to the value/handler props when in scope
+      const formField = options?.form?.fields.find(field => field.inputId === node.id);
+      const isPropAvailable = (propName: string) => !hasAvailablePropsFilter || availableProps.has(propName);
+      let binding: InputBinding | null = null;
+      if (formField) {
+        binding = { value: 'value', onChangeText: 'onChange', onBlur: 'onBlur' };
+      } else if (input.propName && input.onChangeProp && isPropAvailable(input.propName) && isPropAvailable(input.onChangeProp)) {
+        binding = { value: input.propName, onChangeText: input.onChangeProp };
+      }
+
+      // Controller render prop nests the field two levels deeper
+      const fieldIndent = formField ? indent + 2 : indent;
+      const fieldSpaces = '  '.repeat(fieldIndent);
+      let fieldJSX: string;
+
+      if (others.length === 0) {
+        // Bare field: the TextInput is the box, placeholder text style first so the box sizing wins
+        const field = resolveStyledElement(
+          'TextInput',
+          placeholderNode ? `[styles.${placeholderNode.styleRef}, styles.${styleName}]` : getStyleValue(node, styleName),
+          options
+        );
+        fieldJSX = `${fieldSpaces}<${field.tag}${field.attributes ? `\n${fieldSpaces}  ${field.attributes}` : ''}
+${buildInputProps(input, fieldSpaces, binding, stylesBundle, mappings)}
+${fieldSpaces}/>`;
+      } else {
+        // Field with icons: the box stays a View, the placeholder slot becomes the TextInput
+        const inputChildrenJSX = input.children
+          .map((child) => {
+            if (child !== placeholderNode) {
+              return buildJSX(child, fieldIndent + 1, imagePathMap, jsxOverrides, stylesBundle, mappings, childOptions);
+            }
+            const childSpaces = '  '.repeat(fieldIndent + 1);
+            // The input fills the row between the icons
+            const styled = options?.styledElement?.('TextInput', [child.styleRef]);
+            const fieldAttributes = styled
+              ? [styled.attributes, 'style={{ flex: 1 }}'].filter(Boolean).join(`\n${childSpaces}  `)
+              : `style={[styles.${child.styleRef}, { flex: 1 }]}`;
+            return `${childSpaces}<${styled?.tag ?? 'TextInput'}
+${childSpaces}  ${fieldAttributes}
+${buildInputProps(input, childSpaces, binding, stylesBundle, mappings)}
+${childSpaces}/>`;
+          })
+          .join('\n');
+        const box = resolveStyledElement('View', getStyleValue(node, styleName), options);
+        fieldJSX = `${fieldSpaces}<${box.tag}${inlineAttributes(box.attributes)}>
+${inputChildrenJSX}
+${fieldSpaces}</${box.tag}>`;
+      }
+
+      if (!formField) {
+        result = fieldJSX;
+        break;
+      }
+
+      result = `${spaces}<Controller
+${spaces}  control={control}
+${spaces}  name="${formField.name}"
+${spaces}  render={({ field: { onChange, onBlur, value } }) => (
+${fieldJSX}
+${spaces}  )}
+${spaces}/>`;
+      break;
+    }
+
+    case 'Control': {
+      const control = node as ControlIR;
+      const label = control.children.find(child => child.id === control.labelId);
+
+      // Bound to the value/handler props when in scope, otherwise shows the designed value
+      const isPropAvailable = (propName: string) => !hasAvailablePropsFilter || availableProps.has(propName);
+      const binding: ControlBinding = control.propName && isPropAvailable(control.propName)
+        ? { value: control.propName, onChange: control.onChangeProp && isPropAvailable(control.onChangeProp) ? control.onChangeProp : undefined }
+        : { value: String(control.value) };
+      const a11yLabel = label?.semanticType === 'Text'
+        ? (label as TextIR).text.replace(/"/g, '\\"')
+        : deriveA11yLabel(control.name);
+
+      if (!label) {
+        // Toggles keep their native size; sliders, steppers and ratings take the instance box
+        const ownStyle = ['slider', 'stepper', 'rating'].includes(control.control) ? getStyleValue(node, styleName) : null;
+        result = buildControlElement(control, spaces, binding, ownStyle, a11yLabel, stylesBundle, mappings);
+        break;
+      }
+
+      // Labelled control: the instance box becomes the row holding the label and the control
+      const labelJSX = buildJSX(label, indent + 1, imagePathMap, jsxOverrides, stylesBundle, mappings, childOptions);
+      const controlJSX = buildControlElement(control, `${spaces}  `, binding, null, a11yLabel, stylesBundle, mappings);
+      // Checkbox and radio sit before their label, switch/slider/stepper/rating after it
+      const leading = control.control === 'checkbox' || control.control === 'radio';
+      const row = resolveStyledElement('View', getStyleValue(node, styleName), options);
+      result = `${spaces}<${row.tag}${inlineAttributes(row.attributes)}>
+${leading ? `${controlJSX}\n${labelJSX}` : `${labelJSX}\n${controlJSX}`}
+${spaces}</${row.tag}>`;
       break;
     }
 
@@ -440,16 +893,10 @@ ${spaces}</TouchableOpacity>`;
 
       // For vector groups: render as single SVG using parent's iconRef
       if (isVectorGroup && iconNode.iconRef) {
-        let iconSource: string;
-        let isSvg = false;
-        if (imagePathMap?.has(iconNode.iconRef)) {
-          const path = imagePathMap.get(iconNode.iconRef)!;
-          iconSource = `require('${path}')`;
-          isSvg = path.toLowerCase().endsWith('.svg');
-        } else {
-          iconSource = `{ uri: '' } /* TODO: Export as single SVG: ${iconNode.iconRef} */`;
-        }
-        const iconComponent = isSvg ? 'SvgIcon' : 'Image';
+        const iconElement = imagePathMap?.has(iconNode.iconRef)
+          ? getAssetElement(imagePathMap.get(iconNode.iconRef)!, options)
+          : { component: 'Image', source: `{ uri: '' } /* TODO: Export as single SVG: ${iconNode.iconRef} */` };
+        const iconSource = iconElement.source ? ` source={${iconElement.source}}` : '';
         const iconA11yLabel = deriveA11yLabel(node.name);
         const iconA11yProp = iconA11yLabel ? `\n${spaces}  accessibilityLabel="${iconA11yLabel}"` : '';
         const hitSlop = calculateHitSlop(iconNode.size);
@@ -457,10 +904,12 @@ ${spaces}</TouchableOpacity>`;
           ? `\n${spaces}  hitSlop={{ top: ${hitSlop}, bottom: ${hitSlop}, left: ${hitSlop}, right: ${hitSlop} }}`
           : '';
 
+        const icon = resolveStyledElement(iconElement.component, getVariantStyleValue(node, styleName), options);
+
         result = `${spaces}<TouchableOpacity
-${spaces}  accessibilityRole="button"${iconA11yProp}${hitSlopProp}
+${spaces}  accessibilityRole="button"${iconA11yProp}${hitSlopProp}${onPressLine}
 ${spaces}>
-${spaces}  <${iconComponent} source={${iconSource}} style={styles.${styleName}} />
+${spaces}  <${icon.tag}${iconSource}${inlineAttributes(icon.attributes)} />
 ${spaces}</TouchableOpacity>`;
         break;
       }
@@ -478,7 +927,7 @@ ${spaces}</TouchableOpacity>`;
           : '';
 
         result = `${spaces}<TouchableOpacity
-${spaces}  accessibilityRole="button"${iconA11yProp2}${hitSlopProp2}
+${spaces}  accessibilityRole="button"${iconA11yProp2}${hitSlopProp2}${onPressLine}
 ${spaces}>
 ${iconChildrenJSX}
 ${spaces}</TouchableOpacity>`;
@@ -486,16 +935,13 @@ ${spaces}</TouchableOpacity>`;
       }
 
       // DEFAULT: Use iconRef (existing behavior for simple icons)
-      let defaultIconSource: string;
-      let defaultIsSvg = false;
+      let defaultIcon: { component: string; source?: string };
       if (iconNode.iconRef && imagePathMap?.has(iconNode.iconRef)) {
-        const path = imagePathMap.get(iconNode.iconRef)!;
-        defaultIconSource = `require('${path}')`;
-        defaultIsSvg = path.toLowerCase().endsWith('.svg');
+        defaultIcon = getAssetElement(imagePathMap.get(iconNode.iconRef)!, options);
       } else if (iconNode.iconRef) {
-        defaultIconSource = `{ uri: '' } /* TODO: Icon ref: ${iconNode.iconRef} */`;
+        defaultIcon = { component: 'Image', source: `{ uri: '' } /* TODO: Icon ref: ${iconNode.iconRef} */` };
       } else {
-        defaultIconSource = `{ uri: '' } /* TODO: Add icon source */`;
+        defaultIcon = { component: 'Image', source: `{ uri: '' } /* TODO: Add icon source */` };
       }
       const defaultHitSlop = calculateHitSlop(iconNode.size);
       const defaultA11yLabel = deriveA11yLabel(node.name);
@@ -503,13 +949,14 @@ ${spaces}</TouchableOpacity>`;
         ? `\n${spaces}  hitSlop={{ top: ${defaultHitSlop}, bottom: ${defaultHitSlop}, left: ${defaultHitSlop}, right: ${defaultHitSlop} }}`
         : '';
 
-      const defaultComponent = defaultIsSvg ? 'SvgIcon' : 'Image';
+      const defaultIconSource = defaultIcon.source ? ` source={${defaultIcon.source}}` : '';
       const defaultA11yProp = defaultA11yLabel ? `\n${spaces}  accessibilityLabel="${defaultA11yLabel}"` : '';
+      const icon = resolveStyledElement(defaultIcon.component, getVariantStyleValue(node, styleName), options);
 
       result = `${spaces}<TouchableOpacity
-${spaces}  accessibilityRole="button"${defaultA11yProp}${defaultHitSlopProp}
+${spaces}  accessibilityRole="button"${defaultA11yProp}${defaultHitSlopProp}${onPressLine}
 ${spaces}>
-${spaces}  <${defaultComponent} source={${defaultIconSource}} style={styles.${styleName}} />
+${spaces}  <${icon.tag}${defaultIconSource}${inlineAttributes(icon.attributes)} />
 ${spaces}</TouchableOpacity>`;
       break;
     }
@@ -517,30 +964,43 @@ ${spaces}</TouchableOpacity>`;
     case 'Component': {
       const comp = node as ComponentIR;
 
-      // Check if this component was exported as an asset (icon/logo)
-      if (comp.isExportableAsset && imagePathMap?.has(node.id)) {
-        const assetPath = imagePathMap.get(node.id)!;
-        const isSvg = assetPath.toLowerCase().endsWith('.svg');
-        const imgComponent = isSvg ? 'SvgIcon' : 'Image';
-        result = `${spaces}<${imgComponent} source={require('${assetPath}')} style={styles.${styleName}} />`;
-        break;
-      }
-
-      // Normal component rendering
-      const componentName = comp.componentName;
-      const compProps = comp.props || {};
-      const propEntries = Object.keys(compProps).filter((propName) => {
-        if (!hasAvailablePropsFilter) {
-          return true;
+      if (options?.sharedComponents?.[comp.componentId]) {
+        // Already generated or mapped to a project component: the instance passes its variant values and texts
+        const shared = options.sharedComponents[comp.componentId];
+        const attributes = buildSharedComponentAttributes(comp, shared);
+        result = `${spaces}<${shared.name}${attributes.map(attribute => ` ${attribute}`).join('')} />`;
+      } else if (comp.isExportableAsset && imagePathMap?.has(node.id)) {
+        // Check if this component was exported as an asset (icon/logo)
+        const asset = getAssetElement(imagePathMap.get(node.id)!, options);
+        const assetSource = asset.source ? ` source={${asset.source}}` : '';
+        const element = resolveStyledElement(asset.component, `styles.${styleName}`, options);
+        result = `${spaces}<${element.tag}${assetSource}${inlineAttributes(element.attributes)} />`;
+      } else {
+        // Normal component rendering
+        const componentName = comp.componentName;
+        const compProps = comp.props || {};
+        const propEntries = Object.keys(compProps).filter((propName) => {
+          if (!hasAvailablePropsFilter) {
+            return true;
+          }
+          return availableProps.has(propName);
+        });
+
+        if (propEntries.length > 0) {
+          const attributes = propEntries.map(p => `${p}={${p}}`).join(' ');
+          result = `${spaces}<${componentName} ${attributes} />`;
+        } else {
+          result = `${spaces}<${componentName} />`;
         }
-        return availableProps.has(propName);
-      });
+      }
 
-      if (propEntries.length > 0) {
-        const attributes = propEntries.map(p => `${p}={${p}}`).join(' ');
-        result = `${spaces}<${componentName} ${attributes} />`;
-      } else {
-        result = `${spaces}<${componentName} />`;
+      // Tappable instance (e.g. a button component): the handler wraps the instance
+      if (pressHandler) {
+        result = `${spaces}<TouchableOpacity${onPressLine}
+${spaces}  accessibilityRole="button"
+${spaces}>
+${result.replace(/^/gm, '  ')}
+${spaces}</TouchableOpacity>`;
       }
       break;
     }
@@ -555,7 +1015,8 @@ ${spaces}))}`;
 
     default: {
       // Fallback for any unknown type
-      result = `${spaces}<View style={styles.${styleName}} />`;
+      const fallback = resolveStyledElement('View', `styles.${styleName}`, options);
+      result = `${spaces}<${fallback.tag}${inlineAttributes(fallback.attributes)} />`;
       break;
     }
   }
@@ -570,6 +1031,21 @@ ${spaces})}`;
   return result;
 }
 
+/**
+ * Inline content of a rich text node: styled runs become nested <Text> spans
+ * Kept on one line so JSX preserves the spaces between runs.
+ */
+function buildTextRuns(runs: TextRunIR[], options?: BuildJSXOptions): string {
+  return runs
+    .map((run) => {
+      const text = escapeJSXText(run.text);
+      if (!run.styleRef) return text;
+      const span = resolveStyledElement('Text', `styles.${run.styleRef}`, options);
+      return `<${span.tag}${inlineAttributes(span.attributes)}>${text}</${span.tag}>`;
+    })
+    .join('');
+}
+
 /**
  * Collect all style names that will be referenced in JSX
  * Used to ensure StyleSheet has matching entries
@@ -581,6 +1057,18 @@ export function collectStyleNames(node: IRNode): string[] {
     const styleName = deriveStyleName(n);
     names.push(styleName);
 
+    // Component set variants reference their override styles
+    for (const variants of Object.values(n.variantStyles ?? {})) {
+      names.push(...variants.map(variant => variant.styleRef));
+    }
+
+    // Rich text spans reference their own styles
+    if (n.semanticType === 'Text') {
+      for (const run of (n as TextIR).runs ?? []) {
+        if (run.styleRef) names.push(run.styleRef);
+      }
+    }
+
     // Button generates additional text/icon styles
     if (n.semanticType === 'Button') {
       const btn = n as ButtonIR;
@@ -108,6 +108,7 @@ function generateFlatListJSX(
     'renderItem={renderItem}',
     `keyExtractor={(item: ${hint.itemType}) => item.id}`,
     horizontal ? 'horizontal' : '',
+    hint.numColumns ? `numColumns={${hint.numColumns}}` : '',
     horizontal ? 'showsHorizontalScrollIndicator={false}' : 'showsVerticalScrollIndicator={false}',
     `style={styles.${styleName}}`,
   ].filter(Boolean);
@@ -117,6 +118,14 @@ ${props.map(p => `${spaces}  ${p}`).join('\n')}
 ${spaces}/>`;
 }
 
+/**
+ * Gap value, as its spacing token when one matches
+ */
+function mapGap(gap: number, mappings: TokenMappings): string | number {
+  const matchedGap = mappings?.spacing?.[gap];
+  return matchedGap || gap;
+}
+
 /**
  * Convert PascalCase to camelCase
  */
@@ -248,22 +257,24 @@ export function generateFlatList(
     `const ${renderItemName} =`
   );
 
-  // Handle Spacing (Gap)
-  const gap = (container as any).layout?.gap || 0;
+  // Handle Spacing (Gap) - grids separate rows by the wrap gap
+  const isGrid = (hint.numColumns ?? 0) > 1;
+  const gap = (hint.numColumns ? container.layout?.wrapGap : container.layout?.gap) || 0;
   let separatorFunction = '';
-  let separatorProp = '';
+  const extraProps: string[] = [];
 
   if (gap > 0) {
     const separatorName = `render${hint.itemType}Separator`;
     const dim = hint.orientation === 'horizontal' ? 'width' : 'height';
     
-    // Use mapping for gap if available
-    const spacingMappings = mappings?.spacing || {};
-    const matchedGap = spacingMappings[gap] || String(gap);
-    const gapValue = matchedGap === String(gap) ? gap : matchedGap;
-    
-    separatorFunction = `const ${separatorName} = () => <View style={{ ${dim}: ${gapValue} }} />;`;
-    separatorProp = `ItemSeparatorComponent={${separatorName}}`;
+    separatorFunction = `const ${separatorName} = () => <View style={{ ${dim}: ${mapGap(gap, mappings)} }} />;`;
+    extraProps.push(`ItemSeparatorComponent={${separatorName}}`);
+  }
+
+  // Items within a grid row are spaced by the item gap
+  const columnGap = isGrid ? container.layout?.gap || 0 : 0;
+  if (columnGap > 0) {
+    extraProps.push(`columnWrapperStyle={{ columnGap: ${mapGap(columnGap, mappings)} }}`);
   }
 
   // Generate FlatList JSX
@@ -274,10 +285,10 @@ export function generateFlatList(
     `renderItem={${renderItemName}}`
   );
   
-  if (separatorProp) {
+  for (const prop of extraProps) {
     flatListJSX = flatListJSX.replace(
-      '/>',
-      `  ${separatorProp}\n${'  '.repeat(indent)}/>`
+      /\/>$/,
+      `  ${prop}\n${'  '.repeat(indent)}/>`
     );
   }
 
@@ -0,0 +1,88 @@
+/**
+ * Navigation Builder - React Navigation handlers for prototype interactions
+ */
+
+import type { IRNode, NodeInteraction, SemanticType } from '../types.js';
+
+/**
+ * Route names of generated screens, modals and sheets by Figma node ID
+ */
+export type NavigationTargets = Record<string, string>;
+
+/**
+ * Node types jsx-builder renders an interaction handler for
+ */
+const HANDLER_TYPES = new Set<SemanticType>(['Container', 'Card', 'Component', 'Text', 'Button', 'Icon']);
+
+/**
+ * onPress expression for a prototype interaction
+ *
+ * navigate/overlay resolve the destination frame to its route; destinations
+ * that are not generated yet keep an empty handler with a TODO.
+ */
+export function buildInteractionHandler(interaction: NodeInteraction, targets: NavigationTargets): string {
+  switch (interaction.action) {
+    case 'back':
+      return '() => navigation.goBack()';
+
+    case 'url':
+      return interaction.url
+        ? `() => Linking.openURL('${interaction.url.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}')`
+        : '() => {}';
+
+    case 'navigate':
+    case 'overlay': {
+      const route = interaction.destinationId ? targets[interaction.destinationId] : undefined;
+      if (route) {
+        return `() => navigation.navigate('${route}')`;
+      }
+      const target = interaction.action === 'overlay' ? 'open the overlay' : 'navigate to';
+      return `() => {} /* TODO: ${target} Figma node ${interaction.destinationId ?? '?'} (not generated yet) */`;
+    }
+  }
+}
+
+/**
+ * react-native components the interaction handlers add to the screen
+ * Component and Repeater subtrees render in their own components without handlers;
+ * a tappable instance itself is wrapped in the screen.
+ */
+export function collectInteractionImports(root: IRNode): string[] {
+  const imports = new Set<string>();
+
+  const walk = (node: IRNode, depth: number) => {
+    if (node.interaction && HANDLER_TYPES.has(node.semanticType)) {
+      if (node.interaction.action === 'url') imports.add('Linking');
+      // Buttons and icons already are touchables, text takes onPress directly
+      if (['Container', 'Card', 'Component'].includes(node.semanticType)) imports.add('TouchableOpacity');
+    }
+    if (depth > 0 && (node.semanticType === 'Component' || node.semanticType === 'Repeater')) return;
+    if ('children' in node && node.children) {
+      node.children.forEach(child => walk(child, depth + 1));
+    }
+  };
+  walk(root, 0);
+
+  return Array.from(imports);
+}
+
+/**
+ * Whether generated JSX calls the navigation object
+ */
+export function usesNavigation(jsx: string): boolean {
+  return /\bnavigation\.(navigate|goBack)\(/.test(jsx);
+}
+
+/**
+ * Import used by the navigation hook
+ */
+export function buildNavigationImports(): string {
+  return "import { useNavigation, type NavigationProp, type ParamListBase } from '@react-navigation/native';";
+}
+
+/**
+ * useNavigation call placed at the top of the component body
+ */
+export function buildNavigationHook(): string {
+  return '  const navigation = useNavigation<NavigationProp<ParamListBase>>();\n';
+}
@@ -0,0 +1,392 @@
+/**
+ * Style Backends - style generated JSX with a styling library instead of StyleSheet
+ *
+ * Styles are built as for StyleSheet (same sizing heuristics and token
+ * matching), then translated per property into the library's API, with
+ * matched tokens referenced by name:
+ * - nativewind: `<View className="p-4 bg-brand-500">`
+ * - restyle: `<Box padding="m" backgroundColor="cardPrimary">`
+ * - tamagui: `<YStack gap="$3" backgroundColor="$background">`
+ * - styled-components: `const StyledCard = styled.View` blocks
+ *
+ * The JSX builder asks the backend for every element with plain style
+ * references (BuildJSXOptions.styledElement). Elements with conditional styles
+ * (variants, selected states) and styles the backend cannot express keep
+ * their StyleSheet reference; those styles keep theme tokens and scaling as
+ * in StyleSheet output.
+ */
+
+import type { IRNode, StylesBundle, StylePattern } from '../types.js';
+import type { TokenMappings } from '../mapping/token-matcher.js';
+import { toPascalCase } from '../shared/naming.js';
+import type { StyledElement, StyledElementResolver } from './jsx-builder.js';
+import { buildClassNames, buildStyleLines, themeTokenName } from './styles-builder.js';
+
+/**
+ * Backend rendering the elements of generated JSX with a styling library
+ */
+export interface StyleBackend {
+  /** Element for a tag and plain style references, or null to keep the StyleSheet reference */
+  element: StyledElementResolver;
+  /** Module-level declarations of the elements returned so far (styled components) */
+  declarations(): string;
+  /** Values no token matched */
+  unmapped: { colors: string[]; spacing: number[]; radii: number[] };
+}
+
+/**
+ * Style property parsed from a StyleSheet line; spreads have property '...'
+ */
+interface StyleDeclaration {
+  property: string;
+  value: string;
+}
+
+/**
+ * Whether a style pattern replaces StyleSheet output (no theme modes)
+ */
+export function isStyleBackend(stylePattern?: StylePattern): boolean {
+  return stylePattern === 'nativewind'
+    || stylePattern === 'restyle'
+    || stylePattern === 'tamagui'
+    || stylePattern === 'styled-components';
+}
+
+/**
+ * Declarations of StyleSheet lines; null for multi-line values (box shadows)
+ */
+function parseStyleLines(props: string): StyleDeclaration[] | null {
+  const declarations: StyleDeclaration[] = [];
+  for (const line of props.split('\n').filter(line => line.trim())) {
+    const spread = /^\s*\.\.\.(\S+?),$/.exec(line);
+    if (spread) {
+      declarations.push({ property: '...', value: spread[1] });
+      continue;
+    }
+    const match = /^\s*([A-Za-z]+):\s*(.+?),(\s*\/\/.*)?$/.exec(line);
+    if (!match) return null;
+    declarations.push({ property: match[1], value: match[2] });
+  }
+  return declarations;
+}
+
+/**
+ * Equal padding sides collapse: paddingLeft + paddingRight → paddingHorizontal,
+ * all four → padding
+ */
+function collapsePadding(declarations: StyleDeclaration[]): StyleDeclaration[] {
+  const sides: Record<string, string> = {};
+  const rest = declarations.filter(({ property, value }) => {
+    const side = /^padding(Top|Right|Bottom|Left)$/.exec(property)?.[1];
+    if (side) sides[side] = value;
+    return !side;
+  });
+
+  const { Top: top, Right: right, Bottom: bottom, Left: left } = sides;
+  const x = left !== undefined && left === right ? left : undefined;
+  const y = top !== undefined && top === bottom ? top : undefined;
+  const padding: StyleDeclaration[] = [];
+  if (x !== undefined && x === y) {
+    padding.push({ property: 'padding', value: x });
+  } else {
+    if (x !== undefined) padding.push({ property: 'paddingHorizontal', value: x });
+    if (y !== undefined) padding.push({ property: 'paddingVertical', value: y });
+    if (y === undefined && top !== undefined) padding.push({ property: 'paddingTop', value: top });
+    if (x === undefined && right !== undefined) padding.push({ property: 'paddingRight', value: right });
+    if (y === undefined && bottom !== undefined) padding.push({ property: 'paddingBottom', value: bottom });
+    if (x === undefined && left !== undefined) padding.push({ property: 'paddingLeft', value: left });
+  }
+  return [...padding, ...rest];
+}
+
+/**
+ * JSX attribute of a style value: simple strings quoted, anything else an expression
+ */
+function jsxProp(property: string, value: string): string {
+  const literal = /^'([^'\\]*)'$/.exec(value);
+  return literal ? `${property}="${literal[1]}"` : `${property}={${value}}`;
+}
+
+/**
+ * Declarations of every style, translated by `translate`; untranslatable
+ * styles (null) are left out
+ *
+ * @param spreads - Match typography and shadow tokens (emitted as spreads); without,
+ * their properties are written out
+ */
+function translateStyles<T>(
+  root: IRNode,
+  stylesBundle: StylesBundle,
+  mappings: TokenMappings,
+  spreads: { typography: boolean; shadows: boolean },
+  translate: (declarations: StyleDeclaration[]) => T | null
+): { translated: Record<string, T>; unmapped: StyleBackend['unmapped'] } {
+  const { lines, unmapped } = buildStyleLines(root, stylesBundle, {
+    ...mappings,
+    typography: spreads.typography ? mappings.typography : {},
+    shadows: spreads.shadows ? mappings.shadows : {},
+  });
+  const translated: Record<string, T> = {};
+  for (const [styleRef, props] of Object.entries(lines)) {
+    const declarations = parseStyleLines(props);
+    const result = declarations && translate(collapsePadding(declarations));
+    if (result !== null) translated[styleRef] = result;
+  }
+  return { translated, unmapped };
+}
+
+// ============================================================================
+// NativeWind
+// ============================================================================
+
+/**
+ * Components NativeWind styles through className. Third-party components
+ * (BlurView, LinearGradient, SVG icons, SafeAreaView) only take className
+ * once the project registers them with cssInterop, so they keep StyleSheet.
+ */
+const CLASS_NAME_COMPONENTS = new Set([
+  'View', 'Text', 'Image', 'ImageBackground', 'Pressable', 'TouchableOpacity', 'TextInput', 'ScrollView', 'FlatList',
+]);
+
+function createNativeWindBackend(root: IRNode, stylesBundle: StylesBundle, mappings: TokenMappings): StyleBackend {
+  const { classNames, combineClassNames, unmapped } = buildClassNames(root, stylesBundle, mappings);
+
+  return {
+    element: (tag, styleNames): StyledElement | null => {
+      const classes = styleNames.length === 1 ? classNames[styleNames[0]] : combineClassNames(styleNames);
+      if (classes === undefined || !CLASS_NAME_COMPONENTS.has(tag)) return null;
+      return { tag, attributes: classes ? `className="${classes}"` : '' };
+    },
+    declarations: () => '',
+    unmapped,
+  };
+}
+
+// ============================================================================
+// Restyle
+// ============================================================================
+
+const SPACING_PROPS = [
+  'gap', 'columnGap', 'rowGap',
+  'padding', 'paddingHorizontal', 'paddingVertical', 'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'margin', 'marginHorizontal', 'marginVertical', 'marginTop', 'marginRight', 'marginBottom', 'marginLeft',
+];
+const COLOR_PROPS = ['backgroundColor', 'color', 'borderColor', 'shadowColor'];
+const RADIUS_PROPS = [
+  'borderRadius', 'borderTopLeftRadius', 'borderTopRightRadius', 'borderBottomRightRadius', 'borderBottomLeftRadius',
+];
+
+/** Restyle props that only take theme keys (spacing, colors, borderRadii) */
+const RESTYLE_THEME_PROPS = new Set([...SPACING_PROPS, ...COLOR_PROPS, ...RADIUS_PROPS]);
+
+/** Restyle props that take plain style values */
+const RESTYLE_VALUE_PROPS = new Set([
+  'opacity', 'width', 'height', 'minWidth', 'maxWidth', 'minHeight', 'maxHeight', 'overflow', 'aspectRatio',
+  'alignContent', 'alignItems', 'alignSelf', 'justifyContent', 'flex', 'flexBasis', 'flexDirection', 'flexGrow',
+  'flexShrink', 'flexWrap', 'position', 'top', 'right', 'bottom', 'left', 'zIndex', 'borderWidth',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth', 'borderStyle', 'shadowOffset',
+  'shadowOpacity', 'shadowRadius', 'elevation', 'fontFamily', 'fontSize', 'fontStyle', 'fontWeight',
+  'letterSpacing', 'lineHeight', 'textAlign', 'textDecorationLine', 'textDecorationStyle', 'textTransform',
+]);
+
+/**
+ * Restyle attributes of a style; theme props without a matched token go to an
+ * inline style, as Restyle only accepts theme keys for them
+ */
+function toRestyleProps(
+  declarations: StyleDeclaration[],
+  typographyPaths: Set<string>
+): { attributes: string; variant: boolean } | null {
+  const props: string[] = [];
+  const inline: string[] = [];
+  let variant = false;
+
+  for (const { property, value } of declarations) {
+    if (property === '...') {
+      // Typography tokens are text variants
+      if (!typographyPaths.has(value)) return null;
+      props.unshift(`variant="${themeTokenName(value)}"`);
+      variant = true;
+    } else if (RESTYLE_THEME_PROPS.has(property)) {
+      if (value.startsWith('theme.')) {
+        props.push(`${property}="${themeTokenName(value)}"`);
+      } else {
+        inline.push(`${property}: ${value}`);
+      }
+    } else if (RESTYLE_VALUE_PROPS.has(property)) {
+      props.push(jsxProp(property, value));
+    } else {
+      inline.push(`${property}: ${value}`);
+    }
+  }
+
+  if (inline.length > 0) props.push(`style={{ ${inline.join(', ')} }}`);
+  return { attributes: props.join(' '), variant };
+}
+
+function createRestyleBackend(root: IRNode, stylesBundle: StylesBundle, mappings: TokenMappings): StyleBackend {
+  const typographyPaths = new Set(Object.values(mappings.typography ?? {}));
+  const { translated, unmapped } = translateStyles(
+    root,
+    stylesBundle,
+    mappings,
+    { typography: true, shadows: false },
+    declarations => toRestyleProps(declarations, typographyPaths)
+  );
+
+  return {
+    element: (tag, [styleName, ...rest]): StyledElement | null => {
+      const props = translated[styleName];
+      if (!props || rest.length > 0 || (tag !== 'View' && tag !== 'Text')) return null;
+      // Boxes have no text variants
+      if (tag === 'View' && props.variant) return null;
+      return { tag: tag === 'View' ? 'Box' : 'Text', attributes: props.attributes };
+    },
+    declarations: () => '',
+    unmapped,
+  };
+}
+
+// ============================================================================
+// Tamagui
+// ============================================================================
+
+/**
+ * Tamagui attributes of a style: tokens as `$name`, other values as they are
+ */
+function toTamaguiProps(declarations: StyleDeclaration[]): { attributes: string; row: boolean } | null {
+  const props: string[] = [];
+  let row = false;
+
+  for (const { property, value } of declarations) {
+    if (property === '...') return null;
+    if (property === 'flexDirection') {
+      // XStack / YStack carry the direction
+      row = value === "'row'";
+      continue;
+    }
+    props.push(value.startsWith('theme.') ? `${property}="$${themeTokenName(value)}"` : jsxProp(property, value));
+  }
+
+  return { attributes: props.join(' '), row };
+}
+
+function createTamaguiBackend(root: IRNode, stylesBundle: StylesBundle, mappings: TokenMappings): StyleBackend {
+  const { translated, unmapped } = translateStyles(
+    root,
+    stylesBundle,
+    mappings,
+    { typography: false, shadows: false },
+    toTamaguiProps
+  );
+
+  return {
+    element: (tag, [styleName, ...rest]): StyledElement | null => {
+      const props = translated[styleName];
+      if (!props || rest.length > 0) return null;
+      if (tag === 'Text') return { tag, attributes: props.attributes };
+      if (tag === 'View') return { tag: props.row ? 'XStack' : 'YStack', attributes: props.attributes };
+      return null;
+    },
+    declarations: () => '',
+    unmapped,
+  };
+}
+
+// ============================================================================
+// styled-components
+// ============================================================================
+
+/** Core components available as styled.<Component> */
+const STYLED_COMPONENTS = new Set(['View', 'Text', 'Image', 'ScrollView', 'TextInput', 'TouchableOpacity']);
+
+/** Numeric properties without a px unit in CSS */
+const UNITLESS_PROPERTIES = new Set([
+  'flex', 'flexGrow', 'flexShrink', 'opacity', 'fontWeight', 'zIndex', 'elevation', 'aspectRatio', 'shadowOpacity',
+]);
+
+/**
+ * CSS body of a style; theme tokens are read from the ThemeProvider theme
+ */
+function toStyledCss(declarations: StyleDeclaration[]): string | null {
+  const rules: string[] = [];
+
+  for (const { property, value } of declarations) {
+    const offset = /^\{ width: (-?[\d.]+), height: (-?[\d.]+) \}$/.exec(value);
+    if (property === 'shadowOffset' && offset) {
+      rules.push(`  shadow-offset: ${offset[1]}px ${offset[2]}px;`);
+      continue;
+    }
+    if (property === '...' || /^[[{]/.test(value)) return null;
+
+    const unit = UNITLESS_PROPERTIES.has(property) || /Color$|^color$/.test(property) ? '' : 'px';
+    let cssValue: string;
+    if (value.startsWith('theme.')) {
+      cssValue = `\${({ theme }) => ${value}}${unit}`;
+    } else if (/^-?\d+(\.\d+)?$/.test(value)) {
+      cssValue = `${value}${unit}`;
+    } else if (/^'[^'\\]*'$/.test(value)) {
+      // Font families keep their quotes (names with spaces)
+      cssValue = property === 'fontFamily' ? value : value.slice(1, -1);
+    } else {
+      return null;
+    }
+    rules.push(`  ${property.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`)}: ${cssValue};`);
+  }
+
+  return rules.join('\n');
+}
+
+function createStyledComponentsBackend(root: IRNode, stylesBundle: StylesBundle, mappings: TokenMappings): StyleBackend {
+  const { translated, unmapped } = translateStyles(
+    root,
+    stylesBundle,
+    mappings,
+    { typography: false, shadows: false },
+    toStyledCss
+  );
+  // Styled component name → its declaration, in order of first use
+  const components = new Map<string, { tag: string; css: string }>();
+
+  return {
+    element: (tag, [styleName, ...rest]): StyledElement | null => {
+      const css = translated[styleName];
+      if (css === undefined || rest.length > 0 || !STYLED_COMPONENTS.has(tag)) return null;
+      const name = `Styled${toPascalCase(styleName)}`;
+      const existing = components.get(name);
+      // One style on two different components keeps the StyleSheet for the second
+      if (existing && existing.tag !== tag) return null;
+      components.set(name, { tag, css });
+      return { tag: name, attributes: '' };
+    },
+    declarations: () => Array.from(components, ([name, { tag, css }]) =>
+      `const ${name} = styled.${tag}\`\n${css}${css ? '\n' : ''}\`;`
+    ).join('\n\n'),
+    unmapped,
+  };
+}
+
+/**
+ * Backend of a style pattern; null for StyleSheet-based patterns
+ *
+ * @param mappings - Token mappings; backends reference the matched tokens by name
+ */
+export function createStyleBackend(
+  stylePattern: StylePattern | undefined,
+  root: IRNode,
+  stylesBundle: StylesBundle,
+  mappings: TokenMappings
+): StyleBackend | null {
+  switch (stylePattern) {
+    case 'nativewind':
+      return createNativeWindBackend(root, stylesBundle, mappings);
+    case 'restyle':
+      return createRestyleBackend(root, stylesBundle, mappings);
+    case 'tamagui':
+      return createTamaguiBackend(root, stylesBundle, mappings);
+    case 'styled-components':
+      return createStyledComponentsBackend(root, stylesBundle, mappings);
+    default:
+      return null;
+  }
+}
@@ -2,7 +2,7 @@
  * Styles Builder - Generate StyleSheet from StylesBundle
  */
 
-import type { StylesBundle, ExtractedStyle, LayoutMeta, IRNode } from '../types.js';
+import type { StylesBundle, ExtractedStyle, LayoutMeta, IRNode, StyleVariableBindings, StylePattern, ScalingStrategy } from '../types.js';
 import type { TokenMappings } from '../mapping/token-matcher.js';
 import { formatInteger, formatSmart, formatFloat } from '../shared/number-format.js';
 import { mapColor } from '../mapping/color-map.js';
@@ -61,21 +61,48 @@ function findFuzzyShadowMatch(
 }
 
 /**
- * Apply scaling function to a value if specified
+ * Scale function a value gets: horizontal (widths, x offsets, gaps along
+ * rows, radii), vertical (heights, y offsets, gaps along columns) or
+ * moderate (font sizes, line heights)
  */
-function applyScaling(value: string | number, scaleFunction?: string): string {
-  if (!scaleFunction) return String(value);
-  // Don't scale percentages
-  if (typeof value === 'string' && value.endsWith('%')) return value;
-  return `${scaleFunction}(${value})`;
+type ScaleAxis = 'horizontal' | 'vertical' | 'moderate';
+
+/**
+ * Wrap a formatted value in the scale function of its axis
+ */
+type Scaler = (value: string | number, axis: ScaleAxis) => string;
+
+/**
+ * Scaler of a scaling strategy; a single scale function covers every axis
+ *
+ * Percentages and values up to `unscaledMax` (hairlines, 1px dividers) are
+ * left as they are. With a base width, values are converted from the design
+ * width (the Figma root frame) to it before scaling.
+ */
+function createScaler(scaleFunction?: string, scaling?: ScalingStrategy, designWidth?: number): Scaler {
+  const horizontal = scaling?.horizontal ?? scaleFunction;
+  const functions: Record<ScaleAxis, string | undefined> = {
+    horizontal,
+    vertical: scaling?.vertical ?? horizontal,
+    moderate: scaling?.moderate ?? horizontal,
+  };
+  const unscaledMax = scaling?.unscaledMax ?? 1;
+  const ratio = scaling?.baseWidth && designWidth ? scaling.baseWidth / designWidth : 1;
+
+  return (value, axis) => {
+    const scaleFn = functions[axis];
+    const number = Number(value);
+    if (!scaleFn || !Number.isFinite(number) || Math.abs(number) <= unscaledMax) return String(value);
+    return `${scaleFn}(${ratio === 1 ? value : formatSmart(number * ratio)})`;
+  };
 }
 
 /**
  * Helper to format width/height which can be string or number
  */
-function formatDim(val: string | number, scaleFn?: string): string {
+function formatDim(val: string | number, scale: Scaler, axis: ScaleAxis): string {
    if (typeof val === 'number') {
-     return applyScaling(formatInteger(val), scaleFn);
+     return scale(formatInteger(val), axis);
    }
    // Ensure strings (like "100%") are quoted in the output
    if (typeof val === 'string' && !val.startsWith("'") && !val.startsWith('"')) {
@@ -90,9 +117,19 @@ function formatDim(val: string | number, scaleFn?: string): string {
  *
  * NOTE: Fuzzy matching is handled by token-matcher.ts (matchSpacing/matchRadii).
  * The TokenMappings already contain fuzzy-matched values, so we only need
- * to do exact lookup here.
+ * to do exact lookup here. A bound variable matched by name wins.
  */
-function mapNumber(value: number, category: 'spacing' | 'radii', mappings: TokenMappings): { value: string; mapped: boolean } {
+function mapNumber(
+  value: number,
+  category: 'spacing' | 'radii',
+  mappings: TokenMappings,
+  variableName?: string
+): { value: string; mapped: boolean } {
+  const byVariable = variableName ? mappings.variables?.[variableName] : undefined;
+  if (byVariable) {
+    return { value: byVariable, mapped: true };
+  }
+
   const categoryMappings = mappings[category] || {};
 
   // Try exact lookup (mappings already include fuzzy-matched values from token-matcher)
@@ -113,9 +150,13 @@ function mapNumber(value: number, category: 'spacing' | 'radii', mappings: Token
 /**
  * Convert LayoutMeta to flex style properties
  */
-function layoutToStyleProps(layout: LayoutMeta, mappings: TokenMappings, scaleFunction?: string): string[] {
+function layoutToStyleProps(
+  layout: LayoutMeta,
+  mappings: TokenMappings,
+  scale: Scaler,
+  variables: StyleVariableBindings = {}
+): string[] {
   const props: string[] = [];
-  const sc = (val: string | number) => applyScaling(val, scaleFunction);
 
   // Direction
   if (layout.type === 'row') {
@@ -148,29 +189,37 @@ function layoutToStyleProps(layout: LayoutMeta, mappings: TokenMappings, scaleFu
     props.push(`    alignItems: '${crossMap[layout.crossAlign]}',`);
   }
 
-  // Gap
+  // Gap (wrapped rows split it into columnGap between items and rowGap between lines)
+  if (layout.wrap) {
+    props.push(`    flexWrap: 'wrap',`);
+  }
   if (layout.gap > 0) {
-    const { value, mapped } = mapNumber(layout.gap, 'spacing', mappings);
-    props.push(`    gap: ${mapped ? value : sc(value)},`);
+    const { value, mapped } = mapNumber(layout.gap, 'spacing', mappings, variables.gap);
+    const axis = layout.wrap || layout.type === 'row' ? 'horizontal' : 'vertical';
+    props.push(`    ${layout.wrap ? 'columnGap' : 'gap'}: ${mapped ? value : scale(value, axis)},`);
+  }
+  if (layout.wrap && layout.wrapGap > 0) {
+    const { value, mapped } = mapNumber(layout.wrapGap, 'spacing', mappings, variables.rowGap);
+    props.push(`    rowGap: ${mapped ? value : scale(value, 'vertical')},`);
   }
 
   // Padding
   const { top, right, bottom, left } = layout.padding;
   if (top > 0) {
-    const { value, mapped } = mapNumber(top, 'spacing', mappings);
-    props.push(`    paddingTop: ${mapped ? value : sc(value)},`);
+    const { value, mapped } = mapNumber(top, 'spacing', mappings, variables.paddingTop);
+    props.push(`    paddingTop: ${mapped ? value : scale(value, 'vertical')},`);
   }
   if (right > 0) {
-    const { value, mapped } = mapNumber(right, 'spacing', mappings);
-    props.push(`    paddingRight: ${mapped ? value : sc(value)},`);
+    const { value, mapped } = mapNumber(right, 'spacing', mappings, variables.paddingRight);
+    props.push(`    paddingRight: ${mapped ? value : scale(value, 'horizontal')},`);
   }
   if (bottom > 0) {
-    const { value, mapped } = mapNumber(bottom, 'spacing', mappings);
-    props.push(`    paddingBottom: ${mapped ? value : sc(value)},`);
+    const { value, mapped } = mapNumber(bottom, 'spacing', mappings, variables.paddingBottom);
+    props.push(`    paddingBottom: ${mapped ? value : scale(value, 'vertical')},`);
   }
   if (left > 0) {
-    const { value, mapped } = mapNumber(left, 'spacing', mappings);
-    props.push(`    paddingLeft: ${mapped ? value : sc(value)},`);
+    const { value, mapped } = mapNumber(left, 'spacing', mappings, variables.paddingLeft);
+    props.push(`    paddingLeft: ${mapped ? value : scale(value, 'horizontal')},`);
   }
 
   return props;
@@ -223,18 +272,21 @@ function buildStyleProps(
   layout: LayoutWithContext | undefined,
   mappings: TokenMappings,
   unmapped: { colors: Set<string>; spacing: Set<number>; radii: Set<number> },
-  options?: { suppressTodos?: boolean; scaleFunction?: string; hasProjectTheme?: boolean }
+  options?: { suppressTodos?: boolean; scale?: Scaler; hasProjectTheme?: boolean }
 ): string {
   const lines: string[] = [];
   const suppress = options?.suppressTodos;
-  const scale = options?.scaleFunction;
+  const scale = options?.scale ?? createScaler();
   const hasProjectTheme = options?.hasProjectTheme ?? false;
-  const sc = (val: string | number) => applyScaling(val, scale);
   const themeTodo = (mapped: boolean) => !mapped && !suppress && hasProjectTheme ? ' // TODO: map to theme' : '';
 
+  // Min/max bounds replace the fixed size on their axis
+  const width = style.minWidth !== undefined || style.maxWidth !== undefined ? undefined : style.width;
+  const height = style.minHeight !== undefined || style.maxHeight !== undefined ? undefined : style.height;
+
   // 1. Layout props (if container/card)
   if (layout) {
-    lines.push(...layoutToStyleProps(layout, mappings, scale));
+    lines.push(...layoutToStyleProps(layout, mappings, scale, style.variables));
 
     // Detect root container (no parent, device-sized dimensions)
     const isRootContainer = !layout.parentType &&
@@ -259,9 +311,9 @@ function buildStyleProps(
       } else if (horizontal === 'hug') {
         // Hug: let content determine width (no explicit width)
         // No alignSelf needed - this is the default behavior
-      } else if (horizontal === 'fixed' && style.width !== undefined) {
+      } else if (horizontal === 'fixed' && width !== undefined) {
         // Fixed width - use exact Figma value
-        lines.push(`    width: ${formatDim(style.width, scale)},`);
+        lines.push(`    width: ${formatDim(width, scale, 'horizontal')},`);
       }
 
       // Vertical Sizing - following Figma's exact approach
@@ -273,25 +325,25 @@ function buildStyleProps(
         }
       } else if (vertical === 'hug') {
         // Hug: let content determine height (no explicit height)
-      } else if (vertical === 'fixed' && style.height !== undefined) {
+      } else if (vertical === 'fixed' && height !== undefined) {
         // Fixed height - use exact Figma value
-        lines.push(`    height: ${formatDim(style.height, scale)},`);
+        lines.push(`    height: ${formatDim(height, scale, 'vertical')},`);
       }
 
     } else {
       // Fallback to Fixed if no sizing info (legacy) - still apply heuristics
-      if (style.width !== undefined) {
-        if (shouldUseFullWidth(style.width, layout.parentType)) {
+      if (width !== undefined) {
+        if (shouldUseFullWidth(width, layout.parentType)) {
           lines.push(`    width: '100%',`);
         } else {
-          lines.push(`    width: ${formatDim(style.width, scale)},`);
+          lines.push(`    width: ${formatDim(width, scale, 'horizontal')},`);
         }
       }
-      if (style.height !== undefined) {
-        if (shouldUseFlex(style.height, layout.parentType)) {
+      if (height !== undefined) {
+        if (shouldUseFlex(height, layout.parentType)) {
           lines.push(`    flex: 1,`);
         } else {
-          lines.push(`    height: ${formatDim(style.height, scale)},`);
+          lines.push(`    height: ${formatDim(height, scale, 'vertical')},`);
         }
       }
     }
@@ -299,23 +351,30 @@ function buildStyleProps(
   } else {
     // Non-layout nodes (Text, Image) - keep fixed sizing but omit for small elements
     // Large fixed dimensions on text/images are usually intentional
-    if (style.width !== undefined) lines.push(`    width: ${formatDim(style.width, scale)},`);
-    if (style.height !== undefined) lines.push(`    height: ${formatDim(style.height, scale)},`);
+    if (width !== undefined) lines.push(`    width: ${formatDim(width, scale, 'horizontal')},`);
+    if (height !== undefined) lines.push(`    height: ${formatDim(height, scale, 'vertical')},`);
   }
 
+  // 1.2 Size bounds (auto-layout min/max)
+  if (style.minWidth !== undefined) lines.push(`    minWidth: ${formatDim(style.minWidth, scale, 'horizontal')},`);
+  if (style.maxWidth !== undefined) lines.push(`    maxWidth: ${formatDim(style.maxWidth, scale, 'horizontal')},`);
+  if (style.minHeight !== undefined) lines.push(`    minHeight: ${formatDim(style.minHeight, scale, 'vertical')},`);
+  if (style.maxHeight !== undefined) lines.push(`    maxHeight: ${formatDim(style.maxHeight, scale, 'vertical')},`);
+
   // 1.5 Positioning (Absolute)
   if (style.position) lines.push(`    position: '${style.position}',`);
-  if (style.left !== undefined) lines.push(`    left: ${formatDim(style.left, scale)},`);
-  if (style.right !== undefined) lines.push(`    right: ${formatDim(style.right, scale)},`);
-  if (style.top !== undefined) lines.push(`    top: ${formatDim(style.top, scale)},`);
-  if (style.bottom !== undefined) lines.push(`    bottom: ${formatDim(style.bottom, scale)},`);
+  if (style.left !== undefined) lines.push(`    left: ${formatDim(style.left, scale, 'horizontal')},`);
+  if (style.right !== undefined) lines.push(`    right: ${formatDim(style.right, scale, 'horizontal')},`);
+  if (style.top !== undefined) lines.push(`    top: ${formatDim(style.top, scale, 'vertical')},`);
+  if (style.bottom !== undefined) lines.push(`    bottom: ${formatDim(style.bottom, scale, 'vertical')},`);
 
   // 3. Border
   if (style.borderWidth !== undefined) {
-    lines.push(`    borderWidth: ${formatSmart(style.borderWidth)},`);
+    const boundWidth = style.variables?.borderWidth && mappings.variables?.[style.variables.borderWidth];
+    lines.push(`    borderWidth: ${boundWidth || formatSmart(style.borderWidth)},`);
   }
   if (style.borderColor) {
-    const { value, mapped } = mapColor(style.borderColor, mappings);
+    const { value, mapped } = mapColor(style.borderColor, mappings, style.variables?.borderColor);
     lines.push(`    borderColor: ${value},${themeTodo(mapped)}`);
     if (!mapped) unmapped.colors.add(style.borderColor);
   }
@@ -323,30 +382,30 @@ function buildStyleProps(
   // 4. Border Radius
   if (style.borderRadius !== undefined) {
     if (typeof style.borderRadius === 'number') {
-      const { value, mapped } = mapNumber(style.borderRadius, 'radii', mappings);
-      lines.push(`    borderRadius: ${mapped ? value : sc(value)},${themeTodo(mapped)}`);
+      const { value, mapped } = mapNumber(style.borderRadius, 'radii', mappings, style.variables?.borderRadius);
+      lines.push(`    borderRadius: ${mapped ? value : scale(value, 'horizontal')},${themeTodo(mapped)}`);
       if (!mapped) unmapped.radii.add(style.borderRadius);
     } else {
       // Individual corners
       const { topLeft, topRight, bottomRight, bottomLeft } = style.borderRadius;
       if (topLeft > 0) {
         const { value, mapped } = mapNumber(topLeft, 'radii', mappings);
-        lines.push(`    borderTopLeftRadius: ${mapped ? value : sc(value)},`);
+        lines.push(`    borderTopLeftRadius: ${mapped ? value : scale(value, 'horizontal')},`);
         if (!mapped) unmapped.radii.add(topLeft);
       }
       if (topRight > 0) {
         const { value, mapped } = mapNumber(topRight, 'radii', mappings);
-        lines.push(`    borderTopRightRadius: ${mapped ? value : sc(value)},`);
+        lines.push(`    borderTopRightRadius: ${mapped ? value : scale(value, 'horizontal')},`);
         if (!mapped) unmapped.radii.add(topRight);
       }
       if (bottomRight > 0) {
         const { value, mapped } = mapNumber(bottomRight, 'radii', mappings);
-        lines.push(`    borderBottomRightRadius: ${mapped ? value : sc(value)},`);
+        lines.push(`    borderBottomRightRadius: ${mapped ? value : scale(value, 'horizontal')},`);
         if (!mapped) unmapped.radii.add(bottomRight);
       }
       if (bottomLeft > 0) {
         const { value, mapped } = mapNumber(bottomLeft, 'radii', mappings);
-        lines.push(`    borderBottomLeftRadius: ${mapped ? value : sc(value)},`);
+        lines.push(`    borderBottomLeftRadius: ${mapped ? value : scale(value, 'horizontal')},`);
         if (!mapped) unmapped.radii.add(bottomLeft);
       }
     }
@@ -356,7 +415,7 @@ function buildStyleProps(
   // Text nodes should only use `color`, not `backgroundColor`
   const isTextNode = style.typography != null;
   if (style.backgroundColor && !style.backgroundGradient && !isTextNode) {
-    const { value, mapped } = mapColor(style.backgroundColor, mappings);
+    const { value, mapped } = mapColor(style.backgroundColor, mappings, style.variables?.backgroundColor);
     lines.push(`    backgroundColor: ${value},${themeTodo(mapped)}`);
     if (!mapped) unmapped.colors.add(style.backgroundColor);
   }
@@ -366,8 +425,24 @@ function buildStyleProps(
     lines.push(`    opacity: ${formatFloat(style.opacity)},`);
   }
 
-  // 7. Shadow
-  if (style.shadow) {
+  // 7. Shadow (several or inner shadows need RN 0.76+ boxShadow)
+  if (style.boxShadow) {
+    lines.push(`    boxShadow: [`);
+    for (const { color, offsetX, offsetY, blur, spread, inset } of style.boxShadow) {
+      const { value: shadowColor, mapped } = mapColor(color, mappings);
+      const fields = [
+        `offsetX: ${formatSmart(offsetX)}`,
+        `offsetY: ${formatSmart(offsetY)}`,
+        `blurRadius: ${formatSmart(blur)}`,
+        `spreadDistance: ${formatSmart(spread)}`,
+        `color: ${shadowColor}`,
+        inset ? 'inset: true' : '',
+      ].filter(Boolean);
+      lines.push(`      { ${fields.join(', ')} },${themeTodo(mapped)}`);
+      if (!mapped) unmapped.colors.add(color);
+    }
+    lines.push(`    ],`);
+  } else if (style.shadow) {
     const { color, offsetX, offsetY, blur, spread } = style.shadow;
     const shadowMappings = mappings.shadows || {};
 
@@ -398,9 +473,18 @@ function buildStyleProps(
     }
   }
 
+  // 7.5 Blur (layer blur only; background blur is rendered with BlurView)
+  if (style.layerBlur) {
+    lines.push(`    filter: [{ blur: ${formatSmart(style.layerBlur)} }], // Android only`);
+  }
+  if (style.backgroundBlur) {
+    // BlurView fills the whole box; clip it to the corner radius
+    lines.push(`    overflow: 'hidden',`);
+  }
+
   // 8. Typography
   if (style.typography) {
-    const { fontFamily, fontSize, fontWeight, lineHeight, letterSpacing, textAlign, color } = style.typography;
+    const { fontFamily, fontSize, fontWeight, lineHeight, letterSpacing, textAlign, textDecoration, color } = style.typography;
     const typoMappings = mappings.typography || {};
     
     // Find if this specific typography is mapped
@@ -413,16 +497,17 @@ function buildStyleProps(
     } else {
       // Fallback: output individual properties
       if (fontFamily) lines.push(`    fontFamily: '${fontFamily}',`);
-      if (fontSize) lines.push(`    fontSize: ${sc(formatInteger(fontSize))},`);
+      if (fontSize) lines.push(`    fontSize: ${scale(formatInteger(fontSize), 'moderate')},`);
       if (fontWeight) lines.push(`    fontWeight: '${fontWeight}',`);
-      if (lineHeight) lines.push(`    lineHeight: ${sc(formatInteger(lineHeight))},`);
+      if (lineHeight) lines.push(`    lineHeight: ${scale(formatInteger(lineHeight), 'moderate')},`);
       // Only output letterSpacing when NOT using spread (spread includes it)
       if (letterSpacing) lines.push(`    letterSpacing: ${formatFloat(letterSpacing)},`);
     }
 
     if (textAlign && textAlign !== 'left') lines.push(`    textAlign: '${textAlign}',`);
+    if (textDecoration) lines.push(`    textDecorationLine: '${textDecoration}',`);
     if (color) {
-      const { value, mapped } = mapColor(color, mappings);
+      const { value, mapped } = mapColor(color, mappings, style.variables?.color);
       lines.push(`    color: ${value},${themeTodo(mapped)}`);
       if (!mapped) unmapped.colors.add(color);
     }
@@ -455,6 +540,68 @@ function collectLayouts(
   }
 }
 
+/**
+ * Values restoring the default of a property a variant drops
+ * (Type=Secondary without the Primary fill renders transparent)
+ */
+const VARIANT_RESETS: Record<string, string> = {
+  backgroundColor: "'transparent'",
+  borderWidth: '0',
+  opacity: '1',
+  elevation: '0',
+  shadowOpacity: '0',
+};
+
+/**
+ * Property a style line sets: its key, or the whole line for spreads and comments
+ */
+function stylePropertyKey(line: string): string {
+  return line.match(/^\s*([A-Za-z_$][\w$]*)\s*:/)?.[1] ?? line.trim();
+}
+
+/**
+ * Lines of a variant style that differ from its base style
+ * Component set variants are applied on top of the base, so only the
+ * overrides are emitted, plus resets for properties the variant drops.
+ */
+function diffVariantStyleProps(baseProps: string, variantProps: string): string {
+  const baseLines = baseProps.split('\n').filter(line => line.trim());
+  const variantLines = variantProps.split('\n').filter(line => line.trim());
+  const variantKeys = new Set(variantLines.map(stylePropertyKey));
+
+  const lines = variantLines.filter(line => !baseLines.includes(line));
+  for (const line of baseLines) {
+    const key = stylePropertyKey(line);
+    if (!variantKeys.has(key) && VARIANT_RESETS[key]) {
+      lines.push(`    ${key}: ${VARIANT_RESETS[key]},`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Map component set variant styles to their base style refs and register
+ * the variant layouts with the parent context of their base
+ */
+function collectVariantBases(node: IRNode, layoutMap: Map<string, LayoutWithContext>, bases: Map<string, string>): void {
+  for (const [baseRef, variants] of Object.entries(node.variantStyles ?? {})) {
+    const baseLayout = layoutMap.get(baseRef);
+    for (const variant of variants) {
+      bases.set(variant.styleRef, baseRef);
+      if (variant.layout && baseLayout) {
+        layoutMap.set(variant.styleRef, { ...variant.layout, parentType: baseLayout.parentType });
+      }
+    }
+  }
+
+  if ('children' in node && node.children) {
+    for (const child of node.children) {
+      collectVariantBases(child, layoutMap, bases);
+    }
+  }
+}
+
 /**
  * Build StyleSheet.create() string from StylesBundle
  */
@@ -466,8 +613,14 @@ export function buildStyles(
     usedStyles?: Set<string>;
     suppressTodos?: boolean;
     scaleFunction?: string;
-    stylePattern?: 'useTheme' | 'StyleSheet' | 'unistyles';
+    /** Scale functions by axis and unscaled values; scaleFunction covers the axes it leaves out */
+    scaling?: ScalingStrategy;
+    /** Width of the Figma root frame, converted to the scaling base width */
+    designWidth?: number;
+    stylePattern?: StylePattern;
     hasProjectTheme?: boolean;
+    /** Emit a createStyles(theme) factory so styles follow the active theme mode */
+    themeFactory?: boolean;
   }
 ): { code: string; unmapped: { colors: string[]; spacing: number[]; radii: number[] } } {
   const unmapped = {
@@ -476,10 +629,20 @@ export function buildStyles(
     radii: new Set<number>(),
   };
 
+  const propsOptions = {
+    suppressTodos: options?.suppressTodos,
+    hasProjectTheme: options?.hasProjectTheme,
+    scale: createScaler(options?.scaleFunction, options?.scaling, options?.designWidth),
+  };
+
   // Collect layout info by node ID
   const layoutMap = new Map<string, LayoutWithContext>();
   collectLayouts(root, layoutMap);
 
+  // Component set variant style → base style it overrides
+  const variantBases = new Map<string, string>();
+  collectVariantBases(root, layoutMap, variantBases);
+
   const styleEntries: string[] = [];
 
   for (const [styleRef, extractedStyle] of Object.entries(stylesBundle.styles)) {
@@ -492,7 +655,13 @@ export function buildStyles(
     }
     
     const layout = layoutMap.get(styleRef);
-    const props = buildStyleProps(extractedStyle, layout, mappings, unmapped, options);
+    let props = buildStyleProps(extractedStyle, layout, mappings, unmapped, propsOptions);
+
+    const baseRef = variantBases.get(styleRef);
+    const baseStyle = baseRef ? stylesBundle.styles[baseRef] : undefined;
+    if (baseRef && baseStyle) {
+      props = diffVariantStyleProps(buildStyleProps(baseStyle, layoutMap.get(baseRef), mappings, unmapped, propsOptions), props);
+    }
 
     if (props.trim()) {
       styleEntries.push(`  ${styleName}: {\n${props}\n  },`);
@@ -510,6 +679,11 @@ export function buildStyles(
     code = `const styles = StyleSheet.create(theme => ({
 ${styleEntries.join('\n')}
 }));`;
+  } else if (options?.themeFactory) {
+    // Theme modes: styles are rebuilt from the active theme (see useStyles in component-builder)
+    code = `const createStyles = (theme: Theme) => StyleSheet.create({
+${styleEntries.join('\n')}
+});`;
   } else {
     // Standard StyleSheet.create
     code = `const styles = StyleSheet.create({
@@ -526,3 +700,256 @@ ${styleEntries.join('\n')}
     },
   };
 }
+
+// ============================================================================
+// NativeWind
+// ============================================================================
+
+/** Categories dropped from token paths: theme.colors.brand['500'] → brand-500 */
+const TOKEN_CATEGORIES = new Set([
+  'colors', 'color', 'spacing', 'space', 'size', 'borderRadius', 'borderRadii', 'radii', 'radius',
+  'fontSize', 'fontSizes', 'typography', 'textVariants',
+]);
+
+const FLEX_VALUES: Record<string, string> = {
+  'flex-start': 'start',
+  'flex-end': 'end',
+  center: 'center',
+  stretch: 'stretch',
+  baseline: 'baseline',
+  'space-between': 'between',
+  'space-around': 'around',
+};
+
+const FONT_WEIGHT_CLASSES: Record<string, string> = {
+  '100': 'font-thin',
+  '200': 'font-extralight',
+  '300': 'font-light',
+  '400': 'font-normal',
+  '500': 'font-medium',
+  '600': 'font-semibold',
+  '700': 'font-bold',
+  '800': 'font-extrabold',
+  '900': 'font-black',
+};
+
+/** Style properties with a numeric Tailwind utility: prefix and token category */
+const NUMERIC_UTILITIES: Record<string, { prefix: string; category: 'spacing' | 'radii' | 'fontSizes' | null }> = {
+  gap: { prefix: 'gap', category: 'spacing' },
+  columnGap: { prefix: 'gap-x', category: 'spacing' },
+  rowGap: { prefix: 'gap-y', category: 'spacing' },
+  width: { prefix: 'w', category: null },
+  height: { prefix: 'h', category: null },
+  minWidth: { prefix: 'min-w', category: null },
+  maxWidth: { prefix: 'max-w', category: null },
+  minHeight: { prefix: 'min-h', category: null },
+  maxHeight: { prefix: 'max-h', category: null },
+  left: { prefix: 'left', category: null },
+  right: { prefix: 'right', category: null },
+  top: { prefix: 'top', category: null },
+  bottom: { prefix: 'bottom', category: null },
+  borderRadius: { prefix: 'rounded', category: 'radii' },
+  borderTopLeftRadius: { prefix: 'rounded-tl', category: 'radii' },
+  borderTopRightRadius: { prefix: 'rounded-tr', category: 'radii' },
+  borderBottomRightRadius: { prefix: 'rounded-br', category: 'radii' },
+  borderBottomLeftRadius: { prefix: 'rounded-bl', category: 'radii' },
+  fontSize: { prefix: 'text', category: 'fontSizes' },
+  lineHeight: { prefix: 'leading', category: null },
+  letterSpacing: { prefix: 'tracking', category: null },
+};
+
+const COLOR_UTILITIES: Record<string, string> = {
+  backgroundColor: 'bg',
+  borderColor: 'border',
+  color: 'text',
+};
+
+/**
+ * Name of a theme token in libraries that reference tokens by key: category
+ * segment and DEFAULT keys are dropped (theme.colors.brand['500'] → "brand-500",
+ * theme.spacing.m → "m", theme.borderRadius.DEFAULT → "")
+ */
+export function themeTokenName(path: string): string {
+  const segments = [...path.replace(/^theme\./, '').matchAll(/\['([^']*)'\]|([^.[\]]+)/g)]
+    .map(([, bracketed, plain]) => bracketed ?? plain);
+  if (TOKEN_CATEGORIES.has(segments[0])) segments.shift();
+  return segments.filter(segment => segment !== 'DEFAULT').join('-');
+}
+
+/**
+ * Utility class from a prefix and a token or arbitrary value ("rounded" + "" → "rounded")
+ */
+function utility(prefix: string, value: string): string {
+  return value ? `${prefix}-${value}` : prefix;
+}
+
+/**
+ * Tailwind value of a style line value: mapped token, percentage or arbitrary pixels
+ */
+function numericClassValue(
+  value: string,
+  category: 'spacing' | 'radii' | 'fontSizes' | null,
+  mappings: TokenMappings
+): string | null {
+  if (value.startsWith('theme.')) return themeTokenName(value);
+  if (value === "'100%'") return 'full';
+  if (/^'\d+(\.\d+)?%'$/.test(value)) return `[${value.slice(1, -1)}]`;
+  if (!/^-?\d+(\.\d+)?$/.test(value)) return null;
+
+  const token = category === 'fontSizes' ? mappings.fontSizes?.[value] : undefined;
+  return token ? themeTokenName(token) : `[${value}px]`;
+}
+
+/**
+ * Tailwind classes for the lines of a style; null when a line has no utility
+ * (shadows, spreads, filters), so the style stays in StyleSheet
+ */
+function styleLinesToClassNames(props: string, mappings: TokenMappings): string | null {
+  const classes: string[] = [];
+  const padding: Record<string, string> = {};
+
+  for (const line of props.split('\n').filter(line => line.trim())) {
+    const match = /^\s*([A-Za-z]+):\s*(.+?),(\s*\/\/.*)?$/.exec(line);
+    if (!match) return null;
+    const [, key, value] = match;
+    const literal = value.replace(/^'(.*)'$/, '$1');
+
+    if (key in COLOR_UTILITIES) {
+      const color = value.startsWith('theme.') ? themeTokenName(value) : `[${literal.replace(/\s/g, '')}]`;
+      classes.push(`${COLOR_UTILITIES[key]}-${color}`);
+    } else if (key in NUMERIC_UTILITIES) {
+      const { prefix, category } = NUMERIC_UTILITIES[key];
+      const classValue = numericClassValue(value, category, mappings);
+      if (classValue === null) return null;
+      classes.push(utility(prefix, classValue));
+    } else if (/^padding(Top|Right|Bottom|Left)$/.test(key)) {
+      const classValue = numericClassValue(value, 'spacing', mappings);
+      if (classValue === null) return null;
+      padding[key.slice('padding'.length).toLowerCase()] = classValue;
+    } else if (key === 'flexDirection') {
+      classes.push(literal === 'row' ? 'flex-row' : 'flex-col');
+    } else if (key === 'justifyContent' && FLEX_VALUES[literal]) {
+      classes.push(`justify-${FLEX_VALUES[literal]}`);
+    } else if (key === 'alignItems' && FLEX_VALUES[literal]) {
+      classes.push(`items-${FLEX_VALUES[literal]}`);
+    } else if (key === 'alignSelf' && FLEX_VALUES[literal]) {
+      classes.push(`self-${FLEX_VALUES[literal]}`);
+    } else if (key === 'flexWrap' && literal === 'wrap') {
+      classes.push('flex-wrap');
+    } else if (key === 'flex' && value === '1') {
+      classes.push('flex-1');
+    } else if (key === 'position' && (literal === 'absolute' || literal === 'relative')) {
+      classes.push(literal);
+    } else if (key === 'overflow' && literal === 'hidden') {
+      classes.push('overflow-hidden');
+    } else if (key === 'borderWidth' && /^\d+(\.\d+)?$/.test(value)) {
+      classes.push(value === '1' ? 'border' : `border-[${value}px]`);
+    } else if (key === 'opacity' && /^\d*\.?\d+$/.test(value)) {
+      const percent = Math.round(parseFloat(value) * 100);
+      classes.push(percent % 5 === 0 ? `opacity-${percent}` : `opacity-[${value}]`);
+    } else if (key === 'fontFamily') {
+      classes.push(`font-['${literal.replace(/\s/g, '_')}']`);
+    } else if (key === 'fontWeight' && FONT_WEIGHT_CLASSES[literal]) {
+      classes.push(FONT_WEIGHT_CLASSES[literal]);
+    } else if (key === 'textAlign') {
+      classes.push(`text-${literal}`);
+    } else if (key === 'textDecorationLine') {
+      classes.push(literal);
+    } else {
+      return null;
+    }
+  }
+
+  // Equal sides collapse: pl-4 pr-4 → px-4, px-4 py-4 → p-4
+  const { top, right, bottom, left } = padding;
+  const paddingClasses: string[] = [];
+  const x = left !== undefined && left === right ? left : undefined;
+  const y = top !== undefined && top === bottom ? top : undefined;
+  if (x !== undefined && x === y) {
+    paddingClasses.push(`p-${x}`);
+  } else {
+    if (x !== undefined) paddingClasses.push(`px-${x}`);
+    if (y !== undefined) paddingClasses.push(`py-${y}`);
+    if (y === undefined && top !== undefined) paddingClasses.push(`pt-${top}`);
+    if (x === undefined && right !== undefined) paddingClasses.push(`pr-${right}`);
+    if (y === undefined && bottom !== undefined) paddingClasses.push(`pb-${bottom}`);
+    if (x === undefined && left !== undefined) paddingClasses.push(`pl-${left}`);
+  }
+
+  return [...paddingClasses, ...classes].join(' ');
+}
+
+/**
+ * Build the StyleSheet property lines of every style with mapped tokens, for
+ * backends that translate them into another styling API
+ *
+ * @returns styleRef → property lines, and the values no token matched
+ */
+export function buildStyleLines(
+  root: IRNode,
+  stylesBundle: StylesBundle,
+  mappings: TokenMappings
+): { lines: Record<string, string>; unmapped: { colors: string[]; spacing: number[]; radii: number[] } } {
+  const layoutMap = new Map<string, LayoutWithContext>();
+  collectLayouts(root, layoutMap);
+
+  const unmapped = { colors: new Set<string>(), spacing: new Set<number>(), radii: new Set<number>() };
+  const lines: Record<string, string> = {};
+
+  for (const [styleRef, extractedStyle] of Object.entries(stylesBundle.styles)) {
+    lines[styleRef] = buildStyleProps(extractedStyle, layoutMap.get(styleRef), mappings, unmapped, { suppressTodos: true });
+  }
+
+  return {
+    lines,
+    unmapped: {
+      colors: Array.from(unmapped.colors),
+      spacing: Array.from(unmapped.spacing),
+      radii: Array.from(unmapped.radii),
+    },
+  };
+}
+
+/**
+ * Build NativeWind class names per style from StylesBundle
+ *
+ * Styles are built as for StyleSheet and translated property by property:
+ * mapped theme tokens become their Tailwind names (`bg-brand-500`, `p-4`,
+ * `rounded-xl`), other values arbitrary ones (`w-[137px]`). Styles with a
+ * property Tailwind cannot express are left out and stay in StyleSheet.
+ *
+ * @returns styleRef → space-separated classes, classes of styles applied
+ * together (undefined when one is left out), and the values no token matched
+ */
+export function buildClassNames(
+  root: IRNode,
+  stylesBundle: StylesBundle,
+  mappings: TokenMappings
+): {
+  classNames: Record<string, string>;
+  combineClassNames: (styleRefs: string[]) => string | undefined;
+  unmapped: { colors: string[]; spacing: number[]; radii: number[] };
+} {
+  const { lines, unmapped } = buildStyleLines(root, stylesBundle, mappings);
+  const classNames: Record<string, string> = {};
+
+  for (const [styleRef, props] of Object.entries(lines)) {
+    const classes = styleLinesToClassNames(props, mappings);
+    if (classes !== null) classNames[styleRef] = classes;
+  }
+
+  // Class order does not decide conflicts in Tailwind, so the styles are merged
+  // property by property first, later ones winning as in a style array
+  const combineClassNames = (styleRefs: string[]): string | undefined => {
+    const merged = new Map<string, string>();
+    for (const styleRef of styleRefs) {
+      if (classNames[styleRef] === undefined) return undefined;
+      for (const line of lines[styleRef].split('\n').filter(line => line.trim())) {
+        merged.set(/^\s*([A-Za-z]+):/.exec(line)?.[1] ?? line, line);
+      }
+    }
+    return styleLinesToClassNames(Array.from(merged.values()).join('\n'), mappings) ?? undefined;
+  };
+
+  return { classNames, combineClassNames, unmapped };
+}
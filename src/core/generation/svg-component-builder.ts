@@ -0,0 +1,178 @@
+/**
+ * SVG Component Builder - typed react-native-svg components from exported SVGs
+ *
+ * Figma SVG exports are flat markup: elements become react-native-svg
+ * components, attributes camelCase, and the root size becomes defaulted
+ * width/height props. A monochrome icon's color becomes a `color` prop;
+ * multicolor artwork keeps its colors.
+ */
+
+/** SVG elements → react-native-svg components; other elements (filter, style...) are dropped */
+const SVG_ELEMENTS: Record<string, string> = {
+  svg: 'Svg',
+  path: 'Path',
+  g: 'G',
+  rect: 'Rect',
+  circle: 'Circle',
+  ellipse: 'Ellipse',
+  line: 'Line',
+  polyline: 'Polyline',
+  polygon: 'Polygon',
+  defs: 'Defs',
+  clipPath: 'ClipPath',
+  mask: 'Mask',
+  linearGradient: 'LinearGradient',
+  radialGradient: 'RadialGradient',
+  stop: 'Stop',
+  use: 'Use',
+  pattern: 'Pattern',
+  image: 'Image',
+};
+
+/** Attributes react-native-svg has no use for */
+const DROPPED_ATTRIBUTES = /^(xmlns(:\w+)?|style|class|version|filter)$/;
+
+/** Attributes holding a paint that can become the color prop */
+const PAINT_ATTRIBUTES = new Set(['fill', 'stroke', 'stop-color']);
+
+interface SvgElement {
+  name: string;
+  attributes: Array<[string, string]>;
+  children: SvgElement[];
+}
+
+/**
+ * Exported SVG to turn into a component
+ */
+export interface SvgComponentSource {
+  /** Exported component name */
+  name: string;
+  /** SVG markup as exported from Figma */
+  svg: string;
+}
+
+function camelCaseAttribute(name: string): string {
+  if (name === 'xlink:href') return 'href';
+  return name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Parse SVG markup into an element tree (text content and comments are ignored)
+ */
+function parseSvg(svg: string): SvgElement | null {
+  const root: SvgElement = { name: '#root', attributes: [], children: [] };
+  const stack: SvgElement[] = [root];
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)((?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attributePattern = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  for (const match of svg.replace(/<!--[\s\S]*?-->/g, '').matchAll(tagPattern)) {
+    const [, closing, name, rawAttributes, selfClosing] = match;
+    if (closing) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const element: SvgElement = {
+      name,
+      attributes: [...rawAttributes.matchAll(attributePattern)].map(([, key, double, single]) => [key, double ?? single]),
+      children: [],
+    };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  return root.children.find(child => child.name === 'svg') ?? null;
+}
+
+/**
+ * Distinct solid paints of the artwork (none and url(#gradient) references excluded)
+ */
+function collectPaints(element: SvgElement, paints: Set<string>): Set<string> {
+  for (const [key, value] of element.attributes) {
+    if (PAINT_ATTRIBUTES.has(key) && value !== 'none' && !value.startsWith('url(')) {
+      paints.add(value.toLowerCase());
+    }
+  }
+  element.children.forEach(child => collectPaints(child, paints));
+  return paints;
+}
+
+function renderElement(
+  element: SvgElement,
+  depth: number,
+  color: string | null,
+  used: Set<string>
+): string | null {
+  const component = SVG_ELEMENTS[element.name];
+  if (!component) return null;
+  used.add(component);
+
+  const spaces = '  '.repeat(depth);
+  const attributes: string[] = [];
+  for (const [key, value] of element.attributes) {
+    if (DROPPED_ATTRIBUTES.test(key)) continue;
+    if (element.name === 'svg' && (key === 'width' || key === 'height')) continue;
+    const prop = camelCaseAttribute(key);
+    attributes.push(color && PAINT_ATTRIBUTES.has(key) && value.toLowerCase() === color
+      ? `${prop}={color}`
+      : `${prop}=${JSON.stringify(value)}`);
+  }
+  if (element.name === 'svg') {
+    attributes.unshift('width={width}', 'height={height}');
+    attributes.push('{...props}');
+  }
+
+  const open = `${spaces}<${component}${attributes.map(attribute => ` ${attribute}`).join('')}`;
+  const children = element.children
+    .map(child => renderElement(child, depth + 1, color, used))
+    .filter((child): child is string => child !== null);
+
+  return children.length > 0
+    ? `${open}>\n${children.join('\n')}\n${spaces}</${component}>`
+    : `${open} />`;
+}
+
+/**
+ * Build a typed react-native-svg component from SVG markup
+ *
+ * @returns TSX source, or null when the markup has no <svg> root
+ */
+export function buildSvgComponent({ name, svg }: SvgComponentSource): string | null {
+  const root = parseSvg(svg);
+  if (!root) return null;
+
+  const attribute = (key: string) => root.attributes.find(([attr]) => attr === key)?.[1];
+  const viewBox = attribute('viewBox')?.split(/[\s,]+/).map(Number);
+  const width = parseFloat(attribute('width') ?? '') || viewBox?.[2] || 24;
+  const height = parseFloat(attribute('height') ?? '') || viewBox?.[3] || 24;
+
+  const paints = collectPaints(root, new Set());
+  const color = paints.size === 1 ? [...paints][0] : null;
+
+  const used = new Set<string>();
+  const jsx = renderElement(root, 2, color, used)!;
+  const named = [...used].filter(component => component !== 'Svg').sort();
+
+  const params = [`width = ${width}`, `height = ${height}`, ...(color ? [`color = '${color}'`] : []), '...props'];
+
+  return `import React from 'react';
+import Svg${named.length > 0 ? `, { ${named.join(', ')} }` : ''} from 'react-native-svg';
+import type { SvgProps } from 'react-native-svg';
+
+export function ${name}({ ${params.join(', ')} }: SvgProps) {
+  return (
+${jsx}
+  );
+}
+`;
+}
+
+/**
+ * Barrel exporting every icon component of a folder (one module per component)
+ */
+export function buildIconsIndex(names: string[]): string {
+  return [...new Set(names)]
+    .sort()
+    .map(name => `export { ${name} } from './${name}';`)
+    .join('\n') + '\n';
+}
@@ -3,8 +3,12 @@
  * Used when no project theme file exists
  */
 
-import type { DesignTokens } from '../types.js';
+import type { DesignTokens, ModeThemes, StylePattern } from '../types.js';
 import { normalizeHex } from '../utils/path-utils.js';
+import { toValidIdentifier } from '../shared/naming.js';
+import { modeThemePath } from '../mapping/mode-themes.js';
+import { isGeneratedTokenName } from '../styles/extractor.js';
+import type { ProjectTokens } from '../mapping/theme-extractor.js';
 
 /**
  * Convert a color hex to a readable name
@@ -31,6 +35,14 @@ function colorToName(hex: string, index: number): string {
   return `color${index}`;
 }
 
+/**
+ * Identifier for a token key: published style names are converted
+ * ("Heading/H1" → headingH1), generated names are kept as-is
+ */
+function tokenKeyToName(key: string): string {
+  return isGeneratedTokenName(key) ? key : toValidIdentifier(key);
+}
+
 /**
  * Convert spacing value to name
  */
@@ -74,8 +86,8 @@ export function generateTokensFile(tokens: DesignTokens): string {
   if (Object.keys(tokens.colors).length > 0) {
     lines.push('export const colors = {');
     const colorEntries = Object.entries(tokens.colors);
-    colorEntries.forEach(([_key, value], index) => {
-      const name = colorToName(value, index);
+    colorEntries.forEach(([key, value], index) => {
+      const name = isGeneratedTokenName(key) ? colorToName(value, index) : toValidIdentifier(key);
       lines.push(`  ${name}: '${value}',`);
     });
     lines.push('} as const;');
@@ -114,7 +126,7 @@ export function generateTokensFile(tokens: DesignTokens): string {
   if (Object.keys(tokens.typography).length > 0) {
     lines.push('export const typography = {');
     Object.entries(tokens.typography).forEach(([key, value]) => {
-      lines.push(`  ${key}: {`);
+      lines.push(`  ${tokenKeyToName(key)}: {`);
       lines.push(`    fontFamily: '${value.fontFamily}',`);
       lines.push(`    fontSize: ${value.fontSize},`);
       lines.push(`    fontWeight: ${value.fontWeight},`);
@@ -129,7 +141,7 @@ export function generateTokensFile(tokens: DesignTokens): string {
   if (Object.keys(tokens.shadows).length > 0) {
     lines.push('export const shadows = {');
     Object.entries(tokens.shadows).forEach(([key, value]) => {
-      lines.push(`  ${key}: {`);
+      lines.push(`  ${tokenKeyToName(key)}: {`);
       lines.push(`    shadowColor: '${value.color}',`);
       lines.push(`    shadowOffset: { width: ${value.offsetX}, height: ${value.offsetY} },`);
       lines.push(`    shadowOpacity: 1,`);
@@ -156,6 +168,93 @@ export function generateTokensFile(tokens: DesignTokens): string {
   return lines.join('\n');
 }
 
+/**
+ * Generate a tokens file with one theme object per Figma variable mode
+ *
+ * Keys follow modeThemePath() so styles can reference theme.colors.x.
+ * useTheme() picks the mode matching the system color scheme (light/dark
+ * mode names), otherwise the default mode. For unistyles the themes are
+ * exported for StyleSheet.configure instead of a hook.
+ */
+export function generateModeThemesFile(
+  modeThemes: ModeThemes,
+  stylePattern: StylePattern = 'StyleSheet'
+): string {
+  const isUnistyles = stylePattern === 'unistyles';
+  const modeKeys = modeThemes.modes.map(mode => toValidIdentifier(mode));
+
+  // category → key → value per mode
+  const categories = new Map<string, Map<string, Record<string, string | number>>>();
+  for (const [name, token] of Object.entries(modeThemes.tokens)) {
+    const key = modeThemePath(name, token.category).split('.').pop()!;
+    if (!categories.has(token.category)) categories.set(token.category, new Map());
+    categories.get(token.category)!.set(key, token.values);
+  }
+
+  const lines: string[] = [
+    '/**',
+    ' * Generated Design Tokens',
+    ` * Theme modes from Figma collection "${modeThemes.collectionName}": ${modeThemes.modes.join(', ')}`,
+    ' */',
+    '',
+  ];
+
+  if (!isUnistyles) {
+    lines.push(`import { useColorScheme } from 'react-native';`);
+    lines.push('');
+  }
+
+  modeThemes.modes.forEach((mode, index) => {
+    const themeName = `${modeKeys[index]}Theme`;
+    lines.push(index === 0 ? `export const ${themeName} = {` : `export const ${themeName}: Theme = {`);
+    for (const [category, entries] of categories) {
+      lines.push(`  ${category}: {`);
+      for (const [key, values] of entries) {
+        const value = values[mode];
+        lines.push(`    ${key}: ${typeof value === 'number' ? value : `'${value}'`},`);
+      }
+      lines.push('  },');
+    }
+    lines.push('};');
+    lines.push('');
+    if (index === 0) {
+      lines.push(`export type Theme = typeof ${themeName};`);
+      lines.push('');
+    }
+  });
+
+  lines.push('export const themes = {');
+  modeKeys.forEach(key => lines.push(`  ${key}: ${key}Theme,`));
+  lines.push('};');
+  lines.push('');
+  lines.push('export type ThemeMode = keyof typeof themes;');
+  lines.push('');
+
+  if (isUnistyles) {
+    lines.push('// Register once at app startup:');
+    lines.push(`// StyleSheet.configure({ themes, settings: { initialTheme: '${modeKeys[0]}' } });`);
+    lines.push("declare module 'react-native-unistyles' {");
+    lines.push('  export interface UnistylesThemes {');
+    modeKeys.forEach(key => lines.push(`    ${key}: Theme;`));
+    lines.push('  }');
+    lines.push('}');
+    lines.push('');
+  } else {
+    lines.push('/**');
+    lines.push(' * Active theme: follows the system color scheme when a mode matches it,');
+    lines.push(` * otherwise the default mode ("${modeThemes.modes[0]}")`);
+    lines.push(' */');
+    lines.push('export function useTheme(mode?: ThemeMode): { theme: Theme; mode: ThemeMode } {');
+    lines.push('  const scheme = useColorScheme();');
+    lines.push(`  const active = mode ?? (scheme && scheme in themes ? (scheme as ThemeMode) : '${modeKeys[0]}');`);
+    lines.push('  return { theme: themes[active], mode: active };');
+    lines.push('}');
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Result of token generation
  */
@@ -172,12 +271,16 @@ export interface TokensGenerationResult {
  * @param tokens - Extracted design tokens from Figma
  * @param hasProjectTheme - Whether a project theme file exists
  * @param outputDir - Directory for generated files (default: 'generated')
+ * @param modeThemes - Variable modes; emits one theme per mode instead of flat tokens
+ * @param stylePattern - Style pattern of the generated components
  * @returns Generated file info, or null if project theme exists
  */
 export function generateTokensIfNeeded(
   tokens: DesignTokens,
   hasProjectTheme: boolean,
-  outputDir: string = 'generated'
+  outputDir: string = 'generated',
+  modeThemes?: ModeThemes | null,
+  stylePattern?: StylePattern
 ): TokensGenerationResult | null {
   if (hasProjectTheme) {
     return null;
@@ -185,6 +288,230 @@ export function generateTokensIfNeeded(
 
   return {
     path: `${outputDir}/tokens.ts`,
-    content: generateTokensFile(tokens),
+    content: modeThemes
+      ? generateModeThemesFile(modeThemes, stylePattern)
+      : generateTokensFile(tokens),
+  };
+}
+
+// ============================================================================
+// Token export (DTCG JSON, Style Dictionary source)
+// ============================================================================
+
+type TypographyValue = DesignTokens['typography'][string];
+type ShadowValue = DesignTokens['shadows'][string];
+
+/**
+ * Token in an exported tree; `inTheme: false` marks values the project theme lacks
+ */
+interface ExportToken {
+  path: string[];
+  type: 'color' | 'dimension' | 'typography' | 'shadow';
+  value: string | number | TypographyValue | ShadowValue;
+  inTheme?: boolean;
+}
+
+/**
+ * Merge the tokens of several generated elements
+ *
+ * Values are deduplicated; a value keeps its published style name when any
+ * element has one, otherwise it gets a generated name.
+ */
+export function mergeDesignTokens(tokenSets: DesignTokens[]): DesignTokens {
+  const mergeNamed = <T>(records: Array<Record<string, T> | undefined>, prefix: string): Record<string, T> => {
+    const byValue = new Map<string, { value: T; styleName?: string }>();
+    for (const record of records) {
+      for (const [key, value] of Object.entries(record ?? {})) {
+        const id = JSON.stringify(value);
+        const styleName = isGeneratedTokenName(key) ? undefined : key;
+        const existing = byValue.get(id);
+        if (!existing) {
+          byValue.set(id, { value, styleName });
+        } else if (!existing.styleName && styleName) {
+          existing.styleName = styleName;
+        }
+      }
+    }
+
+    const merged: Record<string, T> = {};
+    let index = 0;
+    for (const { value, styleName } of byValue.values()) {
+      merged[styleName && !(styleName in merged) ? styleName : `${prefix}_${index++}`] = value;
+    }
+    return merged;
+  };
+
+  const mergeValues = (records: Array<Record<string, number> | undefined>, prefix: string): Record<string, number> => {
+    const values = new Set(records.flatMap(record => Object.values(record ?? {})));
+    return Object.fromEntries(
+      Array.from(values).sort((a, b) => a - b).map((value, index) => [`${prefix}_${index}`, value])
+    );
+  };
+
+  return {
+    colors: mergeNamed(tokenSets.map(tokens => tokens.colors), 'color'),
+    spacing: mergeValues(tokenSets.map(tokens => tokens.spacing), 'spacing'),
+    radii: mergeValues(tokenSets.map(tokens => tokens.radii), 'radius'),
+    typography: mergeNamed(tokenSets.map(tokens => tokens.typography), 'text'),
+    shadows: mergeNamed(tokenSets.map(tokens => tokens.shadows), 'shadow'),
+  };
+}
+
+/**
+ * Group path of a token key: published names nest by "/" ("Brand/Primary" → brand.primary)
+ */
+function tokenKeyToPath(key: string): string[] {
+  return isGeneratedTokenName(key)
+    ? [key]
+    : key.split('/').map(segment => toValidIdentifier(segment.trim())).filter(Boolean);
+}
+
+/**
+ * Scale names are not unique across values (12 and 16 are both "md");
+ * later values fall back to the raw-value name
+ */
+function uniqueScaleName(value: number, toName: (value: number) => string, fallback: string, used: Set<string>): string {
+  const name = used.has(toName(value)) ? `${fallback}${value}` : toName(value);
+  used.add(name);
+  return name;
+}
+
+/**
+ * Flat list of exportable tokens, named like the TS tokens module
+ *
+ * @param projectTokens - Project theme values; tokens without a match are flagged
+ */
+function collectExportTokens(
+  tokens: DesignTokens,
+  projectTokens?: ProjectTokens | null
+): ExportToken[] {
+  const inTheme = (category: string, value: string | number) => projectTokens
+    ? projectTokens[category]?.has(typeof value === 'string' && value.startsWith('#') ? normalizeHex(value) : value) ?? false
+    : undefined;
+
+  const exported: ExportToken[] = [];
+
+  Object.entries(tokens.colors).forEach(([key, value], index) => {
+    const path = isGeneratedTokenName(key) ? [colorToName(value, index)] : tokenKeyToPath(key);
+    exported.push({ path: ['color', ...path], type: 'color', value, inTheme: inTheme('colors', value) });
+  });
+
+  const spacingNames = new Set<string>();
+  Array.from(new Set(Object.values(tokens.spacing))).sort((a, b) => a - b).forEach(value => {
+    const name = uniqueScaleName(value, spacingToName, 'space', spacingNames);
+    exported.push({ path: ['spacing', name], type: 'dimension', value, inTheme: inTheme('spacing', value) });
+  });
+
+  const radiusNames = new Set<string>();
+  Array.from(new Set(Object.values(tokens.radii))).sort((a, b) => a - b).forEach(value => {
+    const name = uniqueScaleName(value, radiusToName, 'radius', radiusNames);
+    exported.push({ path: ['radius', name], type: 'dimension', value, inTheme: inTheme('radii', value) });
+  });
+
+  for (const [key, value] of Object.entries(tokens.typography)) {
+    exported.push({ path: ['typography', ...tokenKeyToPath(key)], type: 'typography', value });
+  }
+  for (const [key, value] of Object.entries(tokens.shadows)) {
+    exported.push({ path: ['shadow', ...tokenKeyToPath(key)], type: 'shadow', value });
+  }
+
+  return exported;
+}
+
+function setTokenAt(tree: Record<string, any>, path: string[], token: Record<string, unknown>): void {
+  let group = tree;
+  for (const segment of path.slice(0, -1)) {
+    group = group[segment] ??= {};
+  }
+  group[path[path.length - 1]] = token;
+}
+
+/**
+ * Generate a W3C Design Tokens (DTCG) document
+ *
+ * Dimensions are pixel strings, typography line heights are unitless ratios
+ * (as in the format), and tokens the project theme lacks carry
+ * `$extensions["figma-rn"].inTheme: false`.
+ *
+ * @param projectTokens - Project theme values for the inTheme flag (omitted without a theme)
+ */
+export function generateDtcgTokens(
+  tokens: DesignTokens,
+  projectTokens?: ProjectTokens | null
+): Record<string, unknown> {
+  const px = (value: number) => `${value}px`;
+  const document: Record<string, unknown> = {};
+
+  for (const token of collectExportTokens(tokens, projectTokens)) {
+    let value: unknown = token.value;
+    if (token.type === 'dimension') {
+      value = px(token.value as number);
+    } else if (token.type === 'typography') {
+      const typography = token.value as TypographyValue;
+      value = {
+        fontFamily: typography.fontFamily,
+        fontSize: px(typography.fontSize),
+        fontWeight: typography.fontWeight,
+        ...(typography.lineHeight > 0 && { lineHeight: Math.round((typography.lineHeight / typography.fontSize) * 1000) / 1000 }),
+      };
+    } else if (token.type === 'shadow') {
+      const shadow = token.value as ShadowValue;
+      value = {
+        color: shadow.color,
+        offsetX: px(shadow.offsetX),
+        offsetY: px(shadow.offsetY),
+        blur: px(shadow.blur),
+        spread: px(shadow.spread),
+      };
+    }
+
+    setTokenAt(document, token.path, {
+      $type: token.type,
+      $value: value,
+      ...(token.inTheme === false && { $extensions: { 'figma-rn': { inTheme: false } } }),
+    });
+  }
+
+  return document;
+}
+
+/**
+ * Generate a Style Dictionary source tree: one JSON file per category under
+ * tokens/ (`value`/`type` format, unitless numbers for React Native) and a
+ * config.json building a JS module
+ */
+export function generateStyleDictionarySource(
+  tokens: DesignTokens,
+  projectTokens?: ProjectTokens | null
+): TokensGenerationResult[] {
+  const files = new Map<string, Record<string, unknown>>();
+
+  for (const token of collectExportTokens(tokens, projectTokens)) {
+    const [category] = token.path;
+    if (!files.has(category)) files.set(category, {});
+    setTokenAt(files.get(category)!, token.path, {
+      value: token.value,
+      type: token.type,
+      ...(token.inTheme === false && { attributes: { inTheme: false } }),
+    });
+  }
+
+  const config = {
+    source: ['tokens/**/*.json'],
+    platforms: {
+      js: {
+        transformGroup: 'js',
+        buildPath: 'build/',
+        files: [{ destination: 'tokens.js', format: 'javascript/es6' }],
+      },
+    },
   };
+
+  return [
+    { path: 'config.json', content: `${JSON.stringify(config, null, 2)}\n` },
+    ...Array.from(files, ([category, tree]) => ({
+      path: `tokens/${category}.json`,
+      content: `${JSON.stringify(tree, null, 2)}\n`,
+    })),
+  ];
 }
@@ -19,15 +19,30 @@ export type {
   IRNode,
   ContainerIR,
   TextIR,
+  TextRunIR,
   ImageIR,
   ButtonIR,
+  InputIR,
+  InputTraits,
+  ControlIR,
+  ControlKind,
+  VariantStyle,
+  VariantProp,
+  PropDefinition,
   CardIR,
   IconIR,
 
   // Styles types
   ExtractedStyle,
+  BoxShadow,
+  BindableStyleProperty,
+  StyleVariableBindings,
+  StyleNames,
   DesignTokens,
+  ModeThemes,
   StylesBundle,
+  StylePattern,
+  ScalingStrategy,
 
   // Pipeline types
   PipelineOptions,
@@ -76,6 +91,8 @@ export {
   isImage,
   isIcon,
   isButton,
+  isInput,
+  isControl,
   isCard,
   classifyNode,
   toIRNode,
@@ -91,9 +108,14 @@ export {
   fillsToBackground,
   strokesToBorder,
   effectsToShadow,
+  effectsToBoxShadow,
+  effectsToBlur,
   cornerRadiusToStyle,
   typographyToStyle,
   extractStyleFromProps,
+  resolveBoundVariables,
+  resolveStyleNames,
+  isGeneratedTokenName,
   extractTokens,
   collectStylesFromIR,
   createEmptyStylesBundle,
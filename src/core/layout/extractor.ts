@@ -276,6 +276,10 @@ export function extractLayoutMeta(node: NormalizedNode, parentLayoutType?: Layou
       crossAlign: normalizeCrossAxisAlign(node.figmaLayout.crossAxisAlign),
       sizing: extractSizing(node, parentLayoutType),
       overflow: (node.overflowDirection && node.overflowDirection !== 'NONE') ? 'scroll' : undefined,
+      ...(node.figmaLayout.wrap && {
+        wrap: true,
+        wrapGap: node.figmaLayout.wrapGap ?? node.figmaLayout.gap,
+      }),
     };
   }
 
@@ -341,8 +345,13 @@ export function addLayoutInfo(node: NormalizedNode, parentLayoutType?: LayoutTyp
   if (node.opacity !== undefined) layoutNode.opacity = node.opacity;
   if (node.text) layoutNode.text = node.text;
   if (node.typography) layoutNode.typography = node.typography;
+  if (node.textRuns) layoutNode.textRuns = node.textRuns;
   if (node.figmaLayout) layoutNode.figmaLayout = node.figmaLayout;
   if (node.layoutPositioning) (layoutNode as any).layoutPositioning = node.layoutPositioning;
+  if (node.minWidth !== undefined) layoutNode.minWidth = node.minWidth;
+  if (node.maxWidth !== undefined) layoutNode.maxWidth = node.maxWidth;
+  if (node.minHeight !== undefined) layoutNode.minHeight = node.minHeight;
+  if (node.maxHeight !== undefined) layoutNode.maxHeight = node.maxHeight;
 
   // Copy Advanced Properties
   if (node.constraints) layoutNode.constraints = node.constraints;
@@ -353,6 +362,7 @@ export function addLayoutInfo(node: NormalizedNode, parentLayoutType?: LayoutTyp
   // Copy Component instance metadata (for INSTANCE nodes)
   if (node.componentId) (layoutNode as any).componentId = node.componentId;
   if (node.componentProperties) (layoutNode as any).componentProperties = node.componentProperties;
+  if (node.reactions) layoutNode.reactions = node.reactions;
 
   return layoutNode;
 }
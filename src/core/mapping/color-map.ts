@@ -3,9 +3,19 @@ import { normalizeHex } from '../utils/path-utils.js';
 
 /**
  * Map a color value using token mappings.
+ * A bound variable matched by name wins over value matching.
  * Returns theme path if mapped, raw normalized value otherwise.
  */
-export function mapColor(hex: string, mappings: TokenMappings): { value: string; mapped: boolean } {
+export function mapColor(
+  hex: string,
+  mappings: TokenMappings,
+  variableName?: string
+): { value: string; mapped: boolean } {
+  const byVariable = variableName ? mappings.variables?.[variableName] : undefined;
+  if (byVariable) {
+    return { value: byVariable, mapped: true };
+  }
+
   const colorMappings = mappings.colors || {};
   const normHex = normalizeHex(hex);
 
@@ -0,0 +1,150 @@
+/**
+ * Component Matcher - suggest project components for Figma instances
+ *
+ * Instances are matched to the components found in the project's components
+ * directory by name similarity (Dice coefficient) and by how many of their
+ * Figma properties land on a prop. Suggestions are written for review, never
+ * applied directly.
+ */
+
+import stringSimilarity from 'string-similarity';
+import type { ComponentIR, IRNode } from '../types.js';
+
+/**
+ * Prop of a project component, read from its props type
+ */
+export interface ProjectComponentProp {
+  name: string;
+  type: 'string' | 'number' | 'boolean' | 'other';
+  /** Options of a string literal union */
+  values?: string[];
+  optional?: boolean;
+}
+
+/**
+ * Exported React component found in the project
+ */
+export interface ProjectComponent {
+  name: string;
+  /** Module path the component is imported from */
+  importPath: string;
+  /** Source file relative to the project root */
+  file: string;
+  props: ProjectComponentProp[];
+}
+
+/**
+ * Component mapping suggested for review
+ */
+export interface SuggestedComponentMapping {
+  /** Figma instance name */
+  figma: string;
+  component: string;
+  importPath: string;
+  props?: Record<string, string | { prop: string; values: Record<string, string> }>;
+  /** Match confidence (0-1) */
+  score: number;
+}
+
+/** Minimum confidence for a suggestion */
+const MIN_SCORE = 0.6;
+
+/** Share of the score coming from the name; the rest is prop overlap */
+const NAME_WEIGHT = 0.7;
+
+/** Props that take a text property with a different name */
+const TEXT_PROPS = ['title', 'label', 'text', 'children'];
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Best name similarity over the full instance name and its "/" segments
+ */
+function nameScore(comp: ComponentIR, component: ProjectComponent): number {
+  const target = normalize(component.name);
+  const candidates = [comp.componentName, ...comp.name.split('/')].map(normalize).filter(Boolean);
+  return Math.max(0, ...candidates.map(candidate => stringSimilarity.compareTwoStrings(candidate, target)));
+}
+
+/**
+ * Map Figma properties to props: same name, then a union containing the value,
+ * then a text prop for TEXT properties (their keys carry an #id suffix)
+ */
+function matchProps(comp: ComponentIR, component: ProjectComponent): {
+  props: NonNullable<SuggestedComponentMapping['props']>;
+  overlap: number;
+} {
+  const entries = Object.entries(comp.componentProps ?? {});
+  const props: NonNullable<SuggestedComponentMapping['props']> = {};
+  const used = new Set<string>();
+
+  for (const [rawKey, value] of entries) {
+    const key = rawKey.replace(/#.*$/, '').trim();
+    const free = component.props.filter(prop => !used.has(prop.name));
+    const isText = rawKey.includes('#') && !/^(true|false)$/i.test(value);
+    const target = free.find(prop => normalize(prop.name) === normalize(key))
+      ?? free.find(prop => prop.values?.some(option => normalize(option) === normalize(value)))
+      ?? (isText ? free.find(prop => prop.type === 'string' && !prop.values && TEXT_PROPS.includes(prop.name)) : undefined);
+    if (!target) continue;
+
+    used.add(target.name);
+    const literal = target.values?.find(option => normalize(option) === normalize(value));
+    props[key] = literal !== undefined && literal !== value
+      ? { prop: target.name, values: { [value]: literal } }
+      : target.name;
+  }
+
+  return { props, overlap: entries.length > 0 ? used.size / entries.length : 0 };
+}
+
+/**
+ * Score one project component against an instance
+ */
+function scoreComponent(comp: ComponentIR, component: ProjectComponent): SuggestedComponentMapping {
+  const { props, overlap } = matchProps(comp, component);
+  const hasFigmaProps = Object.keys(comp.componentProps ?? {}).length > 0;
+  const score = hasFigmaProps
+    ? nameScore(comp, component) * NAME_WEIGHT + overlap * (1 - NAME_WEIGHT)
+    : nameScore(comp, component);
+
+  return {
+    figma: comp.name,
+    component: component.name,
+    importPath: component.importPath,
+    ...(Object.keys(props).length > 0 && { props }),
+    score: Math.round(score * 100) / 100,
+  };
+}
+
+/**
+ * Suggest a project component for every distinct instance in the tree
+ *
+ * @param skipComponentIds - Figma components already mapped or generated
+ */
+export function suggestComponentMappings(
+  root: IRNode,
+  components: ProjectComponent[],
+  skipComponentIds: Set<string> = new Set()
+): SuggestedComponentMapping[] {
+  const suggestions: SuggestedComponentMapping[] = [];
+  if (components.length === 0) return suggestions;
+
+  const seen = new Set<string>();
+  const walk = (node: IRNode) => {
+    if (node.semanticType === 'Component' && !skipComponentIds.has(node.componentId) && !seen.has(node.name)) {
+      seen.add(node.name);
+      const best = components
+        .map(component => scoreComponent(node, component))
+        .reduce((a, b) => (b.score > a.score ? b : a));
+      if (best.score >= MIN_SCORE) suggestions.push(best);
+    }
+    if ('children' in node && node.children) {
+      node.children.forEach(walk);
+    }
+  };
+  walk(root);
+
+  return suggestions;
+}
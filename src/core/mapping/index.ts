@@ -8,6 +8,7 @@
 // Types
 export type { ProjectTokens } from './theme-extractor.js';
 export type { TokenMappings } from './token-matcher.js';
+export type { ProjectComponent, ProjectComponentProp, SuggestedComponentMapping } from './component-matcher.js';
 
 // Theme extraction
 export { extractProjectTokens } from './theme-extractor.js';
@@ -15,6 +16,12 @@ export { extractProjectTokens } from './theme-extractor.js';
 // Token matching
 export { matchTokens, createEmptyMappings } from './token-matcher.js';
 
+// Project component suggestions
+export { suggestComponentMappings } from './component-matcher.js';
+
+// Variable modes (light/dark themes)
+export { buildModeThemes, mapModeThemeTokens, modeThemePath } from './mode-themes.js';
+
 // Color utilities (for advanced use cases)
 export { colorToLab, labDistance, findClosestColor } from './color-matcher.js';
 export { mapColor } from './color-map.js';
@@ -0,0 +1,100 @@
+import type { VariablesResult, Color } from '../../api/types.js';
+import type { ModeThemes, DesignTokens } from '../types.js';
+import { normalizeHex } from '../utils/path-utils.js';
+import { toValidIdentifier } from '../shared/naming.js';
+
+type TokenCategory = ModeThemes['tokens'][string]['category'];
+
+/**
+ * Leading variable groups that only repeat the token category
+ * ("colors/brand/primary" → theme.colors.brandPrimary)
+ */
+const CATEGORY_PREFIXES: Record<TokenCategory, string[]> = {
+  colors: ['color', 'colors'],
+  spacing: ['spacing', 'space', 'spaces', 'gap'],
+  radii: ['radius', 'radii', 'corner', 'corners'],
+};
+
+/**
+ * Theme path for a mode token generated from a Figma variable name
+ */
+export function modeThemePath(name: string, category: TokenCategory): string {
+  const segments = name.split('/').filter(Boolean);
+  if (segments.length > 1 && CATEGORY_PREFIXES[category].includes(segments[0].toLowerCase())) {
+    segments.shift();
+  }
+  return `theme.${category}.${toValidIdentifier(segments.join(' '))}`;
+}
+
+/**
+ * Build per-mode token values for the variables bound in a screen
+ *
+ * Modes come from the multi-mode collection with the most bound variables.
+ * Variables from other collections keep their default-mode value in every mode.
+ * Returns null when no bound color/number variable belongs to a multi-mode collection.
+ */
+export function buildModeThemes(
+  variables: VariablesResult,
+  bound: NonNullable<DesignTokens['variables']>
+): ModeThemes | null {
+  const byName = new Map(Object.values(variables.variables).map(v => [v.name, v]));
+
+  // Pick the collection that drives the modes
+  const counts = new Map<string, number>();
+  for (const name of Object.keys(bound)) {
+    const variable = byName.get(name);
+    const collection = variable && variables.collections[variable.collectionId];
+    if (collection && collection.modes.length > 1) {
+      counts.set(collection.id, (counts.get(collection.id) ?? 0) + 1);
+    }
+  }
+  if (counts.size === 0) return null;
+
+  const [collectionId] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  const collection = variables.collections[collectionId];
+  // Default mode first so generated code falls back to it
+  const modes = [...collection.modes].sort((a, b) =>
+    Number(b.modeId === collection.defaultModeId) - Number(a.modeId === collection.defaultModeId)
+  );
+
+  const tokens: ModeThemes['tokens'] = {};
+  for (const [name, category] of Object.entries(bound)) {
+    const variable = byName.get(name);
+    if (!variable) continue;
+
+    const ownDefault = variables.collections[variable.collectionId]?.defaultModeId;
+    const values: Record<string, string | number> = {};
+    for (const mode of modes) {
+      const modeId = variable.collectionId === collectionId ? mode.modeId : ownDefault;
+      const value = variable.valuesByMode[modeId];
+      if (variable.resolvedType === 'COLOR' && value && typeof value === 'object') {
+        values[mode.name] = normalizeHex((value as Color).hex);
+      } else if (variable.resolvedType === 'FLOAT' && typeof value === 'number') {
+        values[mode.name] = value;
+      }
+    }
+
+    if (Object.keys(values).length === modes.length) {
+      tokens[name] = { category, values };
+    }
+  }
+
+  if (Object.keys(tokens).length === 0) return null;
+
+  return {
+    collectionName: collection.name,
+    modes: modes.map(m => m.name),
+    tokens,
+  };
+}
+
+/**
+ * Variable name → generated theme path for every mode token
+ */
+export function mapModeThemeTokens(modeThemes: ModeThemes): Record<string, string> {
+  const paths: Record<string, string> = {};
+  for (const [name, token] of Object.entries(modeThemes.tokens)) {
+    paths[name] = modeThemePath(name, token.category);
+  }
+  return paths;
+}
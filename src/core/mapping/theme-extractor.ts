@@ -32,11 +32,17 @@ function simplifyPath(path: string): string {
 }
 
 /**
- * Extract project tokens from theme file using AST parsing (ts-morph)
+ * Extract project tokens from theme file using AST parsing (ts-morph),
+ * or from DTCG / Tokens Studio JSON
+ *
+ * @param options - Tokens Studio theme to read from multi-set JSON
  */
-export async function extractProjectTokens(themePath: string): Promise<ProjectTokens> {
+export async function extractProjectTokens(
+  themePath: string,
+  options: { theme?: string } = {}
+): Promise<ProjectTokens> {
   const { parseThemeFile } = await import('../../theme-parser/index.js');
-  const themeTokens = await parseThemeFile(themePath);
+  const themeTokens = await parseThemeFile(themePath, undefined, options);
   
   const tokens: ProjectTokens = {
     colors: new Map(),
@@ -131,6 +137,18 @@ export async function extractProjectTokens(themePath: string): Promise<ProjectTo
     }
   }
 
+  // 4.5 Convert font sizes (Tailwind fontSize scale)
+  if (themeTokens.fontSizes) {
+    tokens.fontSizes = new Map();
+    for (const [path, val] of themeTokens.fontSizes.entries()) {
+      const newPath = simplifyPath(path);
+      const existingPath = tokens.fontSizes.get(val);
+      if (!existingPath || pathComplexity(newPath) < pathComplexity(existingPath)) {
+        tokens.fontSizes.set(val, newPath);
+      }
+    }
+  }
+
   // 5. Convert shadows - prefer simpler paths when same shadow key exists
   if (themeTokens.shadows) {
     for (const [path, v] of themeTokens.shadows.entries()) {
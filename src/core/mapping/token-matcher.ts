@@ -1,11 +1,14 @@
+import stringSimilarity from 'string-similarity';
 import type { DesignTokens } from '../types.js';
 import type { ProjectTokens } from './theme-extractor.js';
 import { findClosestColor } from './color-matcher.js';
+import { isGeneratedTokenName } from '../styles/extractor.js';
 
 /**
  * Token mappings from Figma values to project theme paths
- * Key: token category (colors, spacing, radii, shadows, typography)
+ * Key: token category (colors, spacing, radii, shadows, typography, variables)
  * Value: Record of Figma value → theme path (or original value if unmatched)
+ * The variables category is keyed by Figma variable name and only holds matches.
  */
 export interface TokenMappings {
   [category: string]: Record<string | number, string>;
@@ -22,6 +25,7 @@ export function createEmptyMappings(): TokenMappings {
     radii: {},
     typography: {},
     shadows: {},
+    variables: {},
   };
 }
 
@@ -182,8 +186,9 @@ function matchColors(
   }
 
   for (const [id, hex] of Object.entries(figmaColors)) {
-    // Use findClosestColor for fuzzy matching
-    const match = findClosestColor(hex, hexToPath, threshold);
+    // Published style name first, then findClosestColor for fuzzy matching
+    const match = (!isGeneratedTokenName(id) && matchTokenName(id, projectColors, true))
+      || findClosestColor(hex, hexToPath, threshold);
     const value = match || hex;
     // Support both ID key (for tests) and Hex key (for generator)
     mappings[id] = value;
@@ -193,6 +198,100 @@ function matchColors(
   return mappings;
 }
 
+/**
+ * Normalize a name segment for comparison ("Primary-500" → "primary500")
+ */
+function normalizeSegment(segment: string): string {
+  return segment.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Minimum name similarity (Dice coefficient) of a fuzzy style name match
+ */
+const FUZZY_NAME_THRESHOLD = 0.75;
+
+/**
+ * Token path segments after the theme root, normalized
+ */
+function pathSegments(path: string): string[] {
+  return path.replace(/^theme\./, '').split(/[.[\]]/).map(normalizeSegment).filter(Boolean);
+}
+
+/**
+ * Find the project token path named like a Figma variable or published style
+ *
+ * "colors/primary/500" matches theme.colors.primary500 or theme.colors.primary[500]
+ * (joined segments must end at a path segment boundary). The leading group
+ * may be dropped because names are often prefixed with a category
+ * ("Color/Primary" → theme.colors.primary). Ties prefer the shortest path.
+ *
+ * With `fuzzy`, a name without an exact match takes the most similar path
+ * ("Heading/H2" → theme.typography.headingH2Bold); the numbers in both must
+ * be the same, so "Heading/H2" never lands on headingH3.
+ */
+function matchTokenName(
+  name: string,
+  projectTokens: Map<string | number, string> | undefined,
+  fuzzy = false
+): string | undefined {
+  if (!projectTokens || projectTokens.size === 0) return undefined;
+
+  const nameSegments = name.split('/').map(normalizeSegment).filter(Boolean);
+  if (nameSegments.length === 0) return undefined;
+
+  const candidates = [nameSegments.join('')];
+  if (nameSegments.length > 1) candidates.push(nameSegments.slice(1).join(''));
+
+  const paths = [...new Set(projectTokens.values())];
+  for (const target of candidates) {
+    let best: string | undefined;
+    let bestLength = Infinity;
+
+    for (const path of paths) {
+      const segments = pathSegments(path);
+      for (let start = 0; start < segments.length; start++) {
+        if (segments.slice(start).join('') === target) {
+          if (segments.length < bestLength) {
+            best = path;
+            bestLength = segments.length;
+          }
+          break;
+        }
+      }
+    }
+
+    if (best) return best;
+  }
+
+  if (!fuzzy) return undefined;
+
+  for (const target of candidates) {
+    const digits = target.replace(/\D/g, '');
+    let best: string | undefined;
+    let bestScore = 0;
+    let bestLength = Infinity;
+
+    for (const path of paths) {
+      const segments = pathSegments(path);
+      for (let start = 0; start < segments.length; start++) {
+        const suffix = segments.slice(start).join('');
+        if (suffix.replace(/\D/g, '') !== digits) continue;
+        const score = stringSimilarity.compareTwoStrings(target, suffix);
+        if (score < FUZZY_NAME_THRESHOLD) continue;
+        if (score > bestScore || (score === bestScore && segments.length < bestLength)) {
+          best = path;
+          bestScore = score;
+          bestLength = segments.length;
+        }
+      }
+    }
+
+    if (best) return best;
+  }
+
+  return undefined;
+}
+
 /**
  * Match Figma tokens to project tokens
  *
@@ -250,10 +349,19 @@ export function matchTokens(
     mappings.radii[value] = matched;
   }
 
+  // Font sizes only match exactly (NativeWind text-* classes)
+  if (project.fontSizes) {
+    mappings.fontSizes = {};
+    for (const { fontSize } of Object.values(extracted.typography ?? {})) {
+      const path = project.fontSizes.get(fontSize);
+      if (path) mappings.fontSizes[fontSize] = path;
+    }
+  }
+
   // Match typography (by serialized key comparison with wildcard support)
   mappings.typography = {};
   if (extracted.typography) {
-    for (const [, value] of Object.entries(extracted.typography)) {
+    for (const [name, value] of Object.entries(extracted.typography)) {
       // 1. Normalize Figma values
       // Normalize non-standard font weights (590→600, 510→500, etc.) to nearest 100
       const rawWeight = value.fontWeight || 400;
@@ -262,11 +370,12 @@ export function matchTokens(
       const figmaLH = Math.round(value.lineHeight || 0);
       const figmaTypoKey = `${value.fontFamily || ''}-${figmaSize}-${figmaWeight}-${figmaLH}`;
       
-      let match: string | undefined;
-      
+      // 1b. Published text style name ("Heading/H1" → theme.typography.heading.h1)
+      let match = isGeneratedTokenName(name) ? undefined : matchTokenName(name, project.typography, true);
+
       // 2. Try wildcard font family match first (most reliable for cross-platform)
       // Format: *-fontSize-weight-lineHeight
-      if (project.typography) {
+      if (!match && project.typography) {
         const wildcardKey = `*-${figmaSize}-${figmaWeight}-${figmaLH}`;
         match = project.typography.get(wildcardKey);
        
@@ -393,14 +502,24 @@ export function matchTokens(
     }
   }
 
-  // Match shadows (exact match only, by deterministic key)
+  // Match shadows (by published style name, then exact match by deterministic key)
   mappings.shadows = {};
-  for (const [, value] of Object.entries(extracted.shadows)) {
+  for (const [name, value] of Object.entries(extracted.shadows)) {
     // Use same deterministic key format as theme-extractor
     const shadowKey = `${value.offsetX ?? 0},${value.offsetY ?? 0},${value.blur ?? 0},${value.spread ?? 0}`;
-    const match = project.shadows?.get(shadowKey);
+    const match = (!isGeneratedTokenName(name) && matchTokenName(name, project.shadows, true))
+      || project.shadows?.get(shadowKey);
     mappings.shadows[shadowKey] = match || shadowKey;
   }
 
+  // Match bound variables by name (takes precedence over value matching in styles-builder)
+  mappings.variables = {};
+  for (const [name, category] of Object.entries(extracted.variables ?? {})) {
+    const match = matchTokenName(name, project[category]);
+    if (match) {
+      mappings.variables[name] = match;
+    }
+  }
+
   return mappings;
 }
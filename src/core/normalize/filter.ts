@@ -188,6 +188,10 @@ function toNormalizedNode(node: FigmaNode): NormalizedNode {
   if (node.layoutAlign) normalizedNode.layoutAlign = node.layoutAlign;
   if (node.layoutGrow !== undefined) normalizedNode.layoutGrow = node.layoutGrow;
   if (node.layoutPositioning) normalizedNode.layoutPositioning = node.layoutPositioning;
+  if (node.minWidth !== undefined) normalizedNode.minWidth = node.minWidth;
+  if (node.maxWidth !== undefined) normalizedNode.maxWidth = node.maxWidth;
+  if (node.minHeight !== undefined) normalizedNode.minHeight = node.minHeight;
+  if (node.maxHeight !== undefined) normalizedNode.maxHeight = node.maxHeight;
   if (node.overflowDirection) normalizedNode.overflowDirection = node.overflowDirection;
 
   // Copy Advanced Properties
@@ -199,6 +203,7 @@ function toNormalizedNode(node: FigmaNode): NormalizedNode {
   // Copy Component instance metadata (for INSTANCE nodes)
   if (node.componentId) normalizedNode.componentId = node.componentId;
   if (node.componentProperties) normalizedNode.componentProperties = node.componentProperties;
+  if (node.reactions) normalizedNode.reactions = node.reactions;
 
   // Copy text properties
   if (node.text) {
@@ -207,6 +212,9 @@ function toNormalizedNode(node: FigmaNode): NormalizedNode {
   if (node.typography) {
     normalizedNode.typography = node.typography;
   }
+  if (node.textRuns) {
+    normalizedNode.textRuns = node.textRuns;
+  }
 
   // Copy Figma auto-layout
   if (node.layout && node.layout.mode !== 'none') {
@@ -217,6 +225,10 @@ function toNormalizedNode(node: FigmaNode): NormalizedNode {
       mainAxisAlign: node.layout.mainAxisAlign,
       crossAxisAlign: node.layout.crossAxisAlign,
     };
+    if (node.layout.wrap) {
+      normalizedNode.figmaLayout.wrap = true;
+      normalizedNode.figmaLayout.wrapGap = node.layout.wrapGap;
+    }
   }
 
   return normalizedNode;
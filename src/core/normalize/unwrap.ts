@@ -24,6 +24,11 @@ export function isUselessGroup(node: NormalizedNode): boolean {
     return false;
   }
 
+  // Tappable groups stay: their bounds are the touch target
+  if (node.reactions?.length) {
+    return false;
+  }
+
   // Check if it has any visual properties
   const hasVisualProperties =
     (node.fills && node.fills.length > 0) ||
@@ -50,6 +55,11 @@ export function isWrapperGroup(node: NormalizedNode): boolean {
     return false;
   }
 
+  // Tappable groups stay: their bounds are the touch target
+  if (node.reactions?.length) {
+    return false;
+  }
+
   // Check if it has any visual properties
   const hasVisualProperties =
     (node.fills && node.fills.length > 0) ||
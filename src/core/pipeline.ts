@@ -18,14 +18,24 @@ import type {
   CornerRadius,
   TypographyInfo,
   ButtonIR,
+  TextIR,
+  StyleVariableBindings,
+  StyleNames,
 } from './types.js';
 import { normalizeTree, type FilterOptions } from './normalize/index.js';
 import { addLayoutInfo } from './layout/index.js';
 import { mapConstraints } from './layout/constraint-mapper.js';
 import { recognizeSemantics, setAssetDetectionConfig } from './recognize/index.js';
-import { extractStyleFromProps, extractTokens, createEmptyStylesBundle } from './styles/index.js';
+import {
+  extractStyleFromProps,
+  extractTokens,
+  createEmptyStylesBundle,
+  resolveBoundVariables,
+  resolveStyleNames,
+} from './styles/index.js';
 import { detectSafeArea, type SafeAreaDetectionResult } from './detection/index.js';
 import { detectModalOverlay, extractModalContent, type ModalOverlayResult } from './detection/index.js';
+import { applyVariantStyles, collectVariantProps, findVariant, getVariantComponents, parseVariantValues } from './variants/index.js';
 import { BoundingBox } from '../api/types.js';
 
 /**
@@ -40,18 +50,35 @@ interface NodeVisualProps {
   typography?: TypographyInfo;
   width: number;
   height: number;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
   // Advanced properties
   boundVariables?: any;
+  variables?: StyleVariableBindings;
   styles?: any;
+  styleNames?: StyleNames;
   constraints?: any;
   scrollBehavior?: string;
   layout?: import('./types.js').LayoutMeta;
 }
 
+/**
+ * Visual props map key of a styled text run
+ */
+function textRunId(nodeId: string, index: number): string {
+  return `${nodeId}#${index}`;
+}
+
 /**
  * Build a map of node IDs to their visual properties from a LayoutNode tree
  */
-function buildVisualPropsMap(node: LayoutNode): Map<string, NodeVisualProps> {
+function buildVisualPropsMap(
+  node: LayoutNode,
+  variableNames?: Record<string, string>,
+  styleNames?: Record<string, string>
+): Map<string, NodeVisualProps> {
   const map = new Map<string, NodeVisualProps>();
 
   function walk(n: LayoutNode, parentBounds?: BoundingBox, parentLayout?: LayoutType): void {
@@ -80,14 +107,31 @@ function buildVisualPropsMap(node: LayoutNode): Map<string, NodeVisualProps> {
       typography: n.typography,
       width: n.boundingBox.width,
       height: n.boundingBox.height,
+      minWidth: n.minWidth,
+      maxWidth: n.maxWidth,
+      minHeight: n.minHeight,
+      maxHeight: n.maxHeight,
       boundVariables: (n as any).boundVariables,
+      variables: resolveBoundVariables((n as any).boundVariables, variableNames, !!n.typography),
       styles: (n as any).styles,
+      styleNames: resolveStyleNames((n as any).styles, styleNames),
       constraints: (n as any).constraints,
       scrollBehavior: (n as any).scrollBehavior,
       layout: n.layout,
       ...absoluteProps
     });
 
+    // Styled text runs get their own entries, keyed `${id}#${index}`
+    n.textRuns?.forEach((run, index) => {
+      if (!run.typography) return;
+      map.set(textRunId(n.id, index), {
+        fills: run.fills,
+        typography: run.typography,
+        width: undefined,
+        height: undefined,
+      });
+    });
+
     for (const child of n.children) {
       walk(child, n.boundingBox, n.layout.type);
     }
@@ -162,6 +206,17 @@ function collectStyles(
       registerStyle(n, props);
     }
 
+    if (n.semanticType === 'Text' && (n as TextIR).runs) {
+      (n as TextIR).runs!.forEach((run, index) => {
+        const runProps = run.styleRef && propsMap.get(textRunId(n.id, index));
+        if (runProps) {
+          const pseudoNode = { styleRef: run.styleRef! };
+          registerStyle(pseudoNode, runProps);
+          run.styleRef = pseudoNode.styleRef;
+        }
+      });
+    }
+
     if (n.semanticType === 'Button') {
       const btn = n as ButtonIR;
       if (btn.textId && btn.textStyleRef) {
@@ -260,10 +315,10 @@ export function recognize(node: LayoutNode): IRNode {
 export function extractStyles(
   ir: IRNode,
   layoutNode: LayoutNode,
-  _options?: PipelineOptions
+  options?: PipelineOptions
 ): StylesBundle {
   // Build map of visual properties from the layout tree
-  const propsMap = buildVisualPropsMap(layoutNode);
+  const propsMap = buildVisualPropsMap(layoutNode, options?.variableNames, options?.styleNames);
 
   // Collect styles from the IR tree
   const styles = collectStyles(ir, propsMap);
@@ -278,18 +333,24 @@ export function extractStyles(
 }
 
 /**
- * Collect gap and padding values from IR tree layout metadata
+ * Collect gap, wrap gap and padding values from IR tree layout metadata
  * These are separate from ExtractedStyle and need explicit collection
  */
 function collectLayoutSpacing(node: IRNode, spacing: Record<string, number>): void {
-  // Collect from current node's layout
-  if ('layout' in node && node.layout) {
-    const layout = node.layout as any;
-
-    // Collect gap
-    if (layout.gap > 0 && !Object.values(spacing).includes(layout.gap)) {
-      const index = Object.keys(spacing).length;
-      spacing[`spacing_${index}`] = layout.gap;
+  // Collect from current node's layout and its component set variants
+  const layouts = [
+    ...('layout' in node && node.layout ? [node.layout] : []),
+    ...Object.values(node.variantStyles ?? {}).flat().flatMap(variant => variant.layout ? [variant.layout] : []),
+  ];
+  for (const nodeLayout of layouts) {
+    const layout = nodeLayout as any;
+
+    // Collect gap (and the line gap of wrapped layouts)
+    for (const val of [layout.gap, layout.wrapGap]) {
+      if (val > 0 && !Object.values(spacing).includes(val)) {
+        const index = Object.keys(spacing).length;
+        spacing[`spacing_${index}`] = val;
+      }
     }
 
     // Collect padding
@@ -322,11 +383,17 @@ function collectLayoutSpacing(node: IRNode, spacing: Record<string, number>): vo
  * 2. Add Layout: Detect row/column/stack, extract padding/gap
  * 3. Recognize: Classify into semantic types (Container, Text, Button, etc.)
  * 4. Extract Styles: Collect visual styles and design tokens
+ *
+ * Component sets run the stages per variant (see transformComponentSet).
  */
 export function transformToScreenIR(
   input: FigmaNode,
   options?: PipelineOptions
 ): ScreenIR {
+  if (input.type === 'COMPONENT_SET' && getVariantComponents(input).length > 0) {
+    return transformComponentSet(input, options);
+  }
+
   // Stage 0a: Detect Modal Overlay
   // If the screen is demonstrating a modal (bottom sheet, dialog, etc.),
   // extract just the modal content for code generation
@@ -403,6 +470,46 @@ export function transformToScreenIR(
   };
 }
 
+/**
+ * Component set: the default variant with the style overrides of the others
+ *
+ * Each option of each variant prop is diffed against the variant that equals
+ * the default in every other prop (Size=L against Size=M, Type=Primary, ...).
+ * Combinations that change two props at once are not looked at.
+ */
+function transformComponentSet(input: FigmaNode, options?: PipelineOptions): ScreenIR {
+  const variantProps = collectVariantProps(input);
+  const defaults = Object.fromEntries(variantProps.map(prop => [prop.figmaName, prop.defaultValue]));
+  const defaultVariant = findVariant(input, defaults) ?? getVariantComponents(input)[0];
+  const defaultValues = { ...defaults, ...parseVariantValues(defaultVariant.name) };
+  // Variants are named after their values; style refs follow the set name instead
+  const transformVariant = (variant: FigmaNode) => transformToScreenIR({ ...variant, name: input.name }, options);
+
+  const screen: ScreenIR = {
+    ...transformVariant(defaultVariant),
+    id: input.id,
+    name: input.name,
+    variantProps,
+  };
+
+  for (const prop of variantProps) {
+    for (const option of prop.options) {
+      if (option === defaultValues[prop.figmaName]) continue;
+      const variant = findVariant(input, { ...defaultValues, [prop.figmaName]: option });
+      if (variant) {
+        applyVariantStyles(screen, transformVariant(variant), prop, option);
+      }
+    }
+  }
+
+  // Variant styles bring their own colors, sizes and spacing
+  const tokens = extractTokens(screen.stylesBundle.styles);
+  collectLayoutSpacing(screen.root, tokens.spacing);
+  screen.stylesBundle = { ...screen.stylesBundle, tokens };
+
+  return screen;
+}
+
 /**
  * Export individual stages for debugging/testing
  */
@@ -10,13 +10,18 @@ import type {
   TextIR,
   ImageIR,
   ButtonIR,
+  InputIR,
+  ControlIR,
+  ControlKind,
   CardIR,
   IconIR,
   ComponentIR,
   RepeaterIR,
+  NodeInteraction,
 } from '../types.js';
 
 import { extractProps } from '../extraction/prop-extractor.js';
+import { detectInputTraits } from '../extraction/content-pattern.js';
 import { toValidIdentifier, toPascalCase } from '../shared/naming.js';
 
 /**
@@ -31,6 +36,53 @@ const ICON_MAX_SIZE = 48;
  */
 const DEFAULT_ASSET_MAX_SIZE = 80;
 
+/**
+ * Layer names of text fields (the field kind itself is matched via detectInputTraits)
+ */
+const INPUT_NAME_PATTERN = /input|field|text\s*box|search|поле|поиск/i;
+
+/**
+ * Control kinds by instance name or property key (first match wins)
+ * Words that also name display elements ("Notification counter", "Price range")
+ * are left out, so badges with a number do not become inputs.
+ */
+const CONTROL_KIND_PATTERNS: Array<{ kind: ControlKind; pattern: RegExp }> = [
+  { kind: 'switch', pattern: /switch|toggle|переключател/i },
+  { kind: 'checkbox', pattern: /check\s*box|^checked$|чекбокс/i },
+  { kind: 'radio', pattern: /radio/i },
+  { kind: 'slider', pattern: /slider|ползун/i },
+  { kind: 'stepper', pattern: /stepper|quantity/i },
+  { kind: 'rating', pattern: /rating|рейтинг/i },
+];
+
+/**
+ * Variant values of a toggled control (State=On, Checked=true, Selected=Yes)
+ */
+const CONTROL_ON_VALUE = /^(on|true|checked|selected|active|yes)$/i;
+const CONTROL_OFF_VALUE = /^(off|false|unchecked|unselected|not\s*selected|default|inactive|no)$/i;
+
+/**
+ * BOOLEAN property keys that carry the toggle state (not "Show icon" style visibility flags)
+ */
+const CONTROL_STATE_KEY = /^(state|value|on|checked|selected|active|is\s*on)$/i;
+
+/**
+ * Numeric variant values (Value=40, Rating=3.5, Progress=60%)
+ */
+const NUMERIC_VALUE = /^\d+(\.\d+)?%?$/;
+
+/**
+ * Prototype actions with a code counterpart (SCROLL_TO/CHANGE_TO stay design-only)
+ */
+const INTERACTION_ACTIONS: Record<string, NodeInteraction['action']> = {
+  NAVIGATE: 'navigate',
+  OVERLAY: 'overlay',
+  SWAP: 'overlay',
+  BACK: 'back',
+  CLOSE: 'back',
+  URL: 'url',
+};
+
 /**
  * Vector node types that indicate vector-based content
  */
@@ -487,6 +539,51 @@ export function isButton(node: LayoutNode): boolean {
   return true;
 }
 
+/**
+ * Check if a node is a text input
+ * Input = bordered or filled single-line box + one left-aligned placeholder text
+ * (optionally + icons), named like a field or labelled like one ("Email", "Password")
+ */
+export function isInput(node: LayoutNode): boolean {
+  if (node.type === 'TEXT' || !node.children?.length) {
+    return false;
+  }
+
+  const hasStroke = !!node.strokes?.length;
+  const hasSolidFill = node.fills?.some(f => f.type === 'solid') ?? false;
+  if (!hasStroke && !hasSolidFill) {
+    return false;
+  }
+
+  // Exactly one text; everything else must be an icon (search glass, eye toggle)
+  const texts = node.children.filter(child => child.type === 'TEXT');
+  if (texts.length !== 1 || !texts[0].text) {
+    return false;
+  }
+  if (node.children.some(child => child.type !== 'TEXT' && !isIcon(child))) {
+    return false;
+  }
+
+  // Single-line field proportions
+  const { width, height } = node.boundingBox;
+  if (height < 28 || height > 64 || width < 120 || width < height * 3) {
+    return false;
+  }
+
+  // Centered text reads as a button label, not a placeholder
+  const text = texts[0];
+  if (text.typography?.textAlign === 'center') {
+    return false;
+  }
+  const textCenter = text.boundingBox.x + text.boundingBox.width / 2;
+  const nodeCenter = node.boundingBox.x + width / 2;
+  if (text.boundingBox.width < width * 0.8 && Math.abs(textCenter - nodeCenter) < width * 0.1) {
+    return false;
+  }
+
+  return INPUT_NAME_PATTERN.test(node.name) || detectInputTraits(text.text, node.name) !== null;
+}
+
 /**
  * Check if a node is a card
  * Card = container with visual treatment (corner radius, shadow, or distinct background)
@@ -524,14 +621,116 @@ export function isComponent(node: LayoutNode): boolean {
   return node.type === 'INSTANCE';
 }
 
+/**
+ * Instance property key without the "#id" suffix Figma adds to BOOLEAN/TEXT properties
+ */
+function propertyKey(key: string): string {
+  return key.replace(/#.*$/, '').trim();
+}
+
+/**
+ * All TEXT nodes of a subtree in document order
+ */
+function collectTextNodes(node: LayoutNode): LayoutNode[] {
+  if (node.type === 'TEXT') return [node];
+  return (node.children ?? []).flatMap(child => collectTextNodes(child));
+}
+
+/**
+ * Control kind from the instance name, then from its property keys
+ */
+function inferControlKind(node: LayoutNode): ControlKind | null {
+  const byName = CONTROL_KIND_PATTERNS.find(({ pattern }) => pattern.test(node.name));
+  if (byName) return byName.kind;
+
+  const keys = Object.keys(node.componentProperties ?? {}).map(propertyKey);
+  const byKey = CONTROL_KIND_PATTERNS.find(({ pattern }) => keys.some(key => pattern.test(key)));
+  return byKey?.kind ?? null;
+}
+
+/**
+ * On/off state from a state-like property (State=On, Checked=true);
+ * other variants (Size=Default, Type=Active) are ignored
+ */
+function readToggleValue(node: LayoutNode): boolean | null {
+  for (const [key, prop] of Object.entries(node.componentProperties ?? {})) {
+    const name = propertyKey(key);
+    const isStateKey = CONTROL_STATE_KEY.test(name) || CONTROL_KIND_PATTERNS.some(({ pattern }) => pattern.test(name));
+    if (!isStateKey) continue;
+    if (typeof prop.value === 'boolean') return prop.value;
+    const value = prop.value.trim();
+    if (CONTROL_ON_VALUE.test(value)) return true;
+    if (CONTROL_OFF_VALUE.test(value)) return false;
+  }
+  return null;
+}
+
+/**
+ * Numeric value and its variant options (for the upper bound)
+ */
+function readNumericValue(node: LayoutNode): { value: number; options: number[] } | null {
+  for (const prop of Object.values(node.componentProperties ?? {})) {
+    if (typeof prop.value !== 'string' || !NUMERIC_VALUE.test(prop.value.trim())) continue;
+    const options = (prop.options ?? [])
+      .filter(option => NUMERIC_VALUE.test(option.trim()))
+      .map(option => parseFloat(option));
+    return { value: parseFloat(prop.value), options };
+  }
+  return null;
+}
+
+/**
+ * Detect a form control instance (switch, checkbox, radio, slider, stepper, rating)
+ *
+ * The kind comes from the instance name or property keys; the current value
+ * must come from componentProperties (State=On, Checked=true, Value=40).
+ * Steppers may show their value as a number text instead.
+ */
+function detectControl(node: LayoutNode): Pick<ControlIR, 'control' | 'value' | 'max'> | null {
+  if (node.type !== 'INSTANCE') return null;
+
+  const control = inferControlKind(node);
+  if (!control) return null;
+
+  if (control === 'switch' || control === 'checkbox' || control === 'radio') {
+    const value = readToggleValue(node);
+    return value === null ? null : { control, value };
+  }
+
+  const numeric = readNumericValue(node)
+    ?? (control === 'stepper'
+      ? collectTextNodes(node)
+        .filter(text => /^\d+$/.test(text.text?.trim() ?? ''))
+        .map(text => ({ value: parseInt(text.text!, 10), options: [] as number[] }))[0]
+      : undefined);
+  if (!numeric) return null;
+
+  const optionsMax = numeric.options.length ? Math.max(...numeric.options) : undefined;
+  if (control === 'rating') {
+    return { control, value: numeric.value, max: optionsMax ?? Math.max(5, Math.ceil(numeric.value)) };
+  }
+  if (control === 'slider') {
+    return { control, value: numeric.value, max: optionsMax ?? (numeric.value > 1 ? 100 : 1) };
+  }
+  return { control, value: numeric.value };
+}
+
+/**
+ * Check if a node is a form control instance whose value lives in its variants
+ */
+export function isControl(node: LayoutNode): boolean {
+  return detectControl(node) !== null;
+}
+
 /**
  * Classify a single node into a semantic type
  */
 export function classifyNode(node: LayoutNode): SemanticType {
   // Order matters - check more specific types first
   // Component (First priority if explicitly an instance)
+  // (controls drawn as variants become working inputs)
   if (isComponent(node)) {
-    return 'Component';
+    return isControl(node) ? 'Control' : 'Component';
   }
 
   // Text
@@ -549,6 +748,11 @@ export function classifyNode(node: LayoutNode): SemanticType {
     return 'Image';
   }
 
+  // Input (before Button, as filled fields look like buttons)
+  if (isInput(node)) {
+    return 'Input';
+  }
+
   // Button (before Card, as buttons can have card-like styling)
   if (isButton(node)) {
     return 'Button';
@@ -708,6 +912,20 @@ function processChildrenWithRepeaters(children: LayoutNode[]): IRNode[] {
   return result;
 }
 
+/**
+ * First on-tap prototype action of a node
+ */
+function extractInteraction(node: LayoutNode): NodeInteraction | undefined {
+  const reaction = node.reactions?.find(r => r.trigger === 'ON_CLICK' && INTERACTION_ACTIONS[r.action]);
+  if (!reaction) return undefined;
+
+  return {
+    action: INTERACTION_ACTIONS[reaction.action],
+    ...(reaction.destinationId && { destinationId: reaction.destinationId }),
+    ...(reaction.url && { url: reaction.url }),
+  };
+}
+
 /**
  * Convert a LayoutNode to an IRNode
  */
@@ -715,11 +933,14 @@ export function toIRNode(node: LayoutNode): IRNode {
   const semanticType = classifyNode(node);
   const styleRef = generateStyleRef(node);
 
+  const interaction = extractInteraction(node);
+
   const baseProps = {
     id: node.id,
     name: node.name,
     boundingBox: node.boundingBox,
     styleRef,
+    ...(interaction && { interaction }),
   };
 
   switch (semanticType) {
@@ -750,6 +971,20 @@ export function toIRNode(node: LayoutNode): IRNode {
     }
 
     case 'Text': {
+      // Rich text keeps its spans inline instead of becoming a string prop
+      if (node.textRuns?.length) {
+        return {
+          ...baseProps,
+          semanticType: 'Text',
+          text: node.text ?? '',
+          // One preferred name: identical spans share it, others get numbered in collectStyles
+          runs: node.textRuns.map(run => ({
+            text: run.text,
+            styleRef: run.typography ? `${styleRef}Span` : undefined,
+          })),
+        } as TextIR;
+      }
+
       // Extract propName from node.name for text-to-props extraction
       const textPropName = toValidIdentifier(node.name);
       return {
@@ -813,6 +1048,35 @@ export function toIRNode(node: LayoutNode): IRNode {
       } as ButtonIR;
     }
 
+    case 'Input': {
+      const textChild = node.children.find(child => child.type === 'TEXT');
+      const traits = detectInputTraits(textChild?.text, node.name);
+
+      return {
+        ...baseProps,
+        ...traits,
+        semanticType: 'Input',
+        placeholder: textChild?.text ?? '',
+        placeholderId: textChild?.id,
+        children: node.children.map(child => toIRNode(child)),
+        layout: node.layout,
+      } as InputIR;
+    }
+
+    case 'Control': {
+      const control = detectControl(node)!;
+      const label = collectTextNodes(node).find(text => text.text?.trim() && !/^[\d.,%★☆\s]+$/.test(text.text));
+
+      return {
+        ...baseProps,
+        ...control,
+        semanticType: 'Control',
+        labelId: label?.id,
+        children: label ? [toIRNode(label)] : [],
+        layout: node.layout,
+      } as ControlIR;
+    }
+
     case 'Card':
       return {
         ...baseProps,
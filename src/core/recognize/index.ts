@@ -8,6 +8,8 @@ export {
   isImage,
   isIcon,
   isButton,
+  isInput,
+  isControl,
   isCard,
   classifyNode,
   toIRNode,
@@ -10,8 +10,14 @@ import type {
   Fill,
   Stroke,
   Effect,
+  ShadowEffect,
   CornerRadius,
   TypographyInfo,
+  BoundVariables,
+  StyleVariableBindings,
+  BindableStyleProperty,
+  StyleReferences,
+  StyleNames,
 } from '../types.js';
 
 /**
@@ -106,6 +112,43 @@ export function effectsToShadow(
   };
 }
 
+/**
+ * Extract the full shadow stack from effects
+ * Returns undefined when a single drop shadow (effectsToShadow) covers it.
+ */
+export function effectsToBoxShadow(
+  effects: Effect[] | undefined
+): ExtractedStyle['boxShadow'] | undefined {
+  const shadows = (effects ?? []).filter(
+    (e): e is ShadowEffect => e.type === 'drop-shadow' || e.type === 'inner-shadow'
+  );
+  if (shadows.length === 0) return undefined;
+  if (shadows.length === 1 && shadows[0].type === 'drop-shadow') return undefined;
+
+  return shadows.map(shadow => ({
+    color: resolveEffectiveColor(shadow.color, 1),
+    offsetX: shadow.offset.x,
+    offsetY: shadow.offset.y,
+    blur: shadow.radius,
+    spread: shadow.spread,
+    ...(shadow.type === 'inner-shadow' && { inset: true }),
+  }));
+}
+
+/**
+ * Extract layer and background blur radii from effects
+ */
+export function effectsToBlur(
+  effects: Effect[] | undefined
+): Pick<ExtractedStyle, 'layerBlur' | 'backgroundBlur'> {
+  const result: Pick<ExtractedStyle, 'layerBlur' | 'backgroundBlur'> = {};
+  for (const effect of effects ?? []) {
+    if (effect.type === 'layer-blur' && effect.radius > 0) result.layerBlur = effect.radius;
+    if (effect.type === 'background-blur' && effect.radius > 0) result.backgroundBlur = effect.radius;
+  }
+  return result;
+}
+
 /**
  * Convert corner radius to style format
  */
@@ -157,10 +200,94 @@ export function typographyToStyle(
     lineHeight: typography.lineHeight,
     letterSpacing: typography.letterSpacing,
     textAlign: typography.textAlign,
+    ...(typography.textDecoration && typography.textDecoration !== 'none'
+      ? { textDecoration: typography.textDecoration }
+      : {}),
     color,
   };
 }
 
+/**
+ * Figma boundVariables field → style property it feeds
+ * (fills are handled separately: background for shapes, color for text)
+ */
+const BOUND_FIELD_TO_STYLE: Record<string, BindableStyleProperty> = {
+  strokes: 'borderColor',
+  strokeWeight: 'borderWidth',
+  itemSpacing: 'gap',
+  counterAxisSpacing: 'rowGap',
+  paddingTop: 'paddingTop',
+  paddingRight: 'paddingRight',
+  paddingBottom: 'paddingBottom',
+  paddingLeft: 'paddingLeft',
+};
+
+const CORNER_RADIUS_FIELDS = ['topLeftRadius', 'topRightRadius', 'bottomRightRadius', 'bottomLeftRadius'];
+
+/**
+ * Variable ID of a binding (paint lists bind per entry - the first one is used)
+ */
+function aliasId(binding: BoundVariables[string] | undefined): string | undefined {
+  if (!binding) return undefined;
+  if (Array.isArray(binding)) return binding[0]?.id;
+  if ('id' in binding && typeof binding.id === 'string') return binding.id;
+  return undefined;
+}
+
+/**
+ * Resolve raw boundVariables to variable names per style property
+ * Bindings to variables missing from `variableNames` (e.g. unpublished
+ * library variables) are dropped.
+ */
+export function resolveBoundVariables(
+  boundVariables: BoundVariables | undefined,
+  variableNames: Record<string, string> | undefined,
+  isText: boolean = false
+): StyleVariableBindings | undefined {
+  if (!boundVariables || !variableNames) return undefined;
+
+  const bindings: StyleVariableBindings = {};
+  const nameOf = (field: string) => {
+    const id = aliasId(boundVariables[field]);
+    return id ? variableNames[id] : undefined;
+  };
+
+  const fill = nameOf('fills');
+  if (fill) bindings[isText ? 'color' : 'backgroundColor'] = fill;
+
+  for (const [field, property] of Object.entries(BOUND_FIELD_TO_STYLE)) {
+    const name = nameOf(field);
+    if (name) bindings[property] = name;
+  }
+
+  // Uniform radius only: all four corners bound to the same variable
+  const corners = CORNER_RADIUS_FIELDS.map(nameOf);
+  if (corners[0] && corners.every(name => name === corners[0])) {
+    bindings.borderRadius = corners[0];
+  }
+
+  return Object.keys(bindings).length > 0 ? bindings : undefined;
+}
+
+/**
+ * Resolve node style references (style node IDs) to published style names
+ * References to styles missing from `styleNames` are dropped.
+ */
+export function resolveStyleNames(
+  styles: StyleReferences | undefined,
+  styleNames: Record<string, string> | undefined
+): StyleNames | undefined {
+  if (!styles || !styleNames) return undefined;
+
+  const names: StyleNames = {};
+  for (const field of ['fill', 'stroke', 'text', 'effect'] as const) {
+    const id = styles[field];
+    if (id && styleNames[id]) names[field] = styleNames[id];
+  }
+
+  return Object.keys(names).length > 0 ? names : undefined;
+}
+
 /**
  * Get the original LayoutNode properties from an IRNode
  * Since we don't store them directly, we need to use the styleRef to look them up
@@ -174,6 +301,11 @@ interface NodeVisualProps {
   typography?: TypographyInfo;
   width: number | string;
   height: number | string;
+  // Auto-layout size bounds
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
   // Positioning
   position?: 'absolute' | 'relative';
   left?: number | string;
@@ -182,6 +314,10 @@ interface NodeVisualProps {
   bottom?: number | string;
   // Layout Meta
   layout?: import('../types.js').LayoutMeta;
+  // Bound variable names (see resolveBoundVariables)
+  variables?: StyleVariableBindings;
+  // Published style names (see resolveStyleNames)
+  styleNames?: StyleNames;
 }
 
 /**
@@ -210,6 +346,13 @@ export function extractStyleFromProps(
   // Shadow
   const shadow = effectsToShadow(props.effects);
   if (shadow) style.shadow = shadow;
+  const boxShadow = effectsToBoxShadow(props.effects);
+  if (boxShadow) style.boxShadow = boxShadow;
+
+  // Blur
+  const { layerBlur, backgroundBlur } = effectsToBlur(props.effects);
+  if (layerBlur) style.layerBlur = layerBlur;
+  if (backgroundBlur) style.backgroundBlur = backgroundBlur;
 
   // Typography
   const typography = typographyToStyle(props.typography, props.fills);
@@ -221,6 +364,11 @@ export function extractStyleFromProps(
 
   if (typeof props.height === 'number') style.height = Math.round(props.height);
   else if (props.height !== undefined) style.height = props.height;
+
+  if (props.minWidth !== undefined) style.minWidth = Math.round(props.minWidth);
+  if (props.maxWidth !== undefined) style.maxWidth = Math.round(props.maxWidth);
+  if (props.minHeight !== undefined) style.minHeight = Math.round(props.minHeight);
+  if (props.maxHeight !== undefined) style.maxHeight = Math.round(props.maxHeight);
   
   // Positioning
   if (props.position) style.position = props.position;
@@ -249,7 +397,14 @@ export function extractStyleFromProps(
     if (layout.type === 'row' || layout.type === 'column' || layout.type === 'stack') {
       style.flexDirection = layout.type === 'row' ? 'row' : 'column';
       
-      if (layout.gap) style.gap = layout.gap;
+      if (layout.wrap) {
+        // Figma only wraps horizontal auto-layout: items gap → columnGap, lines gap → rowGap
+        style.flexWrap = 'wrap';
+        if (layout.gap) style.columnGap = layout.gap;
+        if (layout.wrapGap) style.rowGap = layout.wrapGap;
+      } else if (layout.gap) {
+        style.gap = layout.gap;
+      }
       if (layout.padding) style.padding = layout.padding;
       
       // Alignments
@@ -289,32 +444,76 @@ export function extractStyleFromProps(
     }
   }
 
+  if (props.variables) {
+    style.variables = { ...props.variables };
+  }
+
+  if (props.styleNames) {
+    style.styleNames = { ...props.styleNames };
+  }
+
   return style;
 }
 
+/**
+ * Generated token names used when no published style names a value
+ */
+const GENERATED_TOKEN_NAME = /^(color|text|shadow)_\d+$/;
+
+/**
+ * Whether a DesignTokens key is a generated name rather than a published style name
+ */
+export function isGeneratedTokenName(name: string): boolean {
+  return GENERATED_TOKEN_NAME.test(name);
+}
+
+/**
+ * Key unique values by style name, falling back to `${prefix}_${index}`
+ * A value keeps the first style name seen for it; a style name already used
+ * by a different value falls back to a generated name.
+ */
+function nameTokens<T>(
+  entries: Array<{ key: string; value: T; styleName?: string }>,
+  prefix: string
+): Record<string, T> {
+  const byKey = new Map<string, { value: T; styleName?: string }>();
+  for (const { key, value, styleName } of entries) {
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, { value, styleName });
+    } else if (!existing.styleName && styleName) {
+      existing.styleName = styleName;
+    }
+  }
+
+  const tokens: Record<string, T> = {};
+  let index = 0;
+  for (const { value, styleName } of byKey.values()) {
+    const name = styleName && !(styleName in tokens) ? styleName : `${prefix}_${index++}`;
+    tokens[name] = value;
+  }
+  return tokens;
+}
+
 /**
  * Collect all unique colors from styles
  */
 function collectColors(styles: Record<string, ExtractedStyle>): Record<string, string> {
-  const colors: Record<string, string> = {};
-  let colorIndex = 0;
+  const entries: Array<{ key: string; value: string; styleName?: string }> = [];
+  const add = (color: string | undefined, styleName?: string) => {
+    if (color) entries.push({ key: color, value: color, styleName });
+  };
 
   for (const style of Object.values(styles)) {
-    if (style.backgroundColor && !Object.values(colors).includes(style.backgroundColor)) {
-      colors[`color_${colorIndex++}`] = style.backgroundColor;
-    }
-    if (style.borderColor && !Object.values(colors).includes(style.borderColor)) {
-      colors[`color_${colorIndex++}`] = style.borderColor;
-    }
-    if (style.shadow?.color && !Object.values(colors).includes(style.shadow.color)) {
-      colors[`color_${colorIndex++}`] = style.shadow.color;
-    }
-    if (style.typography?.color && !Object.values(colors).includes(style.typography.color)) {
-      colors[`color_${colorIndex++}`] = style.typography.color;
-    }
+    const names = style.styleNames ?? {};
+    // Text fills color the glyphs, not the background
+    add(style.backgroundColor, style.typography ? undefined : names.fill);
+    add(style.borderColor, names.stroke);
+    add(style.shadow?.color);
+    add(style.typography?.color, names.fill);
   }
 
-  return colors;
+  return nameTokens(entries, 'color');
 }
 
 /**
@@ -373,26 +572,28 @@ function collectRadii(styles: Record<string, ExtractedStyle>): Record<string, nu
 function collectTypography(
   styles: Record<string, ExtractedStyle>
 ): Record<string, { fontFamily: string; fontSize: number; fontWeight: number; lineHeight: number }> {
-  const typography: Record<string, { fontFamily: string; fontSize: number; fontWeight: number; lineHeight: number }> = {};
-  const seen = new Set<string>();
-  let index = 0;
+  const entries: Array<{
+    key: string;
+    value: { fontFamily: string; fontSize: number; fontWeight: number; lineHeight: number };
+    styleName?: string;
+  }> = [];
 
   for (const style of Object.values(styles)) {
     if (style.typography) {
-      const key = `${style.typography.fontFamily}-${style.typography.fontSize}-${style.typography.fontWeight}`;
-      if (!seen.has(key)) {
-        seen.add(key);
-        typography[`text_${index++}`] = {
+      entries.push({
+        key: `${style.typography.fontFamily}-${style.typography.fontSize}-${style.typography.fontWeight}`,
+        value: {
           fontFamily: style.typography.fontFamily,
           fontSize: style.typography.fontSize,
           fontWeight: style.typography.fontWeight,
           lineHeight: style.typography.lineHeight,
-        };
-      }
+        },
+        styleName: style.styleNames?.text,
+      });
     }
   }
 
-  return typography;
+  return nameTokens(entries, 'text');
 }
 
 /**
@@ -401,21 +602,43 @@ function collectTypography(
 function collectShadows(
   styles: Record<string, ExtractedStyle>
 ): Record<string, NonNullable<ExtractedStyle['shadow']>> {
-  const shadows: Record<string, NonNullable<ExtractedStyle['shadow']>> = {};
-  const seen = new Set<string>();
-  let index = 0;
+  const entries: Array<{ key: string; value: NonNullable<ExtractedStyle['shadow']>; styleName?: string }> = [];
 
   for (const style of Object.values(styles)) {
     if (style.shadow) {
-      const key = `${style.shadow.offsetX}-${style.shadow.offsetY}-${style.shadow.blur}-${style.shadow.spread}-${style.shadow.color}`;
-      if (!seen.has(key)) {
-        seen.add(key);
-        shadows[`shadow_${index++}`] = style.shadow;
+      entries.push({
+        key: `${style.shadow.offsetX}-${style.shadow.offsetY}-${style.shadow.blur}-${style.shadow.spread}-${style.shadow.color}`,
+        value: style.shadow,
+        styleName: style.styleNames?.effect,
+      });
+    }
+  }
+
+  return nameTokens(entries, 'shadow');
+}
+
+/**
+ * Collect all bound variable names with the token category they map to
+ */
+function collectVariables(
+  styles: Record<string, ExtractedStyle>
+): Record<string, 'colors' | 'spacing' | 'radii'> {
+  const variables: Record<string, 'colors' | 'spacing' | 'radii'> = {};
+
+  for (const style of Object.values(styles)) {
+    for (const [property, name] of Object.entries(style.variables ?? {})) {
+      if (!name || variables[name]) continue;
+      if (property === 'backgroundColor' || property === 'borderColor' || property === 'color') {
+        variables[name] = 'colors';
+      } else if (property === 'borderRadius') {
+        variables[name] = 'radii';
+      } else {
+        variables[name] = 'spacing';
       }
     }
   }
 
-  return shadows;
+  return variables;
 }
 
 /**
@@ -428,6 +651,7 @@ export function extractTokens(styles: Record<string, ExtractedStyle>): DesignTok
     radii: collectRadii(styles),
     typography: collectTypography(styles),
     shadows: collectShadows(styles),
+    variables: collectVariables(styles),
   };
 }
 
@@ -7,9 +7,14 @@ export {
   fillsToBackground,
   strokesToBorder,
   effectsToShadow,
+  effectsToBoxShadow,
+  effectsToBlur,
   cornerRadiusToStyle,
   typographyToStyle,
   extractStyleFromProps,
+  resolveBoundVariables,
+  resolveStyleNames,
+  isGeneratedTokenName,
   extractTokens,
   collectStylesFromIR,
   createEmptyStylesBundle,
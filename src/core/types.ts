@@ -8,13 +8,31 @@ import type {
   Fill,
   Stroke,
   Effect,
+  ShadowEffect,
   CornerRadius,
   TypographyInfo,
   Constraints,
+  BoundVariables,
+  StyleReferences,
+  TextRun,
+  Reaction,
 } from '../api/types.js';
 
 // Re-export commonly used API types
-export type { BoundingBox, Padding, Fill, Stroke, Effect, CornerRadius, TypographyInfo, Constraints };
+export type {
+  BoundingBox,
+  Padding,
+  Fill,
+  Stroke,
+  Effect,
+  ShadowEffect,
+  CornerRadius,
+  TypographyInfo,
+  Constraints,
+  BoundVariables,
+  StyleReferences,
+  TextRun,
+};
 
 // ============================================================================
 // 2.1 Normalized Tree Types
@@ -54,6 +72,7 @@ export interface NormalizedNode {
   // Text properties
   text?: string;
   typography?: TypographyInfo;
+  textRuns?: TextRun[];
 
   // Layout from Figma auto-layout
   figmaLayout?: {
@@ -62,6 +81,8 @@ export interface NormalizedNode {
     padding: Padding;
     mainAxisAlign: string;
     crossAxisAlign: string;
+    wrap?: boolean;
+    wrapGap?: number;
   };
   
   // Raw Figma layout props (needed for extractor)
@@ -70,6 +91,10 @@ export interface NormalizedNode {
   layoutAlign?: 'INHERIT' | 'STRETCH' | 'MIN' | 'CENTER' | 'MAX';
   layoutGrow?: number;
   layoutPositioning?: 'AUTO' | 'ABSOLUTE';
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
 
   // Layout sizing from parent context (how this node behaves in parent)
   layoutSizing?: {
@@ -82,13 +107,22 @@ export interface NormalizedNode {
   // Constraints from Figma
   constraints?: Constraints;
 
+  // Variable bindings (raw aliases, resolved to names during style extraction)
+  boundVariables?: BoundVariables;
+
+  // Published style references (style node IDs, resolved to names during style extraction)
+  styles?: StyleReferences;
+
   // Scrolling
   overflowDirection?: 'NONE' | 'HORIZONTAL_SCROLLING' | 'VERTICAL_SCROLLING' | 'BOTH_SCROLLING';
   scrollBehavior?: string;
 
   // Component instance metadata (for INSTANCE nodes)
   componentId?: string;
-  componentProperties?: Record<string, { type: string; value: string | boolean }>;
+  componentProperties?: Record<string, { type: string; value: string | boolean; options?: string[] }>;
+
+  // Prototype interactions
+  reactions?: Reaction[];
 
   // Export settings from Figma (designer's intent for export)
   exportSettings?: Array<{ format: string; suffix?: string; constraint?: { type: string; value: number } }>;
@@ -117,6 +151,10 @@ export interface LayoutMeta {
     vertical: 'fixed' | 'fill' | 'hug';
   };
   overflow?: 'scroll' | 'hidden'; // derived from overflowDirection
+  /** Children wrap onto new lines (Figma layoutWrap = WRAP) */
+  wrap?: boolean;
+  /** Gap between wrapped lines (counterAxisSpacing), defaults to gap */
+  wrapGap?: number;
 }
 
 /**
@@ -142,7 +180,20 @@ export type SemanticType =
   | 'Card'
   | 'Icon'
   | 'Component'
-  | 'Repeater';
+  | 'Repeater'
+  | 'Input'
+  | 'Control';
+
+/**
+ * Tap handler derived from a prototype reaction
+ */
+export interface NodeInteraction {
+  /** navigate/overlay open the destination route, back closes the current one, url opens a link */
+  action: 'navigate' | 'overlay' | 'back' | 'url';
+  /** Figma node ID of the destination frame (navigate/overlay) */
+  destinationId?: string;
+  url?: string;
+}
 
 /**
  * Base properties for all IR nodes
@@ -156,6 +207,37 @@ interface IRNodeBase {
   propName?: string; // If set, this node's content is bound to a prop
   conditionalProp?: string; // If set, JSX should render this node only when the prop is truthy
   styleProps?: Record<string, string>; // Mapping of style property -> prop name
+  interaction?: NodeInteraction; // On-tap prototype action
+  variantStyles?: Record<string, VariantStyle[]>; // Component set variant overrides by base styleRef
+}
+
+/**
+ * Style applied on top of a node's style while a variant prop has a value
+ * (component sets: Size=L makes the container use its Size=L padding)
+ */
+export interface VariantStyle {
+  /** Variant prop name (e.g., "size") */
+  prop: string;
+  /** Variant value; boolean for True/False variant props */
+  value: string | boolean;
+  /** Style of the node in that variant (key in StylesBundle.styles) */
+  styleRef: string;
+  /** Layout of the node in that variant (nodes with children) */
+  layout?: LayoutMeta;
+}
+
+/**
+ * Variant prop of a component set (Figma "Size=S/M/L" → size: 'S' | 'M' | 'L')
+ */
+export interface VariantProp {
+  /** Prop name (e.g., "size") */
+  name: string;
+  /** Property name in Figma (e.g., "Size") */
+  figmaName: string;
+  options: string[];
+  defaultValue: string;
+  /** Options are True/False: rendered as a boolean prop */
+  isBoolean?: boolean;
 }
 
 /**
@@ -175,6 +257,17 @@ export interface TextIR extends IRNodeBase {
   text: string;
   /** Original text value (for prop default) */
   defaultValue?: string;
+  /** Styled segments of mixed-style text, rendered as nested Text */
+  runs?: TextRunIR[];
+}
+
+/**
+ * Segment of a rich text node
+ */
+export interface TextRunIR {
+  text: string;
+  /** Span style; absent for segments in the parent Text style */
+  styleRef?: string;
 }
 
 /**
@@ -203,6 +296,54 @@ export interface ButtonIR extends IRNodeBase {
   layout?: LayoutMeta; // Optional - for arranging children
 }
 
+/**
+ * Keyboard and autofill hints for a text input, inferred from its label text
+ */
+export interface InputTraits {
+  keyboardType?: 'email-address' | 'phone-pad' | 'number-pad' | 'decimal-pad' | 'url';
+  secureTextEntry?: boolean;
+  autoComplete?: string;
+  textContentType?: string;
+  autoCapitalize?: 'none';
+}
+
+/**
+ * Text input element - bordered/filled field with placeholder text
+ */
+export interface InputIR extends IRNodeBase, InputTraits {
+  semanticType: 'Input';
+  placeholder: string;
+  /** Placeholder Text child, rendered as the TextInput itself */
+  placeholderId?: string;
+  /** Change handler prop paired with the value prop (propName) */
+  onChangeProp?: string;
+  children: IRNode[]; // Includes the placeholder Text and any icons
+  layout: LayoutMeta;
+}
+
+/**
+ * Form control kinds recognised from component instances
+ */
+export type ControlKind = 'switch' | 'checkbox' | 'radio' | 'slider' | 'stepper' | 'rating';
+
+/**
+ * Form control element - switch/checkbox/radio/slider/stepper/rating instance
+ */
+export interface ControlIR extends IRNodeBase {
+  semanticType: 'Control';
+  control: ControlKind;
+  /** Value shown in the design: on/off for toggles, a number otherwise */
+  value: boolean | number;
+  /** Upper bound for sliders and star count for ratings */
+  max?: number;
+  /** Change handler prop paired with the value prop (propName) */
+  onChangeProp?: string;
+  /** Label Text inside the instance, rendered next to the control */
+  labelId?: string;
+  children: IRNode[]; // Only the label Text; the drawn variant is replaced by the control
+  layout: LayoutMeta;
+}
+
 /**
  * Card element - container with visual treatment (radius/shadow/bg)
  */
@@ -223,6 +364,17 @@ export interface IconIR extends IRNodeBase {
   layout?: LayoutMeta; // Optional - for arranging children
 }
 
+/**
+ * Generated component prop: content, visual property or control binding
+ */
+export interface PropDefinition {
+  type: 'string' | 'image' | 'style' | 'input' | 'handler' | 'boolean' | 'number';
+  value: string;
+  defaultValue: string;
+  /** Style property for 'style' props; argument type ('boolean' | 'number') for control 'handler' props */
+  property?: string;
+}
+
 /**
  * Component element - reusable UI component from Figma instance
  */
@@ -230,7 +382,7 @@ export interface ComponentIR extends IRNodeBase {
   semanticType: 'Component';
   componentId: string;
   componentName: string;
-  props?: Record<string, { type: 'string' | 'image' | 'style'; value: string; defaultValue: string; property?: string }>;
+  props?: Record<string, PropDefinition>;
   layout: LayoutMeta;
   children: IRNode[]; // Components can have children (overrides)
   /** Figma component properties (variant props like Name, Size) */
@@ -262,7 +414,9 @@ export type IRNode =
   | CardIR
   | IconIR
   | ComponentIR
-  | RepeaterIR;
+  | RepeaterIR
+  | InputIR
+  | ControlIR;
 
 // ============================================================================
 // 2.4 Styles Bundle Types
@@ -301,6 +455,12 @@ export interface ExtractedStyle {
     blur: number;
     spread: number;
   };
+  // All shadows when a single drop shadow can't express them (several, or inner)
+  boxShadow?: BoxShadow[];
+
+  // Blur radii (layer blur blurs the node itself, background blur what is behind it)
+  layerBlur?: number;
+  backgroundBlur?: number;
 
   // Typography (for Text nodes)
   typography?: {
@@ -310,12 +470,17 @@ export interface ExtractedStyle {
     lineHeight: number;
     letterSpacing: number;
     textAlign: 'left' | 'center' | 'right' | 'justify';
+    textDecoration?: 'underline' | 'line-through';
     color: string;
   };
 
   // Sizing
   width?: number | string;
   height?: number | string;
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
 
   // Positioning (Absolute)
   position?: 'absolute' | 'relative';
@@ -333,12 +498,61 @@ export interface ExtractedStyle {
   alignItems?: string;
   alignSelf?: string;
   gap?: number;
+  flexWrap?: 'wrap';
+  rowGap?: number;
+  columnGap?: number;
   padding?: Padding;
   flex?: number;
+
+  // Figma variable names bound to individual properties
+  variables?: StyleVariableBindings;
+
+  // Published Figma style names applied to the node
+  styleNames?: StyleNames;
+}
+
+/**
+ * One entry of a multi-shadow / inner shadow stack (RN boxShadow)
+ */
+export interface BoxShadow {
+  color: string;
+  offsetX: number;
+  offsetY: number;
+  blur: number;
+  spread: number;
+  inset?: boolean;
 }
 
+/**
+ * Style properties that can carry a Figma variable binding
+ */
+export type BindableStyleProperty =
+  | 'backgroundColor'
+  | 'borderColor'
+  | 'borderWidth'
+  | 'borderRadius'
+  | 'color'
+  | 'gap'
+  | 'rowGap'
+  | 'paddingTop'
+  | 'paddingRight'
+  | 'paddingBottom'
+  | 'paddingLeft';
+
+/**
+ * Style property → bound variable name (e.g. backgroundColor → "colors/primary")
+ */
+export type StyleVariableBindings = Partial<Record<BindableStyleProperty, string>>;
+
+/**
+ * Published style names by style reference field (e.g. text → "Heading/H1", fill → "Brand/Primary")
+ */
+export type StyleNames = Partial<Record<'fill' | 'stroke' | 'text' | 'effect', string>>;
+
 /**
  * Design tokens extracted from the screen
+ * Colors, typography and shadows are keyed by published style name ("Brand/Primary")
+ * when a Figma style supplies the value, otherwise by generated name (color_0, text_0).
  */
 export interface DesignTokens {
   colors: Record<string, string>;
@@ -351,6 +565,23 @@ export interface DesignTokens {
     lineHeight: number;
   }>;
   shadows: Record<string, NonNullable<ExtractedStyle['shadow']>>;
+  /** Bound variable names → token category they are used as */
+  variables?: Record<string, 'colors' | 'spacing' | 'radii'>;
+}
+
+/**
+ * Figma variable values per mode (Light/Dark, brand A/B) for tokens bound in a screen
+ */
+export interface ModeThemes {
+  /** Collection the modes come from */
+  collectionName: string;
+  /** Mode names, default mode first */
+  modes: string[];
+  /** Variable name → token category and value per mode name */
+  tokens: Record<string, {
+    category: 'colors' | 'spacing' | 'radii';
+    values: Record<string, string | number>;
+  }>;
 }
 
 /**
@@ -361,6 +592,36 @@ export interface StylesBundle {
   tokens: DesignTokens;
 }
 
+/**
+ * How generated components are styled: StyleSheet variants (theme import,
+ * useTheme hook, react-native-unistyles) or a styling library's own API
+ */
+export type StylePattern =
+  | 'useTheme'
+  | 'StyleSheet'
+  | 'unistyles'
+  | 'nativewind'
+  | 'restyle'
+  | 'tamagui'
+  | 'styled-components';
+
+/**
+ * Responsive scaling of style values with scale functions per axis
+ * (react-native-size-matters style `scale` / `verticalScale` / `moderateScale`)
+ */
+export interface ScalingStrategy {
+  /** Widths, horizontal offsets and paddings, gaps along rows, radii (e.g. 'scale') */
+  horizontal?: string;
+  /** Heights, vertical offsets and paddings, gaps along columns (e.g. 'verticalScale'); default: horizontal */
+  vertical?: string;
+  /** Font sizes and line heights (e.g. 'moderateScale'); default: horizontal */
+  moderate?: string;
+  /** Values up to this many px are never scaled: hairlines, 1px dividers (default: 1). Border widths are never scaled */
+  unscaledMax?: number;
+  /** Screen width the scale functions are written for (e.g. 375); values are converted from the Figma frame width */
+  baseWidth?: number;
+}
+
 // ============================================================================
 // Pipeline Types
 // ============================================================================
@@ -377,6 +638,10 @@ export interface PipelineOptions {
   iconMaxSize?: number;
   /** Project tokens to map against */
   projectTokens?: DesignTokens;
+  /** Figma variable names by ID, used to resolve boundVariables */
+  variableNames?: Record<string, string>;
+  /** Published style names by style node ID, used to resolve node style references */
+  styleNames?: Record<string, string>;
   /** Asset detection configuration */
   assetDetection?: {
     /** Maximum size for exportable assets (default: 80) */
@@ -413,4 +678,6 @@ export interface ScreenIR {
   safeAreaInsets?: SafeAreaInsets;
   /** Whether the design uses safe area layout (has status bar, home indicator, etc.) */
   hasSafeAreaLayout?: boolean;
+  /** Variant props when the screen is a component set rendered as one component */
+  variantProps?: VariantProp[];
 }
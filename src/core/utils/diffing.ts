@@ -18,6 +18,9 @@ export function getStyleVariations(
     'borderWidth',
     'borderRadius',
     'shadow',
+    'boxShadow',
+    'layerBlur',
+    'backgroundBlur',
     'typography',
     'width',
     'height',
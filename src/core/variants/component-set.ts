@@ -0,0 +1,186 @@
+/**
+ * Component Set Variants
+ *
+ * A Figma component set holds one COMPONENT per variant combination, named
+ * "Size=S, Type=Primary". It is generated as the default variant plus style
+ * overrides: every other variant that differs from the default in exactly one
+ * prop is diffed against it node by node.
+ */
+
+import type { FigmaNode } from '../../api/types.js';
+import type { IRNode, ScreenIR, VariantProp } from '../types.js';
+import { toValidIdentifier } from '../shared/naming.js';
+import { getStyleVariations } from '../utils/diffing.js';
+
+/** True/False variant options become boolean props */
+const BOOLEAN_OPTIONS = /^(true|false)$/i;
+
+/**
+ * PascalCase style ref suffix for a prop name or option ("size", "x-large" → "Size", "XLarge")
+ */
+function toRefSuffix(value: string): string {
+  return value
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Variant values encoded in a variant component name ("Size=S, Type=Primary")
+ */
+export function parseVariantValues(name: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const part of name.split(',')) {
+    const [key, ...rest] = part.split('=');
+    if (rest.length === 0) continue;
+    values[key.trim()] = rest.join('=').trim();
+  }
+  return values;
+}
+
+/**
+ * Variant COMPONENT children of a component set
+ */
+export function getVariantComponents(set: FigmaNode): FigmaNode[] {
+  return (set.children ?? []).filter(child => child.type === 'COMPONENT' && child.visible !== false);
+}
+
+/**
+ * Variant props of a component set
+ *
+ * Options and defaults come from the set's variant property definitions;
+ * without them, from the variant names (the first variant is the default).
+ */
+export function collectVariantProps(set: FigmaNode): VariantProp[] {
+  const variants = getVariantComponents(set).map(child => parseVariantValues(child.name));
+  const figmaNames = [...new Set(variants.flatMap(values => Object.keys(values)))];
+
+  return figmaNames.map(figmaName => {
+    const definition = set.componentProperties?.[figmaName];
+    const fromNames = [...new Set(variants.map(values => values[figmaName]).filter(Boolean))];
+    const options = definition?.type === 'VARIANT' && definition.options?.length ? definition.options : fromNames;
+    const defaultValue = definition?.type === 'VARIANT' && typeof definition.value === 'string' && options.includes(definition.value)
+      ? definition.value
+      : variants[0]?.[figmaName] ?? options[0];
+
+    return {
+      name: toValidIdentifier(figmaName),
+      figmaName,
+      options,
+      defaultValue,
+      ...(options.length === 2 && options.every(option => BOOLEAN_OPTIONS.test(option)) && { isBoolean: true }),
+    };
+  });
+}
+
+/**
+ * Variant component whose values match exactly
+ */
+export function findVariant(set: FigmaNode, values: Record<string, string>): FigmaNode | undefined {
+  const keys = Object.keys(values);
+  return getVariantComponents(set).find(child => {
+    const childValues = parseVariantValues(child.name);
+    return keys.every(key => childValues[key] === values[key]);
+  });
+}
+
+/**
+ * Walk two variant trees in parallel
+ * Children pair up by name and type, then by position and type; unmatched nodes are skipped.
+ * Nested Component and Repeater subtrees render in their own components, out of reach of the props.
+ */
+function matchNodes(
+  base: IRNode,
+  variant: IRNode,
+  visit: (base: IRNode, variant: IRNode) => void,
+  depth = 0
+): void {
+  visit(base, variant);
+  if (depth > 0 && (base.semanticType === 'Component' || base.semanticType === 'Repeater')) return;
+
+  const baseChildren = 'children' in base && base.children ? base.children : [];
+  const variantChildren = 'children' in variant && variant.children ? variant.children : [];
+  const used = new Set<number>();
+
+  baseChildren.forEach((child, index) => {
+    let match = variantChildren.findIndex((candidate, i) =>
+      !used.has(i) && candidate.name === child.name && candidate.semanticType === child.semanticType
+    );
+    if (match < 0 && !used.has(index) && variantChildren[index]?.semanticType === child.semanticType) {
+      match = index;
+    }
+    if (match < 0) return;
+    used.add(match);
+    matchNodes(child, variantChildren[match], visit, depth + 1);
+  });
+}
+
+/**
+ * Style refs a node renders with: its own plus the label/icon styles of buttons
+ */
+function ownedStyleRefs(node: IRNode): string[] {
+  const refs = [node.styleRef];
+  if (node.semanticType === 'Button') {
+    if (node.textStyleRef) refs.push(node.textStyleRef);
+    if (node.iconStyleRef) refs.push(node.iconStyleRef);
+  }
+  return refs;
+}
+
+/**
+ * Diff one variant against the default variant and record the overrides
+ *
+ * Styles that differ (per getStyleVariations) are copied into the base bundle
+ * under a new style ref and attached to the base node's variantStyles.
+ *
+ * @returns Number of override styles added
+ */
+export function applyVariantStyles(
+  base: ScreenIR,
+  variant: ScreenIR,
+  prop: VariantProp,
+  option: string
+): number {
+  const { styles } = base.stylesBundle;
+  // A button's label style is also its Text child's style: one override serves both
+  const created = new Map<string, string>();
+  let added = 0;
+
+  matchNodes(base.root, variant.root, (baseNode, variantNode) => {
+    const variantRefs = ownedStyleRefs(variantNode);
+
+    ownedStyleRefs(baseNode).forEach((baseRef, index) => {
+      const baseStyle = styles[baseRef];
+      const variantStyle = variant.stylesBundle.styles[variantRefs[index]];
+      if (!baseStyle || !variantStyle) return;
+
+      const layoutChanged = index === 0 && 'layout' in baseNode && 'layout' in variantNode &&
+        JSON.stringify(baseNode.layout) !== JSON.stringify(variantNode.layout);
+      if (getStyleVariations(baseStyle, variantStyle).length === 0 && !layoutChanged) return;
+
+      let styleRef = created.get(baseRef);
+      if (!styleRef) {
+        const refBase = `${baseRef}${toRefSuffix(prop.name)}${toRefSuffix(option)}`;
+        styleRef = refBase;
+        for (let counter = 2; styles[styleRef]; counter++) {
+          styleRef = `${refBase}${counter}`;
+        }
+        styles[styleRef] = { ...variantStyle, id: styleRef };
+        created.set(baseRef, styleRef);
+        added++;
+      }
+
+      const overrides = baseNode.variantStyles ?? {};
+      (overrides[baseRef] ??= []).push({
+        prop: prop.name,
+        value: prop.isBoolean ? option.toLowerCase() === 'true' : option,
+        styleRef,
+        ...(index === 0 && 'layout' in variantNode && variantNode.layout && { layout: variantNode.layout }),
+      });
+      baseNode.variantStyles = overrides;
+    });
+  });
+
+  return added;
+}
@@ -0,0 +1,11 @@
+/**
+ * Variants Layer - Component sets generated as one component with variant props
+ */
+
+export {
+  parseVariantValues,
+  getVariantComponents,
+  collectVariantProps,
+  findVariant,
+  applyVariantStyles,
+} from './component-set.js';
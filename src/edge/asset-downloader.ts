@@ -4,7 +4,7 @@
  * Downloads images and icons from Figma API and returns a mapping from imageRef to local file path.
  */
 
-import { writeFile, mkdir } from 'fs/promises';
+import { writeFile, mkdir, copyFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { createHash } from 'crypto';
 import type { IRNode, ComponentIR } from '../core/types.js';
@@ -18,6 +18,7 @@ export interface DownloadedAsset {
   localPath: string; // Full path on disk
   relativePath: string; // Relative path for require() statement
   category: 'icon' | 'image';
+  componentId?: string; // Figma component of an exported instance
 }
 
 export interface AssetDownloadResult {
@@ -30,6 +31,7 @@ interface AssetNode {
   name: string;
   ref: string; // imageRef or iconRef
   category: 'icon' | 'image';
+  componentId?: string;
 }
 
 /**
@@ -151,6 +153,7 @@ function extractAssetNodes(node: IRNode, assets: AssetNode[]): void {
         name: assetName,
         ref: node.id,
         category: 'icon',
+        componentId: comp.componentId,
       });
       // Don't recurse into exportable components - export as single unit
       return;
@@ -239,6 +242,64 @@ async function downloadAsset(url: string, localPath: string): Promise<void> {
   await writeFile(localPath, uint8Array);
 }
 
+/**
+ * Batch-wide key of an asset: instances of one Figma component share their export
+ */
+function sharedAssetKey(node: AssetNode): string {
+  return node.componentId ?? node.ref;
+}
+
+/**
+ * Copy assets already downloaded earlier in a batch instead of exporting them again.
+ * Returns the nodes that still need to be exported.
+ */
+async function reuseSharedAssets(
+  nodes: AssetNode[],
+  category: 'icon' | 'image',
+  targetDir: string,
+  usedFilenames: Set<string>,
+  sharedDownloads: Map<string, string> | undefined,
+  downloadedAssets: DownloadedAsset[],
+  pathMap: Map<string, string>
+): Promise<AssetNode[]> {
+  if (!sharedDownloads) return nodes;
+
+  const folder = category === 'icon' ? 'icons' : 'images';
+  const extension = category === 'icon' ? 'svg' : 'png';
+  const pending: AssetNode[] = [];
+
+  for (const node of nodes) {
+    const sourcePath = sharedDownloads.get(sharedAssetKey(node));
+    if (!sourcePath) {
+      pending.push(node);
+      continue;
+    }
+
+    try {
+      const filename = buildUniqueAssetFilename(node.name, extension, node.nodeId, usedFilenames);
+      const localPath = join(targetDir, filename);
+      if (localPath !== sourcePath) {
+        await copyFile(sourcePath, localPath);
+      }
+
+      downloadedAssets.push({
+        nodeId: node.nodeId,
+        imageRef: node.ref,
+        filename,
+        localPath,
+        relativePath: `./assets/${folder}/${filename}`,
+        category,
+        ...(node.componentId && { componentId: node.componentId }),
+      });
+      pathMap.set(node.ref, `./assets/${folder}/${filename}`);
+    } catch {
+      pending.push(node);
+    }
+  }
+
+  return pending;
+}
+
 /**
  * Download assets from Figma API and save to local directory
  *
@@ -246,13 +307,15 @@ async function downloadAsset(url: string, localPath: string): Promise<void> {
  * @param fileKey - Figma file key
  * @param root - Root IRNode to traverse
  * @param assetsDir - Directory to save assets (absolute path)
+ * @param sharedDownloads - Batch-wide component id (or ref) → local file map; hits are copied, new downloads are added
  * @returns Download result with asset list and path mapping
  */
 export async function downloadAssets(
   client: FigmaClient,
   fileKey: string,
   root: IRNode,
-  assetsDir: string
+  assetsDir: string,
+  sharedDownloads?: Map<string, string>
 ): Promise<AssetDownloadResult> {
   // 1. Extract all asset nodes from IR tree
   const assetNodes: AssetNode[] = [];
@@ -271,19 +334,28 @@ export async function downloadAssets(
   console.log(`Extracted ${assetNodes.length} asset nodes, deduplicated to ${uniqueAssets.length} unique assets`);
 
   // 3. Group nodes by category to optimize API calls
-  const iconNodes = uniqueAssets.filter((n) => n.category === 'icon');
-  const imageNodes = uniqueAssets.filter((n) => n.category === 'image');
-
   const downloadedAssets: DownloadedAsset[] = [];
   const pathMap = new Map<string, string>();
   const usedIconFilenames = new Set<string>();
   const usedImageFilenames = new Set<string>();
+  const iconDir = join(assetsDir, 'icons');
+  const imageDir = join(assetsDir, 'images');
+
+  // Reuse files downloaded for earlier screens of the same batch
+  const allIconNodes = uniqueAssets.filter((n) => n.category === 'icon');
+  const allImageNodes = uniqueAssets.filter((n) => n.category === 'image');
+  if (allIconNodes.length > 0) await mkdir(iconDir, { recursive: true });
+  if (allImageNodes.length > 0) await mkdir(imageDir, { recursive: true });
+
+  const iconNodes = await reuseSharedAssets(
+    allIconNodes, 'icon', iconDir, usedIconFilenames, sharedDownloads, downloadedAssets, pathMap
+  );
+  const imageNodes = await reuseSharedAssets(
+    allImageNodes, 'image', imageDir, usedImageFilenames, sharedDownloads, downloadedAssets, pathMap
+  );
 
   // 4. Download icons (SVG format)
   if (iconNodes.length > 0) {
-    const iconDir = join(assetsDir, 'icons');
-    await mkdir(iconDir, { recursive: true });
-
     try {
       const iconIds = iconNodes.map((n) => n.nodeId);
       const exportResults = await client.exportImages(fileKey, iconIds, {
@@ -316,10 +388,12 @@ export async function downloadAssets(
             localPath,
             relativePath,
             category: 'icon',
+            ...(node.componentId && { componentId: node.componentId }),
           };
 
           downloadedAssets.push(asset);
           pathMap.set(node.ref, relativePath);
+          sharedDownloads?.set(sharedAssetKey(node), localPath);
         } catch (error) {
           console.error(`Failed to download icon ${node.name}:`, error);
         }
@@ -331,9 +405,6 @@ export async function downloadAssets(
 
   // 5. Download images (PNG format)
   if (imageNodes.length > 0) {
-    const imageDir = join(assetsDir, 'images');
-    await mkdir(imageDir, { recursive: true });
-
     try {
       const imageIds = imageNodes.map((n) => n.nodeId);
       const exportResults = await client.exportImages(fileKey, imageIds, {
@@ -370,6 +441,7 @@ export async function downloadAssets(
 
           downloadedAssets.push(asset);
           pathMap.set(node.ref, relativePath);
+          sharedDownloads?.set(sharedAssetKey(node), localPath);
         } catch (error) {
           console.error(`Failed to download image ${node.name}:`, error);
         }
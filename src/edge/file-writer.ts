@@ -13,11 +13,13 @@ import { writeFile } from 'fs/promises';
 import { join } from 'path';
 import type { MultiFileResult } from '../core/generation/index.js';
 import type { DownloadedAsset } from './asset-downloader.js';
+import type { DesignTokens } from '../core/types.js';
 import type { ManifestCategory } from '../workspace/index.js';
 import {
   registerGeneration,
   saveScreenshot,
   type AssetInfo,
+  type ElementMeta,
 } from '../workspace/index.js';
 
 /**
@@ -42,6 +44,16 @@ export interface WriteOptions {
   figmaName?: string;
   /** Previous name (if renamed) for cleanup */
   previousName?: string;
+  /** Prototype interactions recorded in meta.json */
+  interactions?: ElementMeta['interactions'];
+  /** Figma components whose instances import this component (components category) */
+  componentIds?: string[];
+  /** String props of the component */
+  props?: string[];
+  /** Variant props of a component set: Figma property → prop name */
+  variantProps?: Record<string, string>;
+  /** Design tokens of the element, recorded in meta.json */
+  tokens?: DesignTokens;
 }
 
 /**
@@ -111,6 +123,11 @@ export async function writeGeneratedFiles(options: WriteOptions): Promise<WriteR
     screenshot,
     figmaName,
     previousName,
+    interactions,
+    componentIds,
+    props,
+    variantProps,
+    tokens,
   } = options;
 
   try {
@@ -139,8 +156,11 @@ export async function writeGeneratedFiles(options: WriteOptions): Promise<WriteR
         assets: assetInfos,
         figmaName,
         previousName,
-        // Note: tokensExtracted is computed inside registerGeneration from tokens
-        // We don't have access to the DesignTokens object here, so we omit it
+        interactions,
+        componentIds,
+        props,
+        variantProps,
+        tokens,
       }
     );
 
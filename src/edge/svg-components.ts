@@ -0,0 +1,75 @@
+/**
+ * SVG Components - turn downloaded SVG icons into react-native-svg components
+ *
+ * Each icon (one per Figma component, or per exported node without one) gets
+ * a typed component next to its SVG in assets/icons, plus an index.ts barrel.
+ * The returned map lets the JSX builder render `<ArrowIcon />` instead of
+ * `<SvgIcon source={require(...)} />`.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { buildSvgComponent, buildIconsIndex } from '../core/generation/svg-component-builder.js';
+import { toPascalCase } from '../core/shared/naming.js';
+import type { DownloadedAsset } from './asset-downloader.js';
+
+/**
+ * Component name for an icon file: "ic-arrow-left.svg" → "ArrowLeftIcon"
+ */
+function toIconComponentName(filename: string): string {
+  const base = toPascalCase(filename.replace(/\.svg$/i, '').replace(/^(ic|icon)[-_\s]+/i, ''));
+  return base.endsWith('Icon') ? base : `${base}Icon`;
+}
+
+/**
+ * Write a component for every downloaded SVG and the icons barrel
+ *
+ * SVGs that cannot be parsed keep rendering through SvgIcon.
+ *
+ * @returns Asset relative path → icon component name
+ */
+export async function writeSvgComponents(assets: DownloadedAsset[]): Promise<Record<string, string>> {
+  const svgAssets = assets.filter(asset => asset.category === 'icon' && asset.filename.toLowerCase().endsWith('.svg'));
+  if (svgAssets.length === 0) return {};
+
+  const components: Record<string, string> = {};
+  const namesByKey = new Map<string, string>();
+  const usedNames = new Set<string>();
+
+  for (const asset of svgAssets) {
+    // Instances of the same Figma component share one icon component
+    const key = asset.componentId ?? asset.imageRef ?? asset.nodeId;
+    const existing = namesByKey.get(key);
+    if (existing) {
+      components[asset.relativePath] = existing;
+      continue;
+    }
+
+    let svg: string;
+    try {
+      svg = await readFile(asset.localPath, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const baseName = toIconComponentName(asset.filename);
+    let name = baseName;
+    for (let counter = 2; usedNames.has(name); counter++) {
+      name = `${baseName}${counter}`;
+    }
+
+    const source = buildSvgComponent({ name, svg });
+    if (!source) continue;
+
+    await writeFile(join(dirname(asset.localPath), `${name}.tsx`), source, 'utf-8');
+    usedNames.add(name);
+    namesByKey.set(key, name);
+    components[asset.relativePath] = name;
+  }
+
+  if (usedNames.size > 0) {
+    await writeFile(join(dirname(svgAssets[0].localPath), 'index.ts'), buildIconsIndex([...usedNames]), 'utf-8');
+  }
+
+  return components;
+}
@@ -0,0 +1,83 @@
+/**
+ * Token Export - write the workspace's design tokens as DTCG JSON and as a
+ * Style Dictionary source tree
+ *
+ * Tokens recorded by every generated element are merged, so the export
+ * covers all screens generated so far:
+ *
+ * .figma/tokens/
+ * ├── tokens.json              # W3C Design Tokens (DTCG)
+ * └── style-dictionary/
+ *     ├── config.json
+ *     └── tokens/{color,spacing,radius,typography,shadow}.json
+ */
+
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import {
+  mergeDesignTokens,
+  generateDtcgTokens,
+  generateStyleDictionarySource,
+} from '../core/generation/index.js';
+import type { ProjectTokens } from '../core/mapping/index.js';
+import { loadWorkspaceTokens } from '../workspace/index.js';
+
+/** Export folder relative to the project root */
+const TOKENS_EXPORT_DIR = join('.figma', 'tokens');
+
+/**
+ * Result of a token export
+ */
+export interface TokenExportResult {
+  /** DTCG file relative to the project root */
+  dtcgPath: string;
+  /** Style Dictionary source folder relative to the project root */
+  styleDictionaryPath: string;
+  /** Exported tokens */
+  tokenCount: number;
+  /** Tokens whose value the project theme does not have (0 without a theme) */
+  newValueCount: number;
+}
+
+function countTokens(tree: Record<string, any>, isNew: (token: Record<string, any>) => boolean): [number, number] {
+  if ('$value' in tree) return [1, isNew(tree) ? 1 : 0];
+  return Object.values(tree).reduce<[number, number]>(([total, fresh], child) => {
+    const [childTotal, childNew] = countTokens(child, isNew);
+    return [total + childTotal, fresh + childNew];
+  }, [0, 0]);
+}
+
+/**
+ * Merge the tokens of all generated elements and write both export formats
+ *
+ * @param projectTokens - Project theme values; tokens without a match are flagged as new
+ */
+export async function exportWorkspaceTokens(
+  projectRoot: string,
+  projectTokens?: ProjectTokens | null
+): Promise<TokenExportResult> {
+  const tokens = mergeDesignTokens(await loadWorkspaceTokens(projectRoot));
+  const exportDir = join(projectRoot, TOKENS_EXPORT_DIR);
+
+  const dtcg = generateDtcgTokens(tokens, projectTokens);
+  await mkdir(exportDir, { recursive: true });
+  await writeFile(join(exportDir, 'tokens.json'), `${JSON.stringify(dtcg, null, 2)}\n`, 'utf-8');
+
+  // Categories can disappear when screens are regenerated; start from a clean tree
+  const styleDictionaryDir = join(exportDir, 'style-dictionary');
+  await rm(styleDictionaryDir, { recursive: true, force: true });
+  for (const file of generateStyleDictionarySource(tokens, projectTokens)) {
+    const filePath = join(styleDictionaryDir, file.path);
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, file.content, 'utf-8');
+  }
+
+  const [tokenCount, newValueCount] = countTokens(dtcg, token => token.$extensions?.['figma-rn']?.inTheme === false);
+
+  return {
+    dtcgPath: join(TOKENS_EXPORT_DIR, 'tokens.json'),
+    styleDictionaryPath: join(TOKENS_EXPORT_DIR, 'style-dictionary'),
+    tokenCount,
+    newValueCount,
+  };
+}
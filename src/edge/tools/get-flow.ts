@@ -0,0 +1,285 @@
+/**
+ * get_flow MCP Tool
+ *
+ * Generates every top-level frame of a Figma page or section through the
+ * get_screens batch, then reads the prototype links between the frames and
+ * writes a React Navigation navigator, its param list and a barrel to
+ * .figma/flows/{FlowName}/.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { retryOnError } from '../../api/errors.js';
+import { matchesPattern } from '../../api/config.js';
+import { buildFigmaUrl, parseFigmaUrl } from '../../api/url.js';
+import {
+  buildFlowIndex,
+  buildNavigatorFile,
+  buildParamListFile,
+  collectNavigationInteractions,
+  findInitialRoute,
+  type FlowEdge,
+  type FlowSpec,
+  type NavigatorKind,
+} from '../../core/generation/index.js';
+import { sanitizeComponentName } from '../../core/shared/naming.js';
+import { createWorkspaceClient, validateProjectRoot } from './get-screen.js';
+import {
+  executeGetScreens,
+  formatGetScreensResponse,
+  type GetScreensArgs,
+  type GetScreensResult,
+} from './get-screens.js';
+import { mkdir, writeFile } from 'fs/promises';
+import { basename, join, relative, resolve } from 'path';
+
+/**
+ * Tool definition for MCP server
+ */
+export const getFlowTool: Tool = {
+  name: 'get_flow',
+  description: `Generate a multi-screen flow from a Figma page or section.
+
+Every top-level frame of the page/section is generated into .figma/screens (like get_screens).
+Prototype links between the frames become navigation.navigate() calls, and
+.figma/flows/{FlowName}/ gets:
+• navigator.tsx - React Navigation stack or bottom-tab navigator
+• types.ts - RootStackParamList
+• index.ts - barrel exporting the navigator, the param list and the screens`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      fileUrl: {
+        type: 'string',
+        description: 'Figma URL whose node-id points to a page or section',
+      },
+      frameName: {
+        type: 'string',
+        description: 'Frame name filter (supports * wildcard)',
+      },
+      navigator: {
+        type: 'string',
+        description: 'Navigator type (default: "stack")',
+        enum: ['stack', 'tabs'],
+      },
+      flowName: {
+        type: 'string',
+        description: 'Flow name used for the folder and the navigator component (default: section or page name)',
+      },
+      themeFilePath: {
+        type: 'string',
+        description: 'Path to project theme file (TS/JS theme or DTCG / Tokens Studio JSON) for token matching (optional)',
+      },
+      projectRoot: {
+        type: 'string',
+        description: 'Project root directory (default: current working directory)',
+      },
+      suppressTodos: {
+        type: 'boolean',
+        description: 'Whether to suppress TODO comments in generated code (default: false)',
+      },
+      scaleFunction: {
+        type: 'string',
+        description: 'Responsive scaling function name (e.g., "scale") (default: from figma.config.json)',
+      },
+      forms: {
+        type: 'boolean',
+        description: 'Wire screens with input fields and a primary button to react-hook-form with a zod schema and an onSubmit prop (default: false)',
+      },
+      svgComponents: {
+        type: 'boolean',
+        description: 'Turn downloaded SVG icons into typed react-native-svg components (assets/icons/*.tsx) with color/width/height props (default: false)',
+      },
+      exportTokens: {
+        type: 'boolean',
+        description: 'Write the design tokens of all generated elements to .figma/tokens as DTCG JSON and a Style Dictionary source tree (default: false)',
+      },
+      refreshCache: {
+        type: 'boolean',
+        description: 'Ignore cached Figma responses in .figma/cache and fetch fresh data (default: false)',
+      },
+    },
+    required: ['fileUrl'],
+  },
+};
+
+/**
+ * Input arguments for get_flow tool
+ */
+export interface GetFlowArgs extends Omit<GetScreensArgs, 'figmaUrls' | 'pageName' | 'category' | 'outputDir'> {
+  navigator?: NavigatorKind;
+  flowName?: string;
+}
+
+/**
+ * Result from get_flow tool
+ */
+export interface GetFlowResult {
+  success: boolean;
+  flowName?: string;
+  /** Screen generation results */
+  batch?: GetScreensResult;
+  /** Written navigator files (absent when no screen was generated) */
+  navigation?: {
+    /** Flow folder relative to project root */
+    folder: string;
+    files: string[];
+    initialRoute?: string;
+    edges: FlowEdge[];
+  };
+  error?: string;
+}
+
+/**
+ * Navigator spec from the generated screens and the prototype links between them
+ */
+function buildFlowSpec(
+  name: string,
+  kind: NavigatorKind,
+  batch: GetScreensResult,
+  projectRoot: string,
+  flowFolder: string
+): FlowSpec {
+  const routes = new Map<string, string>();
+  const screens: FlowSpec['screens'] = [];
+
+  for (const { nodeId, result } of batch.screens) {
+    if (!result.success || !result.writeResult) continue;
+    const route = basename(result.writeResult.folder);
+    routes.set(nodeId, route);
+    const importPath = relative(join(projectRoot, flowFolder), join(projectRoot, result.writeResult.folder));
+    screens.push({ route, importPath: importPath.split('\\').join('/') });
+  }
+
+  const edges: FlowEdge[] = [];
+  const seen = new Set<string>();
+  for (const { nodeId, result } of batch.screens) {
+    const from = routes.get(nodeId);
+    if (!from || !result.screenIR) continue;
+    for (const interaction of collectNavigationInteractions(result.screenIR.root)) {
+      const to = routes.get(interaction.destinationId!);
+      const key = `${from}>${to}:${interaction.action}`;
+      if (!to || seen.has(key)) continue;
+      seen.add(key);
+      edges.push({ from, to, action: interaction.action as FlowEdge['action'] });
+    }
+  }
+
+  return { name, kind, screens, edges };
+}
+
+/**
+ * Execute the get_flow tool
+ *
+ * @param args - Tool arguments
+ * @param figmaToken - Figma API token
+ * @returns Screens and navigator files of the flow
+ */
+export async function executeGetFlow(args: GetFlowArgs, figmaToken: string): Promise<GetFlowResult> {
+  const parsed = args.fileUrl ? parseFigmaUrl(args.fileUrl) : null;
+  if (!parsed?.nodeId) {
+    return { success: false, error: 'fileUrl with a node-id of a page or section is required' };
+  }
+
+  if (!figmaToken) {
+    return { success: false, error: 'FIGMA_TOKEN is required to fetch from Figma' };
+  }
+
+  const effectiveProjectRoot = resolve(args.projectRoot || process.cwd());
+  const rootError = await validateProjectRoot(effectiveProjectRoot);
+  if (rootError) {
+    return { success: false, error: rootError };
+  }
+
+  try {
+    const client = createWorkspaceClient(effectiveProjectRoot, figmaToken, args.refreshCache);
+    const frames = (await retryOnError(
+      () => client.fetchPageFrames(parsed.fileKey),
+      { maxRetries: 3, retryDelay: 2000 }
+    )).filter((frame) =>
+      (frame.pageId === parsed.nodeId || frame.sectionId === parsed.nodeId) &&
+      (!args.frameName || matchesPattern(frame.name, [args.frameName]))
+    );
+
+    if (frames.length === 0) {
+      return { success: false, error: `No frames found in page or section ${parsed.nodeId}` };
+    }
+
+    const flowName = sanitizeComponentName(args.flowName || frames[0].sectionName || frames[0].pageName);
+
+    // Batch in frame order: links to frames generated later resolve through planned routes
+    const batch = await executeGetScreens(
+      {
+        ...args,
+        figmaUrls: frames.map((frame) => buildFigmaUrl(parsed.fileKey, frame.id)),
+        fileUrl: undefined,
+        frameName: undefined,
+        category: 'screens',
+      },
+      figmaToken
+    );
+
+    if (!batch.success) {
+      return { success: false, flowName, batch, error: batch.error ?? 'No screen of the flow was generated' };
+    }
+
+    const flowFolder = join('.figma', 'flows', flowName);
+    const spec = buildFlowSpec(flowName, args.navigator ?? 'stack', batch, effectiveProjectRoot, flowFolder);
+
+    const files: Array<[string, string]> = [
+      ['navigator.tsx', buildNavigatorFile(spec)],
+      ['types.ts', buildParamListFile(spec)],
+      ['index.ts', buildFlowIndex(spec)],
+    ];
+    await mkdir(join(effectiveProjectRoot, flowFolder), { recursive: true });
+    for (const [file, content] of files) {
+      await writeFile(join(effectiveProjectRoot, flowFolder, file), content, 'utf-8');
+    }
+
+    return {
+      success: true,
+      flowName,
+      batch,
+      navigation: {
+        folder: flowFolder,
+        files: files.map(([file]) => join(flowFolder, file)),
+        initialRoute: findInitialRoute(spec),
+        edges: spec.edges,
+      },
+    };
+  } catch (error) {
+    console.error('executeGetFlow failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Format the flow result for MCP response: batch report plus navigator summary
+ */
+export function formatGetFlowResponse(result: GetFlowResult): any[] {
+  if (!result.batch) {
+    return [{ type: 'text', text: `# ❌ Error\n\n${result.error}` }];
+  }
+
+  const [batchReport] = formatGetScreensResponse(result.batch);
+  if (!result.navigation) {
+    return [batchReport];
+  }
+
+  let textResponse = `# 🧭 Flow ${result.flowName}\n\n`;
+  textResponse += `| File | Path |\n`;
+  textResponse += `|------|------|\n`;
+  for (const file of result.navigation.files) {
+    textResponse += `| ${basename(file)} | \`${file}\` |\n`;
+  }
+  textResponse += `\nInitial route: **${result.navigation.initialRoute ?? '-'}**\n\n`;
+
+  if (result.navigation.edges.length > 0) {
+    textResponse += `## Prototype Links\n\n`;
+    for (const edge of result.navigation.edges) {
+      textResponse += `- ${edge.from} → ${edge.to} (${edge.action})\n`;
+    }
+    textResponse += `\n`;
+  }
+
+  return [{ type: 'text', text: textResponse + batchReport.text }];
+}
@@ -7,28 +7,45 @@
 
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { FigmaClient } from '../../api/client.js';
+import type { FigmaComponent, FigmaNode, FigmaStyle, VariablesResult } from '../../api/types.js';
+import { matchesPattern } from '../../api/config.js';
+import { createCache } from '../../api/cache.js';
 import { retryOnError } from '../../api/errors.js';
-import { transformNode } from '../../api/transformers.js';
-import { parseFigmaUrl } from '../../api/url.js';
+import { transformComponentMetadata, transformNode, transformStyleMetadata } from '../../api/transformers.js';
+import { buildFigmaUrl, parseFigmaUrl } from '../../api/url.js';
 import { transformToScreenIR } from '../../core/pipeline.js';
 import { runDetectors } from '../../core/detection/index.js';
 import { matchTokens, createEmptyMappings, type TokenMappings } from '../../core/mapping/token-matcher.js';
+import { buildModeThemes, mapModeThemeTokens } from '../../core/mapping/mode-themes.js';
 import { extractProjectTokens } from '../../core/mapping/theme-extractor.js';
+import { suggestComponentMappings, type SuggestedComponentMapping } from '../../core/mapping/component-matcher.js';
 import { 
   generateComponent, 
-  type MultiFileResult 
+  generateTokensIfNeeded,
+  isStyleBackend,
+  resolveComponentImportPath,
+  type MultiFileResult,
+  type SharedComponents,
 } from '../../core/generation/index.js';
-import type { ScreenIR } from '../../core/types.js';
+import type { ScreenIR, ScalingStrategy } from '../../core/types.js';
 import type { DetectionResult } from '../../core/detection/types.js';
 import { downloadAssets, type DownloadedAsset } from '../asset-downloader.js';
+import { writeSvgComponents } from '../svg-components.js';
+import { exportWorkspaceTokens, type TokenExportResult } from '../token-export.js';
 import { resolveComponentName } from '../name-resolver.js';
 import { writeGeneratedFiles, type WriteResult } from '../file-writer.js';
 import {
+  type ComponentMapping,
   type FigmaConfig,
   getOrCreateManifest,
   loadAllProjectTokens,
   refreshFigmaConfig,
   getOrCreateFigmaConfig,
+  saveFigmaConfig,
+  getNavigationRoutes,
+  getGeneratedComponents,
+  type ElementMeta,
+  type Manifest,
   type ManifestCategory,
 } from '../../workspace/index.js';
 import { join, relative, resolve } from 'path';
@@ -56,6 +73,7 @@ Features:
 • Accessibility props (accessibilityRole, accessibilityLabel, hitSlop)
 • Token extraction and mapping to project theme
 • Multi-file output support
+• Offline generation from a saved node snapshot (snapshotPath, no token needed)
 
 Returns:
 • Generated component code
@@ -69,13 +87,17 @@ Returns:
         type: 'string',
         description: 'Figma URL with node-id (e.g., https://www.figma.com/design/FILE_ID?node-id=123-456)',
       },
+      snapshotPath: {
+        type: 'string',
+        description: 'Path to a saved node JSON (fetchNodes result or raw node document). Skips Figma fetch, asset download and screenshot. Relative paths resolve against projectRoot',
+      },
       componentName: {
         type: 'string',
         description: 'Name for the generated component (default: derived from Figma node name)',
       },
       themeFilePath: {
         type: 'string',
-        description: 'Path to project theme file for token matching (optional)',
+        description: 'Path to project theme file (TS/JS theme or DTCG / Tokens Studio JSON) for token matching (optional)',
       },
       outputDir: {
         type: 'string',
@@ -98,8 +120,24 @@ Returns:
         type: 'string',
         description: 'Responsive scaling function name (e.g., "scale") (default: from figma.config.json)',
       },
+      forms: {
+        type: 'boolean',
+        description: 'Wire screens with input fields and a primary button to react-hook-form with a zod schema and an onSubmit prop (default: false)',
+      },
+      svgComponents: {
+        type: 'boolean',
+        description: 'Turn downloaded SVG icons into typed react-native-svg components (assets/icons/*.tsx) with color/width/height props (default: false)',
+      },
+      exportTokens: {
+        type: 'boolean',
+        description: 'Write the design tokens of all generated elements to .figma/tokens as DTCG JSON and a Style Dictionary source tree (default: false)',
+      },
+      refreshCache: {
+        type: 'boolean',
+        description: 'Ignore cached Figma responses in .figma/cache and fetch fresh data (default: false)',
+      },
     },
-    required: ['figmaUrl'],
+    required: [],
   },
 };
 
@@ -107,7 +145,10 @@ Returns:
  * Input arguments for get_screen tool
  */
 export interface GetScreenArgs {
-  figmaUrl: string;
+  /** Live Figma URL (required unless snapshotPath is given) */
+  figmaUrl?: string;
+  /** Saved node payload for offline generation */
+  snapshotPath?: string;
   componentName?: string;
   themeFilePath?: string;
   outputDir?: string;
@@ -115,6 +156,14 @@ export interface GetScreenArgs {
   category?: string;
   suppressTodos?: boolean;
   scaleFunction?: string;
+  /** Generate react-hook-form + zod wiring for form screens */
+  forms?: boolean;
+  /** Generate react-native-svg components from downloaded SVG icons */
+  svgComponents?: boolean;
+  /** Export the workspace's design tokens as DTCG JSON and Style Dictionary source */
+  exportTokens?: boolean;
+  /** Bypass .figma/cache reads (fresh responses are still stored) */
+  refreshCache?: boolean;
 }
 
 /**
@@ -129,6 +178,10 @@ export interface GetScreenResult {
   analysis?: ToolAnalysis;
   screenshot?: Buffer;
   previousName?: string;
+  /** Component mappings newly suggested in .figma/config.json */
+  suggestedMappings?: SuggestedComponentMapping[];
+  /** Written token export (exportTokens) */
+  tokenExport?: TokenExportResult;
   error?: string;
 }
 
@@ -289,6 +342,7 @@ export async function resolveThemeImportTarget(
   config: FigmaConfig,
   explicitThemeFilePath?: string
 ): Promise<ThemeImportTarget> {
+  // Unistyles injects the theme (style libraries still import it for the styles left in StyleSheet)
   if (config.stylePattern === 'unistyles') {
     return {
       mode: 'injected',
@@ -462,10 +516,15 @@ export function analyzeInputOutputFidelity(
     assetsDownloaded: assets.length,
   };
 
+  // Icons converted to react-native-svg components are imported from the assets folder
+  const iconImport = code.match(/import \{([^}]+)\} from '\.\/assets\/icons';/);
+  const iconElements = (iconImport?.[1].split(',').map(name => name.trim()).filter(Boolean) ?? [])
+    .reduce((count, name) => count + countMatches(code, new RegExp(`<${name}\\b`)), 0);
+
   const output = {
     textElements: countMatches(code, /<Text\b/),
     imageElements: countMatches(code, /<Image\b/),
-    svgElements: countMatches(code, /<SvgIcon\b/),
+    svgElements: countMatches(code, /<SvgIcon\b/) + iconElements,
     touchables: countMatches(code, /<TouchableOpacity\b/),
     pressables: countMatches(code, /<Pressable\b/),
     flatLists: countMatches(code, /<FlatList\b/),
@@ -488,7 +547,7 @@ export function analyzeInputOutputFidelity(
   if (input.detectedLists > 0 && output.flatLists === 0) {
     gaps.push('List detection found repeatable content, but generated output has no <FlatList>.');
   }
-  if (input.assetsDownloaded > 0 && output.assetRequires === 0) {
+  if (input.assetsDownloaded > 0 && output.assetRequires + iconElements === 0) {
     gaps.push('Assets were exported from Figma, but generated output does not require any local assets.');
   }
   if (input.detectedRepeatedComponents > 0 && output.componentFunctions <= 1) {
@@ -642,6 +701,129 @@ function buildAnalysis(
   };
 }
 
+/**
+ * Figma components a generated element stands for: the component itself,
+ * the main component of an instance, or a component set and its variants
+ */
+function collectSourceComponentIds(node: FigmaNode): string[] {
+  switch (node.type) {
+    case 'COMPONENT':
+      return [node.id];
+    case 'INSTANCE':
+      return node.componentId ? [node.componentId] : [];
+    case 'COMPONENT_SET':
+      return [node.id, ...(node.children ?? []).filter(child => child.type === 'COMPONENT').map(child => child.id)];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Components generated into .figma/components that the element imports,
+ * with import paths relative to the element folder (the element itself excluded)
+ */
+function resolveSharedComponents(
+  manifest: Manifest,
+  nodeId: string,
+  sourceComponentIds: string[],
+  elementFolder: string
+): SharedComponents {
+  const shared: SharedComponents = {};
+  for (const [componentId, entry] of Object.entries(getGeneratedComponents(manifest))) {
+    if (entry.nodeId === nodeId || sourceComponentIds.includes(componentId)) continue;
+    shared[componentId] = {
+      name: entry.name,
+      importPath: resolveComponentImportPath(elementFolder, entry.folder),
+      props: entry.props,
+      variantProps: entry.variantProps,
+    };
+  }
+  return shared;
+}
+
+/**
+ * Instances rendered as existing project components per the config's component mappings
+ *
+ * A mapping matches the main component's key, or its component set, component or
+ * instance name against the pattern; the first matching mapping wins.
+ */
+function resolveMappedComponents(
+  node: FigmaNode,
+  components: Record<string, FigmaComponent> | undefined,
+  mappings: ComponentMapping[] | undefined,
+  sourceComponentIds: string[]
+): SharedComponents {
+  const mapped: SharedComponents = {};
+  if (!mappings?.length) return mapped;
+
+  const visit = (current: FigmaNode) => {
+    const componentId = current.componentId;
+    if (current.type === 'INSTANCE' && componentId && !mapped[componentId] && !sourceComponentIds.includes(componentId)) {
+      const component = components?.[componentId];
+      const names = [component?.componentSetName, component?.name, current.name].filter((name): name is string => !!name);
+      const mapping = mappings.find(candidate =>
+        candidate.figma === component?.key || names.some(name => matchesPattern(name, [candidate.figma]))
+      );
+      if (mapping) {
+        mapped[componentId] = {
+          name: mapping.component,
+          importPath: mapping.importPath,
+          propMappings: Object.fromEntries(Object.entries(mapping.props ?? {}).map(([figmaName, prop]) =>
+            [figmaName, typeof prop === 'string' ? { prop } : prop]
+          )),
+        };
+      }
+    }
+    current.children?.forEach(visit);
+  };
+  visit(node);
+
+  return mapped;
+}
+
+/**
+ * Add mapping suggestions for the element's instances to config.json
+ * Instances already suggested (by Figma name) are left for review as they are.
+ *
+ * @returns Newly added suggestions
+ */
+async function recordComponentSuggestions(
+  projectRoot: string,
+  config: FigmaConfig,
+  root: ScreenIR['root'],
+  skipComponentIds: Set<string>
+): Promise<SuggestedComponentMapping[]> {
+  const existing = config.suggestedComponentMappings ?? [];
+  const suggested = new Set(existing.map(suggestion => suggestion.figma));
+  const added = suggestComponentMappings(root, config.projectComponents ?? [], skipComponentIds)
+    .filter(suggestion => !suggested.has(suggestion.figma));
+
+  if (added.length > 0) {
+    await saveFigmaConfig(projectRoot, { ...config, suggestedComponentMappings: [...existing, ...added] });
+  }
+  return added;
+}
+
+/**
+ * Prototype interactions of a node tree, recorded in meta.json
+ */
+function collectInteractions(
+  node: FigmaNode,
+  interactions: NonNullable<ElementMeta['interactions']> = []
+): NonNullable<ElementMeta['interactions']> {
+  for (const reaction of node.reactions ?? []) {
+    interactions.push({
+      nodeId: node.id,
+      nodeName: node.name,
+      trigger: reaction.trigger,
+      action: reaction.action,
+      destinationId: reaction.destinationId,
+    });
+  }
+  node.children?.forEach((child) => collectInteractions(child, interactions));
+  return interactions;
+}
+
 /**
  * Capture screenshot as buffer (helper function)
  */
@@ -669,6 +851,198 @@ async function captureScreenshotAsBuffer(
   }
 }
 
+/**
+ * Validated output category; unknown values fall back to screens
+ */
+export function resolveCategory(input?: string): ManifestCategory {
+  const validCategories: ManifestCategory[] = ['screens', 'modals', 'sheets', 'components', 'icons'];
+  return validCategories.includes(input as ManifestCategory) ? (input as ManifestCategory) : 'screens';
+}
+
+/**
+ * Node payload loaded from a saved snapshot
+ */
+export interface NodeSnapshot {
+  fileKey?: string;
+  nodeId: string;
+  document: any;
+  /** Style metadata saved with the node (nodes response format only) */
+  styles?: Record<string, FigmaStyle>;
+  /** Main component metadata saved with the node (nodes response format only) */
+  components?: Record<string, FigmaComponent>;
+}
+
+/**
+ * Load a saved Figma node payload for offline generation.
+ *
+ * Accepts a `FigmaClient.fetchNodes` result, a raw `/files/:key/nodes` response,
+ * a single `{ document }` entry, or a bare node document
+ * (e.g. `debug/1-raw-figma-api.json` from scripts/fetch-raw-figma.ts).
+ */
+export async function loadNodeSnapshot(snapshotPath: string, nodeId?: string): Promise<NodeSnapshot> {
+  let payload: any;
+  try {
+    payload = JSON.parse(await readFile(snapshotPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read snapshot "${snapshotPath}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (payload?.nodes && typeof payload.nodes === 'object') {
+    const ids = Object.keys(payload.nodes);
+    const selectedId = nodeId && payload.nodes[nodeId] ? nodeId : ids[0];
+    if (nodeId && selectedId !== nodeId) {
+      throw new Error(`Node ${nodeId} not found in snapshot "${snapshotPath}"`);
+    }
+    const document = payload.nodes[selectedId]?.document;
+    if (!document) {
+      throw new Error(`Snapshot "${snapshotPath}" contains no node document`);
+    }
+    const styles = transformStyleMetadata(payload.nodes[selectedId].styles);
+    const components = transformComponentMetadata(payload.nodes[selectedId].components, payload.nodes[selectedId].componentSets);
+    return { fileKey: payload.fileKey, nodeId: selectedId, document, styles, components };
+  }
+
+  const document = payload?.document ?? payload;
+  if (!document?.id || !document?.type) {
+    throw new Error(`Unrecognized snapshot format in "${snapshotPath}"`);
+  }
+
+  return { fileKey: payload?.fileKey, nodeId: document.id, document };
+}
+
+/**
+ * Node document ready for generation (fetched live or loaded from a snapshot)
+ */
+export interface ScreenSource {
+  projectRoot: string;
+  /** Figma client for assets/screenshot; null in offline mode */
+  client: FigmaClient | null;
+  fileKey: string;
+  nodeId: string;
+  document: any;
+  /** Published styles referenced by the document, by style node ID */
+  styles?: Record<string, FigmaStyle>;
+  /** Main components of the document's instances, by component ID */
+  components?: Record<string, FigmaComponent>;
+  /** URL recorded in the manifest */
+  sourceUrl: string;
+}
+
+/**
+ * State shared between screens generated in one batch
+ */
+export interface SharedGenerationState {
+  /** Preloaded project tokens (null = no theme); loaded per screen when undefined */
+  projectTokens?: any;
+  /** Assets already downloaded in this batch: component id (or ref) → local file */
+  downloadedAssets?: Map<string, string>;
+  /** Preloaded Figma variables (null = unavailable); fetched per screen when undefined */
+  variables?: VariablesResult | null;
+  /** Routes of frames generated later in the same batch: nodeId → component name */
+  navigationTargets?: Record<string, string>;
+}
+
+/**
+ * Validate that projectRoot exists and is a directory
+ *
+ * @returns Error message, or null when valid
+ */
+export async function validateProjectRoot(projectRoot: string): Promise<string | null> {
+  try {
+    const rootStat = await stat(projectRoot);
+    if (!rootStat.isDirectory()) {
+      return `Invalid projectRoot: "${projectRoot}" is not a directory`;
+    }
+    return null;
+  } catch {
+    return `Invalid projectRoot: "${projectRoot}" does not exist or is not accessible`;
+  }
+}
+
+/**
+ * Load project tokens from an explicit theme file or the refreshed config
+ */
+export async function loadProjectTokensForGeneration(
+  projectRoot: string,
+  themeFilePath?: string
+): Promise<any> {
+  if (themeFilePath) {
+    try {
+      return await extractProjectTokens(themeFilePath);
+    } catch (error) {
+      console.error('Could not load explicit theme file:', error);
+      return null;
+    }
+  }
+
+  // Auto-discovery from refreshed config
+  try {
+    return await loadAllProjectTokens(projectRoot);
+  } catch (error) {
+    console.error('Auto-discovery of tokens failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Load the file's Figma variables for resolving boundVariables and theme modes
+ * Returns null when the Variables API is unavailable (non-Enterprise plan,
+ * offline mode) - styles then fall back to value matching.
+ */
+export async function loadVariables(
+  client: FigmaClient | null,
+  fileKey: string
+): Promise<VariablesResult | null> {
+  if (!client) return null;
+
+  const result = await client.fetchVariables(fileKey);
+  if (!result.success) {
+    console.error(`Figma variables unavailable: ${result.error}`);
+    return null;
+  }
+  return result;
+}
+
+/**
+ * Variable names by ID, as consumed by the pipeline
+ */
+function variableNamesById(variables: VariablesResult | null): Record<string, string> | undefined {
+  if (!variables) return undefined;
+
+  const names: Record<string, string> = {};
+  for (const variable of Object.values(variables.variables)) {
+    names[variable.id] = variable.name;
+  }
+  return names;
+}
+
+/**
+ * Published style names by style node ID, as consumed by the pipeline
+ */
+function styleNamesById(styles: Record<string, FigmaStyle> | undefined): Record<string, string> | undefined {
+  if (!styles) return undefined;
+
+  const names: Record<string, string> = {};
+  for (const [id, style] of Object.entries(styles)) {
+    names[id] = style.name;
+  }
+  return names;
+}
+
+/**
+ * Create a Figma client backed by the workspace response cache
+ */
+export function createWorkspaceClient(
+  projectRoot: string,
+  figmaToken: string,
+  refreshCache?: boolean
+): FigmaClient {
+  return new FigmaClient(figmaToken, {
+    cache: createCache(join(projectRoot, '.figma', 'cache')),
+    forceRefresh: refreshCache,
+  });
+}
+
 /**
  * Execute the get_screen tool
  *
@@ -680,25 +1054,22 @@ export async function executeGetScreen(
   args: GetScreenArgs,
   figmaToken: string
 ): Promise<GetScreenResult> {
-  const { figmaUrl, componentName, themeFilePath, outputDir } = args;
+  const { figmaUrl, snapshotPath } = args;
   const effectiveProjectRoot = resolve(args.projectRoot || process.cwd());
 
-  // Validate project root before any generation work
-  try {
-    const rootStat = await stat(effectiveProjectRoot);
-    if (!rootStat.isDirectory()) {
-      return {
-        success: false,
-        error: `Invalid projectRoot: "${effectiveProjectRoot}" is not a directory`,
-      };
-    }
-  } catch {
+  if (!figmaUrl && !snapshotPath) {
     return {
       success: false,
-      error: `Invalid projectRoot: "${effectiveProjectRoot}" does not exist or is not accessible`,
+      error: 'Either figmaUrl or snapshotPath is required',
     };
   }
 
+  // Validate project root before any generation work
+  const rootError = await validateProjectRoot(effectiveProjectRoot);
+  if (rootError) {
+    return { success: false, error: rootError };
+  }
+
   // STEP 0: Always refresh config first - this is the foundation for everything else
   // The config contains theme file paths needed for token matching
   try {
@@ -709,16 +1080,40 @@ export async function executeGetScreen(
 
   try {
     // 1. Parse Figma URL to get fileKey and nodeId
-    const parsed = parseFigmaUrl(figmaUrl);
-    if (!parsed?.nodeId) {
+    const parsed = figmaUrl ? parseFigmaUrl(figmaUrl) : null;
+    if (figmaUrl && !parsed?.nodeId) {
       return {
         success: false,
         error: 'Invalid Figma URL format (missing file key or node-id)',
       };
     }
 
-    // 2. Create Figma client and fetch node with retry for rate limits
-    const client = new FigmaClient(figmaToken);
+    // 2. Load node document: from snapshot (offline) or Figma API with retry for rate limits
+    if (snapshotPath) {
+      const snapshot = await loadNodeSnapshot(resolve(effectiveProjectRoot, snapshotPath), parsed?.nodeId);
+      const fileKey = parsed?.fileKey || snapshot.fileKey || 'snapshot';
+
+      return await generateScreenFromDocument(args, {
+        projectRoot: effectiveProjectRoot,
+        client: null,
+        fileKey,
+        nodeId: snapshot.nodeId,
+        document: snapshot.document,
+        styles: snapshot.styles,
+        components: snapshot.components,
+        // Manifest key: live URL or canonical URL rebuilt from the snapshot
+        sourceUrl: figmaUrl || buildFigmaUrl(fileKey, snapshot.nodeId),
+      });
+    }
+
+    if (!figmaToken) {
+      return {
+        success: false,
+        error: 'FIGMA_TOKEN is required to fetch from Figma (use snapshotPath for offline generation)',
+      };
+    }
+
+    const client = createWorkspaceClient(effectiveProjectRoot, figmaToken, args.refreshCache);
     const result = await retryOnError(
       () => client.fetchNodeByUrl(figmaUrl),
       { maxRetries: 3, retryDelay: 2000 }
@@ -734,20 +1129,62 @@ export async function executeGetScreen(
     }
 
     const nodeId = nodeIds[0];
-    const nodeData = result.nodes[nodeId];
+    const document = result.nodes[nodeId]?.document;
+    const styles = result.nodes[nodeId]?.styles;
+    const components = result.nodes[nodeId]?.components;
 
-    if (!nodeData?.document) {
+    if (!document) {
       return {
         success: false,
         error: 'Failed to fetch Figma node document',
       };
     }
 
-    // Transform raw API response to FigmaNode
-    const figmaNode = transformNode(nodeData.document);
+    return await generateScreenFromDocument(args, {
+      projectRoot: effectiveProjectRoot,
+      client,
+      fileKey: parsed.fileKey,
+      nodeId,
+      document,
+      styles,
+      components,
+      sourceUrl: figmaUrl,
+    });
+  } catch (error) {
+    console.error('executeGetScreen failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
 
-    // 3. Transform to ScreenIR
-    const screenIR = transformToScreenIR(figmaNode);
+/**
+ * Run the generation pipeline for one node document and write it to .figma/
+ *
+ * Shared by get_screen (single node) and get_screens (batch).
+ * Config must already be refreshed by the caller.
+ */
+export async function generateScreenFromDocument(
+  args: Omit<GetScreenArgs, 'figmaUrl' | 'snapshotPath'>,
+  source: ScreenSource,
+  shared: SharedGenerationState = {}
+): Promise<GetScreenResult> {
+  const { componentName, themeFilePath, outputDir } = args;
+  const { projectRoot: effectiveProjectRoot, client, fileKey, nodeId, document, styles, components, sourceUrl } = source;
+
+  try {
+    // Transform raw API response to FigmaNode
+    const figmaNode = transformNode(document);
+
+    // 3. Transform to ScreenIR (bound variables and published styles resolved to names when available)
+    const variables = shared.variables !== undefined
+      ? shared.variables
+      : await loadVariables(client, fileKey);
+    const screenIR = transformToScreenIR(figmaNode, {
+      variableNames: variableNamesById(variables),
+      styleNames: styleNamesById(styles),
+    });
 
     // 4. Run detection layer
     const detectionResult = runDetectors(screenIR.root);
@@ -755,22 +1192,9 @@ export async function executeGetScreen(
     // 5. Load project tokens
     let tokenMappings: TokenMappings = createEmptyMappings();
     let hasProjectTheme = false;
-    let projectTokens: any = null;
-
-    if (themeFilePath) {
-      try {
-        projectTokens = await extractProjectTokens(themeFilePath);
-      } catch (error) {
-        console.error('Could not load explicit theme file:', error);
-      }
-    } else {
-      // Auto-discovery from refreshed config
-      try {
-        projectTokens = await loadAllProjectTokens(effectiveProjectRoot);
-      } catch (error) {
-        console.error('Auto-discovery of tokens failed:', error);
-      }
-    }
+    const projectTokens = shared.projectTokens !== undefined
+      ? shared.projectTokens
+      : await loadProjectTokensForGeneration(effectiveProjectRoot, themeFilePath);
 
     if (projectTokens) {
       tokenMappings = matchTokens(screenIR.stylesBundle.tokens, projectTokens);
@@ -780,12 +1204,7 @@ export async function executeGetScreen(
     // 6. Get manifest and resolve component name
     const manifest = await getOrCreateManifest(effectiveProjectRoot);
     
-    // Validate category input
-    const validCategories: ManifestCategory[] = ['screens', 'modals', 'sheets', 'components', 'icons'];
-    const categoryInput = args.category || 'screens';
-    const category: ManifestCategory = validCategories.includes(categoryInput as ManifestCategory) 
-      ? (categoryInput as ManifestCategory) 
-      : 'screens';
+    const category = resolveCategory(args.category);
 
     const resolved = resolveComponentName(
       manifest,
@@ -794,6 +1213,7 @@ export async function executeGetScreen(
       screenIR.name,
       componentName
     );
+    const sourceComponentIds = collectSourceComponentIds(figmaNode);
 
     console.error(`[DEBUG] get_screen result: "${resolved.name}", isUpdate=${resolved.isUpdate}`);
 
@@ -805,26 +1225,44 @@ export async function executeGetScreen(
     await mkdir(elementFolder, { recursive: true });
     await mkdir(assetsDir, { recursive: true });
 
-    // 10. Download assets and build image path map
-    const assetResult = await downloadAssets(client, parsed.fileKey, screenIR.root, assetsDir);
+    // 10. Download assets and build image path map (offline mode has no image URLs)
+    const assetResult = client
+      ? await downloadAssets(client, fileKey, screenIR.root, assetsDir, shared.downloadedAssets)
+      : { assets: [] as DownloadedAsset[], pathMap: new Map<string, string>() };
+    const svgComponents = args.svgComponents ? await writeSvgComponents(assetResult.assets) : undefined;
 
     // 11. Capture screenshot as buffer
     let screenshotBuffer: Buffer | undefined;
-    try {
-      screenshotBuffer = await captureScreenshotAsBuffer(client, parsed.fileKey, nodeId);
-    } catch (error) {
-      console.error('Failed to capture screenshot:', error);
-      // Continue without screenshot
+    if (client) {
+      try {
+        screenshotBuffer = await captureScreenshotAsBuffer(client, fileKey, nodeId);
+      } catch (error) {
+        console.error('Failed to capture screenshot:', error);
+        // Continue without screenshot
+      }
     }
 
     // 11.5 Load config to get validated import targets and integration hints
     const config = await getOrCreateFigmaConfig(effectiveProjectRoot);
     const themeTarget = await resolveThemeImportTarget(effectiveProjectRoot, config, themeFilePath);
     const canUseResolvedTheme = themeTarget.mode !== 'unresolved';
-    const generationMappings = canUseResolvedTheme ? tokenMappings : createEmptyMappings();
+    // Style libraries reference tokens by name, with or without a theme import
+    let generationMappings = canUseResolvedTheme || isStyleBackend(config.stylePattern) ? tokenMappings : createEmptyMappings();
     const generationHasProjectTheme = hasProjectTheme && canUseResolvedTheme;
+
+    // Variables bound with several modes (light/dark) become per-mode themes
+    const modeThemes = variables && !isStyleBackend(config.stylePattern)
+      ? buildModeThemes(variables, screenIR.stylesBundle.tokens.variables ?? {})
+      : null;
+    if (modeThemes && !generationHasProjectTheme) {
+      generationMappings = {
+        ...generationMappings,
+        variables: { ...mapModeThemeTokens(modeThemes), ...generationMappings.variables },
+      };
+    }
     const transformedPathMap = new Map(assetResult.pathMap);
-    const effectiveScaleFunction = args.scaleFunction || config.utils?.scaleFunctionName;
+    const responsive = config.responsive;
+    const effectiveScaleFunction = args.scaleFunction || responsive?.horizontal || config.utils?.scaleFunctionName;
     const scaleTarget = await resolveNamedImportTarget(
       effectiveProjectRoot,
       config.utils?.scale,
@@ -833,6 +1271,24 @@ export async function executeGetScreen(
     );
     const resolvedScaleFunction = scaleTarget.importPath ? effectiveScaleFunction : undefined;
 
+    // Per-axis scale functions come from the same util; an explicit scaleFunction scales every axis
+    let scaling: ScalingStrategy | undefined;
+    if (resolvedScaleFunction && responsive) {
+      scaling = { unscaledMax: responsive.unscaledMax, baseWidth: responsive.baseWidth };
+      for (const axis of args.scaleFunction ? [] : (['vertical', 'moderate'] as const)) {
+        const name = responsive[axis];
+        if (!name) continue;
+        const target = await resolveNamedImportTarget(effectiveProjectRoot, config.utils?.scale, config.importPrefix, name);
+        if (target.importPath) scaling[axis] = name;
+      }
+    }
+
+    // Mapped project components win over copies generated into .figma/components
+    const sharedComponents: SharedComponents = {
+      ...resolveSharedComponents(manifest, nodeId, sourceComponentIds, join('.figma', category, resolved.name)),
+      ...resolveMappedComponents(figmaNode, components, config.componentMappings, sourceComponentIds),
+    };
+
     // 12. Generate monolithic output with imagePathMap
     const generationResult = generateComponent(screenIR, generationMappings, {
       componentName: resolved.name,
@@ -845,10 +1301,19 @@ export async function executeGetScreen(
       suppressTodos: args.suppressTodos,
       scaleFunction: resolvedScaleFunction,
       scaleFunctionImportPath: scaleTarget.importPath,
+      scaling,
+      // Screens are designed at device width: the root frame is the design width
+      designWidth: category === 'screens' ? screenIR.root.boundingBox.width : undefined,
       // New: Pass config for import generation
       stylePattern: config.stylePattern,
       useThemeHookPath: config.hooks?.useTheme,
       importPrefix: config.importPrefix,
+      modeThemes,
+      forms: args.forms,
+      // Prototype destinations that are already generated (or planned in this batch) resolve to their routes
+      navigationTargets: { ...shared.navigationTargets, ...getNavigationRoutes(manifest) },
+      sharedComponents,
+      svgComponents,
     });
 
     const multiFileResult: MultiFileResult = {
@@ -857,7 +1322,16 @@ export async function executeGetScreen(
         content: generationResult.code,
       },
       extractedComponents: [],
-      tokens: null,
+      // Only mode themes are written; flat fallback tokens stay inline
+      tokens: modeThemes
+        ? generateTokensIfNeeded(
+            screenIR.stylesBundle.tokens,
+            generationHasProjectTheme,
+            outputDir || 'components',
+            modeThemes,
+            config.stylePattern
+          )
+        : null,
       unmappedTokens: generationResult.unmappedTokens,
     };
 
@@ -871,11 +1345,16 @@ export async function executeGetScreen(
       resolvedScaleFunction,
       scaleTarget.importPath
     );
+    if (args.svgComponents && !client) {
+      // Offline generation downloads no SVG icons to convert
+      analysis.validation.warnings.push('svgComponents skipped: snapshot generation downloads no SVG icons.');
+    }
 
     // 13. Write files
+    const interactions = collectInteractions(figmaNode);
     const writeResult = await writeGeneratedFiles({
       projectRoot: effectiveProjectRoot,
-      figmaUrl,
+      figmaUrl: sourceUrl,
       category,
       componentName: resolved.name,
       multiFileResult,
@@ -883,6 +1362,16 @@ export async function executeGetScreen(
       screenshot: screenshotBuffer,
       figmaName: screenIR.name,
       previousName: resolved.previousName,
+      interactions: interactions.length > 0 ? interactions : undefined,
+      tokens: screenIR.stylesBundle.tokens,
+      // Generated components are indexed so later screens import them
+      ...(category === 'components' && {
+        componentIds: sourceComponentIds,
+        props: analysis.publicApi.props.filter(prop => prop.type === 'string').map(prop => prop.name),
+        variantProps: screenIR.variantProps && Object.fromEntries(
+          screenIR.variantProps.map(prop => [prop.figmaName, prop.name])
+        ),
+      }),
     });
 
     if (!writeResult.success) {
@@ -892,6 +1381,19 @@ export async function executeGetScreen(
       };
     }
 
+    // 13.5 Suggest project components for the instances that are still inlined
+    const suggestedMappings = await recordComponentSuggestions(
+      effectiveProjectRoot,
+      config,
+      screenIR.root,
+      new Set([...Object.keys(sharedComponents), ...sourceComponentIds])
+    );
+
+    // 13.6 Export the workspace's tokens, this screen included
+    const tokenExport = args.exportTokens
+      ? await exportWorkspaceTokens(effectiveProjectRoot, projectTokens)
+      : undefined;
+
     // 14. Prepare response
     return {
       success: true,
@@ -902,9 +1404,11 @@ export async function executeGetScreen(
       analysis,
       screenshot: screenshotBuffer,
       previousName: resolved.previousName,
+      ...(suggestedMappings.length > 0 && { suggestedMappings }),
+      ...(tokenExport && { tokenExport }),
     };
   } catch (error) {
-    console.error('executeGetScreen failed:', error);
+    console.error('generateScreenFromDocument failed:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : String(error),
@@ -920,7 +1424,7 @@ export function formatGetScreenResponse(result: GetScreenResult): any[] {
     return [{ type: 'text', text: `# ❌ Error\n\n${result.error}` }];
   }
 
-  const { screenIR, detectionResult, multiFileResult, writeResult, analysis, screenshot, previousName } = result;
+  const { screenIR, detectionResult, multiFileResult, writeResult, analysis, screenshot, previousName, suggestedMappings, tokenExport } = result;
   if (!screenIR || !multiFileResult) {
     return [{ type: 'text', text: '# ❌ Error\n\nNo result generated' }];
   }
@@ -1011,6 +1515,26 @@ export function formatGetScreenResponse(result: GetScreenResult): any[] {
     textResponse += '```\n\n';
   }
 
+  if (suggestedMappings?.length) {
+    textResponse += `## Suggested Component Mappings\n\n`;
+    textResponse += `Review in \`.figma/config.json\` (\`suggestedComponentMappings\`) and move the correct ones to \`componentMappings\`.\n\n`;
+    for (const suggestion of suggestedMappings) {
+      textResponse += `- ${suggestion.figma} → ${suggestion.component} (\`${suggestion.importPath}\`, score ${suggestion.score})\n`;
+    }
+    textResponse += `\n`;
+  }
+
+  if (tokenExport) {
+    textResponse += `## Token Export\n\n`;
+    textResponse += `${tokenExport.tokenCount} tokens from all generated elements:\n\n`;
+    textResponse += `- DTCG: \`${tokenExport.dtcgPath}\`\n`;
+    textResponse += `- Style Dictionary source: \`${tokenExport.styleDictionaryPath}\`\n`;
+    if (tokenExport.newValueCount > 0) {
+      textResponse += `\n${tokenExport.newValueCount} values are not in the project theme (\`$extensions["figma-rn"].inTheme: false\`).\n`;
+    }
+    textResponse += `\n`;
+  }
+
   content.push({ type: 'text', text: textResponse });
 
   // Visual reference for downstream review or comparison.
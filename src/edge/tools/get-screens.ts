@@ -0,0 +1,462 @@
+/**
+ * get_screens MCP Tool
+ *
+ * Batch variant of get_screen: resolves many nodes, fetches them with one
+ * fetchNodes call per file, runs the pipeline for each node and shares asset
+ * downloads and project tokens across the batch.
+ */
+
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { retryOnError } from '../../api/errors.js';
+import { matchesPattern } from '../../api/config.js';
+import { buildFigmaUrl, parseFigmaUrl } from '../../api/url.js';
+import type { FigmaClient } from '../../api/client.js';
+import type { TransformedNode, VariablesResult } from '../../api/types.js';
+import {
+  getOrCreateManifest,
+  getNavigationRoutes,
+  refreshFigmaConfig,
+  type Manifest,
+  type ManifestCategory,
+} from '../../workspace/index.js';
+import { resolveComponentName } from '../name-resolver.js';
+import { exportWorkspaceTokens, type TokenExportResult } from '../token-export.js';
+import {
+  createWorkspaceClient,
+  generateScreenFromDocument,
+  loadProjectTokensForGeneration,
+  loadVariables,
+  resolveCategory,
+  validateProjectRoot,
+  type GetScreenArgs,
+  type GetScreenResult,
+  type SharedGenerationState,
+} from './get-screen.js';
+import { join, resolve } from 'path';
+
+/**
+ * Tool definition for MCP server
+ */
+export const getScreensTool: Tool = {
+  name: 'get_screens',
+  description: `Generate React Native code for many Figma nodes in one pass.
+
+Input either:
+• figmaUrls - list of node URLs (may span files)
+• fileUrl - one file URL plus optional pageName / frameName filters (* wildcard)
+  (a node-id in fileUrl limits the scan to that page or section)
+
+Nodes are fetched with one request per file, assets shared between screens are
+downloaded once, and a single aggregated report is returned.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      figmaUrls: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Figma URLs with node-id',
+      },
+      fileUrl: {
+        type: 'string',
+        description: 'Figma file URL; all top-level frames matching the filters are generated',
+      },
+      pageName: {
+        type: 'string',
+        description: 'Page name filter for fileUrl (supports * wildcard)',
+      },
+      frameName: {
+        type: 'string',
+        description: 'Frame name filter for fileUrl (supports * wildcard)',
+      },
+      themeFilePath: {
+        type: 'string',
+        description: 'Path to project theme file (TS/JS theme or DTCG / Tokens Studio JSON) for token matching (optional)',
+      },
+      outputDir: {
+        type: 'string',
+        description: 'Output directory for generated files (default: "components")',
+      },
+      projectRoot: {
+        type: 'string',
+        description: 'Project root directory (default: current working directory)',
+      },
+      category: {
+        type: 'string',
+        description: 'Category for all generated elements (default: "screens")',
+        enum: ['screens', 'modals', 'sheets', 'components', 'icons'],
+      },
+      suppressTodos: {
+        type: 'boolean',
+        description: 'Whether to suppress TODO comments in generated code (default: false)',
+      },
+      scaleFunction: {
+        type: 'string',
+        description: 'Responsive scaling function name (e.g., "scale") (default: from figma.config.json)',
+      },
+      forms: {
+        type: 'boolean',
+        description: 'Wire screens with input fields and a primary button to react-hook-form with a zod schema and an onSubmit prop (default: false)',
+      },
+      svgComponents: {
+        type: 'boolean',
+        description: 'Turn downloaded SVG icons into typed react-native-svg components (assets/icons/*.tsx) with color/width/height props (default: false)',
+      },
+      exportTokens: {
+        type: 'boolean',
+        description: 'Write the design tokens of all generated elements to .figma/tokens as DTCG JSON and a Style Dictionary source tree (default: false)',
+      },
+      refreshCache: {
+        type: 'boolean',
+        description: 'Ignore cached Figma responses in .figma/cache and fetch fresh data (default: false)',
+      },
+    },
+    required: [],
+  },
+};
+
+/**
+ * Input arguments for get_screens tool
+ */
+export interface GetScreensArgs extends Omit<GetScreenArgs, 'figmaUrl' | 'snapshotPath' | 'componentName'> {
+  figmaUrls?: string[];
+  fileUrl?: string;
+  pageName?: string;
+  frameName?: string;
+}
+
+/**
+ * Per-node outcome inside a batch
+ */
+export interface BatchScreenResult {
+  nodeId: string;
+  figmaUrl: string;
+  result: GetScreenResult;
+}
+
+/**
+ * Result from get_screens tool
+ */
+export interface GetScreensResult {
+  /** True when at least one node was generated */
+  success: boolean;
+  screens: BatchScreenResult[];
+  assets: {
+    /** Files exported from Figma */
+    downloaded: number;
+    /** Files copied from an earlier screen of the batch */
+    reused: number;
+  };
+  /** Token export written once after the batch (exportTokens) */
+  tokenExport?: TokenExportResult;
+  error?: string;
+}
+
+/** Categories whose elements are navigation routes */
+const ROUTE_CATEGORIES: ManifestCategory[] = ['screens', 'modals', 'sheets'];
+
+interface BatchTarget {
+  fileKey: string;
+  nodeId: string;
+}
+
+/**
+ * Resolve the node list: explicit URLs, or frames of a file filtered by page/frame name
+ */
+async function resolveBatchTargets(
+  args: GetScreensArgs,
+  client: FigmaClient,
+  failures: BatchScreenResult[]
+): Promise<BatchTarget[]> {
+  const targets: BatchTarget[] = [];
+  const seen = new Set<string>();
+  const addTarget = (fileKey: string, nodeId: string) => {
+    const key = `${fileKey}:${nodeId}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    targets.push({ fileKey, nodeId });
+  };
+
+  for (const url of args.figmaUrls ?? []) {
+    const parsed = parseFigmaUrl(url);
+    if (!parsed?.nodeId) {
+      failures.push({
+        nodeId: 'unknown',
+        figmaUrl: url,
+        result: { success: false, error: 'Invalid Figma URL format (missing file key or node-id)' },
+      });
+      continue;
+    }
+    addTarget(parsed.fileKey, parsed.nodeId);
+  }
+
+  if (args.fileUrl) {
+    const parsed = parseFigmaUrl(args.fileUrl);
+    if (!parsed) {
+      throw new Error(`Invalid Figma file URL: ${args.fileUrl}`);
+    }
+
+    const frames = await retryOnError(
+      () => client.fetchPageFrames(parsed.fileKey),
+      { maxRetries: 3, retryDelay: 2000 }
+    );
+
+    for (const frame of frames) {
+      if (parsed.nodeId && frame.pageId !== parsed.nodeId && frame.sectionId !== parsed.nodeId) continue;
+      if (args.pageName && !matchesPattern(frame.pageName, [args.pageName])) continue;
+      if (args.frameName && !matchesPattern(frame.name, [args.frameName])) continue;
+      addTarget(parsed.fileKey, frame.id);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Route names the batch will assign to its frames
+ *
+ * Names are resolved in batch order against a copy of the manifest, the way
+ * sequential generation resolves them, so prototype links to frames generated
+ * later in the batch resolve too. Names come from the frame name; a frame whose
+ * modal content is extracted under another name is corrected by the manifest
+ * once it is generated.
+ */
+function planBatchRoutes(
+  manifest: Manifest,
+  category: ManifestCategory,
+  frames: Array<{ nodeId: string; name: string }>
+): Record<string, string> {
+  const planned: Manifest = { ...manifest, [category]: { ...manifest[category] } };
+  for (const { nodeId, name } of frames) {
+    const resolved = resolveComponentName(planned, category, nodeId, name);
+    if (resolved.isUpdate) continue;
+    planned[category][nodeId] = {
+      name: resolved.name,
+      folder: `.figma/${category}/${resolved.name}`,
+      generatedAt: '',
+      nodeId,
+      figmaUrl: '',
+    };
+  }
+  return getNavigationRoutes(planned);
+}
+
+/**
+ * Execute the get_screens tool
+ *
+ * @param args - Tool arguments
+ * @param figmaToken - Figma API token
+ * @returns Aggregated batch result
+ */
+export async function executeGetScreens(
+  args: GetScreensArgs,
+  figmaToken: string
+): Promise<GetScreensResult> {
+  const emptyResult = (error: string): GetScreensResult => ({
+    success: false,
+    screens: [],
+    assets: { downloaded: 0, reused: 0 },
+    error,
+  });
+
+  if (!args.figmaUrls?.length && !args.fileUrl) {
+    return emptyResult('Either figmaUrls or fileUrl is required');
+  }
+
+  if (!figmaToken) {
+    return emptyResult('FIGMA_TOKEN is required to fetch from Figma');
+  }
+
+  const effectiveProjectRoot = resolve(args.projectRoot || process.cwd());
+  const rootError = await validateProjectRoot(effectiveProjectRoot);
+  if (rootError) {
+    return emptyResult(rootError);
+  }
+
+  try {
+    await refreshFigmaConfig(effectiveProjectRoot);
+  } catch (error) {
+    console.error('Config refresh failed:', error);
+  }
+
+  const screens: BatchScreenResult[] = [];
+  const downloadedAssets = new Map<string, string>();
+  // Each export covers the whole workspace: write it once after the batch
+  const { exportTokens, ...screenArgs } = args;
+  let tokenExport: TokenExportResult | undefined;
+
+  try {
+    const client = createWorkspaceClient(effectiveProjectRoot, figmaToken, args.refreshCache);
+    const targets = await resolveBatchTargets(args, client, screens);
+
+    if (targets.length === 0 && screens.length === 0) {
+      return emptyResult('No frames matched the given URLs or filters');
+    }
+
+    // One fetchNodes call per file for all requested nodes
+    const documents = new Map<string, TransformedNode>();
+    const fileKeys = [...new Set(targets.map((t) => t.fileKey))];
+    for (const fileKey of fileKeys) {
+      const nodeIds = targets.filter((t) => t.fileKey === fileKey).map((t) => t.nodeId);
+      const result = await retryOnError(
+        () => client.fetchNodes(fileKey, nodeIds),
+        { maxRetries: 3, retryDelay: 2000 }
+      );
+      for (const [nodeId, node] of Object.entries(result.nodes)) {
+        documents.set(`${fileKey}:${nodeId}`, node);
+      }
+    }
+
+    // Tokens are parsed once and reused for every screen
+    const category = resolveCategory(args.category);
+    const shared: SharedGenerationState = {
+      projectTokens: await loadProjectTokensForGeneration(effectiveProjectRoot, args.themeFilePath),
+      downloadedAssets,
+      navigationTargets: ROUTE_CATEGORIES.includes(category)
+        ? planBatchRoutes(
+            await getOrCreateManifest(effectiveProjectRoot),
+            category,
+            targets.flatMap((target) => {
+              const node = documents.get(`${target.fileKey}:${target.nodeId}`);
+              return node?.document ? [{ nodeId: target.nodeId, name: node.name }] : [];
+            })
+          )
+        : undefined,
+    };
+
+    // Variables are per file: one fetch per fileKey
+    const variables = new Map<string, VariablesResult | null>();
+    for (const fileKey of fileKeys) {
+      variables.set(fileKey, await loadVariables(client, fileKey));
+    }
+
+    // Sequential: each generation updates the manifest used for name resolution
+    for (const target of targets) {
+      const figmaUrl = buildFigmaUrl(target.fileKey, target.nodeId);
+      const node = documents.get(`${target.fileKey}:${target.nodeId}`);
+
+      if (!node?.document) {
+        screens.push({
+          nodeId: target.nodeId,
+          figmaUrl,
+          result: { success: false, error: 'Node not found in Figma response' },
+        });
+        continue;
+      }
+
+      const result = await generateScreenFromDocument(
+        screenArgs,
+        {
+          projectRoot: effectiveProjectRoot,
+          client,
+          fileKey: target.fileKey,
+          nodeId: target.nodeId,
+          document: node.document,
+          styles: node.styles,
+          components: node.components,
+          sourceUrl: figmaUrl,
+        },
+        { ...shared, variables: variables.get(target.fileKey) }
+      );
+
+      screens.push({ nodeId: target.nodeId, figmaUrl, result });
+    }
+
+    if (exportTokens && screens.some((screen) => screen.result.success)) {
+      tokenExport = await exportWorkspaceTokens(effectiveProjectRoot, shared.projectTokens);
+    }
+  } catch (error) {
+    console.error('executeGetScreens failed:', error);
+    return {
+      ...emptyResult(error instanceof Error ? error.message : String(error)),
+      screens,
+    };
+  }
+
+  const totalAssets = screens.reduce(
+    (sum, screen) => sum + (screen.result.writeResult?.assetsCount ?? 0),
+    0
+  );
+
+  return {
+    success: screens.some((screen) => screen.result.success),
+    screens,
+    assets: {
+      downloaded: downloadedAssets.size,
+      reused: Math.max(0, totalAssets - downloadedAssets.size),
+    },
+    ...(tokenExport && { tokenExport }),
+  };
+}
+
+/**
+ * Format the batch result for MCP response (one aggregated report, no inline code)
+ */
+export function formatGetScreensResponse(result: GetScreensResult): any[] {
+  if (!result.success && result.screens.length === 0) {
+    return [{ type: 'text', text: `# ❌ Error\n\n${result.error}` }];
+  }
+
+  const generated = result.screens.filter((screen) => screen.result.success);
+  const failed = result.screens.filter((screen) => !screen.result.success);
+
+  const summary = {
+    total: result.screens.length,
+    generated: generated.length,
+    failed: failed.length,
+    assets: result.assets,
+    screens: result.screens.map(({ nodeId, figmaUrl, result: screen }) => ({
+      nodeId,
+      figmaUrl,
+      success: screen.success,
+      name: screen.screenIR?.name ?? null,
+      indexPath: screen.writeResult?.success
+        ? join(screen.writeResult.projectRoot, screen.writeResult.indexPath)
+        : null,
+      isUpdate: screen.writeResult?.isUpdate ?? false,
+      assetsCount: screen.writeResult?.assetsCount ?? 0,
+      unmappedTokens: screen.multiFileResult?.unmappedTokens ?? null,
+      validation: screen.analysis?.validation ?? null,
+      error: screen.error ?? null,
+    })),
+    error: result.error ?? null,
+  };
+
+  let textResponse = `# ${failed.length === 0 ? '✅' : '⚠️'} Generated ${generated.length}/${result.screens.length} screens\n\n`;
+
+  if (generated.length > 0) {
+    textResponse += `| Screen | Main Component | Assets |\n`;
+    textResponse += `|--------|----------------|--------|\n`;
+    for (const { result: screen } of generated) {
+      const write = screen.writeResult;
+      textResponse += `| **${screen.screenIR?.name}** | \`${write ? join(write.projectRoot, write.indexPath) : '-'}\` | ${write?.assetsCount ?? 0} |\n`;
+    }
+    textResponse += `\n`;
+  }
+
+  if (failed.length > 0) {
+    textResponse += `## Failures\n\n`;
+    for (const { nodeId, figmaUrl, result: screen } of failed) {
+      textResponse += `- \`${nodeId}\` (${figmaUrl}): ${screen.error}\n`;
+    }
+    textResponse += `\n`;
+  }
+
+  if (result.error) {
+    textResponse += `## Batch Error\n\n${result.error}\n\n`;
+  }
+
+  textResponse += `Assets: ${result.assets.downloaded} downloaded, ${result.assets.reused} reused across screens\n\n`;
+
+  const { tokenExport } = result;
+  if (tokenExport) {
+    textResponse += `Tokens: ${tokenExport.tokenCount} exported to \`${tokenExport.dtcgPath}\` and \`${tokenExport.styleDictionaryPath}\``;
+    textResponse += tokenExport.newValueCount > 0 ? `, ${tokenExport.newValueCount} not in the project theme\n\n` : `\n\n`;
+  }
+
+  textResponse += `## Summary JSON\n\n`;
+  textResponse += '```json\n';
+  textResponse += `${JSON.stringify(summary, null, 2)}\n`;
+  textResponse += '```\n';
+
+  return [{ type: 'text', text: textResponse }];
+}
@@ -9,3 +9,20 @@ export {
   type GetScreenArgs,
   type GetScreenResult,
 } from './get-screen.js';
+
+export {
+  getScreensTool,
+  executeGetScreens,
+  formatGetScreensResponse,
+  type GetScreensArgs,
+  type GetScreensResult,
+  type BatchScreenResult,
+} from './get-screens.js';
+
+export {
+  getFlowTool,
+  executeGetFlow,
+  formatGetFlowResponse,
+  type GetFlowArgs,
+  type GetFlowResult,
+} from './get-flow.js';
@@ -11,6 +11,15 @@ import {
   getScreenTool,
   executeGetScreen,
   formatGetScreenResponse,
+  type GetScreenArgs,
+  getScreensTool,
+  executeGetScreens,
+  formatGetScreensResponse,
+  type GetScreensArgs,
+  getFlowTool,
+  executeGetFlow,
+  formatGetFlowResponse,
+  type GetFlowArgs,
 } from './edge/tools/index.js';
 
 const SERVER_NAME = 'react-native-figma-generator';
@@ -19,9 +28,10 @@ const FIGMA_TOKEN = process.env.FIGMA_TOKEN || '';
 
 function validateFigmaToken(token: string): void {
   if (!token) {
-    console.error('Error: FIGMA_TOKEN environment variable is required');
+    // Offline generation (snapshotPath) works without a token
+    console.error('Warning: FIGMA_TOKEN is not set - only snapshot-based generation is available');
     console.error('Get your token from: https://www.figma.com/developers/api#access-tokens');
-    process.exit(1);
+    return;
   }
 
   if (token.length < 20 || !/^[a-zA-Z0-9_-]+$/.test(token)) {
@@ -46,7 +56,7 @@ const server = new Server(
   }
 );
 
-const tools: Tool[] = [getScreenTool];
+const tools: Tool[] = [getScreenTool, getScreensTool, getFlowTool];
 
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return { tools };
@@ -56,53 +66,45 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   const { name, arguments: args } = request.params;
 
   try {
+    if (name === 'get_screens') {
+      const batchArgs = (args ?? {}) as GetScreensArgs;
+      const targetCount = batchArgs.figmaUrls?.length ?? 0;
+      console.error(`\n🎯 [GET_SCREENS] Processing ${batchArgs.fileUrl || `${targetCount} URLs`}...`);
+
+      const result = await executeGetScreens(batchArgs, FIGMA_TOKEN);
+      return {
+        content: formatGetScreensResponse(result),
+        isError: !result.success,
+      };
+    }
+
+    if (name === 'get_flow') {
+      const flowArgs = (args ?? {}) as GetFlowArgs;
+      console.error(`\n🎯 [GET_FLOW] Processing ${flowArgs.fileUrl}...`);
+
+      const result = await executeGetFlow(flowArgs, FIGMA_TOKEN);
+      return {
+        content: formatGetFlowResponse(result),
+        isError: !result.success,
+      };
+    }
+
     if (name !== 'get_screen') {
       return {
         content: [
           {
             type: 'text',
-            text: `Unknown tool: ${name}\n\nAvailable tools:\n- get_screen`,
+            text: `Unknown tool: ${name}\n\nAvailable tools:\n- get_screen\n- get_screens\n- get_flow`,
           },
         ],
         isError: true,
       };
     }
 
-    const {
-      figmaUrl,
-      componentName,
-      themeFilePath,
-      outputDir,
-      projectRoot,
-      category,
-      suppressTodos,
-      scaleFunction,
-    } = (args ?? {}) as {
-      figmaUrl: string;
-      componentName?: string;
-      themeFilePath?: string;
-      outputDir?: string;
-      projectRoot?: string;
-      category?: string;
-      suppressTodos?: boolean;
-      scaleFunction?: string;
-    };
+    const screenArgs = (args ?? {}) as GetScreenArgs;
+    console.error(`\n🎯 [GET_SCREEN] Processing ${screenArgs.snapshotPath || screenArgs.figmaUrl}...`);
 
-    console.error(`\n🎯 [GET_SCREEN] Processing ${figmaUrl}...`);
-
-    const result = await executeGetScreen(
-      {
-        figmaUrl,
-        componentName,
-        themeFilePath,
-        outputDir,
-        projectRoot,
-        category,
-        suppressTodos,
-        scaleFunction,
-      },
-      FIGMA_TOKEN
-    );
+    const result = await executeGetScreen(screenArgs, FIGMA_TOKEN);
 
     return {
       content: formatGetScreenResponse(result),
@@ -129,7 +131,9 @@ async function main(): Promise<void> {
   console.error('═══════════════════════════════════════════════════════════════════');
   console.error('');
   console.error('  Available tools:');
-  console.error('  • get_screen  Figma URL -> .figma/{category}/{name}/');
+  console.error('  • get_screen   Figma URL -> .figma/{category}/{name}/');
+  console.error('  • get_screens  Many URLs / file + filters -> one folder per node');
+  console.error('  • get_flow     Page or section -> screens + navigator in .figma/flows/');
   console.error('');
   console.error('  Output folder structure:');
   console.error('  .figma/{category}/{name}/');
@@ -0,0 +1,413 @@
+/**
+ * Design tokens parser - W3C DTCG and Tokens Studio JSON
+ *
+ * Reads `$value`/`$type` tokens (and the legacy `value`/`type` format of
+ * Tokens Studio), resolves `{group.token}` aliases, and maps them into the
+ * same ThemeTokens maps as TS theme files. Tokens Studio single-file exports
+ * with several sets are merged in `$metadata.tokenSetOrder`; `$themes` picks
+ * the enabled sets (source sets only resolve aliases). Multi-file exports
+ * are read through their $metadata.json.
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { normalizeHex, pathComplexity } from '../core/utils/path-utils.js';
+import type { ThemeTokens, TypographyStyleToken } from './internal.js';
+
+/**
+ * Options for reading a design tokens document
+ */
+export interface DesignTokensOptions {
+  /** Tokens Studio theme to read (default: the first one in $themes) */
+  theme?: string;
+  /** Root of token paths (default: 'theme') */
+  basePath?: string;
+}
+
+interface FlatToken {
+  path: string[];
+  type?: string;
+  value: unknown;
+  /** Emitted as a theme token (false for tokens of source-only sets) */
+  output: boolean;
+}
+
+interface TokensStudioTheme {
+  name: string;
+  selectedTokenSets?: Record<string, 'enabled' | 'source' | 'disabled'>;
+}
+
+/** Base font size for rem values */
+const REM_PX = 16;
+
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  extralight: 200,
+  ultralight: 200,
+  light: 300,
+  regular: 400,
+  normal: 400,
+  book: 400,
+  medium: 500,
+  semibold: 600,
+  demibold: 600,
+  bold: 700,
+  extrabold: 800,
+  ultrabold: 800,
+  black: 900,
+  heavy: 900,
+};
+
+const ALIAS = /^\{([^{}]+)\}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isToken(node: Record<string, unknown>): boolean {
+  return '$value' in node || ('value' in node && 'type' in node);
+}
+
+function hasTokens(node: unknown, depth = 0): boolean {
+  if (!isRecord(node) || depth > 8) return false;
+  if (isToken(node)) return true;
+  return Object.entries(node).some(([key, child]) => !key.startsWith('$') && hasTokens(child, depth + 1));
+}
+
+/**
+ * Whether parsed JSON is a DTCG / Tokens Studio document (plain JSON themes are not)
+ */
+export function isDesignTokensDocument(json: unknown): boolean {
+  if (!isRecord(json)) return false;
+  return '$themes' in json || '$metadata' in json || hasTokens(json);
+}
+
+/**
+ * Assemble a Tokens Studio multi-file export (one JSON per set next to
+ * $metadata.json and $themes.json) into a single-file document
+ */
+export async function readTokensStudioDirectory(dir: string): Promise<Record<string, unknown>> {
+  const metadata = JSON.parse(await readFile(join(dir, '$metadata.json'), 'utf-8'));
+  const document: Record<string, unknown> = { $metadata: metadata };
+
+  try {
+    document.$themes = JSON.parse(await readFile(join(dir, '$themes.json'), 'utf-8'));
+  } catch {
+    // No themes: every set is enabled
+  }
+
+  for (const name of (metadata.tokenSetOrder ?? []) as string[]) {
+    try {
+      document[name] = JSON.parse(await readFile(join(dir, `${name}.json`), 'utf-8'));
+    } catch (error) {
+      console.error(`   ⚠️ Could not read token set "${name}":`, error);
+    }
+  }
+
+  return document;
+}
+
+/**
+ * Collect tokens of a group; $type is inherited by nested tokens
+ */
+function flattenTokens(
+  node: Record<string, unknown>,
+  path: string[],
+  inheritedType: string | undefined,
+  output: boolean,
+  tokens: Map<string, FlatToken>
+): void {
+  const groupType = (node.$type as string | undefined) ?? inheritedType;
+
+  if (isToken(node)) {
+    tokens.set(path.join('.'), {
+      path,
+      type: (node.$type ?? node.type ?? inheritedType) as string | undefined,
+      value: '$value' in node ? node.$value : node.value,
+      output,
+    });
+    return;
+  }
+
+  for (const [key, child] of Object.entries(node)) {
+    if (key.startsWith('$') || !isRecord(child)) continue;
+    flattenTokens(child, [...path, key], groupType, output, tokens);
+  }
+}
+
+/**
+ * Token sets in merge order with their output flag: the sets of the chosen
+ * theme, or every set when the document has no themes
+ */
+function selectTokenSets(
+  json: Record<string, unknown>,
+  themeName: string | undefined
+): Array<{ tokens: Record<string, unknown>; output: boolean }> {
+  const metadata = isRecord(json.$metadata) ? json.$metadata : {};
+  const setNames = Array.isArray(metadata.tokenSetOrder)
+    ? (metadata.tokenSetOrder as string[])
+    : Object.keys(json).filter(key => !key.startsWith('$'));
+
+  const themes = Array.isArray(json.$themes) ? (json.$themes as TokensStudioTheme[]) : [];
+  const theme = themes.find(candidate => candidate.name?.toLowerCase() === themeName?.toLowerCase()) ?? themes[0];
+  if (themeName && theme?.name?.toLowerCase() !== themeName.toLowerCase()) {
+    console.error(`   ⚠️ Token theme "${themeName}" not found, using "${theme?.name ?? 'all sets'}"`);
+  }
+
+  return setNames
+    .filter(name => isRecord(json[name]))
+    .map(name => ({ name, status: theme?.selectedTokenSets?.[name] ?? (theme ? 'disabled' : 'enabled') }))
+    .filter(({ status }) => status !== 'disabled')
+    .map(({ name, status }) => ({ tokens: json[name] as Record<string, unknown>, output: status === 'enabled' }));
+}
+
+/**
+ * Evaluate the arithmetic Tokens Studio allows in values ("8 * 2", "(16 + 4) / 2")
+ */
+function evaluateMath(expression: string): number | null {
+  const input = expression.replace(/px/g, '').replace(/\s+/g, '');
+  if (!/^[\d.+\-*/()]+$/.test(input)) return null;
+
+  let position = 0;
+  const parseFactor = (): number => {
+    if (input[position] === '(') {
+      position++;
+      const value = parseSum();
+      position++;
+      return value;
+    }
+    if (input[position] === '-') {
+      position++;
+      return -parseFactor();
+    }
+    const match = /^\d*\.?\d+/.exec(input.slice(position));
+    if (!match) throw new Error(`Unexpected token at ${position}`);
+    position += match[0].length;
+    return parseFloat(match[0]);
+  };
+  const parseProduct = (): number => {
+    let value = parseFactor();
+    while (input[position] === '*' || input[position] === '/') {
+      const operator = input[position++];
+      value = operator === '*' ? value * parseFactor() : value / parseFactor();
+    }
+    return value;
+  };
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (input[position] === '+' || input[position] === '-') {
+      const operator = input[position++];
+      value = operator === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+
+  try {
+    const value = parseSum();
+    return position === input.length && isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve aliases in a value; unresolvable references stay as written
+ */
+function resolveValue(value: unknown, tokens: Map<string, FlatToken>, seen: Set<string> = new Set()): unknown {
+  if (typeof value === 'string') {
+    const alias = ALIAS.exec(value.trim());
+    if (alias) {
+      const target = tokens.get(alias[1]);
+      if (!target || seen.has(alias[1])) return value;
+      return resolveValue(target.value, tokens, new Set([...seen, alias[1]]));
+    }
+
+    if (!value.includes('{')) return value;
+    const substituted = value.replace(/\{[^{}]+\}/g, reference => {
+      const resolved = resolveValue(reference, tokens, seen);
+      return typeof resolved === 'string' || typeof resolved === 'number' ? String(resolved) : reference;
+    });
+    return evaluateMath(substituted) ?? substituted;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => resolveValue(item, tokens, seen));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveValue(item, tokens, seen)]));
+  }
+  return value;
+}
+
+/**
+ * Pixels of a dimension: 16, "16px", "1rem", "8 * 2" or { value: 1, unit: 'rem' }
+ */
+export function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (isRecord(value) && typeof value.value === 'number') {
+    return value.unit === 'rem' ? value.value * REM_PX : value.value;
+  }
+  if (typeof value !== 'string') return null;
+
+  const rem = /^(-?\d*\.?\d+)rem$/.exec(value.trim());
+  if (rem) return parseFloat(rem[1]) * REM_PX;
+  return evaluateMath(value);
+}
+
+function toFontWeight(value: unknown): number | undefined {
+  const numeric = toNumber(value);
+  if (numeric !== null) return numeric;
+  if (typeof value !== 'string') return undefined;
+  return FONT_WEIGHTS[value.toLowerCase().replace(/italic/g, '').replace(/[\s_-]/g, '')];
+}
+
+/**
+ * Line height in pixels: percentages and unitless multipliers are relative to the font size
+ */
+function toLineHeight(value: unknown, fontSize: number): number | undefined {
+  if (typeof value === 'string' && value.trim().endsWith('%')) {
+    const percent = parseFloat(value);
+    return isNaN(percent) ? undefined : Math.round(fontSize * percent) / 100;
+  }
+  const numeric = toNumber(value);
+  if (numeric === null) return undefined;
+  return typeof value === 'number' && numeric < 4 ? Math.round(fontSize * numeric * 100) / 100 : numeric;
+}
+
+function toFontFamily(value: unknown): string | undefined {
+  const family = Array.isArray(value) ? value[0] : value;
+  return typeof family === 'string' ? family.replace(/['"]/g, '').split(',')[0].trim() : undefined;
+}
+
+export function toColor(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const color = value.trim();
+  if (/^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(color)) {
+    const hex = color.length === 4 ? color.slice(1).split('').map(c => c + c).join('') : color.slice(1);
+    return normalizeHex(`#${hex}`);
+  }
+  return /^(rgba?|hsla?)\(/.test(color) ? color : null;
+}
+
+function buildTypography(value: unknown, path: string): TypographyStyleToken | null {
+  if (!isRecord(value)) return null;
+  const fontSize = toNumber(value.fontSize);
+  if (fontSize === null) return null;
+
+  const letterSpacing = typeof value.letterSpacing === 'string' && value.letterSpacing.trim().endsWith('%')
+    ? Math.round(fontSize * parseFloat(value.letterSpacing)) / 100
+    : toNumber(value.letterSpacing) ?? undefined;
+
+  return {
+    path,
+    fontSize,
+    lineHeight: toLineHeight(value.lineHeight, fontSize),
+    fontWeight: toFontWeight(value.fontWeight) ?? 400,
+    fontFamily: toFontFamily(value.fontFamily),
+    letterSpacing,
+  };
+}
+
+/**
+ * Shadow in the shape theme-extractor keys on (offsetX/offsetY/blur/spread)
+ */
+function buildShadow(value: unknown): Record<string, unknown> | null {
+  const shadow = Array.isArray(value) ? value[0] : value;
+  if (!isRecord(shadow)) return null;
+  return {
+    offsetX: toNumber(shadow.offsetX ?? shadow.x) ?? 0,
+    offsetY: toNumber(shadow.offsetY ?? shadow.y) ?? 0,
+    blur: toNumber(shadow.blur) ?? 0,
+    spread: toNumber(shadow.spread) ?? 0,
+    ...(typeof shadow.color === 'string' && { color: toColor(shadow.color) ?? shadow.color }),
+  };
+}
+
+/**
+ * Theme path of a token: identifier segments joined with dots, others in brackets
+ */
+export function toThemePath(basePath: string, segments: string[]): string {
+  return segments.reduce(
+    (path, segment) => (/^[a-zA-Z_$][\w$]*$/.test(segment) ? `${path}.${segment}` : `${path}['${segment}']`),
+    basePath
+  );
+}
+
+/**
+ * Map a DTCG / Tokens Studio document into theme tokens
+ */
+export function parseDesignTokens(json: Record<string, unknown>, options: DesignTokensOptions = {}): ThemeTokens {
+  const isMultiSet = '$themes' in json || '$metadata' in json;
+  const sets = isMultiSet ? selectTokenSets(json, options.theme) : [{ tokens: json, output: true }];
+
+  // Later sets override earlier ones; aliases resolve across all sets
+  const flat = new Map<string, FlatToken>();
+  for (const set of sets) {
+    flattenTokens(set.tokens, [], undefined, set.output, flat);
+  }
+
+  const tokens: ThemeTokens = {
+    colors: new Map(),
+    fonts: new Map(),
+    typography: new Map(),
+    spacing: new Map(),
+    radii: new Map(),
+    shadows: new Map(),
+  };
+  const basePath = options.basePath ?? 'theme';
+
+  for (const token of flat.values()) {
+    if (!token.output) continue;
+
+    const value = resolveValue(token.value, flat);
+    const path = toThemePath(basePath, token.path);
+    const name = token.path[token.path.length - 1];
+    const pathText = token.path.join('.').toLowerCase();
+    const type = token.type ?? (toColor(value) ? 'color' : undefined);
+
+    switch (type) {
+      case 'color': {
+        const color = toColor(value);
+        const existing = color ? tokens.colors.get(color) : undefined;
+        if (color && (!existing || pathComplexity(path) < pathComplexity(existing.path))) {
+          tokens.colors.set(color, { value: color, path, name });
+        }
+        break;
+      }
+      case 'typography': {
+        const typography = buildTypography(value, path);
+        if (typography) tokens.typography.set(path, typography);
+        break;
+      }
+      case 'shadow':
+      case 'boxShadow': {
+        const shadow = buildShadow(value);
+        if (shadow) tokens.shadows.set(path, shadow);
+        break;
+      }
+      case 'fontFamily':
+      case 'fontFamilies': {
+        const family = toFontFamily(value);
+        if (family) tokens.fonts.set(`${family}-400`, { family, path, name });
+        break;
+      }
+      case 'spacing':
+      case 'borderRadius':
+      case 'dimension':
+      case 'sizing':
+      case 'number': {
+        const numeric = toNumber(value);
+        if (numeric === null) break;
+        if (type === 'borderRadius' || /radi/.test(pathText)) {
+          tokens.radii.set(path, numeric);
+        } else if (type === 'spacing' || /spac|gap|padding|margin|gutter/.test(pathText)) {
+          tokens.spacing.set(path, numeric);
+        }
+        break;
+      }
+    }
+  }
+
+  return tokens;
+}
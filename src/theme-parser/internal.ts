@@ -1,7 +1,15 @@
 import { Project, SourceFile, SyntaxKind, Node, ObjectLiteralExpression } from 'ts-morph';
 import { existsSync } from 'fs';
-import { resolve, join, basename } from 'path';
+import { readFile } from 'fs/promises';
+import { resolve, join, basename, dirname } from 'path';
 import { pathComplexity, normalizeHex } from '../core/utils/path-utils.js';
+import {
+  isDesignTokensDocument,
+  parseDesignTokens,
+  readTokensStudioDirectory,
+  type DesignTokensOptions,
+} from './design-tokens.js';
+import { isTailwindConfigFile, parseTailwindConfig } from './tailwind-config.js';
 
 /**
  * Color token from theme
@@ -57,25 +65,45 @@ export interface ThemeTokens {
   spacing?: Map<string, number>;
   radii?: Map<string, number>;
   shadows?: Map<string, any>;
+  /** Font size scale (Tailwind fontSize), path → px */
+  fontSizes?: Map<string, number>;
 }
 
 /**
  * Parses theme file and extracts design tokens
  * Parses theme file and extracts design tokens
  *
+ * DTCG / Tokens Studio JSON is read as design tokens, tailwind.config.* as
+ * Tailwind theme scales; TS/JS files and plain JSON objects go through ts-morph.
+ *
  * @param filePath - Absolute path to theme file
  * @param basePath - Base path for tokens (default 'theme')
+ * @param options - Tokens Studio theme to read from multi-set JSON
  * @returns Extracted theme tokens
  */
 export async function parseThemeFile(
   filePath: string,
-  basePath?: string
+  basePath?: string,
+  options: Pick<DesignTokensOptions, 'theme'> = {}
 ): Promise<ThemeTokens> {
   try {
     // Resolve absolute file path
     const absolutePath = resolve(filePath);
     const fileName = basename(filePath).toLowerCase();
 
+    if (fileName.endsWith('.json') && existsSync(absolutePath)) {
+      const json = fileName === '$metadata.json'
+        ? await readTokensStudioDirectory(dirname(absolutePath))
+        : JSON.parse(await readFile(absolutePath, 'utf-8'));
+      if (isDesignTokensDocument(json)) {
+        return parseDesignTokens(json, { basePath, theme: options.theme });
+      }
+    }
+
+    if (isTailwindConfigFile(absolutePath) && existsSync(absolutePath)) {
+      return parseTailwindConfig(absolutePath);
+    }
+
     // If base path not provided, try to infer from filename
     if (!basePath) {
       if (fileName.includes('color') || fileName.includes('palette')) basePath = 'colors';
@@ -0,0 +1,175 @@
+/**
+ * Tailwind config parser - theme scales of tailwind.config.{js,ts} (NativeWind)
+ *
+ * Reads `theme` and `theme.extend` colors, spacing, borderRadius and fontSize
+ * literals with ts-morph (the config is never executed). A scale set under
+ * `theme` replaces Tailwind's default one, `theme.extend` adds to it, as in
+ * Tailwind. The default palette is not included.
+ *
+ * Paths keep the Tailwind keys (`theme.colors.brand['500']`,
+ * `theme.spacing['4']`) so NativeWind output can turn them back into
+ * class names (`bg-brand-500`, `p-4`).
+ */
+
+import { Project, Node, SyntaxKind, type Expression } from 'ts-morph';
+import { basename } from 'path';
+import { pathComplexity } from '../core/utils/path-utils.js';
+import { toColor, toNumber, toThemePath } from './design-tokens.js';
+import type { ThemeTokens } from './internal.js';
+
+/** Tailwind scale → ThemeTokens category */
+const SCALES = {
+  spacing: 'spacing',
+  borderRadius: 'radii',
+  fontSize: 'fontSizes',
+} as const;
+
+type Scale = keyof typeof SCALES;
+
+/** Tailwind v3 defaults of the scales (px) */
+const DEFAULT_SCALES: Record<Scale, Record<string, number>> = {
+  spacing: {
+    px: 1, '0': 0, '0.5': 2, '1': 4, '1.5': 6, '2': 8, '2.5': 10, '3': 12, '3.5': 14, '4': 16,
+    '5': 20, '6': 24, '7': 28, '8': 32, '9': 36, '10': 40, '11': 44, '12': 48, '14': 56, '16': 64,
+    '20': 80, '24': 96, '28': 112, '32': 128, '36': 144, '40': 160, '44': 176, '48': 192,
+    '52': 208, '56': 224, '60': 240, '64': 256, '72': 288, '80': 320, '96': 384,
+  },
+  borderRadius: {
+    none: 0, sm: 2, DEFAULT: 4, md: 6, lg: 8, xl: 12, '2xl': 16, '3xl': 24, full: 9999,
+  },
+  fontSize: {
+    xs: 12, sm: 14, base: 16, lg: 18, xl: 20, '2xl': 24, '3xl': 30, '4xl': 36,
+    '5xl': 48, '6xl': 60, '7xl': 72, '8xl': 96, '9xl': 128,
+  },
+};
+
+/**
+ * Whether a file is a Tailwind config
+ */
+export function isTailwindConfigFile(filePath: string): boolean {
+  return /^tailwind\.config\.(js|cjs|mjs|ts)$/.test(basename(filePath));
+}
+
+/**
+ * Config object behind wrappers: defineConfig({...}), `satisfies Config`,
+ * parentheses and variables
+ */
+function unwrapConfig(node: Node | undefined): Node | undefined {
+  if (!node) return undefined;
+  if (Node.isParenthesizedExpression(node) || Node.isSatisfiesExpression(node) || Node.isAsExpression(node)) {
+    return unwrapConfig(node.getExpression());
+  }
+  if (Node.isCallExpression(node)) {
+    return unwrapConfig(node.getArguments()[0]);
+  }
+  if (Node.isIdentifier(node)) {
+    const declaration = node.getDefinitionNodes().find(Node.isVariableDeclaration);
+    return unwrapConfig(declaration?.getInitializer());
+  }
+  return node;
+}
+
+/**
+ * Literal value of an expression (objects, arrays, strings, numbers); undefined otherwise
+ */
+function literalValue(node: Node | undefined): unknown {
+  if (!node) return undefined;
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) return node.getLiteralValue();
+  if (Node.isNumericLiteral(node)) return node.getLiteralValue();
+  if (Node.isArrayLiteralExpression(node)) return node.getElements().map(literalValue);
+  if (Node.isParenthesizedExpression(node) || Node.isAsExpression(node) || Node.isSatisfiesExpression(node)) {
+    return literalValue(node.getExpression());
+  }
+  if (Node.isObjectLiteralExpression(node)) {
+    const record: Record<string, unknown> = {};
+    for (const property of node.getProperties()) {
+      if (!Node.isPropertyAssignment(property)) continue;
+      const nameNode = property.getNameNode();
+      const name = Node.isStringLiteral(nameNode) || Node.isNumericLiteral(nameNode)
+        ? String(nameNode.getLiteralValue())
+        : nameNode.getText();
+      record[name] = literalValue(property.getInitializer());
+    }
+    return record;
+  }
+  return undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Pixels of a scale entry; font sizes may be [size, lineHeight | { lineHeight }]
+ */
+function scaleValue(value: unknown): number | null {
+  return toNumber(Array.isArray(value) ? value[0] : value);
+}
+
+function collectColors(value: unknown, path: string[], tokens: ThemeTokens): void {
+  if (isRecord(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      collectColors(child, [...path, key], tokens);
+    }
+    return;
+  }
+
+  const color = toColor(value);
+  if (!color) return;
+  const themePath = toThemePath('theme', path);
+  const existing = tokens.colors.get(color);
+  if (!existing || pathComplexity(themePath) < pathComplexity(existing.path)) {
+    tokens.colors.set(color, { value: color, path: themePath, name: path[path.length - 1] });
+  }
+}
+
+/**
+ * Read the theme scales of a Tailwind config into theme tokens
+ */
+export function parseTailwindConfig(filePath: string): ThemeTokens {
+  const project = new Project({ compilerOptions: { allowJs: true } });
+  const sourceFile = project.addSourceFileAtPath(filePath);
+
+  // module.exports = {...} or export default {...}
+  const moduleExports = sourceFile
+    .getDescendantsOfKind(SyntaxKind.BinaryExpression)
+    .find(expression => expression.getLeft().getText() === 'module.exports');
+  const exportDefault = sourceFile.getExportAssignments().find(assignment => !assignment.isExportEquals());
+  const config = literalValue(unwrapConfig(
+    (moduleExports?.getRight() ?? exportDefault?.getExpression()) as Expression | undefined
+  ));
+  if (!isRecord(config)) {
+    throw new Error(`Could not find a Tailwind config object in file: ${filePath}`);
+  }
+
+  const theme = isRecord(config.theme) ? config.theme : {};
+  const extend = isRecord(theme.extend) ? theme.extend : {};
+
+  const tokens: ThemeTokens = {
+    colors: new Map(),
+    fonts: new Map(),
+    typography: new Map(),
+    spacing: new Map(),
+    radii: new Map(),
+    shadows: new Map(),
+    fontSizes: new Map(),
+  };
+
+  collectColors(theme.colors, ['colors'], tokens);
+  collectColors(extend.colors, ['colors'], tokens);
+
+  for (const scale of Object.keys(SCALES) as Scale[]) {
+    const entries = {
+      ...(isRecord(theme[scale]) ? theme[scale] as Record<string, unknown> : DEFAULT_SCALES[scale]),
+      ...(isRecord(extend[scale]) ? extend[scale] as Record<string, unknown> : {}),
+    };
+    for (const [key, value] of Object.entries(entries)) {
+      const pixels = scaleValue(value);
+      if (pixels !== null) {
+        tokens[SCALES[scale]]!.set(toThemePath('theme', [scale, key]), pixels);
+      }
+    }
+  }
+
+  return tokens;
+}
@@ -1 +1,3 @@
 export { parseThemeFile } from './internal.js';
+export { isDesignTokensDocument, parseDesignTokens, readTokensStudioDirectory } from './design-tokens.js';
+export { isTailwindConfigFile, parseTailwindConfig } from './tailwind-config.js';
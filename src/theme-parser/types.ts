@@ -5,3 +5,4 @@ export type {
   SpacingInfo,
   ThemeTokens,
 } from './internal.js';
+export type { DesignTokensOptions } from './design-tokens.js';
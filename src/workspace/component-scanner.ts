@@ -0,0 +1,137 @@
+/**
+ * Project component scanner
+ *
+ * Reads the exported React components of the project's components directory
+ * with ts-morph: their names, import paths and props (with string literal
+ * unions), for suggesting component mappings.
+ */
+
+import { Node, Project, ts, type Type } from 'ts-morph';
+import { glob } from 'glob';
+import { join } from 'path';
+import type { ProjectComponent, ProjectComponentProp } from '../core/mapping/component-matcher.js';
+
+/**
+ * Module path of a component file: import prefix for src/ and app/, project-relative otherwise
+ */
+function toImportPath(file: string, importPrefix: string): string {
+  const withoutExtension = file
+    .split('\\').join('/')
+    .replace(/\.(ts|tsx|js|jsx)$/, '')
+    .replace(/\/index$/, '');
+  return /^(src|app)\//.test(withoutExtension)
+    ? `${importPrefix}/${withoutExtension.replace(/^(src|app)\//, '')}`
+    : withoutExtension;
+}
+
+function containsJsx(node: Node): boolean {
+  return node.getFirstDescendant(child =>
+    Node.isJsxElement(child) || Node.isJsxSelfClosingElement(child) || Node.isJsxFragment(child)
+  ) !== undefined;
+}
+
+/**
+ * Props type of a component declaration; null when the declaration is not a component
+ * Handles function declarations, arrow/function expressions, FC<Props>
+ * annotations and memo()/forwardRef<Ref, Props>() wrappers.
+ */
+function getPropsType(node: Node): Type | undefined | null {
+  if (Node.isFunctionDeclaration(node) || Node.isArrowFunction(node) || Node.isFunctionExpression(node)) {
+    if (!containsJsx(node)) return null;
+    return node.getParameters()[0]?.getType();
+  }
+
+  if (Node.isVariableDeclaration(node)) {
+    const initializer = node.getInitializer();
+    if (!initializer || !containsJsx(initializer)) return null;
+
+    const annotation = node.getTypeNode();
+    if (annotation && Node.isTypeReference(annotation) && /\bFC$|FunctionComponent$/.test(annotation.getTypeName().getText())) {
+      return annotation.getTypeArguments()[0]?.getType();
+    }
+    return getPropsType(initializer);
+  }
+
+  if (Node.isCallExpression(node)) {
+    const callee = node.getExpression().getText();
+    if (/(^|\.)forwardRef$/.test(callee) && node.getTypeArguments()[1]) {
+      return node.getTypeArguments()[1].getType();
+    }
+    if (/(^|\.)(memo|forwardRef)$/.test(callee) && node.getArguments()[0]) {
+      return getPropsType(node.getArguments()[0]);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Prop kind and literal options of a prop type (undefined stripped from optional props)
+ */
+function describePropType(type: Type): Pick<ProjectComponentProp, 'type' | 'values'> {
+  const parts = type.isUnion() ? type.getUnionTypes().filter(part => !part.isUndefined()) : [type];
+
+  if (parts.length > 0 && parts.every(part => part.isStringLiteral())) {
+    return { type: 'string', values: parts.map(part => String(part.getLiteralValue())) };
+  }
+  if (parts.every(part => part.isBoolean() || part.isBooleanLiteral())) return { type: 'boolean' };
+  if (parts.every(part => part.isString())) return { type: 'string' };
+  if (parts.every(part => part.isNumber() || part.isNumberLiteral())) return { type: 'number' };
+  return { type: 'other' };
+}
+
+function readProps(type: Type, location: Node): ProjectComponentProp[] {
+  return type.getProperties().map(symbol => ({
+    name: symbol.getName(),
+    ...describePropType(symbol.getTypeAtLocation(location)),
+    ...(symbol.isOptional() && { optional: true }),
+  }));
+}
+
+/**
+ * Scan the components directory for exported React components
+ *
+ * Only named exports with a PascalCase name count; tests and stories are skipped.
+ *
+ * @param componentsDir - Directory relative to the project root
+ */
+export async function scanProjectComponents(
+  projectRoot: string,
+  componentsDir: string,
+  importPrefix: string
+): Promise<ProjectComponent[]> {
+  const files = (await glob(`${componentsDir}/**/*.{tsx,jsx}`, {
+    cwd: projectRoot,
+    ignore: ['**/node_modules/**', '**/*.test.*', '**/*.spec.*', '**/*.stories.*', '**/__tests__/**'],
+  })).sort();
+  if (files.length === 0) return [];
+
+  const project = new Project({
+    compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve, strictNullChecks: true },
+    skipAddingFilesFromTsConfig: true,
+    skipLoadingLibFiles: true,
+  });
+  for (const file of files) {
+    project.addSourceFileAtPath(join(projectRoot, file));
+  }
+
+  const components: ProjectComponent[] = [];
+  for (const file of files) {
+    const sourceFile = project.getSourceFileOrThrow(join(projectRoot, file));
+    for (const [name, declarations] of sourceFile.getExportedDeclarations()) {
+      if (!/^[A-Z]/.test(name) || declarations.length === 0) continue;
+
+      const propsType = getPropsType(declarations[0]);
+      if (propsType === null) continue;
+
+      components.push({
+        name,
+        importPath: toImportPath(file, importPrefix),
+        file,
+        props: propsType ? readProps(propsType, declarations[0]) : [],
+      });
+    }
+  }
+
+  return components;
+}
@@ -17,14 +17,17 @@
  * ├── modals/
  * ├── sheets/
  * ├── components/
- * └── icons/                # Standalone icons (SVG files)
+ * ├── icons/                # Standalone icons (SVG files)
+ * └── flows/                # Navigator, param list and barrel per get_flow run
  */
 
 import { mkdir, writeFile, readFile, appendFile, rm } from 'fs/promises';
-import { join, dirname } from 'path';
+import { join, dirname, basename } from 'path';
 // existsSync removed - now using glob for recursive search
 import { glob } from 'glob';
 import { extractNodeIdFromUrl, normalizeFigmaUrl } from '../api/url.js';
+import type { ProjectComponent, SuggestedComponentMapping } from '../core/mapping/component-matcher.js';
+import type { DesignTokens, StylePattern, ScalingStrategy } from '../core/types.js';
 
 // ============================================================================
 // Types
@@ -108,6 +111,8 @@ export interface ElementMeta {
   hasScreenshot: boolean;
   /** Extracted tokens (element-specific) */
   tokensExtracted: number;
+  /** Design tokens of the element, merged across the workspace for token export */
+  tokens?: Omit<DesignTokens, 'variables'>;
   /** Extracted interactions */
   interactions?: Array<{
     /** Node ID */
@@ -154,6 +159,10 @@ export interface ManifestEntry {
   nodeId: string;
   /** Figma URL */
   figmaUrl: string;
+  /** String props of a generated component (instances pass their texts) */
+  props?: string[];
+  /** Variant props of a generated component set: Figma property → prop name */
+  variantProps?: Record<string, string>;
 }
 
 /**
@@ -181,6 +190,32 @@ export interface Manifest {
   components: Record<string, ManifestEntry>;
   /** Icons (standalone) (nodeId → Entry) */
   icons: Record<string, ManifestEntry>;
+  /** Figma component ID → nodeId of the generated entry in components (absent in older manifests) */
+  componentIndex?: Record<string, string>;
+}
+
+/**
+ * Figma component property → project component prop
+ * A string is the prop name; values pass through (True/False as booleans).
+ */
+export type ComponentPropMapping = string | {
+  prop: string;
+  /** Figma value → prop value (e.g., { "Primary": "primary" }) */
+  values?: Record<string, string | number | boolean>;
+};
+
+/**
+ * Existing project component that Figma instances render as
+ */
+export interface ComponentMapping {
+  /** Figma component key, or component / component set name pattern (supports * wildcard) */
+  figma: string;
+  /** Exported component name (e.g., "AppButton") */
+  component: string;
+  /** Module the component is imported from (e.g., "@app/components/AppButton") */
+  importPath: string;
+  /** Figma component property (without the #id suffix) → prop */
+  props?: Record<string, ComponentPropMapping>;
 }
 
 /**
@@ -193,6 +228,9 @@ export interface FigmaConfig {
   
   // Token sources - simple list of all files containing tokens
   tokenFiles: string[];
+
+  // Tokens Studio theme read from multi-set token JSON (written by hand, kept on refresh)
+  tokensTheme?: string;
   
   // Hooks that can be used in generated code
   hooks: {
@@ -206,6 +244,10 @@ export interface FigmaConfig {
     scaleFunctionName?: string; // Name of the scaling function (e.g., 'scale')
   };
   
+  // Responsive scaling: scale functions by axis found in the scale util; unscaledMax and
+  // baseWidth are written by hand (kept on refresh)
+  responsive?: ScalingStrategy;
+
   // Components directory
   componentsDir?: string;
   
@@ -216,7 +258,7 @@ export interface FigmaConfig {
   framework: 'expo' | 'react-native' | 'ignite';
 
   // Style pattern detection
-  stylePattern: 'useTheme' | 'StyleSheet' | 'unistyles';
+  stylePattern: StylePattern;
 
   // Asset detection configuration (icons, images, logos)
   assetDetection?: {
@@ -229,6 +271,15 @@ export interface FigmaConfig {
     /** Force export for nodes matching these name patterns (regex strings) */
     forceExportPatterns?: string[];
   };
+
+  // Figma components rendered as existing project components (written by hand, kept on refresh)
+  componentMappings?: ComponentMapping[];
+
+  // Exported React components of componentsDir, scanned for mapping suggestions
+  projectComponents?: ProjectComponent[];
+
+  // Mappings suggested from generated screens, for review (kept on refresh, never applied)
+  suggestedComponentMappings?: SuggestedComponentMapping[];
 }
 
 /**
@@ -495,6 +546,7 @@ export function createEmptyManifest(projectRoot: string, config?: Manifest['conf
     sheets: {},
     components: {},
     icons: {},
+    componentIndex: {},
   };
 }
 
@@ -705,11 +757,32 @@ export async function getOrCreateFigmaConfig(projectRoot: string): Promise<Figma
 
 /**
  * Re-evaluates project configuration by re-scanning the project.
- * Always does a full replace - no complex merge logic.
+ * Scanned fields are fully replaced - no complex merge logic; only the
+ * hand-written fields (tokens theme, component mappings, responsive
+ * unscaledMax/baseWidth) and the suggestions under review carry over.
  */
 export async function refreshFigmaConfig(projectRoot: string): Promise<FigmaConfig> {
   console.error('🔄 Re-evaluating project configuration...');
+  const previous = await loadFigmaConfig(projectRoot);
   const config = await generateFigmaConfig(projectRoot);
+  if (previous?.tokensTheme) {
+    config.tokensTheme = previous.tokensTheme;
+  }
+  if (previous?.componentMappings) {
+    config.componentMappings = previous.componentMappings;
+  }
+  // Scale function names follow the fresh scan; the thresholds are hand-written
+  const { unscaledMax, baseWidth } = previous?.responsive ?? {};
+  if (unscaledMax !== undefined || baseWidth !== undefined) {
+    config.responsive = {
+      ...config.responsive,
+      ...(unscaledMax !== undefined && { unscaledMax }),
+      ...(baseWidth !== undefined && { baseWidth }),
+    };
+  }
+  if (previous?.suggestedComponentMappings) {
+    config.suggestedComponentMappings = previous.suggestedComponentMappings;
+  }
   await saveFigmaConfig(projectRoot, config);
   console.error('✅ Configuration refreshed');
   return config;
@@ -732,7 +805,7 @@ export async function loadAllProjectTokens(projectRoot: string): Promise<any> {
   const tokenSets = await Promise.all(
     config.tokenFiles.map(async (file) => {
       try {
-        return await extractProjectTokens(join(projectRoot, file));
+        return await extractProjectTokens(join(projectRoot, file), { theme: config.tokensTheme });
       } catch (e) {
         console.error(`⚠️ Failed to load tokens from ${file}:`, e);
         return {};
@@ -743,6 +816,39 @@ export async function loadAllProjectTokens(projectRoot: string): Promise<any> {
   return mergeProjectTokens(tokenSets);
 }
 
+/**
+ * Design tokens recorded in meta.json by every generated element
+ */
+export async function loadWorkspaceTokens(projectRoot: string): Promise<DesignTokens[]> {
+  const manifest = await loadManifest(projectRoot);
+  if (!manifest) return [];
+
+  const tokenSets: DesignTokens[] = [];
+  for (const category of Object.keys(CATEGORY_FOLDERS) as ManifestCategory[]) {
+    for (const entry of Object.values(manifest[category] ?? {})) {
+      const meta = await loadElementMeta(join(projectRoot, entry.folder));
+      if (meta?.tokens) tokenSets.push(meta.tokens);
+    }
+  }
+  return tokenSets;
+}
+
+/**
+ * Whether a JSON file holds DTCG / Tokens Studio tokens (package.json and the like do not)
+ * Set files of a multi-file export are read through its $metadata.json instead.
+ */
+async function isDesignTokensFile(projectRoot: string, file: string, tokenFiles: string[]): Promise<boolean> {
+  if (basename(file) === '$metadata.json') return true;
+  if (tokenFiles.includes(join(dirname(file), '$metadata.json'))) return false;
+
+  try {
+    const { isDesignTokensDocument } = await import('../theme-parser/index.js');
+    return isDesignTokensDocument(JSON.parse(await readFile(join(projectRoot, file), 'utf-8')));
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Generate configuration by scanning the project
  */
@@ -756,8 +862,10 @@ async function generateFigmaConfig(projectRoot: string): Promise<FigmaConfig> {
   let framework: FigmaConfig['framework'] = 'react-native';
   let stylePattern: FigmaConfig['stylePattern'] = 'StyleSheet';
   let hasUnistyles = false;
+  let styleLibrary: FigmaConfig['stylePattern'] | undefined;
   let importPrefix = '@app';
   let scaleFunctionName: string | undefined;
+  let responsive: ScalingStrategy | undefined;
   let componentsDir: string | undefined;
 
   // ============================================================================
@@ -768,6 +876,8 @@ async function generateFigmaConfig(projectRoot: string): Promise<FigmaConfig> {
     '**/unistyles.{ts,js}',
     '**/unistyles.config.{ts,js}',
     'src/unistyles.{ts,js}',
+    // Tailwind config (NativeWind theme)
+    'tailwind.config.{js,cjs,mjs,ts}',
     // Consolidated/generated files (highest priority)
     '**/@(styles|theme)/generated/tokens.{ts,js}',
     '**/@(styles|theme)/compiled/tokens.{ts,js}',
@@ -786,6 +896,12 @@ async function generateFigmaConfig(projectRoot: string): Promise<FigmaConfig> {
     // Theme index files
     '**/@(styles|theme)/index.{ts,js}',
     '**/@(styles|theme)/theme.{ts,js}',
+    // DTCG / Tokens Studio exports (kept only when they contain tokens)
+    '**/$metadata.json',
+    '**/tokens.json',
+    '**/design-tokens.json',
+    '**/*.tokens.json',
+    '**/@(tokens|design-tokens)/*.json',
   ];
 
   for (const pattern of tokenPatterns) {
@@ -797,6 +913,9 @@ async function generateFigmaConfig(projectRoot: string): Promise<FigmaConfig> {
     });
     
     for (const match of matches) {
+      if (match.endsWith('.json') && !(await isDesignTokensFile(projectRoot, match, tokenFiles))) {
+        continue;
+      }
       if (!tokenFiles.includes(match)) {
         // Prefer generated files first
         if (match.includes('generated')) {
@@ -886,18 +1005,28 @@ async function generateFigmaConfig(projectRoot: string): Promise<FigmaConfig> {
         }
       }
       
-      // Fallback: If filename isn't the function, read file content
-      if (!scaleFunctionName) {
-        try {
-          const content = await readFile(join(projectRoot, match), 'utf-8');
-          const exportMatches = content.match(/export (?:const|function) (\w+)/g);
-          if (exportMatches) {
-            const names = exportMatches.map(m => m.split(' ')[2]);
+      // Read the exports: the function name when the filename isn't it, and per-axis functions
+      try {
+        const content = await readFile(join(projectRoot, match), 'utf-8');
+        const exportMatches = content.match(/export (?:const|function) (\w+)/g);
+        if (exportMatches) {
+          const names = exportMatches.map(m => m.split(' ')[2]);
+          if (!scaleFunctionName) {
             scaleFunctionName = names.find(n => ['scale', 'moderateScale', 'RFValue', 'verticalScale'].includes(n)) || names[0];
           }
-        } catch (e) {
-          // Ignore
+
+          // react-native-size-matters style utils: scale widths, verticalScale heights, moderateScale fonts
+          if (names.includes('scale') && (names.includes('verticalScale') || names.includes('moderateScale'))) {
+            responsive = {
+              horizontal: 'scale',
+              vertical: names.includes('verticalScale') ? 'verticalScale' : undefined,
+              moderate: names.includes('moderateScale') ? 'moderateScale' : undefined,
+            };
+            console.error(`   📐 Scaling by axis: ${Object.values(responsive).filter(Boolean).join(', ')}`);
+          }
         }
+      } catch (e) {
+        // Ignore
       }
       
       // Final fallback
@@ -920,6 +1049,21 @@ async function generateFigmaConfig(projectRoot: string): Promise<FigmaConfig> {
     if (deps['expo']) framework = 'expo';
     else if (deps['ignite-cli']) framework = 'ignite';
 
+    // Detect styling libraries with their own styling API (NativeWind classes themed by
+    // tailwind.config, Restyle / Tamagui components, styled-components/native)
+    const styleLibraries: Array<[string, FigmaConfig['stylePattern']]> = [
+      ['nativewind', 'nativewind'],
+      ['@shopify/restyle', 'restyle'],
+      ['tamagui', 'tamagui'],
+      ['@tamagui/core', 'tamagui'],
+      ['styled-components', 'styled-components'],
+    ];
+    const styleLibraryDep = styleLibraries.find(([dep]) => deps[dep]);
+    if (styleLibraryDep) {
+      styleLibrary = styleLibraryDep[1];
+      console.error(`   🎨 Detected ${styleLibraryDep[0]}`);
+    }
+
     // Detect Unistyles
     if (deps['react-native-unistyles']) {
       hasUnistyles = true;
@@ -967,8 +1111,11 @@ async function generateFigmaConfig(projectRoot: string): Promise<FigmaConfig> {
   // ============================================================================
   // 6. DETECT STYLE PATTERN
   // ============================================================================
+  // A style library in package.json beats the pattern guessed at workspace init
   const manifest = await loadManifest(projectRoot);
-  if (manifest?.config.stylePattern) {
+  if (styleLibrary) {
+    stylePattern = styleLibrary;
+  } else if (manifest?.config.stylePattern) {
     stylePattern = manifest.config.stylePattern as FigmaConfig['stylePattern'];
   } else if (hasUnistyles) {
     // Unistyles takes priority - it has its own theme injection
@@ -998,16 +1145,32 @@ async function generateFigmaConfig(projectRoot: string): Promise<FigmaConfig> {
     }
   }
 
+  // ============================================================================
+  // 8. SCAN PROJECT COMPONENTS
+  // ============================================================================
+  let projectComponents: ProjectComponent[] | undefined;
+  if (componentsDir) {
+    try {
+      const { scanProjectComponents } = await import('./component-scanner.js');
+      projectComponents = await scanProjectComponents(projectRoot, componentsDir, importPrefix);
+      console.error(`   🧩 Project components: ${projectComponents.length}`);
+    } catch (error) {
+      console.error('⚠️ Failed to scan project components:', error);
+    }
+  }
+
   return {
     version: '1.0.0',
     projectRoot,
     tokenFiles,
     hooks,
     utils,
+    responsive,
     importPrefix,
     framework,
     stylePattern,
     componentsDir,
+    projectComponents,
   };
 }
 
@@ -1112,6 +1275,12 @@ export async function registerGeneration(
     interactions?: ElementMeta['interactions'];
     componentGroups?: ElementMeta['componentGroups'];
     previousName?: string;
+    /** Figma components whose instances import this element (components category) */
+    componentIds?: string[];
+    props?: string[];
+    variantProps?: Record<string, string>;
+    /** Design tokens extracted from the element */
+    tokens?: DesignTokens;
   } = {}
 ): Promise<GenerationResult> {
   // Get manifest
@@ -1154,6 +1323,13 @@ export async function registerGeneration(
   }
 
   // Save metadata
+  const tokens = options.tokens && {
+    colors: options.tokens.colors,
+    spacing: options.tokens.spacing,
+    radii: options.tokens.radii,
+    typography: options.tokens.typography,
+    shadows: options.tokens.shadows,
+  };
   const meta: ElementMeta = {
     name,
     figmaUrl: normalizedUrl,
@@ -1168,7 +1344,8 @@ export async function registerGeneration(
     totalNodes: options.totalNodes,
     instanceCount: options.instanceCount,
     hasScreenshot,
-    tokensExtracted: 0,
+    tokensExtracted: tokens ? Object.values(tokens).reduce((count, values) => count + Object.keys(values).length, 0) : 0,
+    tokens,
     interactions: options.interactions,
     componentGroups: options.componentGroups,
   };
@@ -1182,9 +1359,12 @@ export async function registerGeneration(
     generatedAt: new Date().toISOString(),
     nodeId,
     figmaUrl: normalizedUrl,
+    ...(category === 'components' && options.props?.length && { props: options.props }),
+    ...(category === 'components' && options.variantProps && { variantProps: options.variantProps }),
   };
 
   manifest[category][nodeId] = entry;
+  updateComponentIndex(manifest, nodeId, category === 'components' ? options.componentIds ?? [] : []);
   await saveManifest(projectRoot, manifest);
 
   // Build result
@@ -1210,6 +1390,33 @@ export async function registerGeneration(
   };
 }
 
+/**
+ * Point the component IDs at an entry, dropping the IDs it no longer covers
+ */
+function updateComponentIndex(manifest: Manifest, nodeId: string, componentIds: string[]): void {
+  const index = manifest.componentIndex ?? {};
+  for (const [componentId, entryId] of Object.entries(index)) {
+    if (entryId === nodeId) delete index[componentId];
+  }
+  for (const componentId of componentIds) {
+    index[componentId] = nodeId;
+  }
+  manifest.componentIndex = index;
+}
+
+/**
+ * Generated components by Figma component ID
+ * Index entries whose component was removed from the manifest are skipped.
+ */
+export function getGeneratedComponents(manifest: Manifest): Record<string, ManifestEntry> {
+  const components: Record<string, ManifestEntry> = {};
+  for (const [componentId, nodeId] of Object.entries(manifest.componentIndex ?? {})) {
+    const entry = manifest.components[nodeId];
+    if (entry) components[componentId] = entry;
+  }
+  return components;
+}
+
 /**
  * Update config
  */
@@ -1233,6 +1440,21 @@ export function getEntriesByCategory(
   return Object.entries(entries).map(([url, entry]) => ({ url, entry }));
 }
 
+/**
+ * Route names of generated screens, modals and sheets by Figma node ID
+ * Prototype navigation destinations resolve through this map.
+ */
+export function getNavigationRoutes(manifest: Manifest): Record<string, string> {
+  const routes: Record<string, string> = {};
+  const categories: ManifestCategory[] = ['screens', 'modals', 'sheets'];
+  for (const category of categories) {
+    for (const entry of Object.values(manifest[category])) {
+      routes[entry.nodeId] = entry.name;
+    }
+  }
+  return routes;
+}
+
 // ============================================================================
 // LLM Formatting
 // ============================================================================
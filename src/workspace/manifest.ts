@@ -9,4 +9,6 @@ export {
   findEntryByUrl,
   updateManifestConfig,
   getEntriesByCategory,
+  getNavigationRoutes,
+  getGeneratedComponents,
 } from './internal.js';
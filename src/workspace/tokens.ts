@@ -1 +1 @@
-export { loadAllProjectTokens } from './internal.js';
+export { loadAllProjectTokens, loadWorkspaceTokens } from './internal.js';
@@ -6,5 +6,7 @@ export type {
   ManifestEntry,
   Manifest,
   FigmaConfig,
+  ComponentMapping,
+  ComponentPropMapping,
   GenerationResult,
 } from './internal.js';
@@ -0,0 +1,85 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FigmaCache } from '../../src/api/cache.js';
+import { FigmaClient } from '../../src/api/client.js';
+
+describe('api/cache', () => {
+  let dir: string;
+  let cache: FigmaCache;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'figma-cache-'));
+    cache = new FigmaCache({ cacheDir: dir });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should invalidate entries stored for another file version', () => {
+    const key = { fileKey: 'ABC', endpoint: 'styles' };
+    cache.set(key, { a: 1 }, undefined, 'v1');
+
+    expect(cache.get(key, 'v1')).toEqual({ a: 1 });
+    expect(cache.get(key, 'v2')).toBeNull();
+    expect(cache.get(key, 'v1')).toBeNull();
+  });
+
+  it('should fall back to TTL when no version is given', () => {
+    const key = { fileKey: 'ABC', endpoint: 'styles' };
+    cache.set(key, { a: 1 }, -1);
+    expect(cache.get(key)).toBeNull();
+
+    cache.set(key, { a: 2 });
+    expect(cache.get(key)).toEqual({ a: 2 });
+  });
+
+  describe('FigmaClient with cache', () => {
+    function stubApi(client: FigmaClient, version: { value: string }) {
+      const api = {
+        getFile: vi.fn(async () => ({ version: version.value })),
+        getFileNodes: vi.fn(async () => ({
+          nodes: { '1:2': { document: { id: '1:2', name: 'Screen', type: 'FRAME' } } },
+        })),
+        getFileStyles: vi.fn(async () => ({ meta: { styles: [] } })),
+      };
+      (client as any).api = api;
+      return api;
+    }
+
+    it('should reuse cached nodes while the file version is unchanged', async () => {
+      const version = { value: 'v1' };
+      const first = new FigmaClient('token', { cache });
+      const firstApi = stubApi(first, version);
+      await first.fetchNodes('ABC', ['1:2']);
+
+      const second = new FigmaClient('token', { cache });
+      const secondApi = stubApi(second, version);
+      const result = await second.fetchNodes('ABC', ['1:2']);
+
+      expect(firstApi.getFileNodes).toHaveBeenCalledTimes(1);
+      expect(secondApi.getFileNodes).not.toHaveBeenCalled();
+      expect(result.nodes['1:2'].name).toBe('Screen');
+    });
+
+    it('should refetch after the file version changes or when forced', async () => {
+      const version = { value: 'v1' };
+      const first = new FigmaClient('token', { cache });
+      stubApi(first, version);
+      await first.fetchStyles('ABC');
+
+      version.value = 'v2';
+      const edited = new FigmaClient('token', { cache });
+      const editedApi = stubApi(edited, version);
+      await edited.fetchStyles('ABC');
+      expect(editedApi.getFileStyles).toHaveBeenCalledTimes(1);
+
+      const forced = new FigmaClient('token', { cache, forceRefresh: true });
+      const forcedApi = stubApi(forced, version);
+      await forced.fetchStyles('ABC');
+      expect(forcedApi.getFileStyles).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { transformNode, transformReactions } from '../../src/api/transformers.js';
+
+describe('transformReactions', () => {
+  it('should flatten reactions into one entry per action', () => {
+    const reactions = transformReactions({
+      reactions: [
+        {
+          trigger: { type: 'ON_CLICK' },
+          actions: [
+            { type: 'NODE', destinationId: '2:1', navigation: 'NAVIGATE', transition: null },
+            { type: 'URL', url: 'https://example.com' },
+          ],
+        },
+        { trigger: { type: 'ON_HOVER' }, actions: [{ type: 'NODE', destinationId: '3:1', navigation: 'OVERLAY' }] },
+      ],
+    });
+
+    expect(reactions).toEqual([
+      { trigger: 'ON_CLICK', action: 'NAVIGATE', destinationId: '2:1', url: undefined },
+      { trigger: 'ON_CLICK', action: 'URL', destinationId: undefined, url: 'https://example.com' },
+      { trigger: 'ON_HOVER', action: 'OVERLAY', destinationId: '3:1', url: undefined },
+    ]);
+  });
+
+  it('should read the deprecated single action field', () => {
+    const reactions = transformReactions({
+      reactions: [{ trigger: { type: 'ON_CLICK' }, action: { type: 'BACK' } }],
+    });
+
+    expect(reactions).toEqual([{ trigger: 'ON_CLICK', action: 'BACK', destinationId: undefined, url: undefined }]);
+  });
+
+  it('should skip reactions without trigger or action kind', () => {
+    expect(transformReactions({ reactions: [{ actions: [{ type: 'BACK' }] }] })).toEqual([]);
+    expect(transformReactions({ reactions: [{ trigger: { type: 'ON_CLICK' }, actions: [{ type: 'NODE' }] }] })).toEqual([]);
+    expect(transformReactions({})).toEqual([]);
+  });
+});
+
+describe('transformNode reactions', () => {
+  it('should carry reactions on the node only when present', () => {
+    const base = { id: '1:1', name: 'Card', type: 'FRAME', absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 100 } };
+
+    const node = transformNode({
+      ...base,
+      reactions: [{ trigger: { type: 'ON_CLICK' }, actions: [{ type: 'NODE', destinationId: '2:1', navigation: 'SWAP' }] }],
+    });
+
+    expect(node.reactions).toEqual([{ trigger: 'ON_CLICK', action: 'SWAP', destinationId: '2:1', url: undefined }]);
+    expect(transformNode({ ...base, reactions: [] }).reactions).toBeUndefined();
+  });
+});
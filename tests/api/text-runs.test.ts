@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { transformNode, transformTextRuns } from '../../src/api/transformers.js';
+
+const baseText = {
+  id: '1:2',
+  name: 'Price',
+  type: 'TEXT',
+  absoluteBoundingBox: { x: 0, y: 0, width: 120, height: 20 },
+  style: { fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeightPx: 20, letterSpacing: 0 },
+  fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+};
+
+describe('transformTextRuns', () => {
+  it('should split text into runs by character style override', () => {
+    const runs = transformTextRuns({
+      ...baseText,
+      characters: '$49 $79',
+      // Shorter than the text: trailing characters use the base style
+      characterStyleOverrides: [1, 1, 1, 0, 2, 2],
+      styleOverrideTable: {
+        1: { fontWeight: 700 },
+        2: { textDecoration: 'STRIKETHROUGH', fills: [{ type: 'SOLID', color: { r: 0.5, g: 0.5, b: 0.5, a: 1 } }] },
+      },
+    });
+
+    expect(runs?.map((run) => run.text)).toEqual(['$49', ' ', '$7', '9']);
+    expect(runs?.[0].typography).toMatchObject({ fontWeight: 700, fontSize: 16 });
+    expect(runs?.[0].fills?.[0]).toMatchObject({ type: 'solid', color: { hex: '#000000' } });
+    expect(runs?.[1].typography).toBeUndefined();
+    expect(runs?.[2].typography?.textDecoration).toBe('line-through');
+    expect(runs?.[2].fills?.[0]).toMatchObject({ color: { hex: '#808080' } });
+    expect(runs?.[3].typography).toBeUndefined();
+  });
+
+  it('should return null for single-style text', () => {
+    expect(transformTextRuns({ ...baseText, characters: 'Plain' })).toBeNull();
+    // Overrides that resolve to the base style do not split the text
+    expect(transformTextRuns({
+      ...baseText,
+      characters: 'Plain',
+      characterStyleOverrides: [1, 1],
+      styleOverrideTable: { 1: { fontWeight: 400 } },
+    })).toBeNull();
+  });
+
+  it('should attach runs to transformed text nodes', () => {
+    const node = transformNode({
+      ...baseText,
+      characters: 'Sign in / Register',
+      characterStyleOverrides: [1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 1, 1, 1, 1, 1, 1, 1, 1],
+      styleOverrideTable: { 1: { textDecoration: 'UNDERLINE' } },
+    });
+
+    expect(node.textRuns?.map((run) => run.text)).toEqual(['Sign in', ' / ', 'Register']);
+    expect(node.typography?.textDecoration).toBeUndefined();
+  });
+});
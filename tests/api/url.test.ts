@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import {
+  buildFigmaUrl,
   extractNodeIdFromUrl,
   normalizeFigmaUrl,
   normalizeNodeId,
@@ -36,4 +37,11 @@ describe('api/url', () => {
     expect(extractNodeIdFromUrl('https://www.figma.com/design/ABC123?node-id=1-2')).toBe('1:2');
     expect(extractNodeIdFromUrl('https://www.figma.com/design/ABC123', 'missing')).toBe('missing');
   });
+
+  it('should build design URL that round-trips through parser', () => {
+    const url = buildFigmaUrl('ABC123', '10:20');
+    expect(url).toBe('https://www.figma.com/design/ABC123?node-id=10-20');
+    expect(parseFigmaUrl(url)).toEqual({ fileKey: 'ABC123', nodeId: '10:20' });
+    expect(buildFigmaUrl('ABC123')).toBe('https://www.figma.com/design/ABC123');
+  });
 });
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { transformVariables } from '../../src/api/transformers.js';
+import { FigmaClient } from '../../src/api/client.js';
+
+const meta = {
+  variableCollections: {
+    'VariableCollectionId:1': {
+      id: 'VariableCollectionId:1',
+      name: 'Primitives',
+      modes: [{ modeId: '1:0', name: 'Value' }],
+      defaultModeId: '1:0',
+    },
+    'VariableCollectionId:2': {
+      id: 'VariableCollectionId:2',
+      name: 'Semantic',
+      modes: [
+        { modeId: '2:0', name: 'Light' },
+        { modeId: '2:1', name: 'Dark' },
+      ],
+      defaultModeId: '2:0',
+    },
+  },
+  variables: {
+    'VariableID:1': {
+      id: 'VariableID:1',
+      name: 'blue/500',
+      variableCollectionId: 'VariableCollectionId:1',
+      resolvedType: 'COLOR',
+      valuesByMode: { '1:0': { r: 0, g: 0, b: 1, a: 1 } },
+    },
+    'VariableID:2': {
+      id: 'VariableID:2',
+      name: 'colors/primary',
+      variableCollectionId: 'VariableCollectionId:2',
+      resolvedType: 'COLOR',
+      valuesByMode: {
+        '2:0': { type: 'VARIABLE_ALIAS', id: 'VariableID:1' },
+        '2:1': { r: 1, g: 1, b: 1, a: 0.5 },
+      },
+    },
+    'VariableID:3': {
+      id: 'VariableID:3',
+      name: 'spacing/md',
+      variableCollectionId: 'VariableCollectionId:1',
+      resolvedType: 'FLOAT',
+      valuesByMode: { '1:0': 16 },
+    },
+    'VariableID:4': {
+      id: 'VariableID:4',
+      name: 'flags/compact',
+      variableCollectionId: 'VariableCollectionId:1',
+      resolvedType: 'BOOLEAN',
+      valuesByMode: { '1:0': false },
+    },
+  },
+};
+
+describe('api/variables', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should parse collections, modes and resolve aliases', () => {
+    const result = transformVariables(meta);
+
+    expect(result.collections['VariableCollectionId:2'].modes.map((m) => m.name)).toEqual(['Light', 'Dark']);
+    expect(result.variables['VariableID:2'].valuesByMode['2:0']).toEqual({
+      hex: '#0000FF',
+      rgba: { r: 0, g: 0, b: 255, a: 1 },
+    });
+    expect(result.variables['VariableID:2'].valuesByMode['2:1']).toMatchObject({ hex: '#FFFFFF80' });
+    expect(result.variables['VariableID:3'].valuesByMode['1:0']).toBe(16);
+    expect(result.variables['VariableID:4'].valuesByMode['1:0']).toBe(false);
+    expect(Object.keys(result.colors)).toEqual(['VariableID:1', 'VariableID:2']);
+    expect(result.colors['VariableID:2'].collectionName).toBe('Semantic');
+  });
+
+  it('should return parsed variables from fetchVariables', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, status: 200, json: async () => ({ meta }) })));
+
+    const result = await new FigmaClient('token').fetchVariables('ABC');
+
+    expect(result.success).toBe(true);
+    expect(result.variables['VariableID:3'].name).toBe('spacing/md');
+  });
+
+  it('should report the Enterprise requirement on 403', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: false, status: 403, statusText: 'Forbidden' })));
+
+    const result = await new FigmaClient('token').fetchVariables('ABC');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Enterprise');
+    expect(result.variables).toEqual({});
+  });
+});
@@ -298,4 +298,34 @@ describe('detectLists', () => {
     const hints = detectLists(root);
     expect(hints).toHaveLength(0);
   });
+
+  it('should detect wrapped rows spanning several lines as grids', () => {
+    const wrapLayout = { ...baseLayout, type: 'row' as const, wrap: true, wrapGap: 8 };
+
+    const items: ContainerIR[] = Array.from({ length: 5 }, (_, i) => ({
+      id: `tile_${i}`,
+      name: 'Tile',
+      semanticType: 'Container' as const,
+      boundingBox: { x: (i % 3) * 108, y: Math.floor(i / 3) * 58, width: 100, height: 50 },
+      styleRef: 'style_tile',
+      layout: baseLayout,
+      children: [],
+    }));
+
+    const root: ContainerIR = {
+      id: 'grid',
+      name: 'Gallery',
+      semanticType: 'Container',
+      boundingBox: { x: 0, y: 0, width: 320, height: 108 },
+      styleRef: 'style_grid',
+      layout: wrapLayout,
+      children: items,
+    };
+
+    const hints = detectLists(root);
+
+    expect(hints).toHaveLength(1);
+    expect(hints[0].orientation).toBe('vertical');
+    expect(hints[0].numColumns).toBe(3);
+  });
 });
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { detectInputTraits } from '../../../src/core/extraction/content-pattern.js';
+
+describe('detectInputTraits', () => {
+  it('should infer email keyboard and autofill', () => {
+    expect(detectInputTraits('Enter your email')).toEqual({
+      keyboardType: 'email-address',
+      autoComplete: 'email',
+      textContentType: 'emailAddress',
+      autoCapitalize: 'none',
+    });
+    expect(detectInputTraits('name@example.com')?.keyboardType).toBe('email-address');
+  });
+
+  it('should mark password fields as secure', () => {
+    expect(detectInputTraits('Password')).toMatchObject({ secureTextEntry: true, autoComplete: 'password', textContentType: 'password' });
+    expect(detectInputTraits('Confirm password')).toMatchObject({ secureTextEntry: true, autoComplete: 'new-password', textContentType: 'newPassword' });
+    expect(detectInputTraits('Пароль')?.secureTextEntry).toBe(true);
+  });
+
+  it('should infer phone pad from labels and numbers', () => {
+    expect(detectInputTraits('Phone number')?.keyboardType).toBe('phone-pad');
+    expect(detectInputTraits('+7 999 123-45-67')).toMatchObject({ keyboardType: 'phone-pad', textContentType: 'telephoneNumber' });
+  });
+
+  it('should not read postal codes as emails', () => {
+    expect(detectInputTraits('Почтовый индекс')?.textContentType).toBe('postalCode');
+  });
+
+  it('should fall back to later texts', () => {
+    expect(detectInputTraits('Type here', 'Email')?.keyboardType).toBe('email-address');
+    expect(detectInputTraits(undefined, 'Search')).toBeNull();
+  });
+
+  it('should return null for unrelated text', () => {
+    expect(detectInputTraits('Hello World')).toBeNull();
+    expect(detectInputTraits('')).toBeNull();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { generateComponent, generateComponentMultiFile } from '../../../src/core/generation/component-builder.js';
-import type { ScreenIR, ContainerIR, TextIR, ButtonIR, ComponentIR, ImageIR } from '../../../src/core/types.js';
+import type { ScreenIR, ContainerIR, TextIR, ButtonIR, ComponentIR, ImageIR, InputIR, ControlIR } from '../../../src/core/types.js';
 import type { TokenMappings } from '../../../src/core/mapping/token-matcher.js';
 import type { DetectionResult } from '../../../src/core/detection/types.js';
 
@@ -96,6 +96,54 @@ describe('generateComponent', () => {
     expect(result.code).toContain('title: {');
   });
 
+  it('should build styles from the active theme when variables have modes', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Profile',
+      root: {
+        id: '1:1',
+        name: 'container',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'container',
+        layout: baseLayout,
+        children: [],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {
+          container: { id: 'container', backgroundColor: '#FFFFFF', variables: { backgroundColor: 'colors/surface' } },
+        },
+        tokens: {
+          colors: {},
+          spacing: {},
+          radii: {},
+          typography: {},
+          shadows: {},
+          variables: { 'colors/surface': 'colors' },
+        },
+      },
+    };
+
+    const result = generateComponent(
+      screen,
+      { ...emptyMappings, variables: { 'colors/surface': 'theme.colors.surface' } },
+      {
+        modeThemes: {
+          collectionName: 'Semantic',
+          modes: ['Light', 'Dark'],
+          tokens: { 'colors/surface': { category: 'colors', values: { Light: '#FFFFFF', Dark: '#000000' } } },
+        },
+      }
+    );
+
+    expect(result.code).toContain("import { useTheme, type Theme } from './tokens';");
+    expect(result.code).toContain('const createStyles = (theme: Theme) => StyleSheet.create({');
+    expect(result.code).toContain('backgroundColor: theme.colors.surface');
+    expect(result.code).toContain('  const styles = useStyles();');
+    expect(result.code).toContain('React.useMemo(() => createStyles(theme), [theme])');
+    expect(result.code).not.toContain('const styles = StyleSheet.create');
+  });
+
   it('should use custom component name when provided', () => {
     const screen: ScreenIR = {
       id: 'screen_1',
@@ -739,6 +787,530 @@ describe('generateComponent', () => {
     expect(result.code).toContain('source={statusIcon}');
     expect(result.code).not.toContain('via.placeholder.com');
   });
+
+  it('should expose input fields as optional value and change handler props', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Login',
+      root: {
+        id: '1:1',
+        name: 'container',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'container',
+        layout: baseLayout,
+        children: [
+          {
+            id: '1:2',
+            name: 'Email Field',
+            semanticType: 'Input',
+            boundingBox: baseBoundingBox,
+            styleRef: 'emailField',
+            placeholder: 'Enter your email',
+            placeholderId: '1:3',
+            keyboardType: 'email-address',
+            layout: baseLayout,
+            children: [
+              {
+                id: '1:3',
+                name: 'Placeholder',
+                semanticType: 'Text',
+                boundingBox: baseBoundingBox,
+                styleRef: 'placeholder',
+                text: 'Enter your email',
+              } as TextIR,
+            ],
+          } as InputIR,
+        ],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {},
+        tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+    };
+
+    const result = generateComponent(screen, emptyMappings);
+
+    expect(result.code).toContain('email?: string;');
+    expect(result.code).toContain('onChangeEmail?: (text: string) => void;');
+    expect(result.code).toContain('{ email, onChangeEmail }: LoginProps');
+    expect(result.code).toContain('value={email}');
+    expect(result.code).toContain('onChangeText={onChangeEmail}');
+    expect(result.code).not.toContain('placeholder?: string');
+    expect(result.code).toMatch(/import \{[^}]*TextInput[^}]*\} from 'react-native'/);
+  });
+
+  it('should expose controls as typed value props with defaults and change handlers', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Settings',
+      root: {
+        id: '1:1',
+        name: 'container',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'container',
+        layout: baseLayout,
+        children: [
+          {
+            id: '1:2',
+            name: 'Notifications Switch',
+            semanticType: 'Control',
+            boundingBox: baseBoundingBox,
+            styleRef: 'notificationsSwitch',
+            control: 'switch',
+            value: true,
+            layout: baseLayout,
+            children: [],
+          } as ControlIR,
+          {
+            id: '1:3',
+            name: 'Volume Slider',
+            semanticType: 'Control',
+            boundingBox: baseBoundingBox,
+            styleRef: 'volumeSlider',
+            control: 'slider',
+            value: 40,
+            max: 100,
+            layout: baseLayout,
+            children: [],
+          } as ControlIR,
+        ],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {},
+        tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+    };
+
+    const result = generateComponent(screen, emptyMappings);
+
+    expect(result.code).toContain('notifications?: boolean;');
+    expect(result.code).toContain('onChangeNotifications?: (value: boolean) => void;');
+    expect(result.code).toContain('volume?: number;');
+    expect(result.code).toContain('onChangeVolume?: (value: number) => void;');
+    expect(result.code).toContain('{ notifications = true, onChangeNotifications, volume = 40, onChangeVolume }: SettingsProps');
+    expect(result.code).toContain('onValueChange={onChangeNotifications}');
+    expect(result.code).toMatch(/import \{[^}]*Switch[^}]*\} from 'react-native'/);
+    expect(result.code).toContain("import Slider from '@react-native-community/slider';");
+  });
+
+  it('should wire prototype navigation through useNavigation', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Home',
+      root: {
+        id: '1:1',
+        name: 'container',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'container',
+        layout: baseLayout,
+        children: [
+          {
+            id: '1:2',
+            name: 'Open Profile',
+            semanticType: 'Button',
+            boundingBox: baseBoundingBox,
+            styleRef: 'openProfile',
+            label: 'Profile',
+            variant: 'primary',
+            interaction: { action: 'navigate', destinationId: '2:1' },
+          } as ButtonIR,
+        ],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {},
+        tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+    };
+
+    const result = generateComponent(screen, emptyMappings, { navigationTargets: { '2:1': 'ProfileScreen' } });
+
+    expect(result.code).toContain("import { useNavigation, type NavigationProp, type ParamListBase } from '@react-navigation/native';");
+    expect(result.code).toContain('  const navigation = useNavigation<NavigationProp<ParamListBase>>();');
+    expect(result.code).toContain("onPress={() => navigation.navigate('ProfileScreen')}");
+
+    // Without resolved destinations nothing calls navigation, so no hook
+    const unresolved = generateComponent(screen, emptyMappings, { navigationTargets: {} });
+    expect(unresolved.code).not.toContain('useNavigation');
+    expect(unresolved.code).toContain('TODO: navigate to Figma node 2:1');
+  });
+
+  it('should wire form screens to react-hook-form when forms are enabled', () => {
+    const field = (id: string, name: string, keyboardType?: InputIR['keyboardType']): InputIR => ({
+      id,
+      name,
+      semanticType: 'Input',
+      boundingBox: baseBoundingBox,
+      styleRef: name.toLowerCase(),
+      placeholder: name,
+      keyboardType,
+      layout: baseLayout,
+      children: [],
+    });
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Login',
+      root: {
+        id: '1:1',
+        name: 'container',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'container',
+        layout: baseLayout,
+        children: [
+          field('1:2', 'Email', 'email-address'),
+          field('1:3', 'Password'),
+          {
+            id: '1:4',
+            name: 'Submit',
+            semanticType: 'Button',
+            boundingBox: baseBoundingBox,
+            styleRef: 'submit',
+            label: 'Log in',
+            variant: 'primary',
+          } as ButtonIR,
+        ],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {},
+        tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+    };
+
+    const plain = generateComponent(screen, emptyMappings);
+    expect(plain.code).not.toContain('useForm');
+
+    const result = generateComponent(screen, emptyMappings, { forms: true });
+    expect(result.code).toContain("import { Controller, useForm } from 'react-hook-form';");
+    expect(result.code).toContain("import { zodResolver } from '@hookform/resolvers/zod';");
+    expect(result.code).toContain('onSubmit: (values: LoginFormValues) => void;');
+    expect(result.code).toContain('export function Login({ onSubmit }: LoginProps)');
+    expect(result.code).toContain("email: z.string().min(1, 'Email is required').email('Invalid email'),");
+    expect(result.code).toContain('name="email"');
+    expect(result.code).toContain('onChangeText={onChange}');
+    expect(result.code).toContain('onPress={handleSubmit(onSubmit)}');
+    expect(result.code).not.toContain('onChangeEmail');
+  });
+
+  it('should type component set variants as union props with the default variant as default', () => {
+    const screen: ScreenIR = {
+      id: '5:1',
+      name: 'Badge',
+      root: {
+        id: '5:2',
+        name: 'Badge',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'badge',
+        layout: baseLayout,
+        children: [],
+        variantStyles: {
+          badge: [
+            { prop: 'size', value: 'L', styleRef: 'badgeSizeL' },
+            { prop: 'muted', value: true, styleRef: 'badgeMutedTrue' },
+          ],
+        },
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {
+          badge: { id: 'badge', backgroundColor: '#3b82f6', width: 24 },
+          badgeSizeL: { id: 'badgeSizeL', backgroundColor: '#3b82f6', width: 32 },
+          badgeMutedTrue: { id: 'badgeMutedTrue', backgroundColor: '#9ca3af', width: 24 },
+        },
+        tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+      variantProps: [
+        { name: 'size', figmaName: 'Size', options: ['S', 'M', 'L'], defaultValue: 'M' },
+        { name: 'muted', figmaName: 'Muted', options: ['False', 'True'], defaultValue: 'False', isBoolean: true },
+        { name: 'state', figmaName: 'State', options: ['Default', 'Pressed'], defaultValue: 'Default' },
+      ],
+    };
+
+    const result = generateComponent(screen, emptyMappings);
+
+    expect(result.code).toContain("size?: 'S' | 'M' | 'L';");
+    expect(result.code).toContain('muted?: boolean;');
+    expect(result.code).toContain("state?: 'Default' | 'Pressed';");
+    expect(result.code).toContain("export function Badge({ size = 'M', muted = false }: BadgeProps)");
+    expect(result.code).toContain("style={[styles.badge, size === 'L' && styles.badgeSizeL, muted && styles.badgeMutedTrue]}");
+    expect(result.code).toMatch(/badgeSizeL: \{\n\s+width: 32,\n\s+\},/);
+  });
+
+  it('should emit NativeWind classes named after matched theme tokens', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Promo',
+      root: {
+        id: '1:1',
+        name: 'card',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'card',
+        layout: { ...baseLayout, padding: { top: 8, right: 16, bottom: 8, left: 16 } },
+        children: [
+          {
+            id: '1:2',
+            name: 'title',
+            semanticType: 'Text',
+            boundingBox: baseBoundingBox,
+            styleRef: 'title',
+            text: 'Sale',
+          } as TextIR,
+        ],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {
+          card: { id: 'card', backgroundColor: '#3b82f6', borderRadius: 12 },
+          title: {
+            id: 'title',
+            width: 137,
+            typography: {
+              fontFamily: 'Inter',
+              fontSize: 18,
+              fontWeight: 700,
+              lineHeight: 24,
+              letterSpacing: 0,
+              textAlign: 'left',
+              color: '#1f2937',
+            },
+          },
+        },
+        tokens: {
+          colors: { color_0: '#3b82f6', color_1: '#1f2937' },
+          spacing: {},
+          radii: {},
+          typography: {},
+          shadows: {},
+        },
+      },
+    };
+
+    const mappings: TokenMappings = {
+      colors: { '#3B82F6': "theme.colors.brand['500']" },
+      spacing: { 8: "theme.spacing['2']", 16: "theme.spacing['4']" },
+      radii: { 12: 'theme.borderRadius.xl' },
+      typography: {},
+      shadows: {},
+      fontSizes: { 18: 'theme.fontSize.lg' },
+    };
+
+    const result = generateComponent(screen, mappings, { stylePattern: 'nativewind', hasProjectTheme: true });
+
+    expect(result.code).toContain('<View className="px-4 py-2 flex-col items-start rounded-xl bg-brand-500">');
+    expect(result.code).toContain(`<Text className="w-[137px] font-['Inter'] text-lg font-bold leading-[24px] text-[#1F2937]">`);
+    expect(result.code).not.toContain('StyleSheet');
+    expect(result.code).not.toContain('useTheme');
+    expect(result.unmappedTokens.colors).toEqual(['#1f2937']);
+  });
+
+  it('should keep styles NativeWind cannot express in StyleSheet with raw values without a theme import', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Elevated',
+      root: {
+        id: '1:1',
+        name: 'card',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'card',
+        layout: baseLayout,
+        children: [],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {
+          card: {
+            id: 'card',
+            backgroundColor: '#3b82f6',
+            shadow: { color: '#000000', offsetX: 0, offsetY: 2, blur: 4, spread: 0 },
+          },
+        },
+        tokens: { colors: { color_0: '#3b82f6' }, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+    };
+
+    const mappings: TokenMappings = {
+      ...emptyMappings,
+      colors: { '#3B82F6': "theme.colors.brand['500']" },
+    };
+
+    const result = generateComponent(screen, mappings, { stylePattern: 'nativewind', hasProjectTheme: false });
+
+    expect(result.code).toContain("<View style={styles.card} />");
+    expect(result.code).toContain("backgroundColor: '#3B82F6',");
+    expect(result.code).toContain('shadowRadius: 4,');
+    expect(result.code).toContain("import { StyleSheet, View } from 'react-native';");
+  });
+
+  it('should keep theme tokens and scaling in the StyleSheet styles a library leaves', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Profile',
+      root: {
+        id: '1:1',
+        name: 'card',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'card',
+        layout: { ...baseLayout, padding: { top: 12, right: 16, bottom: 12, left: 16 } },
+        children: [
+          {
+            id: '1:2',
+            name: 'avatar',
+            semanticType: 'Image',
+            boundingBox: baseBoundingBox,
+            styleRef: 'avatar',
+            imageRef: '',
+          } as ImageIR,
+        ],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {
+          card: { id: 'card', backgroundColor: '#3b82f6' },
+          avatar: { id: 'avatar', width: 40, height: 40, borderRadius: 12, borderColor: '#3b82f6', borderWidth: 2 },
+        },
+        tokens: { colors: { color_0: '#3b82f6' }, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+    };
+
+    const mappings: TokenMappings = {
+      ...emptyMappings,
+      colors: { '#3B82F6': 'theme.colors.primary' },
+    };
+
+    const result = generateComponent(screen, mappings, {
+      stylePattern: 'restyle',
+      hasProjectTheme: true,
+      themeImportPath: '@app/theme',
+      scaleFunction: 'scale',
+      scaleFunctionImportPath: '@app/utils/scale',
+      scaling: { vertical: 'verticalScale' },
+    });
+
+    // Library props reference the token by name and are not scaled
+    expect(result.code).toContain('backgroundColor="primary" style={{ paddingHorizontal: 16, paddingVertical: 12 }}>');
+    expect(result.code).toContain('style={styles.avatar}');
+    expect(result.code).toContain('borderColor: theme.colors.primary,');
+    expect(result.code).toContain('width: scale(40),');
+    expect(result.code).toContain('height: verticalScale(40),');
+    expect(result.code).toContain("import { theme } from '@app/theme';");
+    expect(result.code).toContain("import { scale, verticalScale } from '@app/utils/scale';");
+  });
+
+  it('should declare styled components and drop the imports they replace', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Promo',
+      root: {
+        id: '1:1',
+        name: 'card',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'card',
+        layout: { ...baseLayout, padding: { top: 16, right: 16, bottom: 16, left: 16 } },
+        children: [
+          {
+            id: '1:2',
+            name: 'title',
+            semanticType: 'Text',
+            boundingBox: baseBoundingBox,
+            styleRef: 'title',
+            text: 'Sale',
+          } as TextIR,
+        ],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {
+          card: { id: 'card', backgroundColor: '#3b82f6' },
+          title: { id: 'title', typography: { fontFamily: 'Inter', fontSize: 18, fontWeight: 700, lineHeight: 24, letterSpacing: 0, textAlign: 'left', color: '#1f2937' } },
+        },
+        tokens: { colors: { color_0: '#3b82f6' }, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+    };
+
+    const mappings: TokenMappings = {
+      ...emptyMappings,
+      colors: { '#3B82F6': 'theme.colors.primary' },
+      spacing: { 16: 'theme.spacing.md' },
+    };
+
+    const result = generateComponent(screen, mappings, { stylePattern: 'styled-components', hasProjectTheme: true });
+
+    expect(result.code).toContain('<StyledCard>');
+    expect(result.code).toContain('<StyledTitle>{title}</StyledTitle>');
+    expect(result.code).toContain('  padding: ${({ theme }) => theme.spacing.md}px;');
+    expect(result.code).toContain("import styled from 'styled-components/native';");
+    expect(result.code).not.toContain("from 'react-native'");
+    expect(result.code).not.toContain('StyleSheet.create');
+  });
+  it('should import only the components a style library leaves in the JSX', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Promo',
+      root: {
+        id: '1:1',
+        name: 'card',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'card',
+        layout: baseLayout,
+        children: [
+          { id: '1:2', name: 'title', semanticType: 'Text', boundingBox: baseBoundingBox, styleRef: 'title', text: 'View all <View> styles.card' } as TextIR,
+        ],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {
+          card: { id: 'card', backgroundColor: '#3b82f6' },
+          title: { id: 'title', typography: { fontFamily: 'Inter', fontSize: 18, fontWeight: 700, lineHeight: 24, letterSpacing: 0, textAlign: 'left', color: '#1f2937' } },
+        },
+        tokens: { colors: { color_0: '#3b82f6' }, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+    };
+
+    const result = generateComponent(screen, emptyMappings, { stylePattern: 'tamagui' });
+
+    expect(result.code).toContain('<YStack alignItems="flex-start" backgroundColor="#3B82F6">');
+    expect(result.code).toContain("import { Text, YStack } from 'tamagui';");
+    expect(result.code).not.toContain("from 'react-native'");
+    expect(result.code).not.toContain('StyleSheet');
+  });
+
+  it('should import the scale functions without a project theme', () => {
+    const screen: ScreenIR = {
+      id: 'screen_1',
+      name: 'Card',
+      root: {
+        id: '1:1',
+        name: 'card',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'card',
+        layout: { ...baseLayout, padding: { top: 12, right: 16, bottom: 12, left: 16 } },
+        children: [
+          { id: '1:2', name: 'title', semanticType: 'Text', boundingBox: baseBoundingBox, styleRef: 'title', text: 'Sale' } as TextIR,
+        ],
+      } as ContainerIR,
+      stylesBundle: {
+        styles: {
+          card: { id: 'card' },
+          title: { id: 'title', typography: { fontFamily: 'Inter', fontSize: 18, fontWeight: 700, lineHeight: 24, letterSpacing: 0, textAlign: 'left', color: '#1f2937' } },
+        },
+        tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+      },
+    };
+
+    const result = generateComponent(screen, emptyMappings, {
+      hasProjectTheme: false,
+      scaleFunction: 'scale',
+      scaleFunctionImportPath: '@app/utils/scale',
+      scaling: { vertical: 'verticalScale', moderate: 'moderateScale' },
+    });
+
+    expect(result.code).toContain('paddingTop: verticalScale(12)');
+    expect(result.code).toContain('fontSize: moderateScale(18)');
+    expect(result.code).toContain("import { scale, verticalScale, moderateScale } from '@app/utils/scale';");
+  });
 });
 
 describe('generateComponentMultiFile', () => {
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for flow-builder (navigator, param list and barrel of a screen flow)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildFlowIndex,
+  buildNavigatorFile,
+  buildParamListFile,
+  collectNavigationInteractions,
+  findInitialRoute,
+  type FlowSpec,
+} from '../../../src/core/generation/flow-builder.js';
+import type { ButtonIR, ContainerIR, IRNode } from '../../../src/core/types.js';
+
+const spec: FlowSpec = {
+  name: 'Auth',
+  kind: 'stack',
+  screens: [
+    { route: 'Signup', importPath: '../../screens/Signup' },
+    { route: 'Login', importPath: '../../screens/Login' },
+    { route: 'Terms', importPath: '../../screens/Terms' },
+  ],
+  edges: [
+    { from: 'Login', to: 'Signup', action: 'navigate' },
+    { from: 'Signup', to: 'Terms', action: 'overlay' },
+  ],
+};
+
+describe('collectNavigationInteractions', () => {
+  it('should collect navigate and overlay links including component subtrees', () => {
+    const box = { x: 0, y: 0, width: 100, height: 40 };
+    const layout = { type: 'column' as const, gap: 0, padding: { top: 0, right: 0, bottom: 0, left: 0 }, mainAlign: 'start' as const, crossAlign: 'start' as const };
+    const button = (id: string, interaction: ButtonIR['interaction']): ButtonIR => ({
+      id, name: id, semanticType: 'Button', boundingBox: box, styleRef: id, label: id, variant: 'primary', interaction,
+    });
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'root',
+      semanticType: 'Container',
+      boundingBox: box,
+      styleRef: 'root',
+      layout,
+      children: [
+        button('next', { action: 'navigate', destinationId: '2:1' }),
+        button('back', { action: 'back' }),
+        {
+          id: '1:5', name: 'Footer', semanticType: 'Component', boundingBox: box, styleRef: 'footer',
+          componentId: 'c1', componentName: 'Footer', layout,
+          children: [button('terms', { action: 'overlay', destinationId: '3:1' })],
+        } as IRNode,
+      ],
+    };
+
+    expect(collectNavigationInteractions(root)).toEqual([
+      { action: 'navigate', destinationId: '2:1' },
+      { action: 'overlay', destinationId: '3:1' },
+    ]);
+  });
+});
+
+describe('findInitialRoute', () => {
+  it('should pick the first screen without incoming links', () => {
+    expect(findInitialRoute(spec)).toBe('Login');
+  });
+
+  it('should fall back to the first screen when every screen is linked', () => {
+    const cyclic: FlowSpec = {
+      ...spec,
+      screens: spec.screens.slice(0, 2),
+      edges: [
+        { from: 'Login', to: 'Signup', action: 'navigate' },
+        { from: 'Signup', to: 'Login', action: 'navigate' },
+      ],
+    };
+    expect(findInitialRoute(cyclic)).toBe('Signup');
+  });
+});
+
+describe('buildNavigatorFile', () => {
+  it('should emit a typed native stack with overlay-only screens as modals', () => {
+    const result = buildNavigatorFile(spec);
+
+    expect(result).toContain("import { createNativeStackNavigator } from '@react-navigation/native-stack';");
+    expect(result).toContain("import type { RootStackParamList } from './types';");
+    expect(result).toContain("import { Login } from '../../screens/Login';");
+    expect(result).toContain('const Stack = createNativeStackNavigator<RootStackParamList>();');
+    expect(result).toContain('export function AuthNavigator() {');
+    expect(result).toContain('<Stack.Navigator initialRouteName="Login">');
+    expect(result).toContain('<Stack.Screen name="Signup" component={Signup} />');
+    expect(result).toContain("<Stack.Screen name=\"Terms\" component={Terms} options={{ presentation: 'modal' }} />");
+  });
+
+  it('should emit bottom tabs without modal presentation', () => {
+    const result = buildNavigatorFile({ ...spec, kind: 'tabs' });
+
+    expect(result).toContain("import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';");
+    expect(result).toContain('const Tab = createBottomTabNavigator<RootStackParamList>();');
+    expect(result).toContain('<Tab.Screen name="Terms" component={Terms} />');
+    expect(result).not.toContain('presentation');
+  });
+});
+
+describe('buildParamListFile', () => {
+  it('should declare every route without params', () => {
+    expect(buildParamListFile(spec)).toBe(`export type RootStackParamList = {
+  Signup: undefined;
+  Login: undefined;
+  Terms: undefined;
+};
+`);
+  });
+});
+
+describe('buildFlowIndex', () => {
+  it('should re-export the navigator, the param list and the screens', () => {
+    expect(buildFlowIndex(spec).split('\n')).toEqual([
+      "export { AuthNavigator } from './navigator';",
+      "export type { RootStackParamList } from './types';",
+      "export { Signup } from '../../screens/Signup';",
+      "export { Login } from '../../screens/Login';",
+      "export { Terms } from '../../screens/Terms';",
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { detectForm, buildFormSchema, buildFormHook } from '../../../src/core/generation/form-builder.js';
+import type { ContainerIR, TextIR, InputIR, ButtonIR, ComponentIR } from '../../../src/core/types.js';
+
+describe('form-builder', () => {
+  const baseBoundingBox = { x: 0, y: 0, width: 343, height: 48 };
+  const baseLayout = {
+    type: 'column' as const,
+    gap: 0,
+    padding: { top: 0, right: 0, bottom: 0, left: 0 },
+    mainAlign: 'start' as const,
+    crossAlign: 'start' as const,
+  };
+
+  const label = (id: string, text: string): TextIR => ({
+    id, name: 'Label', semanticType: 'Text', boundingBox: baseBoundingBox, styleRef: 'label', text,
+  });
+
+  const input = (id: string, propName: string, overrides: Partial<InputIR> = {}): InputIR => ({
+    id,
+    name: propName,
+    semanticType: 'Input',
+    boundingBox: baseBoundingBox,
+    styleRef: propName,
+    propName,
+    onChangeProp: `onChange${propName[0].toUpperCase()}${propName.slice(1)}`,
+    placeholder: '',
+    layout: baseLayout,
+    children: [],
+    ...overrides,
+  });
+
+  const submit = (variant: ButtonIR['variant'] = 'primary'): ButtonIR => ({
+    id: '9:1', name: 'Submit', semanticType: 'Button', boundingBox: baseBoundingBox, styleRef: 'submit', label: 'Sign up', variant,
+  });
+
+  const screen = (children: ContainerIR['children']): ContainerIR => ({
+    id: '1:1', name: 'SignUp', semanticType: 'Container', boundingBox: baseBoundingBox, styleRef: 'signUp', layout: baseLayout, children,
+  });
+
+  describe('detectForm', () => {
+    it('should detect fields, labels and the submit button', () => {
+      const form = detectForm(screen([
+        label('2:1', 'Email *'),
+        input('2:2', 'email', { keyboardType: 'email-address' }),
+        label('2:3', 'Company'),
+        input('2:4', 'company'),
+        submit(),
+      ]), 'SignUp');
+
+      expect(form).toMatchObject({
+        submitId: '9:1',
+        submitLabel: 'Sign up',
+        schemaName: 'signUpSchema',
+        valuesType: 'SignUpFormValues',
+      });
+      expect(form!.fields).toEqual([
+        expect.objectContaining({ name: 'email', label: 'Email', required: true, onChangeProp: 'onChangeEmail' }),
+        expect.objectContaining({ name: 'company', label: 'Company', required: false }),
+      ]);
+    });
+
+    it('should label unlabelled fields by their placeholder before the layer name', () => {
+      const form = detectForm(screen([
+        input('2:1', 'emailInput', { name: 'Email Input', placeholder: 'Email *' }),
+        input('2:2', 'nameInput', { name: 'Name Input' }),
+        submit(),
+      ]), 'SignUp');
+
+      expect(form!.fields.map(field => field.label)).toEqual(['Email', 'Name Input']);
+      expect(form!.fields[0].schema).toBe("z.string().min(1, 'Email is required')");
+    });
+
+    it('should require every field when none is marked', () => {
+      const form = detectForm(screen([input('2:1', 'email'), input('2:2', 'name'), submit()]), 'SignUp');
+      expect(form!.fields.every(field => field.required)).toBe(true);
+    });
+
+    it('should return null without a primary button or enough fields', () => {
+      expect(detectForm(screen([input('2:1', 'email'), input('2:2', 'name'), submit('outline')]), 'SignUp')).toBeNull();
+      expect(detectForm(screen([input('2:1', 'email'), submit()]), 'SignUp')).toBeNull();
+    });
+
+    it('should ignore inputs inside sub-components', () => {
+      const component = {
+        id: '3:1', name: 'Row', semanticType: 'Component', boundingBox: baseBoundingBox, styleRef: 'row',
+        componentId: 'c', componentName: 'Row', layout: baseLayout, children: [input('3:2', 'nested')],
+      } as ComponentIR;
+      expect(detectForm(screen([input('2:1', 'email'), component, submit()]), 'SignUp')).toBeNull();
+    });
+  });
+
+  describe('buildFormSchema', () => {
+    it('should pick zod rules from keyboard hints', () => {
+      const form = detectForm(screen([
+        label('2:1', 'Email *'),
+        input('2:2', 'email', { keyboardType: 'email-address' }),
+        label('2:3', 'Password *'),
+        input('2:4', 'password', { secureTextEntry: true }),
+        input('2:5', 'phone', { keyboardType: 'phone-pad' }),
+        submit(),
+      ]), 'SignUp')!;
+
+      const schema = buildFormSchema(form);
+      expect(schema).toContain('const signUpSchema = z.object({');
+      expect(schema).toContain("email: z.string().min(1, 'Email is required').email('Invalid email'),");
+      expect(schema).toContain("password: z.string().min(1, 'Password is required'),");
+      expect(schema).toMatch(/phone: z\.string\(\)\.regex\(.+\)\.or\(z\.literal\(''\)\),/);
+      expect(schema).toContain('export type SignUpFormValues = z.infer<typeof signUpSchema>;');
+    });
+
+    it('should leave an unmarked password optional without a length rule', () => {
+      const form = detectForm(screen([
+        label('2:1', 'Email *'),
+        input('2:2', 'email', { keyboardType: 'email-address' }),
+        label('2:3', 'Password'),
+        input('2:4', 'password', { secureTextEntry: true }),
+        submit(),
+      ]), 'SignUp')!;
+
+      expect(buildFormSchema(form)).toContain('password: z.string(),');
+    });
+  });
+
+  describe('buildFormHook', () => {
+    it('should set up useForm with the schema resolver and empty defaults', () => {
+      const form = detectForm(screen([input('2:1', 'email'), input('2:2', 'name'), submit()]), 'SignUp')!;
+      const hook = buildFormHook(form);
+      expect(hook).toContain('useForm<SignUpFormValues>({');
+      expect(hook).toContain('resolver: zodResolver(signUpSchema),');
+      expect(hook).toContain("defaultValues: { email: '', name: '' },");
+    });
+  });
+});
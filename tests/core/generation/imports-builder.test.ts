@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { buildImports } from '../../../src/core/generation/imports-builder.js';
-import type { IRNode, ContainerIR, TextIR, ImageIR, ButtonIR, IconIR, ComponentIR } from '../../../src/core/types.js';
+import { buildImports, buildSharedComponentImports, resolveComponentImportPath } from '../../../src/core/generation/imports-builder.js';
+import type { IRNode, ContainerIR, TextIR, ImageIR, ButtonIR, IconIR, ComponentIR, InputIR, ControlIR, StylesBundle } from '../../../src/core/types.js';
 
 describe('buildImports', () => {
   const baseBoundingBox = { x: 0, y: 0, width: 100, height: 100 };
@@ -226,6 +226,75 @@ describe('buildImports', () => {
     expect(result).toContain('Text');
   });
 
+  it('should import BlurView for background-blurred containers', () => {
+    const container: ContainerIR = {
+      id: '1:1',
+      name: 'card',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'card',
+      layout: baseLayout,
+      children: [],
+    };
+    const stylesBundle: StylesBundle = {
+      styles: { card: { id: 'card', backgroundBlur: 16 } },
+      tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+    };
+
+    expect(buildImports(container, [], stylesBundle)).toContain("import { BlurView } from '@react-native-community/blur';");
+    expect(buildImports(container)).not.toContain('BlurView');
+  });
+
+  it('should include TextInput for inputs without importing the placeholder Text', () => {
+    const input: InputIR = {
+      id: '1:1',
+      name: 'Email',
+      semanticType: 'Input',
+      boundingBox: baseBoundingBox,
+      styleRef: 'email',
+      placeholder: 'Email',
+      placeholderId: '1:2',
+      layout: baseLayout,
+      children: [
+        { id: '1:2', name: 'Placeholder', semanticType: 'Text', boundingBox: baseBoundingBox, styleRef: 'placeholder', text: 'Email' } as TextIR,
+      ],
+    };
+
+    const result = buildImports(input);
+    expect(result).toContain('TextInput');
+    expect(result).not.toMatch(/\bText\b(?!Input)/);
+    expect(result).not.toContain('View');
+  });
+
+  it('should import control components from react-native and community packages', () => {
+    const control = (id: string, kind: ControlIR['control']): ControlIR => ({
+      id,
+      name: kind,
+      semanticType: 'Control',
+      boundingBox: baseBoundingBox,
+      styleRef: kind,
+      control: kind,
+      value: kind === 'slider' ? 40 : true,
+      layout: baseLayout,
+      children: [],
+    });
+    const container: ContainerIR = {
+      id: '1:0',
+      name: 'Settings',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'settings',
+      layout: baseLayout,
+      children: [control('1:1', 'switch'), control('1:2', 'checkbox'), control('1:3', 'slider')],
+    };
+
+    const result = buildImports(container);
+    expect(result).toContain('Switch');
+    expect(result).toContain("import CheckBox from '@react-native-community/checkbox';");
+    expect(result).toContain("import Slider from '@react-native-community/slider';");
+    expect(buildImports(control('1:1', 'switch'))).not.toContain('@react-native-community');
+  });
+
   describe('Unistyles support', () => {
     it('should import StyleSheet from react-native-unistyles when using unistyles pattern', () => {
       const container: ContainerIR = {
@@ -300,4 +369,101 @@ describe('buildImports', () => {
       expect(result).toContain("import { StyleSheet } from 'react-native-unistyles';");
     });
   });
+
+  it('should import the scale function of every axis from the scale util', () => {
+    const container: ContainerIR = {
+      id: '1:1',
+      name: 'container',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'style_1',
+      layout: baseLayout,
+      children: [],
+    };
+
+    const result = buildImports(container, [], undefined, {
+      importPrefix: '@app',
+      stylePattern: 'StyleSheet',
+      hasProjectTheme: true,
+      themeImportPath: '@app/theme',
+      scaleFunction: 'scale',
+      scaleFunctionImportPath: '@app/utils/scale',
+      scaling: { vertical: 'verticalScale', moderate: 'moderateScale' },
+    });
+
+    expect(result).toContain("import { scale, verticalScale, moderateScale } from '@app/utils/scale';");
+  });
+
+  describe('style libraries', () => {
+    const card: ContainerIR = {
+      id: '1:1',
+      name: 'card',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'card',
+      layout: baseLayout,
+      children: [
+        {
+          id: '1:2',
+          name: 'title',
+          semanticType: 'Text',
+          boundingBox: baseBoundingBox,
+          styleRef: 'title',
+          text: 'Hello',
+        } as TextIR,
+      ],
+    };
+
+    it('should import Restyle Box and Text from the project components', () => {
+      const result = buildImports(card, ['SvgIcon'], undefined, {
+        importPrefix: '@app',
+        stylePattern: 'restyle',
+        hasProjectTheme: false,
+      });
+
+      expect(result).toContain("import { StyleSheet, View } from 'react-native';");
+      expect(result).toContain("import { Box, SvgIcon, Text } from '@app/components';");
+    });
+
+    it('should import Tamagui stacks and Text, and styled for styled-components', () => {
+      const tamagui = buildImports(card, [], undefined, {
+        importPrefix: '@app',
+        stylePattern: 'tamagui',
+        hasProjectTheme: false,
+      });
+      const styled = buildImports(card, [], undefined, {
+        importPrefix: '@app',
+        stylePattern: 'styled-components',
+        hasProjectTheme: false,
+      });
+
+      expect(tamagui).toContain("import { StyleSheet, View } from 'react-native';");
+      expect(tamagui).toContain("import { Text, XStack, YStack } from 'tamagui';");
+      expect(styled).toContain("import { StyleSheet, Text, View } from 'react-native';");
+      expect(styled).toContain("import styled from 'styled-components/native';");
+    });
+  });
+});
+
+describe('resolveComponentImportPath', () => {
+  it('should resolve sibling categories through the .figma folder', () => {
+    expect(resolveComponentImportPath('.figma/screens/Home', '.figma/components/ListItem')).toBe('../../components/ListItem');
+  });
+
+  it('should resolve components inside the same category', () => {
+    expect(resolveComponentImportPath('.figma/components/Card', '.figma/components/Badge')).toBe('../Badge');
+  });
+});
+
+describe('buildSharedComponentImports', () => {
+  it('should import each shared component by name', () => {
+    const result = buildSharedComponentImports([
+      { name: 'ListItem', importPath: '../../components/ListItem' },
+      { name: 'Badge', importPath: '../../components/Badge' },
+    ]);
+
+    expect(result).toBe(
+      "import { ListItem } from '../../components/ListItem';\nimport { Badge } from '../../components/Badge';"
+    );
+  });
 });
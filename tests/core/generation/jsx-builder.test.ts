@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { buildJSX, collectStyleNames } from '../../../src/core/generation/jsx-builder.js';
-import type { ContainerIR, TextIR, ImageIR, ButtonIR, CardIR, IconIR } from '../../../src/core/types.js';
+import { buildJSX, collectStyleNames, type StyledElementResolver } from '../../../src/core/generation/jsx-builder.js';
+import type { ContainerIR, TextIR, ImageIR, ButtonIR, CardIR, IconIR, InputIR, ControlIR, ComponentIR, StylesBundle } from '../../../src/core/types.js';
 
 describe('buildJSX', () => {
   const baseBoundingBox = { x: 0, y: 0, width: 100, height: 100 };
@@ -60,6 +60,27 @@ describe('buildJSX', () => {
     expect(result).toContain('Hello World');
   });
 
+  it('should render rich text runs as nested Text on one line', () => {
+    const node: TextIR = {
+      id: '1:1',
+      name: 'terms',
+      semanticType: 'Text',
+      boundingBox: baseBoundingBox,
+      styleRef: 'terms',
+      text: 'I agree to the Terms of Service',
+      runs: [
+        { text: 'I agree to the ' },
+        { text: 'Terms of Service', styleRef: 'termsSpan' },
+      ],
+    };
+
+    const result = buildJSX(node, 0);
+    expect(result).toBe(
+      '<Text style={styles.terms}>I agree to the <Text style={styles.termsSpan}>Terms of Service</Text></Text>'
+    );
+    expect(collectStyleNames(node)).toEqual(['terms', 'termsSpan']);
+  });
+
   it('should handle multi-line text', () => {
     const node: TextIR = {
       id: '1:1',
@@ -196,6 +217,51 @@ describe('buildJSX', () => {
     expect(result).toContain("require('./assets/icons/settings.png')");
   });
 
+  it('should render converted SVG icons as their component', () => {
+    const node: IconIR = {
+      id: '1:1',
+      name: 'settingsIcon',
+      semanticType: 'Icon',
+      boundingBox: { x: 0, y: 0, width: 24, height: 24 },
+      styleRef: 'settingsIcon',
+      iconRef: 'settings',
+      size: 24,
+    };
+
+    const imagePathMap = new Map([['settings', './assets/icons/settings.svg']]);
+    const svgComponents = { './assets/icons/settings.svg': 'SettingsIcon' };
+    const result = buildJSX(node, 0, imagePathMap, undefined, undefined, undefined, { svgComponents });
+
+    expect(result).toContain('<SettingsIcon style={styles.settingsIcon} />');
+    expect(result).not.toContain('SvgIcon');
+    expect(result).not.toContain('require(');
+  });
+
+  it('should wrap background-blurred containers in BlurView', () => {
+    const node: ContainerIR = {
+      id: '1:1',
+      name: 'header',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'header',
+      layout: baseLayout,
+      children: [
+        { id: '1:2', name: 'title', semanticType: 'Text', boundingBox: baseBoundingBox, styleRef: 'title', text: 'Inbox' } as TextIR,
+      ],
+    };
+    const stylesBundle: StylesBundle = {
+      styles: { header: { id: 'header', backgroundColor: '#11182799', backgroundBlur: 20 } },
+      tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+    };
+
+    const result = buildJSX(node, 0, undefined, undefined, stylesBundle);
+    expect(result).toContain('<BlurView');
+    expect(result).toContain('blurType="dark"');
+    expect(result).toContain('blurAmount={20}');
+    expect(result).toContain('style={styles.header}');
+    expect(result).toContain('</BlurView>');
+  });
+
   it('should handle nested children with proper indentation', () => {
     const node: ContainerIR = {
       id: '1:1',
@@ -231,6 +297,348 @@ describe('buildJSX', () => {
     expect(result).toContain('<View style={styles.inner}>');
     expect(result).toContain('<Text style={styles.deepText}>');
   });
+
+  describe('Input', () => {
+    const placeholder: TextIR = {
+      id: '1:2',
+      name: 'Placeholder',
+      semanticType: 'Text',
+      boundingBox: baseBoundingBox,
+      styleRef: 'placeholder',
+      text: 'Password',
+    };
+    const input: InputIR = {
+      id: '1:1',
+      name: 'Password',
+      semanticType: 'Input',
+      boundingBox: baseBoundingBox,
+      styleRef: 'passwordField',
+      propName: 'password',
+      onChangeProp: 'onChangePassword',
+      placeholder: 'Password',
+      placeholderId: '1:2',
+      secureTextEntry: true,
+      autoComplete: 'password',
+      textContentType: 'password',
+      layout: baseLayout,
+      children: [placeholder],
+    };
+    const stylesBundle: StylesBundle = {
+      styles: {
+        placeholder: {
+          id: 'placeholder',
+          typography: { fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeight: 20, letterSpacing: 0, textAlign: 'left', color: '#9ca3af' },
+        },
+      },
+      tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+    };
+
+    it('should render a controlled TextInput with keyboard hints', () => {
+      const result = buildJSX(input, 0, undefined, undefined, stylesBundle);
+
+      expect(result).toContain('<TextInput');
+      expect(result).toContain('style={[styles.placeholder, styles.passwordField]}');
+      expect(result).toContain('value={password}');
+      expect(result).toContain('onChangeText={onChangePassword}');
+      expect(result).toContain('placeholder="Password"');
+      expect(result).toContain("placeholderTextColor={'#9ca3af'}");
+      expect(result).toContain('secureTextEntry');
+      expect(result).toContain('textContentType="password"');
+      expect(result).not.toContain('<Text ');
+    });
+
+    it('should keep icons next to the TextInput inside the field box', () => {
+      const icon: IconIR = {
+        id: '1:3',
+        name: 'Eye',
+        semanticType: 'Icon',
+        boundingBox: { x: 0, y: 0, width: 24, height: 24 },
+        styleRef: 'eye',
+        iconRef: 'eye',
+        size: 24,
+      };
+      const result = buildJSX({ ...input, children: [placeholder, icon] }, 0, undefined, undefined, stylesBundle);
+
+      expect(result).toMatch(/^<View style=\{styles\.passwordField\}>/);
+      expect(result).toContain('style={[styles.placeholder, { flex: 1 }]}');
+      expect(result).toContain('style={styles.eye}');
+    });
+
+    it('should leave the field uncontrolled when its props are out of scope', () => {
+      const result = buildJSX(input, 0, undefined, undefined, stylesBundle, undefined, { availableProps: [] });
+
+      expect(result).not.toContain('value=');
+      expect(result).not.toContain('onChangeText=');
+      expect(result).toContain('placeholder="Password"');
+    });
+
+    it('should quote placeholders that cannot be plain attribute strings', () => {
+      const result = buildJSX({ ...input, placeholder: 'Say "hi"' }, 0);
+      expect(result).toContain('placeholder={"Say \\"hi\\""}');
+    });
+  });
+
+  describe('Control', () => {
+    const label: TextIR = {
+      id: '1:2',
+      name: 'Label',
+      semanticType: 'Text',
+      boundingBox: baseBoundingBox,
+      styleRef: 'label',
+      text: 'Dark mode',
+      propName: 'label',
+    };
+    const toggle: ControlIR = {
+      id: '1:1',
+      name: 'Dark Mode Toggle',
+      semanticType: 'Control',
+      boundingBox: baseBoundingBox,
+      styleRef: 'darkModeToggle',
+      control: 'switch',
+      value: true,
+      propName: 'darkMode',
+      onChangeProp: 'onChangeDarkMode',
+      labelId: '1:2',
+      layout: baseLayout,
+      children: [label],
+    };
+
+    it('should render a labelled Switch bound to the value and handler props', () => {
+      const result = buildJSX(toggle, 0);
+
+      expect(result).toMatch(/^<View style=\{styles\.darkModeToggle\}>/);
+      expect(result).toContain('<Text style={styles.label}>{label}</Text>');
+      expect(result).toContain('<Switch');
+      expect(result).toContain('value={darkMode}');
+      expect(result).toContain('onValueChange={onChangeDarkMode}');
+      expect(result).toContain('accessibilityLabel="Dark mode"');
+      expect(result.indexOf('<Text')).toBeLessThan(result.indexOf('<Switch'));
+    });
+
+    it('should place checkboxes before their label', () => {
+      const result = buildJSX({ ...toggle, control: 'checkbox' }, 0);
+
+      expect(result).toContain('<CheckBox');
+      expect(result.indexOf('<CheckBox')).toBeLessThan(result.indexOf('<Text'));
+    });
+
+    it('should show the designed value when the props are out of scope', () => {
+      const result = buildJSX(toggle, 0, undefined, undefined, undefined, undefined, { availableProps: [] });
+
+      expect(result).toContain('value={true}');
+      expect(result).not.toContain('onValueChange');
+    });
+
+    it('should render a radio as a pressable ring selecting itself', () => {
+      const result = buildJSX({ ...toggle, control: 'radio', labelId: undefined, children: [] }, 0);
+
+      expect(result).toMatch(/^<Pressable/);
+      expect(result).toContain('onPress={() => onChangeDarkMode?.(true)}');
+      expect(result).toContain('accessibilityRole="radio"');
+      expect(result).toContain('accessibilityState={{ checked: darkMode }}');
+    });
+
+    it('should render sliders with the instance style and bounds', () => {
+      const slider: ControlIR = { ...toggle, name: 'Volume', control: 'slider', value: 40, max: 100, propName: 'volume', onChangeProp: 'onChangeVolume', labelId: undefined, children: [] };
+      const result = buildJSX(slider, 0);
+
+      expect(result).toContain('<Slider');
+      expect(result).toContain('style={styles.darkModeToggle}');
+      expect(result).toContain('onValueChange={onChangeVolume}');
+      expect(result).toContain('maximumValue={100}');
+    });
+
+    it('should render steppers and ratings that report the new number', () => {
+      const numeric: ControlIR = { ...toggle, value: 2, propName: 'quantity', onChangeProp: 'onChangeQuantity', labelId: undefined, children: [] };
+
+      const stepper = buildJSX({ ...numeric, control: 'stepper' }, 0);
+      expect(stepper).toContain('onPress={() => onChangeQuantity?.(Math.max(0, quantity - 1))}');
+      expect(stepper).toContain('onPress={() => onChangeQuantity?.(quantity + 1)}');
+      expect(stepper).toContain('<Text>{quantity}</Text>');
+
+      const rating = buildJSX({ ...numeric, control: 'rating', max: 5 }, 0);
+      expect(rating).toContain('Array.from({ length: 5 }');
+      expect(rating).toContain('onPress={() => onChangeQuantity?.(star)}');
+      expect(rating).toContain("star <= quantity ? '★' : '☆'");
+    });
+  });
+
+  describe('prototype interactions', () => {
+    const navigationTargets = { '2:1': 'ProfileScreen' };
+    const button: ButtonIR = {
+      id: '1:1',
+      name: 'Open Profile',
+      semanticType: 'Button',
+      boundingBox: baseBoundingBox,
+      styleRef: 'openProfile',
+      label: 'Profile',
+      variant: 'primary',
+      interaction: { action: 'navigate', destinationId: '2:1' },
+    };
+
+    it('should navigate from buttons to the resolved route', () => {
+      const result = buildJSX(button, 0, undefined, undefined, undefined, undefined, { navigationTargets });
+      expect(result).toContain("onPress={() => navigation.navigate('ProfileScreen')}");
+    });
+
+    it('should keep the empty handler when navigation wiring is off', () => {
+      expect(buildJSX(button, 0)).toContain('onPress={() => {}}');
+    });
+
+    it('should turn tappable containers into touchables', () => {
+      const container: ContainerIR = {
+        id: '1:2',
+        name: 'Back Row',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'backRow',
+        layout: baseLayout,
+        children: [{ id: '1:3', name: 'Title', semanticType: 'Text', boundingBox: baseBoundingBox, styleRef: 'title', text: 'Back' } as TextIR],
+        interaction: { action: 'back' },
+      };
+      const result = buildJSX(container, 0, undefined, undefined, undefined, undefined, { navigationTargets });
+
+      expect(result).toMatch(/^<TouchableOpacity\n {2}style=\{styles\.backRow\}\n {2}onPress=\{\(\) => navigation\.goBack\(\)\}/);
+      expect(result).toContain('<Text style={styles.title}>Back</Text>');
+      expect(result).toMatch(/<\/TouchableOpacity>$/);
+    });
+
+    it('should render tappable text as a link', () => {
+      const link: TextIR = {
+        id: '1:4',
+        name: 'Terms',
+        semanticType: 'Text',
+        boundingBox: baseBoundingBox,
+        styleRef: 'terms',
+        text: 'Terms',
+        interaction: { action: 'url', url: 'https://example.com/terms' },
+      };
+      const result = buildJSX(link, 0, undefined, undefined, undefined, undefined, { navigationTargets });
+
+      expect(result).toBe("<Text style={styles.terms} onPress={() => Linking.openURL('https://example.com/terms')} accessibilityRole=\"link\">Terms</Text>");
+    });
+
+    it('should wrap tappable component instances', () => {
+      const instance: ComponentIR = {
+        id: '1:5',
+        name: 'Filter Chip',
+        semanticType: 'Component',
+        boundingBox: baseBoundingBox,
+        styleRef: 'filterChip',
+        componentId: 'c1',
+        componentName: 'FilterChip',
+        layout: baseLayout,
+        children: [],
+        interaction: { action: 'overlay', destinationId: '3:1' },
+      };
+      const result = buildJSX(instance, 0, undefined, undefined, undefined, undefined, { navigationTargets });
+
+      expect(result).toContain('<TouchableOpacity');
+      expect(result).toContain('TODO: open the overlay Figma node 3:1');
+      expect(result).toContain('\n  <FilterChip />\n');
+    });
+  });
+
+  describe('component set variants', () => {
+    const button: ButtonIR = {
+      id: '1:1',
+      name: 'Button',
+      semanticType: 'Button',
+      boundingBox: baseBoundingBox,
+      styleRef: 'button',
+      label: 'Continue',
+      variant: 'primary',
+      textStyleRef: 'label',
+      variantStyles: {
+        button: [
+          { prop: 'size', value: 'L', styleRef: 'buttonSizeL' },
+          { prop: 'disabled', value: true, styleRef: 'buttonDisabledTrue' },
+        ],
+        label: [{ prop: 'size', value: 'L', styleRef: 'labelSizeL' }],
+      },
+    };
+
+    it('should apply variant styles conditionally on button and label', () => {
+      const result = buildJSX(button, 0);
+
+      expect(result).toContain("style={[styles.button, size === 'L' && styles.buttonSizeL, disabled && styles.buttonDisabledTrue]}");
+      expect(result).toContain("<Text style={[styles.label, size === 'L' && styles.labelSizeL]}>Continue</Text>");
+    });
+
+    it('should negate boolean variants whose override is the False option', () => {
+      const container: ContainerIR = {
+        id: '1:2',
+        name: 'Row',
+        semanticType: 'Container',
+        boundingBox: baseBoundingBox,
+        styleRef: 'row',
+        layout: baseLayout,
+        children: [],
+        variantStyles: { row: [{ prop: 'selected', value: false, styleRef: 'rowSelectedFalse' }] },
+      };
+
+      expect(buildJSX(container, 0)).toContain('style={[styles.row, !selected && styles.rowSelectedFalse]}');
+    });
+
+    it('should report variant style names', () => {
+      expect(collectStyleNames(button)).toEqual(expect.arrayContaining(['buttonSizeL', 'buttonDisabledTrue', 'labelSizeL']));
+    });
+  });
+
+  describe('shared components', () => {
+    const instance: ComponentIR = {
+      id: '1:6',
+      name: 'Tag',
+      semanticType: 'Component',
+      boundingBox: baseBoundingBox,
+      styleRef: 'tag',
+      componentId: 'c2',
+      componentName: 'Tag',
+      layout: baseLayout,
+      children: [],
+      componentProps: { Size: 'L', Selected: 'True' },
+      props: {
+        label: { type: 'string', value: 'label', defaultValue: 'New' },
+        icon: { type: 'image', value: 'icon', defaultValue: '' },
+      },
+    };
+
+    it('should render instances of generated components with their props', () => {
+      const sharedComponents = {
+        c2: {
+          name: 'Chip',
+          importPath: '../../components/Chip',
+          props: ['label'],
+          variantProps: { Size: 'size', Selected: 'selected' },
+        },
+      };
+      const result = buildJSX(instance, 0, undefined, undefined, undefined, undefined, { sharedComponents });
+
+      expect(result).toBe('<Chip size="L" selected={true} label="New" />');
+    });
+
+    it('should translate Figma properties for mapped project components', () => {
+      const sharedComponents = {
+        c2: {
+          name: 'AppTag',
+          importPath: '@app/components/AppTag',
+          propMappings: {
+            Size: { prop: 'size', values: { L: 'large' } },
+            Selected: { prop: 'active' },
+          },
+        },
+      };
+      const result = buildJSX(instance, 0, undefined, undefined, undefined, undefined, { sharedComponents });
+
+      expect(result).toBe('<AppTag size="large" active={true} />');
+    });
+
+    it('should inline instances of components that are not generated', () => {
+      const result = buildJSX(instance, 0, undefined, undefined, undefined, undefined, { sharedComponents: {} });
+
+      expect(result).toBe('<Tag label={label} icon={icon} />');
+    });
+  });
 });
 
 describe('buildJSX accessibility', () => {
@@ -388,3 +796,81 @@ describe('collectStyleNames', () => {
     expect(names).toContain('submitBtnText');
   });
 });
+
+describe('buildJSX with a style library', () => {
+  const baseBoundingBox = { x: 0, y: 0, width: 100, height: 100 };
+  const baseLayout = {
+    type: 'column' as const,
+    gap: 0,
+    padding: { top: 0, right: 0, bottom: 0, left: 0 },
+    mainAlign: 'start' as const,
+    crossAlign: 'start' as const,
+    sizing: { horizontal: 'fixed' as const, vertical: 'fixed' as const },
+  };
+
+  const toBox: StyledElementResolver = (tag, [styleName]) =>
+    tag === 'View' ? { tag: 'Box', attributes: styleName === 'card' ? 'padding="m"' : '' } : null;
+
+  it('should render plain style references with the library and keep combined ones', () => {
+    const node: ContainerIR = {
+      id: '1:1',
+      name: 'card',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'card',
+      layout: baseLayout,
+      children: [
+        {
+          id: '1:2',
+          name: 'row',
+          semanticType: 'Container',
+          boundingBox: baseBoundingBox,
+          styleRef: 'row',
+          layout: baseLayout,
+          variantStyles: { row: [{ prop: 'active', value: true, styleRef: 'rowActive' }] },
+          children: [
+            { id: '1:3', name: 'dot', semanticType: 'Container', boundingBox: baseBoundingBox, styleRef: 'dot', layout: baseLayout, children: [] } as ContainerIR,
+            { id: '1:4', name: 'title', semanticType: 'Text', boundingBox: baseBoundingBox, styleRef: 'title', text: 'Use style={styles.title} here' } as TextIR,
+          ],
+        } as ContainerIR,
+      ],
+    };
+
+    const result = buildJSX(node, 0, undefined, undefined, undefined, undefined, { styledElement: toBox });
+
+    expect(result).toBe([
+      '<Box padding="m">',
+      '  <View style={[styles.row, active && styles.rowActive]}>',
+      '    <Box />',
+      '    <Text style={styles.title}>Use style=&#123;styles.title&#125; here</Text>',
+      '  </View>',
+      '</Box>',
+    ].join('\n'));
+  });
+
+  it('should drop the style line of multi-line elements the library styles', () => {
+    const node: ButtonIR = {
+      id: '1:1',
+      name: 'submit',
+      semanticType: 'Button',
+      boundingBox: baseBoundingBox,
+      styleRef: 'submit',
+      label: 'Submit',
+      variant: 'primary',
+    };
+
+    const result = buildJSX(node, 0, undefined, undefined, undefined, undefined, {
+      styledElement: (tag, [styleName]) => ({ tag: `Styled${tag}`, attributes: styleName === 'submit' ? '' : 'color="white"' }),
+    });
+
+    expect(result).toBe([
+      '<StyledTouchableOpacity',
+      '  onPress={() => {}}',
+      '  accessibilityRole="button"',
+      '  accessibilityLabel="Submit"',
+      '>',
+      '  <StyledText color="white">Submit</StyledText>',
+      '</StyledTouchableOpacity>',
+    ].join('\n'));
+  });
+});
@@ -96,6 +96,43 @@ describe('generateFlatList', () => {
     expect(result.flatListJSX).toContain('showsHorizontalScrollIndicator={false}');
   });
 
+  it('should generate a grid FlatList for wrapped rows', () => {
+    const items: ContainerIR[] = Array.from({ length: 4 }, (_, i) => ({
+      id: `tile_${i}`,
+      name: 'Tile',
+      semanticType: 'Container' as const,
+      boundingBox: baseBoundingBox,
+      styleRef: 'style_tile',
+      layout: baseLayout,
+      children: [],
+    }));
+
+    const root: ContainerIR = {
+      id: 'gallery',
+      name: 'Gallery',
+      semanticType: 'Container',
+      boundingBox: { x: 0, y: 0, width: 200, height: 120 },
+      styleRef: 'style_gallery',
+      layout: { ...baseLayout, type: 'row' as const, wrap: true, wrapGap: 12 },
+      children: items,
+    };
+
+    const hint: ListHint = {
+      containerId: 'gallery',
+      itemIds: items.map(item => item.id),
+      orientation: 'vertical',
+      itemType: 'GalleryTile',
+      numColumns: 2,
+    };
+
+    const result = generateFlatList(hint, root);
+
+    expect(result.flatListJSX).toContain('numColumns={2}');
+    expect(result.flatListJSX).not.toContain('horizontal');
+    expect(result.separatorFunction).toContain('height: 12');
+    expect(result.flatListJSX).toContain('columnWrapperStyle={{ columnGap: 8 }}');
+  });
+
   it('should infer props from text nodes', () => {
     const item: ContainerIR = {
       id: 'item_1',
@@ -0,0 +1,112 @@
+/**
+ * Unit tests for prototype interaction → React Navigation wiring
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildInteractionHandler,
+  collectInteractionImports,
+  usesNavigation,
+} from '../../../src/core/generation/navigation-builder.js';
+import type { ContainerIR, ComponentIR, TextIR } from '../../../src/core/types.js';
+
+const baseBoundingBox = { x: 0, y: 0, width: 100, height: 40 };
+const baseLayout = {
+  type: 'column' as const,
+  gap: 0,
+  padding: { top: 0, right: 0, bottom: 0, left: 0 },
+  mainAlign: 'start' as const,
+  crossAlign: 'start' as const,
+};
+
+describe('buildInteractionHandler', () => {
+  it('should navigate to the route generated for the destination frame', () => {
+    const targets = { '2:1': 'ProfileScreen', '3:1': 'FilterSheet' };
+
+    expect(buildInteractionHandler({ action: 'navigate', destinationId: '2:1' }, targets))
+      .toBe("() => navigation.navigate('ProfileScreen')");
+    expect(buildInteractionHandler({ action: 'overlay', destinationId: '3:1' }, targets))
+      .toBe("() => navigation.navigate('FilterSheet')");
+  });
+
+  it('should keep an empty handler with a TODO for destinations not generated yet', () => {
+    const handler = buildInteractionHandler({ action: 'navigate', destinationId: '9:9' }, {});
+    expect(handler).toMatch(/^\(\) => \{\} \/\* TODO: navigate to Figma node 9:9/);
+  });
+
+  it('should go back and open links', () => {
+    expect(buildInteractionHandler({ action: 'back' }, {})).toBe('() => navigation.goBack()');
+    expect(buildInteractionHandler({ action: 'url', url: "https://example.com/it's" }, {}))
+      .toBe("() => Linking.openURL('https://example.com/it\\'s')");
+  });
+});
+
+describe('collectInteractionImports', () => {
+  it('should add touchables for tappable boxes and Linking for links', () => {
+    const link: TextIR = {
+      id: '1:2',
+      name: 'Terms',
+      semanticType: 'Text',
+      boundingBox: baseBoundingBox,
+      styleRef: 'terms',
+      text: 'Terms',
+      interaction: { action: 'url', url: 'https://example.com' },
+    };
+    const card: ContainerIR = {
+      id: '1:3',
+      name: 'Card',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'card',
+      layout: baseLayout,
+      children: [],
+      interaction: { action: 'navigate', destinationId: '2:1' },
+    };
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'Root',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'root',
+      layout: baseLayout,
+      children: [link, card],
+    };
+
+    expect(collectInteractionImports(root).sort()).toEqual(['Linking', 'TouchableOpacity']);
+  });
+
+  it('should not look inside component instances', () => {
+    const instance: ComponentIR = {
+      id: '1:2',
+      name: 'Row',
+      semanticType: 'Component',
+      boundingBox: baseBoundingBox,
+      styleRef: 'row',
+      componentId: 'c1',
+      componentName: 'Row',
+      layout: baseLayout,
+      children: [
+        { id: '1:3', name: 'Link', semanticType: 'Text', boundingBox: baseBoundingBox, styleRef: 'link', text: 'Link', interaction: { action: 'url', url: 'https://example.com' } } as TextIR,
+      ],
+    };
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'Root',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'root',
+      layout: baseLayout,
+      children: [instance],
+    };
+
+    expect(collectInteractionImports(root)).toEqual([]);
+  });
+});
+
+describe('usesNavigation', () => {
+  it('should detect navigation calls in generated JSX', () => {
+    expect(usesNavigation("onPress={() => navigation.navigate('Home')}")).toBe(true);
+    expect(usesNavigation('onPress={() => navigation.goBack()}')).toBe(true);
+    expect(usesNavigation('onPress={() => {}}')).toBe(false);
+  });
+});
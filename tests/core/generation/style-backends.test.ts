@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { createStyleBackend } from '../../../src/core/generation/style-backends.js';
+import { buildJSX } from '../../../src/core/generation/jsx-builder.js';
+import type { TokenMappings } from '../../../src/core/mapping/token-matcher.js';
+import type { ContainerIR, IconIR, InputIR, TextIR, StylesBundle } from '../../../src/core/types.js';
+import type { StyleBackend } from '../../../src/core/generation/style-backends.js';
+
+describe('createStyleBackend', () => {
+  const baseBoundingBox = { x: 0, y: 0, width: 100, height: 100 };
+
+  const root: ContainerIR = {
+    id: '1:1',
+    name: 'card',
+    semanticType: 'Container',
+    boundingBox: baseBoundingBox,
+    styleRef: 'card',
+    layout: {
+      type: 'row',
+      gap: 12,
+      padding: { top: 8, right: 16, bottom: 8, left: 16 },
+      mainAlign: 'start',
+      crossAlign: 'center',
+      sizing: { horizontal: 'fixed', vertical: 'fixed' },
+    },
+    children: [
+      {
+        id: '1:2',
+        name: 'title',
+        semanticType: 'Text',
+        boundingBox: baseBoundingBox,
+        styleRef: 'title',
+        text: 'Sale',
+      } as TextIR,
+    ],
+  };
+
+  const stylesBundle: StylesBundle = {
+    styles: {
+      card: { id: 'card', backgroundColor: '#3b82f6', borderRadius: 12, borderColor: '#e5e7eb', borderWidth: 1 },
+      title: {
+        id: 'title',
+        typography: {
+          fontFamily: 'Inter',
+          fontSize: 18,
+          fontWeight: 700,
+          lineHeight: 24,
+          letterSpacing: 0,
+          textAlign: 'left',
+          color: '#1f2937',
+        },
+      },
+    },
+    tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+  };
+
+  const mappings: TokenMappings = {
+    colors: { '#3B82F6': 'theme.colors.cardPrimary', '#1F2937': 'theme.colors.textPrimary' },
+    spacing: { 8: 'theme.spacing.s', 12: 'theme.spacing.sm', 16: 'theme.spacing.m' },
+    radii: { 12: 'theme.borderRadii.l' },
+    typography: { 'Inter-18-700-24': 'theme.textVariants.header' },
+    shadows: {},
+  };
+
+  const render = (backend: StyleBackend) =>
+    buildJSX(root, 0, undefined, undefined, stylesBundle, mappings, { styledElement: backend.element });
+
+  it('should pass Restyle theme keys as props and unmatched values inline', () => {
+    const backend = createStyleBackend('restyle', root, stylesBundle, mappings)!;
+
+    expect(render(backend)).toBe([
+      '<Box paddingHorizontal="m" paddingVertical="s" flexDirection="row" alignItems="center" gap="sm" borderWidth={1} '
+        + 'borderRadius="l" backgroundColor="cardPrimary" style={{ borderColor: \'#E5E7EB\' }}>',
+      '  <Text variant="header" color="textPrimary">Sale</Text>',
+      '</Box>',
+    ].join('\n'));
+    expect(backend.unmapped.colors).toContain('#e5e7eb');
+  });
+
+  it('should render Tamagui stacks with $ tokens', () => {
+    const backend = createStyleBackend('tamagui', root, stylesBundle, mappings)!;
+    const result = render(backend);
+
+    expect(result).toContain(
+      '<XStack paddingHorizontal="$m" paddingVertical="$s" alignItems="center" gap="$sm" borderWidth={1} '
+        + 'borderColor="#E5E7EB" borderRadius="$l" backgroundColor="$cardPrimary">'
+    );
+    // Text variants have no Tamagui prop; the typography is written out
+    expect(result).toContain(
+      '<Text fontFamily="Inter" fontSize={18} fontWeight="700" lineHeight={24} color="$textPrimary">Sale</Text>'
+    );
+    expect(result).toMatch(/<\/XStack>$/);
+  });
+
+  it('should declare styled-components reading tokens from the theme', () => {
+    const backend = createStyleBackend('styled-components', root, stylesBundle, mappings)!;
+
+    expect(render(backend)).toBe('<StyledCard>\n  <StyledTitle>Sale</StyledTitle>\n</StyledCard>');
+    const declarations = backend.declarations();
+    expect(declarations).toContain('const StyledCard = styled.View`');
+    expect(declarations).toContain('  padding-horizontal: ${({ theme }) => theme.spacing.m}px;');
+    expect(declarations).toContain('  border-color: #E5E7EB;');
+    expect(declarations).toContain('  background-color: ${({ theme }) => theme.colors.cardPrimary};');
+    expect(declarations).toContain('const StyledTitle = styled.Text`');
+    expect(declarations).toContain("  font-family: 'Inter';");
+    expect(declarations).toContain('  font-weight: 700;');
+  });
+
+  it('should merge the placeholder and box styles of NativeWind inputs', () => {
+    const placeholder: TextIR = {
+      id: '2:2',
+      name: 'placeholder',
+      semanticType: 'Text',
+      boundingBox: baseBoundingBox,
+      styleRef: 'emailPlaceholder',
+      text: 'Email',
+    };
+    const icon = {
+      id: '2:3',
+      name: 'mail',
+      semanticType: 'Icon',
+      boundingBox: { x: 0, y: 0, width: 20, height: 20 },
+      styleRef: 'mailIcon',
+    } as IconIR;
+    const input = (children: InputIR['children']): InputIR => ({
+      id: '2:1',
+      name: 'email',
+      semanticType: 'Input',
+      boundingBox: baseBoundingBox,
+      styleRef: 'email',
+      placeholder: 'Email',
+      placeholderId: '2:2',
+      layout: { ...root.layout, gap: 8, padding: { top: 12, right: 16, bottom: 12, left: 16 } },
+      children,
+    });
+    const inputStyles: StylesBundle = {
+      ...stylesBundle,
+      styles: {
+        email: { id: 'email', backgroundColor: '#f3f4f6', borderRadius: 12, opacity: 0.8 },
+        emailPlaceholder: {
+          id: 'emailPlaceholder',
+          opacity: 0.5,
+          typography: { ...stylesBundle.styles.title.typography!, fontSize: 16, fontWeight: 400, color: '#9ca3af' },
+        },
+      },
+    };
+    const renderInput = (node: InputIR) => {
+      const backend = createStyleBackend('nativewind', node, inputStyles, mappings)!;
+      return buildJSX(node, 0, undefined, undefined, inputStyles, mappings, { styledElement: backend.element });
+    };
+
+    // Bare field: the TextInput is the box, whose opacity wins over the placeholder's
+    const bare = renderInput(input([placeholder]));
+    expect(bare).toContain(
+      '<TextInput\n  className="px-m py-sm opacity-80 font-[\'Inter\'] text-[16px] font-normal leading-[24px] text-[#9CA3AF] '
+        + 'flex-row items-center gap-s rounded-l bg-[#F3F4F6]"\n  placeholder="Email"'
+    );
+    expect(bare).not.toContain('styles.');
+
+    // Field with icons: the TextInput fills the row between them
+    const withIcon = renderInput(input([icon, placeholder]));
+    expect(withIcon).toContain('<View className="px-m py-sm flex-row items-center gap-s rounded-l bg-[#F3F4F6] opacity-80">');
+    expect(withIcon).toContain(
+      '  <TextInput\n    className="opacity-50 font-[\'Inter\'] text-[16px] font-normal leading-[24px] text-[#9CA3AF]"\n'
+        + '    style={{ flex: 1 }}'
+    );
+  });
+
+  it('should leave StyleSheet patterns to the styles builder', () => {
+    expect(createStyleBackend('StyleSheet', root, stylesBundle, mappings)).toBeNull();
+    expect(createStyleBackend('unistyles', root, stylesBundle, mappings)).toBeNull();
+    expect(createStyleBackend(undefined, root, stylesBundle, mappings)).toBeNull();
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { buildStyles } from '../../../src/core/generation/styles-builder.js';
-import type { ContainerIR, StylesBundle } from '../../../src/core/types.js';
+import { buildStyles, buildClassNames } from '../../../src/core/generation/styles-builder.js';
+import type { ContainerIR, StylesBundle, TextIR } from '../../../src/core/types.js';
 import type { TokenMappings } from '../../../src/core/mapping/token-matcher.js';
 
 describe('buildStyles', () => {
@@ -98,6 +98,70 @@ describe('buildStyles', () => {
     expect(result.code).toContain('paddingLeft: 16');
   });
 
+  it('should split gap into columnGap and rowGap for wrapped rows', () => {
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'chips',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'chips',
+      layout: { ...baseLayout, type: 'row', gap: 8, wrap: true, wrapGap: 12 },
+      children: [],
+    };
+
+    const stylesBundle: StylesBundle = {
+      styles: {
+        chips: { id: 'chips', variables: { rowGap: 'spacing/lg' } },
+      },
+      tokens: {
+        colors: {},
+        spacing: {},
+        radii: {},
+        typography: {},
+        shadows: {},
+        variables: { 'spacing/lg': 'spacing' },
+      },
+    };
+
+    const mappings: TokenMappings = { ...emptyMappings, variables: { 'spacing/lg': 'theme.spacing.lg' } };
+
+    const result = buildStyles(root, stylesBundle, mappings);
+    expect(result.code).toContain("flexWrap: 'wrap'");
+    expect(result.code).toContain('columnGap: 8');
+    expect(result.code).toContain('rowGap: theme.spacing.lg');
+    expect(result.code).not.toMatch(/\bgap:/);
+  });
+
+  it('should replace fixed sizes with min/max bounds', () => {
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'card',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'card',
+      layout: baseLayout,
+      children: [],
+    };
+
+    const stylesBundle: StylesBundle = {
+      styles: {
+        card: { id: 'card', width: 343, height: 120, maxWidth: 480 },
+      },
+      tokens: {
+        colors: {},
+        spacing: {},
+        radii: {},
+        typography: {},
+        shadows: {},
+      },
+    };
+
+    const result = buildStyles(root, stylesBundle, emptyMappings);
+    expect(result.code).toContain('maxWidth: 480');
+    expect(result.code).not.toMatch(/\bwidth: 343/);
+    expect(result.code).toContain('height: 120');
+  });
+
   it('should apply color mappings from theme', () => {
     const root: ContainerIR = {
       id: '1:1',
@@ -138,6 +202,49 @@ describe('buildStyles', () => {
     expect(result.unmapped.colors).not.toContain('#3B82F6');
   });
 
+  it('should prefer bound variable names over value mappings', () => {
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'card',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'card',
+      layout: { ...baseLayout, gap: 12 },
+      children: [],
+    };
+
+    const stylesBundle: StylesBundle = {
+      styles: {
+        card: {
+          id: 'card',
+          backgroundColor: '#3B82F6',
+          variables: { backgroundColor: 'colors/brand', gap: 'spacing/md' },
+        },
+      },
+      tokens: {
+        colors: { color_0: '#3B82F6' },
+        spacing: {},
+        radii: {},
+        typography: {},
+        shadows: {},
+      },
+    };
+
+    const mappings: TokenMappings = {
+      colors: { '#3B82F6': 'theme.colors.blue' },
+      spacing: { 12: 'theme.spacing.sm' },
+      radii: {},
+      typography: {},
+      shadows: {},
+      variables: { 'colors/brand': 'theme.colors.brand', 'spacing/md': 'theme.spacing.md' },
+    };
+
+    const result = buildStyles(root, stylesBundle, mappings);
+    expect(result.code).toContain('backgroundColor: theme.colors.brand');
+    expect(result.code).toContain('gap: theme.spacing.md');
+    expect(result.unmapped.colors).toHaveLength(0);
+  });
+
   it('should add TODO comment for unmapped colors', () => {
     const root: ContainerIR = {
       id: '1:1',
@@ -321,6 +428,48 @@ describe('buildStyles', () => {
     expect(result.code).toContain('elevation: 4');
   });
 
+  it('should generate boxShadow for layered and inner shadows', () => {
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'glass',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'glass',
+      layout: baseLayout,
+      children: [],
+    };
+
+    const stylesBundle: StylesBundle = {
+      styles: {
+        glass: {
+          id: 'glass',
+          shadow: { color: '#0000001A', offsetX: 0, offsetY: 4, blur: 12, spread: 0 },
+          boxShadow: [
+            { color: '#0000001A', offsetX: 0, offsetY: 4, blur: 12, spread: 0 },
+            { color: '#FFFFFF33', offsetX: 0, offsetY: 1, blur: 0, spread: 0, inset: true },
+          ],
+          layerBlur: 2,
+          backgroundBlur: 20,
+        },
+      },
+      tokens: {
+        colors: {},
+        spacing: {},
+        radii: {},
+        typography: {},
+        shadows: {},
+      },
+    };
+
+    const result = buildStyles(root, stylesBundle, emptyMappings);
+    expect(result.code).toContain('boxShadow: [');
+    expect(result.code).toContain("{ offsetX: 0, offsetY: 4, blurRadius: 12, spreadDistance: 0, color: '#0000001A' },");
+    expect(result.code).toContain("{ offsetX: 0, offsetY: 1, blurRadius: 0, spreadDistance: 0, color: '#FFFFFF33', inset: true },");
+    expect(result.code).not.toContain('shadowColor');
+    expect(result.code).toContain('filter: [{ blur: 2 }]');
+    expect(result.code).toContain("overflow: 'hidden'");
+  });
+
   it('should generate typography properties', () => {
     const root: ContainerIR = {
       id: '1:1',
@@ -428,6 +577,111 @@ describe('buildStyles', () => {
     expect(result.code).not.toContain('opacity:');
   });
 
+  it('should emit only the overrides of component set variant styles', () => {
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'Chip',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'chip',
+      layout: { ...baseLayout, padding: { top: 4, right: 8, bottom: 4, left: 8 } },
+      children: [{ id: '1:2', name: 'Label', semanticType: 'Text', boundingBox: baseBoundingBox, styleRef: 'chipLabel', text: 'New' } as TextIR],
+      variantStyles: {
+        chip: [
+          { prop: 'size', value: 'L', styleRef: 'chipSizeL', layout: { ...baseLayout, padding: { top: 8, right: 16, bottom: 8, left: 16 } } },
+          { prop: 'type', value: 'Outline', styleRef: 'chipTypeOutline' },
+        ],
+      },
+    };
+
+    const stylesBundle: StylesBundle = {
+      styles: {
+        chip: { id: 'chip', backgroundColor: '#3b82f6', borderRadius: 8 },
+        chipSizeL: { id: 'chipSizeL', backgroundColor: '#3b82f6', borderRadius: 8 },
+        chipTypeOutline: { id: 'chipTypeOutline', borderColor: '#3b82f6', borderWidth: 1, borderRadius: 8 },
+      },
+      tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+    };
+
+    const { code } = buildStyles(root, stylesBundle, emptyMappings);
+    const entry = (name: string) => code.match(new RegExp(`  ${name}: \\{\\n([\\s\\S]*?)\\n  \\},`))?.[1] ?? '';
+
+    expect(entry('chip')).toContain('paddingTop: 4');
+    expect(entry('chipSizeL')).toContain('paddingTop: 8');
+    expect(entry('chipSizeL')).not.toContain('backgroundColor');
+    expect(entry('chipSizeL')).not.toContain('borderRadius');
+    expect(entry('chipTypeOutline')).toContain('borderWidth: 1');
+    expect(entry('chipTypeOutline')).toContain("backgroundColor: 'transparent'");
+    expect(entry('chipTypeOutline')).not.toContain('paddingTop');
+  });
+
+  describe('responsive scaling', () => {
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'card',
+      semanticType: 'Container',
+      boundingBox: baseBoundingBox,
+      styleRef: 'card',
+      layout: { ...baseLayout, gap: 12, padding: { top: 8, right: 16, bottom: 8, left: 16 } },
+      children: [
+        {
+          id: '1:2',
+          name: 'title',
+          semanticType: 'Text',
+          boundingBox: baseBoundingBox,
+          styleRef: 'title',
+          text: 'Title',
+        } as TextIR,
+      ],
+    };
+
+    const stylesBundle: StylesBundle = {
+      styles: {
+        card: { id: 'card', width: 390, height: 1, borderWidth: 2, borderColor: '#000000' },
+        title: {
+          id: 'title',
+          typography: { fontFamily: 'Inter', fontSize: 18, fontWeight: 700, lineHeight: 24, letterSpacing: 0, textAlign: 'left', color: '#000000' },
+        },
+      },
+      tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+    };
+
+    it('should pick the scale function by axis and leave hairlines and borders unscaled', () => {
+      const result = buildStyles(root, stylesBundle, emptyMappings, {
+        scaling: { horizontal: 'scale', vertical: 'verticalScale', moderate: 'moderateScale' },
+      });
+
+      expect(result.code).toContain('gap: verticalScale(12),');
+      expect(result.code).toContain('paddingTop: verticalScale(8),');
+      expect(result.code).toContain('paddingLeft: scale(16),');
+      expect(result.code).toContain('width: scale(390),');
+      expect(result.code).toContain('height: 1,');
+      expect(result.code).toContain('borderWidth: 2,');
+      expect(result.code).toContain('fontSize: moderateScale(18),');
+      expect(result.code).toContain('lineHeight: moderateScale(24),');
+    });
+
+    it('should scale every axis with a single scale function', () => {
+      const result = buildStyles(root, stylesBundle, emptyMappings, { scaleFunction: 'scale' });
+
+      expect(result.code).toContain('gap: scale(12),');
+      expect(result.code).toContain('fontSize: scale(18),');
+      expect(result.code).toContain('height: 1,');
+    });
+
+    it('should convert values from the design width to the base width', () => {
+      const result = buildStyles(root, stylesBundle, emptyMappings, {
+        scaling: { horizontal: 'scale', baseWidth: 375, unscaledMax: 2 },
+        designWidth: 390,
+      });
+
+      expect(result.code).toContain('width: scale(375),');
+      expect(result.code).toContain('paddingLeft: scale(15.38),');
+      expect(result.code).toContain('fontSize: scale(17.31),');
+      expect(result.code).toContain('height: 1,');
+    });
+  });
+
   describe('Unistyles support', () => {
     it('should wrap styles in theme callback for unistyles pattern', () => {
       const root: ContainerIR = {
@@ -546,3 +800,47 @@ describe('buildStyles', () => {
     });
   });
 });
+
+describe('buildClassNames', () => {
+  const boundingBox = { x: 0, y: 0, width: 100, height: 100 };
+  const mappings: TokenMappings = {
+    colors: { '#111827': 'theme.colors.gray.DEFAULT' },
+    spacing: { 16: "theme.spacing['4']" },
+    radii: { 9999: 'theme.borderRadius.full' },
+    typography: {},
+    shadows: {},
+  };
+
+  it('should translate styles to utility classes', () => {
+    const root: ContainerIR = {
+      id: '1:1',
+      name: 'pill',
+      semanticType: 'Container',
+      boundingBox,
+      styleRef: 'pill',
+      layout: {
+        type: 'row',
+        gap: 6,
+        padding: { top: 16, right: 16, bottom: 16, left: 16 },
+        mainAlign: 'space-between',
+        crossAlign: 'center',
+      },
+      children: [],
+    };
+    const stylesBundle: StylesBundle = {
+      styles: {
+        pill: { id: 'pill', backgroundColor: '#111827', borderRadius: 9999, opacity: 0.5, borderWidth: 1, borderColor: '#e5e7eb' },
+        glow: { id: 'glow', width: '100%', shadow: { color: '#000000', offsetX: 0, offsetY: 4, blur: 12, spread: 0 } },
+      },
+      tokens: { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} },
+    };
+
+    const { classNames, unmapped } = buildClassNames(root, stylesBundle, mappings);
+
+    expect(classNames.pill).toBe(
+      'p-4 flex-row justify-between items-center gap-[6px] border border-[#E5E7EB] rounded-full bg-gray opacity-50'
+    );
+    expect(classNames).not.toHaveProperty('glow');
+    expect(unmapped.colors).toContain('#e5e7eb');
+  });
+});
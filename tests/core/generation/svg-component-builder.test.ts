@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { buildSvgComponent, buildIconsIndex } from '../../../src/core/generation/svg-component-builder.js';
+
+describe('buildSvgComponent', () => {
+  it('should turn a monochrome icon into a component with a color prop', () => {
+    const svg = `<svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+<path fill-rule="evenodd" clip-rule="evenodd" d="M4 12L20 12" stroke="#1A1A1A" stroke-width="2"/>
+<circle cx="12" cy="12" r="3" fill="#1a1a1a"/>
+</svg>`;
+
+    expect(buildSvgComponent({ name: 'ArrowIcon', svg })).toBe(`import React from 'react';
+import Svg, { Circle, Path } from 'react-native-svg';
+import type { SvgProps } from 'react-native-svg';
+
+export function ArrowIcon({ width = 24, height = 24, color = '#1a1a1a', ...props }: SvgProps) {
+  return (
+    <Svg width={width} height={height} viewBox="0 0 24 24" fill="none" {...props}>
+      <Path fillRule="evenodd" clipRule="evenodd" d="M4 12L20 12" stroke={color} strokeWidth="2" />
+      <Circle cx="12" cy="12" r="3" fill={color} />
+    </Svg>
+  );
+}
+`);
+  });
+
+  it('should keep the colors of multicolor artwork', () => {
+    const svg = `<svg viewBox="0 0 32 16"><path d="M0 0h16v16H0z" fill="#FF0000"/><path d="M16 0h16v16H16z" fill="#0000FF"/></svg>`;
+
+    const source = buildSvgComponent({ name: 'FlagIcon', svg })!;
+
+    expect(source).toContain('{ width = 32, height = 16, ...props }');
+    expect(source).toContain('fill="#FF0000"');
+    expect(source).not.toContain('color');
+  });
+
+  it('should drop unsupported elements and return null without an svg root', () => {
+    const svg = `<svg width="16" height="16"><!-- shadow --><filter id="f"><feGaussianBlur stdDeviation="2"/></filter><rect width="16" height="16" rx="4" fill="#333" filter="url(#f)"/></svg>`;
+
+    const source = buildSvgComponent({ name: 'BadgeIcon', svg })!;
+
+    expect(source).toContain('<Rect width="16" height="16" rx="4" fill={color} />');
+    expect(source).not.toContain('filter');
+    expect(buildSvgComponent({ name: 'EmptyIcon', svg: '<div />' })).toBeNull();
+  });
+});
+
+describe('buildIconsIndex', () => {
+  it('should export each icon once in name order', () => {
+    expect(buildIconsIndex(['SearchIcon', 'ArrowIcon', 'SearchIcon'])).toBe(
+      "export { ArrowIcon } from './ArrowIcon';\nexport { SearchIcon } from './SearchIcon';\n"
+    );
+  });
+});
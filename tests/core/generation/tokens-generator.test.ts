@@ -1,6 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { generateTokensFile, generateTokensIfNeeded } from '../../../src/core/generation/tokens-generator.js';
-import type { DesignTokens } from '../../../src/core/types.js';
+import {
+  generateTokensFile,
+  generateModeThemesFile,
+  generateTokensIfNeeded,
+  mergeDesignTokens,
+  generateDtcgTokens,
+  generateStyleDictionarySource,
+} from '../../../src/core/generation/tokens-generator.js';
+import type { DesignTokens, ModeThemes } from '../../../src/core/types.js';
 
 describe('generateTokensFile', () => {
   it('should generate colors section', () => {
@@ -127,6 +134,29 @@ describe('generateTokensFile', () => {
     expect(result).toContain('elevation: 4'); // ceil(8 / 2)
   });
 
+  it('should name tokens after published styles', () => {
+    const tokens: DesignTokens = {
+      colors: { 'Brand/Primary': '#3B82F6', color_1: '#FFFFFF' },
+      spacing: {},
+      radii: {},
+      typography: {
+        'Heading/H1': { fontFamily: 'Inter', fontSize: 32, fontWeight: 700, lineHeight: 40 },
+        text_0: { fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeight: 24 },
+      },
+      shadows: {
+        'Elevation/Card': { color: '#00000033', offsetX: 0, offsetY: 4, blur: 8, spread: 0 },
+      },
+    };
+
+    const result = generateTokensFile(tokens);
+
+    expect(result).toContain("brandPrimary: '#3B82F6'");
+    expect(result).toContain("white: '#FFFFFF'");
+    expect(result).toContain('headingH1: {');
+    expect(result).toContain('text_0: {');
+    expect(result).toContain('elevationCard: {');
+  });
+
   it('should generate combined theme export', () => {
     const tokens: DesignTokens = {
       colors: { color_0: '#000' },
@@ -210,3 +240,121 @@ describe('generateTokensIfNeeded', () => {
     expect(result!.path).toBe('src/theme/tokens.ts');
   });
 });
+
+describe('generateModeThemesFile', () => {
+  const modeThemes: ModeThemes = {
+    collectionName: 'Semantic',
+    modes: ['Light', 'Dark'],
+    tokens: {
+      'colors/surface': { category: 'colors', values: { Light: '#FFFFFF', Dark: '#000000' } },
+      'spacing/md': { category: 'spacing', values: { Light: 16, Dark: 16 } },
+    },
+  };
+
+  it('should emit one theme per mode and a hook reading the active mode', () => {
+    const result = generateModeThemesFile(modeThemes, 'useTheme');
+
+    expect(result).toContain('export const lightTheme = {');
+    expect(result).toContain('export const darkTheme: Theme = {');
+    expect(result).toContain("    surface: '#000000',");
+    expect(result).toContain('    md: 16,');
+    expect(result).toContain('  light: lightTheme,');
+    expect(result).toContain('export function useTheme(mode?: ThemeMode)');
+    expect(result).toContain('useColorScheme()');
+  });
+
+  it('should declare unistyles themes instead of a hook', () => {
+    const result = generateModeThemesFile(modeThemes, 'unistyles');
+
+    expect(result).toContain("declare module 'react-native-unistyles'");
+    expect(result).toContain('    dark: Theme;');
+    expect(result).not.toContain('useColorScheme');
+  });
+
+  it('should be used by generateTokensIfNeeded when modes are given', () => {
+    const tokens: DesignTokens = { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} };
+    const result = generateTokensIfNeeded(tokens, false, 'generated', modeThemes);
+
+    expect(result?.content).toContain('export const themes = {');
+  });
+});
+
+describe('token export', () => {
+  const screenA: DesignTokens = {
+    colors: { color_0: '#FFFFFF', 'Brand/Primary': '#3B82F6' },
+    spacing: { spacing_0: 8, spacing_1: 16 },
+    radii: { radius_0: 8 },
+    typography: {
+      'Heading/H1': { fontFamily: 'Inter', fontSize: 24, fontWeight: 700, lineHeight: 32 },
+    },
+    shadows: {},
+  };
+  const screenB: DesignTokens = {
+    colors: { color_0: '#3B82F6', color_1: '#1F2937' },
+    spacing: { spacing_0: 4, spacing_1: 16 },
+    radii: {},
+    typography: {},
+    shadows: {
+      shadow_0: { color: 'rgba(0, 0, 0, 0.1)', offsetX: 0, offsetY: 2, blur: 4, spread: 0 },
+    },
+  };
+
+  it('should merge tokens of several elements by value', () => {
+    const merged = mergeDesignTokens([screenB, screenA]);
+
+    expect(Object.values(merged.colors)).toHaveLength(3);
+    expect(merged.colors['Brand/Primary']).toBe('#3B82F6');
+    expect(Object.values(merged.spacing)).toEqual([4, 8, 16]);
+    expect(merged.radii).toEqual({ radius_0: 8 });
+    expect(Object.keys(merged.typography)).toEqual(['Heading/H1']);
+    expect(Object.keys(merged.shadows)).toEqual(['shadow_0']);
+  });
+
+  it('should generate a DTCG document with typed values', () => {
+    const document = generateDtcgTokens(mergeDesignTokens([screenA, screenB])) as any;
+
+    expect(document.color.white).toEqual({ $type: 'color', $value: '#FFFFFF' });
+    expect(document.color.brand.primary).toEqual({ $type: 'color', $value: '#3B82F6' });
+    expect(document.spacing.xs).toEqual({ $type: 'dimension', $value: '4px' });
+    expect(document.typography.heading.h1.$value).toEqual({
+      fontFamily: 'Inter',
+      fontSize: '24px',
+      fontWeight: 700,
+      lineHeight: 1.333,
+    });
+    expect(document.shadow.shadow_0.$value.offsetY).toBe('2px');
+    expect(JSON.stringify(document)).not.toContain('$extensions');
+  });
+
+  it('should flag values missing from the project theme', () => {
+    const projectTokens = {
+      colors: new Map<string | number, string>([['#3B82F6', 'theme.colors.primary']]),
+      spacing: new Map<string | number, string>([[16, 'theme.spacing.md']]),
+    };
+    const document = generateDtcgTokens(screenA, projectTokens) as any;
+
+    expect(document.color.brand.primary.$extensions).toBeUndefined();
+    expect(document.color.white.$extensions).toEqual({ 'figma-rn': { inTheme: false } });
+    expect(document.spacing.sm.$extensions).toEqual({ 'figma-rn': { inTheme: false } });
+    expect((Object.values(document.radius)[0] as any).$extensions).toEqual({ 'figma-rn': { inTheme: false } });
+    expect(Object.values(document.spacing).filter((token: any) => !token.$extensions)).toHaveLength(1);
+  });
+
+  it('should generate a Style Dictionary source tree', () => {
+    const files = generateStyleDictionarySource(screenA);
+    const paths = files.map(file => file.path);
+
+    expect(paths).toEqual([
+      'config.json',
+      'tokens/color.json',
+      'tokens/spacing.json',
+      'tokens/radius.json',
+      'tokens/typography.json',
+    ]);
+    expect(JSON.parse(files[0].content).source).toEqual(['tokens/**/*.json']);
+    expect(JSON.parse(files[2].content).spacing).toEqual({
+      sm: { value: 8, type: 'dimension' },
+      md: { value: 16, type: 'dimension' },
+    });
+  });
+});
@@ -155,6 +155,26 @@ describe('extractLayoutMeta', () => {
     expect(result.crossAlign).toBe('center');
   });
 
+  it('should carry wrap and the counter-axis gap of wrapping auto-layout', () => {
+    const layout = {
+      mode: 'horizontal' as const,
+      gap: 8,
+      padding: { top: 0, right: 0, bottom: 0, left: 0 },
+      mainAxisAlign: 'MIN',
+      crossAxisAlign: 'MIN',
+    };
+
+    const wrapped = extractLayoutMeta(createNode({ figmaLayout: { ...layout, wrap: true, wrapGap: 12 } }));
+    expect(wrapped.wrap).toBe(true);
+    expect(wrapped.wrapGap).toBe(12);
+
+    const defaultGap = extractLayoutMeta(createNode({ figmaLayout: { ...layout, wrap: true } }));
+    expect(defaultGap.wrapGap).toBe(8);
+
+    const single = extractLayoutMeta(createNode({ figmaLayout: layout }));
+    expect(single.wrap).toBeUndefined();
+  });
+
   it('should infer layout from positions when no auto-layout', () => {
     const node = createNode({
       boundingBox: { x: 0, y: 0, width: 200, height: 100 },
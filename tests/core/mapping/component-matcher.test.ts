@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { suggestComponentMappings, type ProjectComponent } from '../../../src/core/mapping/component-matcher.js';
+import type { ComponentIR, ContainerIR } from '../../../src/core/types.js';
+
+const boundingBox = { x: 0, y: 0, width: 100, height: 40 };
+const layout = {
+  type: 'row' as const,
+  gap: 0,
+  padding: { top: 0, right: 0, bottom: 0, left: 0 },
+  mainAlign: 'start' as const,
+  crossAlign: 'start' as const,
+};
+
+function instance(id: string, name: string, componentProps?: Record<string, string>): ComponentIR {
+  return {
+    id,
+    name,
+    semanticType: 'Component',
+    boundingBox,
+    styleRef: 'item',
+    componentId: `c-${id}`,
+    componentName: name.replace(/[^a-zA-Z0-9]/g, ''),
+    layout,
+    children: [],
+    componentProps,
+  };
+}
+
+function screen(...children: ComponentIR[]): ContainerIR {
+  return { id: '0:1', name: 'Screen', semanticType: 'Container', boundingBox, styleRef: 'screen', layout, children };
+}
+
+const projectComponents: ProjectComponent[] = [
+  {
+    name: 'AppButton',
+    importPath: '@app/components/AppButton',
+    file: 'src/components/AppButton.tsx',
+    props: [
+      { name: 'title', type: 'string' },
+      { name: 'variant', type: 'string', values: ['primary', 'secondary'], optional: true },
+      { name: 'disabled', type: 'boolean', optional: true },
+    ],
+  },
+  {
+    name: 'Avatar',
+    importPath: '@app/components/Avatar',
+    file: 'src/components/Avatar.tsx',
+    props: [{ name: 'uri', type: 'string' }],
+  },
+];
+
+describe('suggestComponentMappings', () => {
+  it('should suggest the closest component with translated props', () => {
+    const button = instance('1:1', 'Button', { 'Label#1:2': 'Continue', Type: 'Primary', Disabled: 'False' });
+
+    expect(suggestComponentMappings(screen(button), projectComponents)).toEqual([
+      {
+        figma: 'Button',
+        component: 'AppButton',
+        importPath: '@app/components/AppButton',
+        props: {
+          Label: 'title',
+          Type: { prop: 'variant', values: { Primary: 'primary' } },
+          Disabled: 'disabled',
+        },
+        score: 0.84,
+      },
+    ]);
+  });
+
+  it('should match name segments of slash-separated instance names', () => {
+    const [suggestion] = suggestComponentMappings(screen(instance('1:1', 'ui/Avatar')), projectComponents);
+
+    expect(suggestion.component).toBe('Avatar');
+    expect(suggestion.score).toBe(1);
+  });
+
+  it('should skip weak matches, skipped components and repeated names', () => {
+    const root = screen(
+      instance('1:1', 'Divider'),
+      instance('1:2', 'Avatar'),
+      instance('1:3', 'Avatar'),
+      instance('1:4', 'Button')
+    );
+
+    const suggestions = suggestComponentMappings(root, projectComponents, new Set(['c-1:4']));
+
+    expect(suggestions.map(suggestion => suggestion.figma)).toEqual(['Avatar']);
+  });
+});
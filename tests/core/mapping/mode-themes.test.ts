@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { buildModeThemes, mapModeThemeTokens, modeThemePath } from '../../../src/core/mapping/mode-themes.js';
+import { transformVariables } from '../../../src/api/transformers.js';
+import type { VariablesResult } from '../../../src/api/types.js';
+
+function variablesResult(): VariablesResult {
+  return {
+    success: true,
+    isEnterprise: true,
+    ...transformVariables({
+      variableCollections: {
+        c1: { id: 'c1', name: 'Primitives', modes: [{ modeId: 'p', name: 'Value' }], defaultModeId: 'p' },
+        c2: {
+          id: 'c2',
+          name: 'Semantic',
+          modes: [
+            { modeId: 'd', name: 'Dark' },
+            { modeId: 'l', name: 'Light' },
+          ],
+          defaultModeId: 'l',
+        },
+      },
+      variables: {
+        v1: {
+          id: 'v1',
+          name: 'colors/surface',
+          variableCollectionId: 'c2',
+          resolvedType: 'COLOR',
+          valuesByMode: { l: { r: 1, g: 1, b: 1, a: 1 }, d: { r: 0, g: 0, b: 0, a: 1 } },
+        },
+        v2: {
+          id: 'v2',
+          name: 'spacing/md',
+          variableCollectionId: 'c1',
+          resolvedType: 'FLOAT',
+          valuesByMode: { p: 16 },
+        },
+      },
+    }),
+  };
+}
+
+describe('mode-themes', () => {
+  it('should build per-mode values with the default mode first', () => {
+    const result = buildModeThemes(variablesResult(), { 'colors/surface': 'colors', 'spacing/md': 'spacing' });
+
+    expect(result?.collectionName).toBe('Semantic');
+    expect(result?.modes).toEqual(['Light', 'Dark']);
+    expect(result?.tokens['colors/surface'].values).toEqual({ Light: '#FFFFFF', Dark: '#000000' });
+    // Single-mode collection keeps its value in every mode
+    expect(result?.tokens['spacing/md'].values).toEqual({ Light: 16, Dark: 16 });
+  });
+
+  it('should return null without multi-mode bindings', () => {
+    expect(buildModeThemes(variablesResult(), { 'spacing/md': 'spacing' })).toBeNull();
+  });
+
+  it('should derive theme paths from variable names', () => {
+    expect(modeThemePath('Colors/Text/Primary', 'colors')).toBe('theme.colors.textPrimary');
+    expect(modeThemePath('brand/500', 'colors')).toBe('theme.colors.brand500');
+    expect(modeThemePath('spacing/md', 'spacing')).toBe('theme.spacing.md');
+
+    const themes = buildModeThemes(variablesResult(), { 'colors/surface': 'colors' })!;
+    expect(mapModeThemeTokens(themes)).toEqual({ 'colors/surface': 'theme.colors.surface' });
+  });
+});
@@ -177,4 +177,102 @@ describe('token-matcher', () => {
       expect(result.colors.color_2).toBe('#FF0000'); // No match
     });
   });
+
+  describe('bound variables', () => {
+    it('should map variables to project paths by name', () => {
+      const extracted: DesignTokens = {
+        colors: { color_0: '#3B82F6' },
+        spacing: {},
+        radii: {},
+        typography: {},
+        shadows: {},
+        variables: {
+          'colors/brand/primary': 'colors',
+          'Color/Text/Primary': 'colors',
+          'spacing/md': 'spacing',
+          'unknown/token': 'colors',
+        },
+      };
+
+      const project: ProjectTokens = {
+        colors: new Map([
+          ['#3B82F6', 'theme.colors.blue500'],
+          ['#2563EB', 'theme.colors.brand.primary'],
+          ['#111111', 'theme.colors.text.primary'],
+          ['#222222', 'theme.colors.primary'],
+        ]),
+        spacing: new Map<string | number, string>([[16, 'theme.spacing.md']]),
+      };
+
+      const result = matchTokens(extracted, project);
+
+      expect(result.variables['colors/brand/primary']).toBe('theme.colors.brand.primary');
+      expect(result.variables['Color/Text/Primary']).toBe('theme.colors.text.primary');
+      expect(result.variables['spacing/md']).toBe('theme.spacing.md');
+      expect(result.variables['unknown/token']).toBeUndefined();
+      // Value matching is unchanged
+      expect(result.colors['#3B82F6']).toBe('theme.colors.blue500');
+    });
+  });
+  describe('published style names', () => {
+    it('should prefer project paths named like the style over value matching', () => {
+      const extracted: DesignTokens = {
+        colors: { 'Brand/Primary': '#3B82F6', color_0: '#10B981' },
+        spacing: {},
+        radii: {},
+        typography: {
+          'Heading/H1': { fontFamily: 'Inter', fontSize: 32, fontWeight: 700, lineHeight: 40 },
+        },
+        shadows: {
+          'Elevation/Card': { color: '#00000033', offsetX: 0, offsetY: 4, blur: 8, spread: 0 },
+        },
+      };
+
+      const project: ProjectTokens = {
+        colors: new Map([
+          ['#3B82F6', 'theme.colors.blue500'],
+          ['#2563EB', 'theme.colors.brand.primary'],
+          ['#10B981', 'theme.colors.success'],
+        ]),
+        typography: new Map([
+          ['*-16-400-24', 'theme.typography.body'],
+          ['*-30-700-36', 'theme.typography.heading.h1'],
+        ]),
+        shadows: new Map([['0,2,4,0', 'theme.shadows.card']]),
+      };
+
+      const result = matchTokens(extracted, project);
+
+      expect(result.colors['#3B82F6']).toBe('theme.colors.brand.primary');
+      expect(result.colors['#10B981']).toBe('theme.colors.success');
+      expect(result.typography['Inter-32-700-40']).toBe('theme.typography.heading.h1');
+      expect(result.shadows['0,4,8,0']).toBe('theme.shadows.card');
+    });
+
+    it('should match style names close to a project path', () => {
+      const extracted: DesignTokens = {
+        colors: {},
+        spacing: {},
+        radii: {},
+        typography: {
+          'Heading/H2': { fontFamily: 'Inter', fontSize: 24, fontWeight: 700, lineHeight: 32 },
+          'Heading/H1': { fontFamily: 'Inter', fontSize: 32, fontWeight: 700, lineHeight: 40 },
+        },
+        shadows: {},
+      };
+
+      const project: ProjectTokens = {
+        typography: new Map([
+          ['*-20-600-28', 'theme.typography.headingH2Bold'],
+          ['*-20-700-28', 'theme.typography.headingH3Bold'],
+        ]),
+      };
+
+      const result = matchTokens(extracted, project);
+
+      expect(result.typography['Inter-24-700-32']).toBe('theme.typography.headingH2Bold');
+      expect(result.typography['Inter-32-700-40']).not.toBe('theme.typography.headingH2Bold');
+      expect(result.typography['Inter-32-700-40']).not.toBe('theme.typography.headingH3Bold');
+    });
+  });
 });
@@ -98,6 +98,16 @@ describe('isUselessGroup', () => {
     });
     expect(isUselessGroup(node)).toBe(false);
   });
+
+  it('should return false for GROUP with prototype reactions', () => {
+    const node = createNode({
+      type: 'GROUP',
+      children: [createNode({ id: '1:2' })],
+      reactions: [{ trigger: 'ON_CLICK', action: 'BACK' }],
+    });
+    expect(isUselessGroup(node)).toBe(false);
+    expect(isWrapperGroup(node)).toBe(false);
+  });
 });
 
 describe('isWrapperGroup', () => {
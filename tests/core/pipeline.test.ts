@@ -209,6 +209,94 @@ describe('transformToScreenIR', () => {
     expect(Object.keys(result.stylesBundle.tokens.typography).length).toBeGreaterThan(0);
   });
 
+  it('should resolve bound variables to names when variable names are given', () => {
+    const input = createNode({
+      fills: [{ type: 'solid', color: { hex: '#f3f4f6', rgba: { r: 243, g: 244, b: 246, a: 1 } }, opacity: 1 }],
+      boundVariables: { fills: [{ type: 'VARIABLE_ALIAS', id: 'VariableID:1' }] },
+      children: [createNode({ id: '1:2', name: 'Content', boundingBox: { x: 0, y: 0, width: 100, height: 40 } })],
+    });
+
+    const result = transformToScreenIR(input, { variableNames: { 'VariableID:1': 'colors/surface' } });
+
+    const rootStyle = result.stylesBundle.styles[result.root.styleRef];
+    expect(rootStyle.variables).toEqual({ backgroundColor: 'colors/surface' });
+    expect(result.stylesBundle.tokens.variables).toEqual({ 'colors/surface': 'colors' });
+  });
+
+  it('should register styles for rich text runs and share identical spans', () => {
+    const typography = { fontFamily: 'Inter', fontSize: 14, fontWeight: 400, lineHeight: 20, letterSpacing: 0, textAlign: 'left' as const };
+    const bold = { ...typography, fontWeight: 700 };
+    const input = createNode({
+      children: [
+        {
+          id: '1:2',
+          name: 'Summary',
+          type: 'TEXT',
+          text: 'Total: $10, was $12',
+          visible: true,
+          boundingBox: { x: 0, y: 0, width: 200, height: 20 },
+          typography,
+          textRuns: [
+            { text: 'Total: ' },
+            { text: '$10', typography: bold },
+            { text: ', was ' },
+            { text: '$12', typography: { ...typography, textDecoration: 'line-through' } },
+            { text: '!', typography: bold },
+          ],
+        },
+      ],
+    });
+
+    const result = transformToScreenIR(input);
+
+    const text = (result.root as any).children[0];
+    expect(text.propName).toBeUndefined();
+    expect(text.runs.map((run: any) => run.styleRef)).toEqual([
+      undefined,
+      'summarySpan',
+      undefined,
+      'summarySpan1',
+      'summarySpan',
+    ]);
+    expect(result.stylesBundle.styles.summarySpan.typography?.fontWeight).toBe(700);
+    expect(result.stylesBundle.styles.summarySpan1.typography?.textDecoration).toBe('line-through');
+  });
+
+  it('should name tokens after published styles when style names are given', () => {
+    const input = createNode({
+      fills: [{ type: 'solid', color: { hex: '#f3f4f6', rgba: { r: 243, g: 244, b: 246, a: 1 } }, opacity: 1 }],
+      styles: { fill: '1:10' },
+      children: [createNode({ id: '1:2', name: 'Content', boundingBox: { x: 0, y: 0, width: 100, height: 40 } })],
+    });
+
+    const result = transformToScreenIR(input, { styleNames: { '1:10': 'Surface/Muted' } });
+
+    const rootStyle = result.stylesBundle.styles[result.root.styleRef];
+    expect(rootStyle.styleNames).toEqual({ fill: 'Surface/Muted' });
+    expect(result.stylesBundle.tokens.colors['Surface/Muted']).toBe('#F3F4F6');
+  });
+
+  it('should carry auto-layout min/max sizes into styles', () => {
+    const input = createNode({
+      children: [
+        createNode({
+          id: '1:2',
+          name: 'PrimaryButton',
+          boundingBox: { x: 0, y: 0, width: 343, height: 48 },
+          minHeight: 44,
+          maxWidth: 480,
+        }),
+      ],
+    });
+
+    const result = transformToScreenIR(input);
+
+    const style = result.stylesBundle.styles[(result.root as any).children[0].styleRef];
+    expect(style.maxWidth).toBe(480);
+    expect(style.minHeight).toBe(44);
+    expect(style.minWidth).toBeUndefined();
+  });
+
   it('should handle empty/filtered root', () => {
     const input = createNode({ visible: false });
 
@@ -234,6 +322,45 @@ describe('transformToScreenIR', () => {
     expect((result.root as any).children).toHaveLength(1);
     expect((result.root as any).children[0].name).toBe('Content');
   });
+
+  it('should transform a component set into the default variant with variant styles', () => {
+    const variant = (id: string, size: string, padding: number, fill: string): FigmaNode => createNode({
+      id,
+      name: `Size=${size}`,
+      type: 'COMPONENT',
+      boundingBox: { x: 0, y: 0, width: 120, height: 40 },
+      fills: [{ type: 'solid', color: { hex: fill, rgba: { r: 0, g: 0, b: 0, a: 1 } }, opacity: 1 }],
+      layout: {
+        mode: 'horizontal',
+        gap: 4,
+        padding: { top: padding, right: padding, bottom: padding, left: padding },
+        mainAxisAlign: 'CENTER',
+        crossAxisAlign: 'CENTER',
+        wrap: false,
+      },
+      children: [createNode({ id: `${id}a`, name: 'Dot', boundingBox: { x: 0, y: 0, width: 8, height: 8 } })],
+    });
+    const input = createNode({
+      id: '5:1',
+      name: 'Chip',
+      type: 'COMPONENT_SET',
+      componentProperties: { Size: { type: 'VARIANT', value: 'M', options: ['S', 'M', 'L'] } },
+      children: [variant('5:2', 'S', 4, '#22c55e'), variant('5:3', 'M', 8, '#22c55e'), variant('5:4', 'L', 12, '#22c55e')],
+    });
+
+    const result = transformToScreenIR(input);
+
+    expect(result.id).toBe('5:1');
+    expect(result.name).toBe('Chip');
+    expect(result.root.id).toBe('5:3');
+    expect(result.variantProps).toEqual([{ name: 'size', figmaName: 'Size', options: ['S', 'M', 'L'], defaultValue: 'M' }]);
+
+    const overrides = result.root.variantStyles?.[result.root.styleRef] ?? [];
+    expect(overrides.map(({ value }) => value)).toEqual(['S', 'L']);
+    expect(overrides[1].layout?.padding.top).toBe(12);
+    expect(result.stylesBundle.styles[overrides[1].styleRef]).toBeDefined();
+    expect(Object.values(result.stylesBundle.tokens.spacing)).toEqual(expect.arrayContaining([4, 8, 12]));
+  });
 });
 
 describe('stages', () => {
@@ -8,12 +8,14 @@ import {
   isImage,
   isIcon,
   isButton,
+  isInput,
+  isControl,
   isCard,
   classifyNode,
   toIRNode,
   recognizeSemantics,
 } from '../../../src/core/recognize/classifier.js';
-import type { LayoutNode } from '../../../src/core/types.js';
+import type { ControlIR, LayoutNode } from '../../../src/core/types.js';
 
 // Helper to create a minimal LayoutNode
 function createNode(overrides: Partial<LayoutNode> = {}): LayoutNode {
@@ -169,6 +171,93 @@ describe('isButton', () => {
   });
 });
 
+describe('isInput', () => {
+  const fieldNode = (overrides: Partial<LayoutNode> = {}) => createNode({
+    name: 'Email',
+    boundingBox: { x: 0, y: 0, width: 343, height: 48 },
+    strokes: [{ color: { hex: '#d1d5db', rgba: { r: 209, g: 213, b: 219, a: 1 } }, weight: 1, opacity: 1, align: 'inside' }],
+    children: [
+      createNode({ id: '1:2', type: 'TEXT', text: 'Enter your email', boundingBox: { x: 16, y: 14, width: 140, height: 20 } }),
+    ],
+    ...overrides,
+  });
+
+  it('should return true for a bordered field with a left-aligned placeholder', () => {
+    expect(isInput(fieldNode())).toBe(true);
+  });
+
+  it('should recognise the field kind from the placeholder when the name is generic', () => {
+    expect(isInput(fieldNode({ name: 'Frame 12' }))).toBe(true);
+  });
+
+  it('should return false without a field name or label', () => {
+    const node = fieldNode({ name: 'Frame 12' });
+    node.children[0].text = 'Hello';
+    expect(isInput(node)).toBe(false);
+  });
+
+  it('should return false for centered labels', () => {
+    const node = fieldNode();
+    node.children[0].boundingBox = { x: 120, y: 14, width: 100, height: 20 };
+    expect(isInput(node)).toBe(false);
+  });
+
+  it('should return false without border or background', () => {
+    expect(isInput(fieldNode({ strokes: undefined }))).toBe(false);
+  });
+});
+
+describe('isControl', () => {
+  const instance = (name: string, componentProperties: LayoutNode['componentProperties'], children: LayoutNode[] = []) =>
+    createNode({ name, type: 'INSTANCE', componentProperties, children });
+
+  it('should recognise toggles from on/off variant values', () => {
+    expect(isControl(instance('Switch', { State: { type: 'VARIANT', value: 'On' } }))).toBe(true);
+    expect(isControl(instance('Radio Button', { Selected: { type: 'VARIANT', value: 'No' } }))).toBe(true);
+  });
+
+  it('should recognise the kind from a BOOLEAN property key', () => {
+    expect(isControl(instance('Terms Row', { 'Checked#12:0': { type: 'BOOLEAN', value: true } }))).toBe(true);
+  });
+
+  it('should recognise numeric controls from numeric variant values', () => {
+    expect(isControl(instance('Volume Slider', { Value: { type: 'VARIANT', value: '40' } }))).toBe(true);
+    expect(isControl(instance('Rating', { Stars: { type: 'VARIANT', value: '4' } }))).toBe(true);
+  });
+
+  it('should read a stepper value from its number text', () => {
+    const node = instance('Quantity Stepper', {}, [createNode({ id: '1:2', type: 'TEXT', text: '2' })]);
+    expect(isControl(node)).toBe(true);
+  });
+
+  it('should read the toggle state only from state-like properties', () => {
+    const sized = toIRNode(instance('Switch', {
+      Size: { type: 'VARIANT', value: 'Default' },
+      State: { type: 'VARIANT', value: 'On' },
+    })) as ControlIR;
+    expect(sized.value).toBe(true);
+    expect(isControl(instance('Checkbox', { Type: { type: 'VARIANT', value: 'Active' } }))).toBe(false);
+  });
+
+  it('should not turn number badges into steppers or ratings', () => {
+    const badge = instance('Notification counter', { Count: { type: 'VARIANT', value: '3' } }, [
+      createNode({ id: '1:2', type: 'TEXT', text: '3' }),
+    ]);
+    expect(isControl(badge)).toBe(false);
+    expect(isControl(instance('Stars', { Value: { type: 'VARIANT', value: '4' } }))).toBe(false);
+  });
+
+  it('should return false when no property carries the value', () => {
+    expect(isControl(instance('Switch', { 'Show icon#1:0': { type: 'BOOLEAN', value: true } }))).toBe(false);
+    expect(isControl(instance('Rating', {}, [createNode({ id: '1:2', type: 'TEXT', text: '4.8 (120 reviews)' })]))).toBe(false);
+  });
+
+  it('should return false for frames and unrelated instances', () => {
+    expect(isControl(createNode({ name: 'Switch', componentProperties: { State: { type: 'VARIANT', value: 'On' } } }))).toBe(false);
+    expect(isControl(instance('Avatar', { Size: { type: 'VARIANT', value: 'Large' } }))).toBe(false);
+  });
+});
+
 describe('isCard', () => {
   it('should return true for nodes with corner radius and background', () => {
     const node = createNode({
@@ -242,6 +331,22 @@ describe('classifyNode', () => {
     expect(classifyNode(node)).toBe('Button');
   });
 
+  it('should classify filled fields as inputs before buttons', () => {
+    const node = createNode({
+      name: 'Password',
+      boundingBox: { x: 0, y: 0, width: 343, height: 48 },
+      fills: [{ type: 'solid', color: { hex: '#f3f4f6', rgba: { r: 243, g: 244, b: 246, a: 1 } }, opacity: 1 }],
+      children: [createNode({ type: 'TEXT', text: 'Password', boundingBox: { x: 16, y: 14, width: 80, height: 20 } })],
+    });
+    expect(classifyNode(node)).toBe('Input');
+  });
+
+  it('should classify control instances before components', () => {
+    const node = createNode({ name: 'Checkbox', type: 'INSTANCE', componentProperties: { Checked: { type: 'VARIANT', value: 'true' } } });
+    expect(classifyNode(node)).toBe('Control');
+    expect(classifyNode({ ...node, name: 'Avatar', componentProperties: undefined })).toBe('Component');
+  });
+
   it('should classify card nodes', () => {
     const node = createNode({
       boundingBox: { x: 0, y: 0, width: 200, height: 150 },
@@ -305,6 +410,67 @@ describe('toIRNode', () => {
     expect((result as any).variant).toBe('primary');
   });
 
+  it('should convert field node to InputIR with keyboard hints', () => {
+    const node = createNode({
+      name: 'Phone',
+      boundingBox: { x: 0, y: 0, width: 343, height: 48 },
+      fills: [{ type: 'solid', color: { hex: '#ffffff', rgba: { r: 255, g: 255, b: 255, a: 1 } }, opacity: 1 }],
+      children: [createNode({ id: '1:2', type: 'TEXT', text: '+1 555 000 0000', boundingBox: { x: 16, y: 14, width: 120, height: 20 } })],
+    });
+    const result = toIRNode(node);
+
+    expect(result.semanticType).toBe('Input');
+    expect(result).toMatchObject({
+      placeholder: '+1 555 000 0000',
+      placeholderId: '1:2',
+      keyboardType: 'phone-pad',
+      autoComplete: 'tel',
+      textContentType: 'telephoneNumber',
+    });
+    expect((result as any).children).toHaveLength(1);
+  });
+
+  it('should convert control instance to ControlIR with only its label', () => {
+    const node = createNode({
+      name: 'Toggle',
+      type: 'INSTANCE',
+      componentProperties: { State: { type: 'VARIANT', value: 'Off' } },
+      children: [
+        createNode({ id: '1:2', type: 'TEXT', text: 'Dark mode' }),
+        createNode({ id: '1:3', name: 'Knob', type: 'ELLIPSE', boundingBox: { x: 0, y: 0, width: 24, height: 24 } }),
+      ],
+    });
+    const result = toIRNode(node);
+
+    expect(result).toMatchObject({ semanticType: 'Control', control: 'switch', value: false, labelId: '1:2' });
+    expect((result as any).children.map((child: any) => child.id)).toEqual(['1:2']);
+  });
+
+  it('should take the slider bound from the variant options', () => {
+    const node = createNode({
+      name: 'Slider',
+      type: 'INSTANCE',
+      componentProperties: { Value: { type: 'VARIANT', value: '0.5', options: ['0', '0.5', '1'] } },
+    });
+
+    expect(toIRNode(node)).toMatchObject({ control: 'slider', value: 0.5, max: 1, children: [] });
+  });
+
+  it('should keep the first on-tap prototype action as the interaction', () => {
+    const node = createNode({
+      reactions: [
+        { trigger: 'ON_HOVER', action: 'OVERLAY', destinationId: '3:1' },
+        { trigger: 'ON_CLICK', action: 'CHANGE_TO', destinationId: '1:9' },
+        { trigger: 'ON_CLICK', action: 'NAVIGATE', destinationId: '2:1' },
+      ],
+      children: [createNode({ id: '1:2' })],
+    });
+
+    expect(toIRNode(node).interaction).toEqual({ action: 'navigate', destinationId: '2:1' });
+    expect(toIRNode(createNode({ reactions: [{ trigger: 'ON_CLICK', action: 'CLOSE' }] })).interaction).toEqual({ action: 'back' });
+    expect(toIRNode(createNode()).interaction).toBeUndefined();
+  });
+
   it('should convert container with children recursively', () => {
     const node = createNode({
       children: [
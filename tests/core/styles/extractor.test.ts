@@ -7,9 +7,14 @@ import {
   fillsToBackground,
   strokesToBorder,
   effectsToShadow,
+  effectsToBoxShadow,
+  effectsToBlur,
   cornerRadiusToStyle,
   typographyToStyle,
   extractStyleFromProps,
+  resolveBoundVariables,
+  resolveStyleNames,
+  isGeneratedTokenName,
   extractTokens,
   createEmptyStylesBundle,
 } from '../../../src/core/styles/extractor.js';
@@ -117,6 +122,43 @@ describe('effectsToShadow', () => {
   });
 });
 
+describe('effectsToBoxShadow', () => {
+  const black = (a: number) => ({ hex: '#000000', rgba: { r: 0, g: 0, b: 0, a } });
+
+  it('should keep every shadow and mark inner shadows as inset', () => {
+    const effects: Effect[] = [
+      { type: 'drop-shadow', color: black(0.1), offset: { x: 0, y: 4 }, radius: 12, spread: 0 },
+      { type: 'drop-shadow', color: black(0.05), offset: { x: 0, y: 1 }, radius: 2, spread: 0 },
+      { type: 'inner-shadow', color: black(0.2), offset: { x: 0, y: 1 }, radius: 0, spread: 0 },
+      { type: 'background-blur', radius: 20 },
+    ];
+
+    expect(effectsToBoxShadow(effects)).toEqual([
+      { color: '#0000001A', offsetX: 0, offsetY: 4, blur: 12, spread: 0 },
+      { color: '#0000000D', offsetX: 0, offsetY: 1, blur: 2, spread: 0 },
+      { color: '#00000033', offsetX: 0, offsetY: 1, blur: 0, spread: 0, inset: true },
+    ]);
+  });
+
+  it('should leave a single drop shadow to effectsToShadow', () => {
+    const effects: Effect[] = [
+      { type: 'drop-shadow', color: black(0.1), offset: { x: 0, y: 4 }, radius: 12, spread: 0 },
+    ];
+    expect(effectsToBoxShadow(effects)).toBeUndefined();
+    expect(effectsToBoxShadow(undefined)).toBeUndefined();
+  });
+});
+
+describe('effectsToBlur', () => {
+  it('should extract layer and background blur radii', () => {
+    expect(effectsToBlur([
+      { type: 'layer-blur', radius: 4 },
+      { type: 'background-blur', radius: 24 },
+    ])).toEqual({ layerBlur: 4, backgroundBlur: 24 });
+    expect(effectsToBlur(undefined)).toEqual({});
+  });
+});
+
 describe('cornerRadiusToStyle', () => {
   it('should return number for uniform radius', () => {
     const result = cornerRadiusToStyle(8);
@@ -226,6 +268,26 @@ describe('extractStyleFromProps', () => {
 
     expect(result.opacity).toBeUndefined();
   });
+
+  it('should emit flexWrap with column and row gaps for wrapped rows', () => {
+    const result = extractStyleFromProps('chips', {
+      layout: {
+        type: 'row',
+        gap: 8,
+        padding: { top: 0, right: 0, bottom: 0, left: 0 },
+        mainAlign: 'start',
+        crossAlign: 'start',
+        sizing: { horizontal: 'fill', vertical: 'hug' },
+        wrap: true,
+        wrapGap: 12,
+      },
+    });
+
+    expect(result.flexWrap).toBe('wrap');
+    expect(result.columnGap).toBe(8);
+    expect(result.rowGap).toBe(12);
+    expect(result.gap).toBeUndefined();
+  });
 });
 
 describe('extractTokens', () => {
@@ -270,6 +332,94 @@ describe('extractTokens', () => {
     // Should have 2 unique typography (s1 and s3 share same font spec)
     expect(Object.keys(tokens.typography)).toHaveLength(2);
   });
+
+  it('should collect bound variable names by category', () => {
+    const styles: Record<string, ExtractedStyle> = {
+      s1: { id: 's1', backgroundColor: '#ff0000', variables: { backgroundColor: 'colors/red', gap: 'spacing/md' } },
+      s2: { id: 's2', borderRadius: 8, variables: { borderRadius: 'radius/md' } },
+    };
+    const tokens = extractTokens(styles);
+
+    expect(tokens.variables).toEqual({
+      'colors/red': 'colors',
+      'spacing/md': 'spacing',
+      'radius/md': 'radii',
+    });
+  });
+
+  it('should name tokens after published styles', () => {
+    const typography = { fontFamily: 'Inter', fontSize: 32, fontWeight: 700, lineHeight: 40, letterSpacing: 0, textAlign: 'left' as const, color: '#111111' };
+    const shadow = { color: '#00000033', offsetX: 0, offsetY: 4, blur: 8, spread: 0 };
+    const styles: Record<string, ExtractedStyle> = {
+      s1: { id: 's1', backgroundColor: '#ff0000' },
+      s2: { id: 's2', backgroundColor: '#ff0000', shadow, styleNames: { fill: 'Brand/Primary', effect: 'Elevation/1' } },
+      s3: { id: 's3', typography, styleNames: { text: 'Heading/H1', fill: 'Text/Primary' } },
+      s4: { id: 's4', backgroundColor: '#00ff00' },
+    };
+    const tokens = extractTokens(styles);
+
+    expect(tokens.colors).toEqual({
+      'Brand/Primary': '#ff0000',
+      color_0: '#00000033',
+      'Text/Primary': '#111111',
+      color_1: '#00ff00',
+    });
+    expect(Object.keys(tokens.typography)).toEqual(['Heading/H1']);
+    expect(tokens.shadows['Elevation/1']).toEqual(shadow);
+    expect(isGeneratedTokenName('color_1')).toBe(true);
+    expect(isGeneratedTokenName('Brand/Primary')).toBe(false);
+  });
+});
+
+describe('resolveStyleNames', () => {
+  it('should resolve style references to published names and drop unknown styles', () => {
+    const names = { '1:10': 'Heading/H1', '1:11': 'Text/Primary' };
+
+    expect(resolveStyleNames({ text: '1:10', fill: '1:11', effect: '9:99' }, names)).toEqual({
+      text: 'Heading/H1',
+      fill: 'Text/Primary',
+    });
+    expect(resolveStyleNames({ effect: '9:99' }, names)).toBeUndefined();
+    expect(resolveStyleNames({ text: '1:10' }, undefined)).toBeUndefined();
+  });
+});
+
+describe('resolveBoundVariables', () => {
+  const names = { 'VariableID:1': 'colors/primary', 'VariableID:2': 'spacing/md', 'VariableID:3': 'radius/lg' };
+  const alias = (id: string) => ({ type: 'VARIABLE_ALIAS' as const, id });
+
+  it('should resolve bindings to variable names per style property', () => {
+    const result = resolveBoundVariables(
+      {
+        fills: [alias('VariableID:1')],
+        itemSpacing: alias('VariableID:2'),
+        paddingLeft: alias('VariableID:2'),
+        topLeftRadius: alias('VariableID:3'),
+        topRightRadius: alias('VariableID:3'),
+        bottomRightRadius: alias('VariableID:3'),
+        bottomLeftRadius: alias('VariableID:3'),
+      },
+      names
+    );
+
+    expect(result).toEqual({
+      backgroundColor: 'colors/primary',
+      gap: 'spacing/md',
+      paddingLeft: 'spacing/md',
+      borderRadius: 'radius/lg',
+    });
+  });
+
+  it('should bind text fills to color and drop unknown variables', () => {
+    const result = resolveBoundVariables(
+      { fills: [alias('VariableID:1')], strokes: [alias('VariableID:404')] },
+      names,
+      true
+    );
+
+    expect(result).toEqual({ color: 'colors/primary' });
+    expect(resolveBoundVariables({ fills: [alias('VariableID:1')] }, undefined)).toBeUndefined();
+  });
 });
 
 describe('createEmptyStylesBundle', () => {
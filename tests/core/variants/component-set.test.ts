@@ -0,0 +1,171 @@
+/**
+ * Unit tests for component set variants
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseVariantValues,
+  collectVariantProps,
+  findVariant,
+  applyVariantStyles,
+} from '../../../src/core/variants/index.js';
+import type { FigmaNode } from '../../../src/api/types.js';
+import type { ButtonIR, ContainerIR, ScreenIR, TextIR, VariantProp } from '../../../src/core/types.js';
+
+function createVariant(id: string, name: string): FigmaNode {
+  return { id, name, type: 'COMPONENT', visible: true, boundingBox: { x: 0, y: 0, width: 120, height: 40 } };
+}
+
+function createSet(children: FigmaNode[], overrides: Partial<FigmaNode> = {}): FigmaNode {
+  return {
+    id: '5:1',
+    name: 'Button',
+    type: 'COMPONENT_SET',
+    visible: true,
+    boundingBox: { x: 0, y: 0, width: 400, height: 200 },
+    children,
+    ...overrides,
+  };
+}
+
+describe('parseVariantValues', () => {
+  it('should split variant names into property values', () => {
+    expect(parseVariantValues('Size=S, Type=Primary')).toEqual({ Size: 'S', Type: 'Primary' });
+  });
+
+  it('should ignore parts without a value', () => {
+    expect(parseVariantValues('Button')).toEqual({});
+  });
+});
+
+describe('collectVariantProps', () => {
+  it('should read options and defaults from the variant property definitions', () => {
+    const set = createSet(
+      [createVariant('5:2', 'Size=S, Disabled=False'), createVariant('5:3', 'Size=M, Disabled=True')],
+      {
+        componentProperties: {
+          Size: { type: 'VARIANT', value: 'M', options: ['S', 'M', 'L'] },
+          Disabled: { type: 'VARIANT', value: 'False', options: ['False', 'True'] },
+        },
+      }
+    );
+
+    expect(collectVariantProps(set)).toEqual([
+      { name: 'size', figmaName: 'Size', options: ['S', 'M', 'L'], defaultValue: 'M' },
+      { name: 'disabled', figmaName: 'Disabled', options: ['False', 'True'], defaultValue: 'False', isBoolean: true },
+    ]);
+  });
+
+  it('should fall back to the variant names with the first variant as default', () => {
+    const set = createSet([
+      createVariant('5:2', 'Icon Position=Left'),
+      createVariant('5:3', 'Icon Position=Right'),
+    ]);
+
+    expect(collectVariantProps(set)).toEqual([
+      { name: 'iconPosition', figmaName: 'Icon Position', options: ['Left', 'Right'], defaultValue: 'Left' },
+    ]);
+  });
+});
+
+describe('findVariant', () => {
+  it('should find the variant matching every value', () => {
+    const set = createSet([
+      createVariant('5:2', 'Size=S, Type=Primary'),
+      createVariant('5:3', 'Size=S, Type=Secondary'),
+    ]);
+
+    expect(findVariant(set, { Size: 'S', Type: 'Secondary' })?.id).toBe('5:3');
+    expect(findVariant(set, { Size: 'L', Type: 'Primary' })).toBeUndefined();
+  });
+});
+
+describe('applyVariantStyles', () => {
+  const boundingBox = { x: 0, y: 0, width: 120, height: 40 };
+  const tokens = { colors: {}, spacing: {}, radii: {}, typography: {}, shadows: {} };
+  const size: VariantProp = { name: 'size', figmaName: 'Size', options: ['M', 'L'], defaultValue: 'M' };
+
+  function createScreen(labelSize: number, background: string): ScreenIR {
+    const label: TextIR = { id: 'l', name: 'Label', semanticType: 'Text', boundingBox, styleRef: 'label', text: 'Go' };
+    const button: ButtonIR = {
+      id: 'b',
+      name: 'Button',
+      semanticType: 'Button',
+      boundingBox,
+      styleRef: 'button',
+      label: 'Go',
+      variant: 'primary',
+      textStyleRef: 'label',
+      children: [label],
+    };
+    return {
+      id: 's',
+      name: 'Button',
+      root: button,
+      stylesBundle: {
+        styles: {
+          button: { id: 'button', backgroundColor: background },
+          label: { id: 'label', typography: { fontFamily: 'Inter', fontSize: labelSize, fontWeight: 600, lineHeight: 20, letterSpacing: 0, textAlign: 'left' } },
+        },
+        tokens,
+      },
+    };
+  }
+
+  it('should add a style for every node that differs', () => {
+    const base = createScreen(14, '#3b82f6');
+    const added = applyVariantStyles(base, createScreen(18, '#3b82f6'), size, 'L');
+
+    expect(added).toBe(1);
+    expect(base.stylesBundle.styles.labelSizeL.typography?.fontSize).toBe(18);
+    expect(base.root.variantStyles).toEqual({ label: [{ prop: 'size', value: 'L', styleRef: 'labelSizeL' }] });
+    // The label child renders the same style when the button keeps its children
+    expect((base.root as ButtonIR).children![0].variantStyles).toEqual(base.root.variantStyles);
+  });
+
+  it('should add nothing for identical variants', () => {
+    const base = createScreen(14, '#3b82f6');
+
+    expect(applyVariantStyles(base, createScreen(14, '#3b82f6'), size, 'L')).toBe(0);
+    expect(base.root.variantStyles).toBeUndefined();
+  });
+
+  it('should store boolean variant values as booleans', () => {
+    const base = createScreen(14, '#3b82f6');
+    const disabled: VariantProp = { name: 'disabled', figmaName: 'Disabled', options: ['False', 'True'], defaultValue: 'False', isBoolean: true };
+    applyVariantStyles(base, createScreen(14, '#9ca3af'), disabled, 'True');
+
+    expect(base.root.variantStyles?.button).toEqual([{ prop: 'disabled', value: true, styleRef: 'buttonDisabledTrue' }]);
+  });
+
+  it('should not descend into nested component instances', () => {
+    const createWithInstance = (background: string): ScreenIR => ({
+      id: 's',
+      name: 'Card',
+      root: {
+        id: 'r',
+        name: 'Card',
+        semanticType: 'Container',
+        boundingBox,
+        styleRef: 'card',
+        children: [{
+          id: 'c',
+          name: 'Avatar',
+          semanticType: 'Component',
+          boundingBox,
+          styleRef: 'avatar',
+          componentId: 'c1',
+          componentName: 'Avatar',
+          children: [{ id: 'd', name: 'Dot', semanticType: 'Container', boundingBox, styleRef: 'dot', children: [] } as unknown as ContainerIR],
+        }],
+      } as unknown as ContainerIR,
+      stylesBundle: {
+        styles: { card: { id: 'card' }, avatar: { id: 'avatar' }, dot: { id: 'dot', backgroundColor: background } },
+        tokens,
+      },
+    });
+    const base = createWithInstance('#22c55e');
+
+    expect(applyVariantStyles(base, createWithInstance('#ef4444'), size, 'L')).toBe(0);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * E2E tests for get_screens batch generation
+ *
+ * FigmaClient network methods are stubbed on the prototype, the rest of the
+ * pipeline (generation, manifest, .figma/ output) runs for real.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTempWorkspace, TempWorkspace } from '../helpers/temp-workspace';
+import { FigmaClient } from '../../src/api/client';
+import { transformVariables } from '../../src/api/transformers';
+import { executeGetScreens, formatGetScreensResponse } from '../../src/edge/tools/get-screens';
+
+function rawFrame(id: string, name: string, text: string) {
+  return {
+    id,
+    name,
+    type: 'FRAME',
+    absoluteBoundingBox: { x: 0, y: 0, width: 375, height: 200 },
+    absoluteRenderBounds: { x: 0, y: 0, width: 375, height: 200 },
+    layoutMode: 'VERTICAL',
+    itemSpacing: 8,
+    fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+    children: [
+      {
+        id: `${id}-t`,
+        name: 'Title',
+        type: 'TEXT',
+        characters: text,
+        absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 24 },
+        absoluteRenderBounds: { x: 0, y: 0, width: 200, height: 24 },
+        style: { fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeightPx: 24, letterSpacing: 0 },
+        fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+      },
+    ],
+  };
+}
+
+/** Frame with an instance of the shared Search icon component */
+function frameWithIcon(id: string, name: string, text: string) {
+  const frame = rawFrame(id, name, text);
+  const icon = {
+    id: `${id}-i`,
+    name: 'Search',
+    type: 'INSTANCE',
+    componentId: 'c-search',
+    absoluteBoundingBox: { x: 0, y: 40, width: 24, height: 24 },
+    absoluteRenderBounds: { x: 0, y: 40, width: 24, height: 24 },
+    children: [
+      {
+        id: `${id}-v`,
+        name: 'Vector',
+        type: 'VECTOR',
+        absoluteBoundingBox: { x: 3, y: 43, width: 18, height: 18 },
+        absoluteRenderBounds: { x: 3, y: 43, width: 18, height: 18 },
+        strokes: [{ type: 'SOLID', color: { r: 0.13, g: 0.13, b: 0.13, a: 1 } }],
+      },
+    ],
+  };
+  return { ...frame, children: [...frame.children, icon] };
+}
+
+const documents: Record<string, any> = {
+  '1:1': rawFrame('1:1', 'Login', 'Sign in'),
+  '1:2': rawFrame('1:2', 'Signup', 'Create account'),
+  '2:1': rawFrame('2:1', 'Settings', 'Settings'),
+  '3:1': frameWithIcon('3:1', 'Catalog', 'Catalog'),
+  '3:2': frameWithIcon('3:2', 'Search', 'Search'),
+  '4:1': {
+    ...rawFrame('4:1', 'Welcome', 'Get started'),
+    reactions: [{ trigger: { type: 'ON_CLICK' }, actions: [{ type: 'NODE', destinationId: '1:2', navigation: 'NAVIGATE' }] }],
+  },
+};
+
+describe('get_screens batch', () => {
+  let workspace: TempWorkspace;
+  let fetchNodes: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace();
+    vi.spyOn(FigmaClient.prototype, 'getFileVersion').mockResolvedValue('v1');
+    vi.spyOn(FigmaClient.prototype, 'exportImages').mockResolvedValue([]);
+    vi.spyOn(FigmaClient.prototype, 'fetchVariables').mockResolvedValue({
+      success: false,
+      isEnterprise: false,
+      variables: {},
+      colors: {},
+      collections: {},
+      error: 'Variables API requires Figma Enterprise plan',
+    });
+    vi.spyOn(FigmaClient.prototype, 'fetchPageFrames').mockResolvedValue([
+      { id: '1:1', name: 'Login', type: 'FRAME', pageId: '0:1', pageName: 'Auth' },
+      { id: '1:2', name: 'Signup', type: 'FRAME', pageId: '0:1', pageName: 'Auth' },
+      { id: '2:1', name: 'Settings', type: 'FRAME', pageId: '0:2', pageName: 'Profile' },
+    ]);
+    fetchNodes = vi.spyOn(FigmaClient.prototype, 'fetchNodes').mockImplementation(async (fileKey, nodeIds) => ({
+      fileKey,
+      nodes: Object.fromEntries(
+        nodeIds.map((id) => [id, { id, name: documents[id].name, type: 'FRAME', document: documents[id] }])
+      ),
+    }));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await workspace.cleanup();
+  });
+
+  it('should fetch all URLs in one request and generate each screen', async () => {
+    const result = await executeGetScreens(
+      {
+        figmaUrls: [
+          'https://www.figma.com/design/ABC123/App?node-id=1-1',
+          'https://www.figma.com/design/ABC123/App?node-id=1-2',
+        ],
+        projectRoot: workspace.root,
+      },
+      'token'
+    );
+
+    expect(result.success).toBe(true);
+    expect(fetchNodes).toHaveBeenCalledTimes(1);
+    expect(fetchNodes).toHaveBeenCalledWith('ABC123', ['1:1', '1:2']);
+    expect(result.screens.map((s) => s.result.screenIR?.name)).toEqual(['Login', 'Signup']);
+    expect(workspace.exists('.figma/screens/Login/index.tsx')).toBe(true);
+    expect(workspace.exists('.figma/screens/Signup/index.tsx')).toBe(true);
+
+    const text = formatGetScreensResponse(result)[0].text;
+    expect(text).toContain('Generated 2/2 screens');
+    expect(text).toContain('"generated": 2');
+  });
+
+  it('should export workspace tokens once after the batch', async () => {
+    const result = await executeGetScreens(
+      {
+        figmaUrls: [
+          'https://www.figma.com/design/ABC123/App?node-id=1-1',
+          'https://www.figma.com/design/ABC123/App?node-id=1-2',
+        ],
+        projectRoot: workspace.root,
+        exportTokens: true,
+      },
+      'token'
+    );
+
+    expect(result.screens.every((screen) => screen.result.tokenExport === undefined)).toBe(true);
+    expect(result.tokenExport?.dtcgPath).toBe('.figma/tokens/tokens.json');
+    expect(workspace.exists('.figma/tokens/tokens.json')).toBe(true);
+    expect(formatGetScreensResponse(result)[0].text).toContain('exported to `.figma/tokens/tokens.json`');
+  });
+
+  it('should filter frames of a file by page name', async () => {
+    const result = await executeGetScreens(
+      { fileUrl: 'https://www.figma.com/design/ABC123/App', pageName: 'auth', projectRoot: workspace.root },
+      'token'
+    );
+
+    expect(result.screens.map((s) => s.nodeId)).toEqual(['1:1', '1:2']);
+    expect(fetchNodes).toHaveBeenCalledWith('ABC123', ['1:1', '1:2']);
+  });
+
+  it('should fall back to screens for an unknown category', async () => {
+    const result = await executeGetScreens(
+      {
+        figmaUrls: [
+          'https://www.figma.com/design/ABC123/App?node-id=4-1',
+          'https://www.figma.com/design/ABC123/App?node-id=1-2',
+        ],
+        projectRoot: workspace.root,
+        category: '../outside',
+      },
+      'token'
+    );
+
+    expect(result.success).toBe(true);
+    expect(workspace.exists('.figma/screens/Signup/index.tsx')).toBe(true);
+    // Screens of the batch resolve as routes
+    expect(await workspace.readFile('.figma/screens/Welcome/index.tsx')).toContain("navigation.navigate('Signup')");
+  });
+
+  it('should report invalid URLs without aborting the batch', async () => {
+    const result = await executeGetScreens(
+      {
+        figmaUrls: ['not-a-url', 'https://www.figma.com/design/ABC123/App?node-id=2-1'],
+        projectRoot: workspace.root,
+      },
+      'token'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.screens).toHaveLength(2);
+    expect(result.screens[0].result.success).toBe(false);
+    expect(formatGetScreensResponse(result)[0].text).toContain('## Failures');
+  });
+
+  it('should export an icon component once for all screens of the batch', async () => {
+    const exportImages = vi.spyOn(FigmaClient.prototype, 'exportImages').mockImplementation(async (_fileKey, nodeIds, options) =>
+      options?.format === 'svg' ? nodeIds.map((nodeId) => ({ nodeId, url: `https://figma.test/${nodeId}.svg` })) : []
+    );
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('<svg xmlns="http://www.w3.org/2000/svg"/>')));
+
+    try {
+      const result = await executeGetScreens(
+        {
+          figmaUrls: [
+            'https://www.figma.com/design/ABC123/App?node-id=3-1',
+            'https://www.figma.com/design/ABC123/App?node-id=3-2',
+          ],
+          projectRoot: workspace.root,
+        },
+        'token'
+      );
+
+      const exportedIds = exportImages.mock.calls.filter(([, , options]) => options?.format === 'svg').flatMap(([, ids]) => ids);
+      expect(exportedIds).toEqual(['3:1-i']);
+      expect(result.assets).toEqual({ downloaded: 1, reused: 1 });
+      expect(workspace.exists('.figma/screens/Search/assets/icons/search.svg')).toBe(true);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should write per-mode themes for variables bound with light/dark modes', async () => {
+    documents['1:1'].boundVariables = { fills: [{ type: 'VARIABLE_ALIAS', id: 'VariableID:1' }] };
+    vi.mocked(FigmaClient.prototype.fetchVariables).mockResolvedValue({
+      success: true,
+      isEnterprise: true,
+      ...transformVariables({
+        variableCollections: {
+          c1: {
+            id: 'c1',
+            name: 'Semantic',
+            modes: [{ modeId: 'l', name: 'Light' }, { modeId: 'd', name: 'Dark' }],
+            defaultModeId: 'l',
+          },
+        },
+        variables: {
+          'VariableID:1': {
+            id: 'VariableID:1',
+            name: 'colors/surface',
+            variableCollectionId: 'c1',
+            resolvedType: 'COLOR',
+            valuesByMode: { l: { r: 1, g: 1, b: 1, a: 1 }, d: { r: 0, g: 0, b: 0, a: 1 } },
+          },
+        },
+      }),
+    });
+
+    try {
+      const result = await executeGetScreens(
+        { figmaUrls: ['https://www.figma.com/design/ABC123/App?node-id=1-1'], projectRoot: workspace.root },
+        'token'
+      );
+
+      expect(result.success).toBe(true);
+      const tokens = await workspace.readFile('.figma/screens/Login/tokens.ts');
+      expect(tokens).toContain("surface: '#000000'");
+      const index = await workspace.readFile('.figma/screens/Login/index.tsx');
+      expect(index).toContain('backgroundColor: theme.colors.surface');
+      expect(index).toContain("from './tokens'");
+    } finally {
+      delete documents['1:1'].boundVariables;
+    }
+  });
+
+  it('should require URLs or a file URL', async () => {
+    const result = await executeGetScreens({ projectRoot: workspace.root }, 'token');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('figmaUrls');
+  });
+});
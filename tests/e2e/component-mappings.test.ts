@@ -0,0 +1,242 @@
+/**
+ * E2E tests for rendering Figma components as existing project components
+ *
+ * Offline snapshots in the nodes response format carry the main component
+ * metadata (keys, component set names) the config mappings match against.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTempWorkspace, TempWorkspace } from '../helpers/temp-workspace';
+import { executeGetScreen } from '../../src/edge/tools/get-screen';
+
+const box = (x: number, y: number, width: number, height: number) => ({
+  absoluteBoundingBox: { x, y, width, height },
+  absoluteRenderBounds: { x, y, width, height },
+});
+
+const buttonInstance = {
+  id: '50:2',
+  name: 'Button',
+  type: 'INSTANCE',
+  componentId: '40:1',
+  componentProperties: {
+    'Label#12:3': { type: 'TEXT', value: 'Sign in' },
+    Type: { type: 'VARIANT', value: 'Primary' },
+    Disabled: { type: 'VARIANT', value: 'False' },
+  },
+  ...box(16, 16, 343, 48),
+  layoutMode: 'HORIZONTAL',
+  paddingLeft: 16,
+  paddingRight: 16,
+  paddingTop: 12,
+  paddingBottom: 12,
+  fills: [{ type: 'SOLID', color: { r: 0.2, g: 0.4, b: 1, a: 1 } }],
+  children: [
+    {
+      id: '50:3',
+      name: 'Label',
+      type: 'TEXT',
+      characters: 'Sign in',
+      ...box(32, 28, 100, 24),
+      style: { fontFamily: 'Inter', fontSize: 16, fontWeight: 600, lineHeightPx: 24, letterSpacing: 0 },
+      fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+    },
+  ],
+};
+
+const loginScreen = {
+  id: '50:1',
+  name: 'Login',
+  type: 'FRAME',
+  ...box(0, 0, 375, 200),
+  layoutMode: 'VERTICAL',
+  paddingLeft: 16,
+  paddingRight: 16,
+  paddingTop: 16,
+  paddingBottom: 16,
+  fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+  children: [buttonInstance],
+};
+
+const appButtonMapping = {
+  figma: 'Button',
+  component: 'AppButton',
+  importPath: '@app/components/AppButton',
+  props: {
+    Label: 'title',
+    Type: { prop: 'variant', values: { Primary: 'primary', Secondary: 'secondary' } },
+    Disabled: 'disabled',
+  },
+};
+
+describe('project component mappings', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace();
+    await workspace.writeFile(
+      'login.json',
+      JSON.stringify({
+        fileKey: 'ABC123',
+        nodes: {
+          '50:1': {
+            document: loginScreen,
+            components: { '40:1': { key: 'a1b2c3', name: 'Type=Primary, Disabled=False', componentSetId: '40:0' } },
+            componentSets: { '40:0': { key: 'd4e5f6', name: 'Button' } },
+          },
+        },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function generateWithMappings(mappings: unknown[]) {
+    await workspace.mkdir('.figma');
+    await workspace.writeFile('.figma/config.json', JSON.stringify({ componentMappings: mappings }));
+    const result = await executeGetScreen({ snapshotPath: 'login.json', projectRoot: workspace.root }, '');
+    expect(result.success).toBe(true);
+    return result.multiFileResult!.mainComponent.content;
+  }
+
+  it('should render mapped instances as the project component with translated props', async () => {
+    const code = await generateWithMappings([appButtonMapping]);
+
+    expect(code).toContain("import { AppButton } from '@app/components/AppButton';");
+    expect(code).toContain('<AppButton title="Sign in" variant="primary" disabled={false} />');
+    expect(code).not.toContain('Sign in</Text>');
+  });
+
+  it('should match mappings by component key', async () => {
+    const code = await generateWithMappings([{ ...appButtonMapping, figma: 'a1b2c3', props: { Label: 'title' } }]);
+
+    expect(code).toContain('<AppButton title="Sign in" />');
+  });
+
+  it('should keep component mappings when the config is refreshed', async () => {
+    await generateWithMappings([appButtonMapping]);
+
+    const config = await workspace.readJson<any>('.figma/config.json');
+    expect(config.componentMappings).toEqual([appButtonMapping]);
+    expect(config.stylePattern).toBeDefined();
+  });
+
+  it('should inline instances no mapping matches', async () => {
+    const code = await generateWithMappings([{ ...appButtonMapping, figma: 'Card*' }]);
+
+    expect(code).not.toContain('AppButton');
+  });
+});
+
+describe('project component suggestions', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace();
+    await workspace.writeFile(
+      'login.json',
+      JSON.stringify({ fileKey: 'ABC123', nodes: { '50:1': { document: loginScreen } } })
+    );
+    await workspace.mkdir('src/components/AppButton');
+    await workspace.writeFile('src/components/AppButton/index.tsx', `
+      import React from 'react';
+      import { Pressable, Text } from 'react-native';
+
+      export interface AppButtonProps {
+        title: string;
+        variant?: 'primary' | 'secondary';
+        disabled?: boolean;
+        onPress?: () => void;
+      }
+
+      export function AppButton({ title }: AppButtonProps) {
+        return <Pressable><Text>{title}</Text></Pressable>;
+      }
+
+      export const BUTTON_HEIGHT = 48;
+    `);
+    await workspace.writeFile('src/components/Badge.tsx', `
+      import React, { memo, type FC } from 'react';
+      import { Text } from 'react-native';
+
+      type BadgeProps = { count: number };
+
+      export const Badge: FC<BadgeProps> = ({ count }) => <Text>{count}</Text>;
+      export const MemoBadge = memo(({ count }: BadgeProps) => <Text>{count}</Text>);
+    `);
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  it('should scan exported components with their props into the config', async () => {
+    await executeGetScreen({ snapshotPath: 'login.json', projectRoot: workspace.root }, '');
+
+    const config = await workspace.readJson<any>('.figma/config.json');
+    expect(config.projectComponents).toEqual([
+      {
+        name: 'AppButton',
+        importPath: '@app/components/AppButton',
+        file: 'src/components/AppButton/index.tsx',
+        props: [
+          { name: 'title', type: 'string' },
+          { name: 'variant', type: 'string', values: ['primary', 'secondary'], optional: true },
+          { name: 'disabled', type: 'boolean', optional: true },
+          { name: 'onPress', type: 'other', optional: true },
+        ],
+      },
+      {
+        name: 'Badge',
+        importPath: '@app/components/Badge',
+        file: 'src/components/Badge.tsx',
+        props: [{ name: 'count', type: 'number' }],
+      },
+      {
+        name: 'MemoBadge',
+        importPath: '@app/components/Badge',
+        file: 'src/components/Badge.tsx',
+        props: [{ name: 'count', type: 'number' }],
+      },
+    ]);
+  });
+
+  it('should write suggestions for review without applying them', async () => {
+    const result = await executeGetScreen({ snapshotPath: 'login.json', projectRoot: workspace.root }, '');
+
+    expect(result.suggestedMappings).toEqual([
+      {
+        figma: 'Button',
+        component: 'AppButton',
+        importPath: '@app/components/AppButton',
+        props: {
+          Label: 'title',
+          Type: { prop: 'variant', values: { Primary: 'primary' } },
+          Disabled: 'disabled',
+        },
+        score: 0.84,
+      },
+    ]);
+    expect(result.multiFileResult!.mainComponent.content).not.toContain('AppButton');
+
+    const config = await workspace.readJson<any>('.figma/config.json');
+    expect(config.suggestedComponentMappings).toEqual(result.suggestedMappings);
+    expect(config.componentMappings).toBeUndefined();
+
+    // Suggestions under review are not repeated
+    const second = await executeGetScreen({ snapshotPath: 'login.json', projectRoot: workspace.root }, '');
+    expect(second.suggestedMappings).toBeUndefined();
+    expect((await workspace.readJson<any>('.figma/config.json')).suggestedComponentMappings).toHaveLength(1);
+  });
+
+  it('should not suggest components for mapped instances', async () => {
+    await workspace.mkdir('.figma');
+    await workspace.writeFile('.figma/config.json', JSON.stringify({ componentMappings: [appButtonMapping] }));
+
+    const result = await executeGetScreen({ snapshotPath: 'login.json', projectRoot: workspace.root }, '');
+
+    expect(result.suggestedMappings).toBeUndefined();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * E2E tests for reusing components generated into .figma/components
+ *
+ * Offline snapshots: a component is generated first, then a screen with
+ * instances of it imports the component instead of inlining a copy.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTempWorkspace, TempWorkspace } from '../helpers/temp-workspace';
+import { executeGetScreen } from '../../src/edge/tools/get-screen';
+
+const box = (x: number, y: number, width: number, height: number) => ({
+  absoluteBoundingBox: { x, y, width, height },
+  absoluteRenderBounds: { x, y, width, height },
+});
+
+function listItem(id: string, type: 'COMPONENT' | 'INSTANCE', title: string, y = 0) {
+  return {
+    id,
+    name: 'List Item',
+    type,
+    ...(type === 'INSTANCE' && { componentId: '20:1' }),
+    ...box(0, y, 343, 56),
+    layoutMode: 'HORIZONTAL',
+    itemSpacing: 8,
+    paddingLeft: 16,
+    paddingRight: 16,
+    paddingTop: 16,
+    paddingBottom: 16,
+    fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+    children: [
+      {
+        id: `${id}-title`,
+        name: 'Title',
+        type: 'TEXT',
+        characters: title,
+        ...box(16, y + 16, 200, 24),
+        style: { fontFamily: 'Inter', fontSize: 16, fontWeight: 500, lineHeightPx: 24, letterSpacing: 0 },
+        fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+      },
+    ],
+  };
+}
+
+const settingsScreen = {
+  id: '30:1',
+  name: 'Settings',
+  type: 'FRAME',
+  ...box(0, 0, 375, 200),
+  layoutMode: 'VERTICAL',
+  itemSpacing: 8,
+  paddingLeft: 16,
+  paddingRight: 16,
+  paddingTop: 16,
+  paddingBottom: 16,
+  fills: [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.95, a: 1 } }],
+  children: [listItem('30:2', 'INSTANCE', 'Notifications', 16), listItem('30:3', 'INSTANCE', 'Privacy', 80)],
+};
+
+describe('component reuse across screens', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace();
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  async function writeSnapshot(path: string, document: { id: string; name: string; type: string }) {
+    await workspace.writeFile(
+      path,
+      JSON.stringify({ fileKey: 'ABC123', nodes: { [document.id]: { document } } })
+    );
+  }
+
+  it('should import a generated component in screens that use its instances', async () => {
+    await writeSnapshot('list-item.json', listItem('20:1', 'COMPONENT', 'Title'));
+    await writeSnapshot('settings.json', settingsScreen);
+
+    const component = await executeGetScreen(
+      { snapshotPath: 'list-item.json', projectRoot: workspace.root, category: 'components', componentName: 'ListItem' },
+      ''
+    );
+    expect(component.success).toBe(true);
+
+    const manifest = await workspace.readJson<any>('.figma/manifest.json');
+    expect(manifest.componentIndex).toEqual({ '20:1': '20:1' });
+    expect(manifest.components['20:1'].props).toEqual(['title']);
+
+    const screen = await executeGetScreen(
+      { snapshotPath: 'settings.json', projectRoot: workspace.root, componentName: 'Settings' },
+      ''
+    );
+    const code = screen.multiFileResult!.mainComponent.content;
+
+    expect(screen.success).toBe(true);
+    expect(code).toContain("import { ListItem } from '../../components/ListItem';");
+    expect(code).toContain('"title": "Notifications"');
+    expect(code).toContain('"title": "Privacy"');
+    expect(code).toContain('<ListItem key={index} {...item} />');
+    expect(code).not.toContain('function ListItem');
+  });
+
+  it('should inline instances of components that are not generated', async () => {
+    await writeSnapshot('settings.json', settingsScreen);
+
+    const screen = await executeGetScreen(
+      { snapshotPath: 'settings.json', projectRoot: workspace.root, componentName: 'Settings' },
+      ''
+    );
+
+    expect(screen.multiFileResult!.mainComponent.content).toContain('function ListItem');
+    expect(screen.multiFileResult!.mainComponent.content).not.toContain('/components/ListItem');
+  });
+});
@@ -137,4 +137,122 @@ describe('Project Configuration Automation', () => {
 
     await workspace.cleanup();
   });
+
+  it('should discover DTCG and Tokens Studio JSON and load the configured theme', async () => {
+    const workspace = await createTempWorkspace('config-dtcg-');
+
+    await workspace.writeFile('package.json', JSON.stringify({ name: 'app', version: '1.0.0' }));
+    await workspace.writeFile('tokens.json', JSON.stringify({
+      radius: { $type: 'dimension', card: { $value: '12px' } },
+    }));
+    await workspace.mkdir('design/tokens');
+    await workspace.writeFile('design/tokens/$metadata.json', JSON.stringify({ tokenSetOrder: ['core', 'light', 'dark'] }));
+    await workspace.writeFile('design/tokens/$themes.json', JSON.stringify([
+      { name: 'Light', selectedTokenSets: { core: 'source', light: 'enabled' } },
+      { name: 'Dark', selectedTokenSets: { core: 'source', dark: 'enabled' } },
+    ]));
+    await workspace.writeFile('design/tokens/core.json', JSON.stringify({ gray: { 900: { value: '#111827', type: 'color' } } }));
+    await workspace.writeFile('design/tokens/light.json', JSON.stringify({ text: { value: '{gray.900}', type: 'color' } }));
+    await workspace.writeFile('design/tokens/dark.json', JSON.stringify({ text: { value: '#F9FAFB', type: 'color' } }));
+
+    const { getOrCreateFigmaConfig, loadAllProjectTokens, saveFigmaConfig } = await import('../../src/workspace/index');
+    const config = await getOrCreateFigmaConfig(workspace.root);
+
+    expect(config.tokenFiles).toContain('tokens.json');
+    expect(config.tokenFiles).toContain('design/tokens/$metadata.json');
+    expect(config.tokenFiles.join(',')).not.toMatch(/package\.json|core\.json|light\.json/);
+
+    const light = await loadAllProjectTokens(workspace.root);
+    expect(light.colors.get('#111827')).toBe('theme.text');
+    expect(light.radii.get(12)).toBe('theme.radius.card');
+
+    await saveFigmaConfig(workspace.root, { ...config, tokensTheme: 'Dark' });
+    const dark = await loadAllProjectTokens(workspace.root);
+    expect(dark.colors.get('#F9FAFB')).toBe('theme.text');
+    expect(dark.colors.has('#111827')).toBe(false);
+
+    await workspace.cleanup();
+  });
+
+  it('should detect NativeWind and read the Tailwind theme scales', async () => {
+    const workspace = await createTempWorkspace('config-nativewind-');
+
+    await workspace.writeFile('package.json', JSON.stringify({
+      dependencies: { nativewind: '^4.0.0', 'react-native-unistyles': '^2.0.0' },
+    }));
+    await workspace.writeFile('tailwind.config.js', `
+      module.exports = {
+        content: ['./app/**/*.{ts,tsx}'],
+        presets: [require('nativewind/preset')],
+        theme: {
+          extend: {
+            colors: { brand: { 500: '#3b82f6' } },
+            spacing: { 18: '72px' },
+          },
+        },
+      };
+    `);
+
+    const { getOrCreateFigmaConfig, loadAllProjectTokens } = await import('../../src/workspace/index');
+    const config = await getOrCreateFigmaConfig(workspace.root);
+
+    expect(config.stylePattern).toBe('nativewind');
+    expect(config.tokenFiles).toContain('tailwind.config.js');
+
+    const tokens = await loadAllProjectTokens(workspace.root);
+    expect(tokens.colors.get('#3B82F6')).toBe("theme.colors.brand['500']");
+    expect(tokens.spacing.get(72)).toBe("theme.spacing['18']");
+    expect(tokens.spacing.get(16)).toBe("theme.spacing['4']");
+
+    await workspace.cleanup();
+  });
+
+  it('should detect Restyle as the style pattern', async () => {
+    const workspace = await createTempWorkspace('config-restyle-');
+
+    await workspace.writeFile('package.json', JSON.stringify({
+      dependencies: { '@shopify/restyle': '^2.4.0', 'react-native': '0.74.0' },
+    }));
+
+    const { getOrCreateFigmaConfig } = await import('../../src/workspace/index');
+    const config = await getOrCreateFigmaConfig(workspace.root);
+
+    expect(config.stylePattern).toBe('restyle');
+
+    await workspace.cleanup();
+  });
+
+  it('should detect per-axis scale functions and keep hand-written scaling settings', async () => {
+    const workspace = await createTempWorkspace('config-scaling-');
+
+    await workspace.mkdir('src/utils');
+    await workspace.writeFile('package.json', JSON.stringify({ dependencies: { 'react-native': '0.74.0' } }));
+    await workspace.writeFile('src/utils/scale.ts', `
+      export const scale = (size: number) => size;
+      export const verticalScale = (size: number) => size;
+      export const moderateScale = (size: number, factor = 0.5) => size;
+    `);
+
+    const { getOrCreateFigmaConfig, refreshFigmaConfig, saveFigmaConfig } = await import('../../src/workspace/index');
+    const config = await getOrCreateFigmaConfig(workspace.root);
+
+    expect(config.responsive).toEqual({ horizontal: 'scale', vertical: 'verticalScale', moderate: 'moderateScale' });
+
+    await saveFigmaConfig(workspace.root, { ...config, responsive: { ...config.responsive, baseWidth: 375 } });
+    const refreshed = await refreshFigmaConfig(workspace.root);
+
+    expect(refreshed.responsive?.baseWidth).toBe(375);
+    expect(refreshed.responsive?.vertical).toBe('verticalScale');
+
+    // Function names come from the new scan
+    await workspace.writeFile('src/utils/scale.ts', `
+      export const scale = (size: number) => size;
+      export const moderateScale = (size: number, factor = 0.5) => size;
+    `);
+    const rescanned = await refreshFigmaConfig(workspace.root);
+
+    expect(rescanned.responsive).toEqual({ horizontal: 'scale', moderate: 'moderateScale', baseWidth: 375 });
+
+    await workspace.cleanup();
+  });
 });
@@ -0,0 +1,154 @@
+/**
+ * E2E tests for get_flow: screens of a page/section plus navigator files
+ *
+ * FigmaClient network methods are stubbed on the prototype, the rest of the
+ * pipeline (generation, manifest, .figma/ output) runs for real.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTempWorkspace, TempWorkspace } from '../helpers/temp-workspace';
+import { FigmaClient } from '../../src/api/client';
+import { executeGetFlow, formatGetFlowResponse } from '../../src/edge/tools/get-flow';
+
+function rawFrame(id: string, name: string, text: string, reactions?: unknown[]) {
+  return {
+    id,
+    name,
+    type: 'FRAME',
+    absoluteBoundingBox: { x: 0, y: 0, width: 375, height: 200 },
+    absoluteRenderBounds: { x: 0, y: 0, width: 375, height: 200 },
+    layoutMode: 'VERTICAL',
+    itemSpacing: 8,
+    fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+    children: [
+      {
+        id: `${id}-t`,
+        name: 'Link',
+        type: 'TEXT',
+        characters: text,
+        absoluteBoundingBox: { x: 0, y: 100, width: 200, height: 24 },
+        absoluteRenderBounds: { x: 0, y: 100, width: 200, height: 24 },
+        style: { fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeightPx: 24, letterSpacing: 0 },
+        fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+        reactions,
+      },
+    ],
+  };
+}
+
+const navigateTo = (destinationId: string, navigation = 'NAVIGATE') => [
+  { trigger: { type: 'ON_CLICK' }, actions: [{ type: 'NODE', destinationId, navigation }] },
+];
+
+const documents: Record<string, any> = {
+  '1:1': rawFrame('1:1', 'Login', 'Create account', navigateTo('1:2')),
+  '1:2': rawFrame('1:2', 'Signup', 'Read terms', navigateTo('1:3', 'OVERLAY')),
+  '1:3': rawFrame('1:3', 'Terms', 'Close', [{ trigger: { type: 'ON_CLICK' }, actions: [{ type: 'BACK' }] }]),
+  '2:1': rawFrame('2:1', 'Settings', 'Settings'),
+};
+
+describe('get_flow', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace();
+    vi.spyOn(FigmaClient.prototype, 'getFileVersion').mockResolvedValue('v1');
+    vi.spyOn(FigmaClient.prototype, 'exportImages').mockResolvedValue([]);
+    vi.spyOn(FigmaClient.prototype, 'fetchVariables').mockResolvedValue({
+      success: false,
+      isEnterprise: false,
+      variables: {},
+      colors: {},
+      collections: {},
+      error: 'Variables API requires Figma Enterprise plan',
+    });
+    vi.spyOn(FigmaClient.prototype, 'fetchPageFrames').mockResolvedValue([
+      { id: '1:1', name: 'Login', type: 'FRAME', pageId: '0:1', pageName: 'App', sectionId: '5:1', sectionName: 'Auth flow' },
+      { id: '1:2', name: 'Signup', type: 'FRAME', pageId: '0:1', pageName: 'App', sectionId: '5:1', sectionName: 'Auth flow' },
+      { id: '1:3', name: 'Terms', type: 'FRAME', pageId: '0:1', pageName: 'App', sectionId: '5:1', sectionName: 'Auth flow' },
+      { id: '2:1', name: 'Settings', type: 'FRAME', pageId: '0:1', pageName: 'App' },
+    ]);
+    vi.spyOn(FigmaClient.prototype, 'fetchNodes').mockImplementation(async (fileKey, nodeIds) => ({
+      fileKey,
+      nodes: Object.fromEntries(
+        nodeIds.map((id) => [id, { id, name: documents[id].name, type: 'FRAME', document: documents[id] }])
+      ),
+    }));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await workspace.cleanup();
+  });
+
+  it('should generate the frames of a section with a stack navigator', async () => {
+    const result = await executeGetFlow(
+      { fileUrl: 'https://www.figma.com/design/ABC123/App?node-id=5-1', projectRoot: workspace.root },
+      'token'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.flowName).toBe('AuthFlow');
+    expect(result.batch?.screens.map((s) => s.nodeId)).toEqual(['1:1', '1:2', '1:3']);
+    expect(result.navigation?.initialRoute).toBe('Login');
+    expect(result.navigation?.edges).toEqual([
+      { from: 'Login', to: 'Signup', action: 'navigate' },
+      { from: 'Signup', to: 'Terms', action: 'overlay' },
+    ]);
+
+    // Links to frames generated later in the flow resolve as well
+    const login = await workspace.readFile('.figma/screens/Login/index.tsx');
+    expect(login).toContain("navigation.navigate('Signup')");
+    const terms = await workspace.readFile('.figma/screens/Terms/index.tsx');
+    expect(terms).toContain('navigation.goBack()');
+
+    const navigator = await workspace.readFile('.figma/flows/AuthFlow/navigator.tsx');
+    expect(navigator).toContain('export function AuthFlowNavigator() {');
+    expect(navigator).toContain("import { Login } from '../../screens/Login';");
+    expect(navigator).toContain("options={{ presentation: 'modal' }}");
+    const types = await workspace.readFile('.figma/flows/AuthFlow/types.ts');
+    expect(types).toContain('  Signup: undefined;');
+    const index = await workspace.readFile('.figma/flows/AuthFlow/index.ts');
+    expect(index).toContain("export { Terms } from '../../screens/Terms';");
+
+    const text = formatGetFlowResponse(result)[0].text;
+    expect(text).toContain('# 🧭 Flow AuthFlow');
+    expect(text).toContain('- Login → Signup (navigate)');
+    expect(text).toContain('Generated 3/3 screens');
+  });
+
+  it('should use the page and the requested navigator and flow name', async () => {
+    const result = await executeGetFlow(
+      {
+        fileUrl: 'https://www.figma.com/design/ABC123/App?node-id=0-1',
+        frameName: 'S*',
+        navigator: 'tabs',
+        flowName: 'Main',
+        projectRoot: workspace.root,
+      },
+      'token'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.batch?.screens.map((s) => s.nodeId)).toEqual(['1:2', '2:1']);
+    const navigator = await workspace.readFile('.figma/flows/Main/navigator.tsx');
+    expect(navigator).toContain('createBottomTabNavigator<RootStackParamList>()');
+    expect(navigator).toContain('<Tab.Navigator initialRouteName="Signup">');
+  });
+
+  it('should require a page or section node-id', async () => {
+    const result = await executeGetFlow({ fileUrl: 'https://www.figma.com/design/ABC123/App', projectRoot: workspace.root }, 'token');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('node-id');
+    expect(formatGetFlowResponse(result)[0].text).toContain('# ❌ Error');
+  });
+
+  it('should report an empty page or section', async () => {
+    const result = await executeGetFlow(
+      { fileUrl: 'https://www.figma.com/design/ABC123/App?node-id=9-9', projectRoot: workspace.root },
+      'token'
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No frames found');
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * E2E tests for offline get_screen generation from a saved node snapshot
+ *
+ * No Figma token or network: the snapshot replaces the API fetch,
+ * the rest of the pipeline writes to .figma/ as usual.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTempWorkspace, TempWorkspace } from '../helpers/temp-workspace';
+import { executeGetScreen, loadNodeSnapshot } from '../../src/edge/tools/get-screen';
+
+const rawScreen = {
+  id: '10:20',
+  name: 'Profile Screen',
+  type: 'FRAME',
+  absoluteBoundingBox: { x: 0, y: 0, width: 375, height: 200 },
+  absoluteRenderBounds: { x: 0, y: 0, width: 375, height: 200 },
+  layoutMode: 'VERTICAL',
+  itemSpacing: 12,
+  paddingLeft: 16,
+  paddingRight: 16,
+  paddingTop: 24,
+  paddingBottom: 24,
+  fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+  children: [
+    {
+      id: '10:21',
+      name: 'Title',
+      type: 'TEXT',
+      characters: 'Hello snapshot',
+      absoluteBoundingBox: { x: 16, y: 24, width: 200, height: 24 },
+      absoluteRenderBounds: { x: 16, y: 24, width: 200, height: 24 },
+      style: { fontFamily: 'Inter', fontSize: 20, fontWeight: 600, lineHeightPx: 24, letterSpacing: 0 },
+      fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+    },
+  ],
+};
+
+describe('get_screen offline snapshot', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace();
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  it('should generate from a fetchNodes-shaped snapshot without a token', async () => {
+    await workspace.mkdir('snapshots');
+    await workspace.writeFile(
+      'snapshots/profile.json',
+      JSON.stringify({
+        fileKey: 'ABC123',
+        nodes: { '10:20': { id: '10:20', name: rawScreen.name, type: 'FRAME', document: rawScreen } },
+      })
+    );
+
+    const result = await executeGetScreen(
+      { snapshotPath: 'snapshots/profile.json', projectRoot: workspace.root, componentName: 'ProfileScreen' },
+      ''
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.screenshot).toBeUndefined();
+    expect(result.multiFileResult?.mainComponent.content).toContain('Hello snapshot');
+    expect(workspace.exists('.figma/screens/ProfileScreen/index.tsx')).toBe(true);
+
+    const manifest = await workspace.readJson<any>('.figma/manifest.json');
+    expect(manifest.screens['10:20'].figmaUrl).toBe('https://www.figma.com/design/ABC123?node-id=10:20');
+  });
+
+  it('should keep the style library from package.json on repeated generation', async () => {
+    await workspace.writeFile('package.json', JSON.stringify({ dependencies: { 'react-native': '0.74.0', tamagui: '1.100.0' } }));
+    await workspace.writeFile('profile.json', JSON.stringify(rawScreen));
+
+    for (const componentName of ['ProfileScreen', 'ProfileScreenAgain']) {
+      const result = await executeGetScreen({ snapshotPath: 'profile.json', projectRoot: workspace.root, componentName }, '');
+      expect(result.success).toBe(true);
+      const code = result.multiFileResult!.mainComponent.content;
+      expect(code).toContain("from 'tamagui';");
+      expect(code).toContain('<YStack');
+    }
+  });
+
+  it('should name tokens after published styles saved with a raw nodes response', async () => {
+    const title = { ...rawScreen.children[0], styles: { text: '5:1' } };
+    await workspace.writeFile(
+      'raw-nodes.json',
+      JSON.stringify({
+        nodes: {
+          '10:20': {
+            document: { ...rawScreen, children: [title] },
+            styles: { '5:1': { key: 'abc', name: 'Heading/H2', styleType: 'TEXT', remote: false } },
+          },
+        },
+      })
+    );
+
+    const snapshot = await loadNodeSnapshot(`${workspace.root}/raw-nodes.json`);
+    expect(snapshot.styles).toEqual({ '5:1': { key: 'abc', name: 'Heading/H2', styleType: 'TEXT', description: undefined } });
+
+    const result = await executeGetScreen({ snapshotPath: 'raw-nodes.json', projectRoot: workspace.root }, '');
+    expect(result.success).toBe(true);
+    expect(Object.keys(result.screenIR!.stylesBundle.tokens.typography)).toEqual(['Heading/H2']);
+  });
+
+  it('should wire prototype reactions to generated routes and record them in meta.json', async () => {
+    await workspace.writeFile('profile.json', JSON.stringify(rawScreen));
+    const first = await executeGetScreen({ snapshotPath: 'profile.json', projectRoot: workspace.root, componentName: 'ProfileScreen' }, '');
+    expect(first.success).toBe(true);
+
+    const home = {
+      ...rawScreen,
+      id: '11:1',
+      name: 'Home Screen',
+      children: [
+        {
+          ...rawScreen.children[0],
+          id: '11:2',
+          characters: 'Open profile',
+          reactions: [{ trigger: { type: 'ON_CLICK' }, actions: [{ type: 'NODE', destinationId: '10:20', navigation: 'NAVIGATE' }] }],
+        },
+      ],
+    };
+    await workspace.writeFile('home.json', JSON.stringify(home));
+
+    const result = await executeGetScreen({ snapshotPath: 'home.json', projectRoot: workspace.root, componentName: 'HomeScreen' }, '');
+
+    expect(result.success).toBe(true);
+    const code = result.multiFileResult!.mainComponent.content;
+    expect(code).toContain("onPress={() => navigation.navigate('ProfileScreen')}");
+    expect(code).toContain('const navigation = useNavigation<NavigationProp<ParamListBase>>();');
+
+    const meta = await workspace.readJson<any>('.figma/screens/HomeScreen/meta.json');
+    expect(meta.interactions).toEqual([
+      { nodeId: '11:2', nodeName: 'Title', trigger: 'ON_CLICK', action: 'NAVIGATE', destinationId: '10:20' },
+    ]);
+  });
+
+  it('should export the tokens of all generated screens', async () => {
+    await workspace.writeFile('profile.json', JSON.stringify(rawScreen));
+    await executeGetScreen({ snapshotPath: 'profile.json', projectRoot: workspace.root, componentName: 'ProfileScreen' }, '');
+
+    const settings = {
+      ...rawScreen,
+      id: '12:1',
+      name: 'Settings Screen',
+      itemSpacing: 20,
+      fills: [{ type: 'SOLID', color: { r: 0.2, g: 0.4, b: 1, a: 1 } }],
+    };
+    await workspace.writeFile('settings.json', JSON.stringify(settings));
+    const result = await executeGetScreen(
+      { snapshotPath: 'settings.json', projectRoot: workspace.root, componentName: 'SettingsScreen', exportTokens: true },
+      ''
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.tokenExport?.dtcgPath).toBe('.figma/tokens/tokens.json');
+
+    const dtcg = await workspace.readJson<any>('.figma/tokens/tokens.json');
+    const colors = Object.values(dtcg.color).map((token: any) => token.$value);
+    expect(colors).toEqual(expect.arrayContaining(['#FFFFFF', '#3366FF']));
+    const spacing = Object.values(dtcg.spacing).map((token: any) => token.$value);
+    expect(spacing).toEqual(expect.arrayContaining(['12px', '20px']));
+
+    const config = await workspace.readJson<any>('.figma/tokens/style-dictionary/config.json');
+    expect(config.source).toEqual(['tokens/**/*.json']);
+    expect(workspace.exists('.figma/tokens/style-dictionary/tokens/color.json')).toBe(true);
+
+    const meta = await workspace.readJson<any>('.figma/screens/ProfileScreen/meta.json');
+    expect(meta.tokens.colors).toBeDefined();
+  });
+
+  it('should accept a bare node document', async () => {
+    await workspace.writeFile('raw.json', JSON.stringify(rawScreen));
+
+    const snapshot = await loadNodeSnapshot(`${workspace.root}/raw.json`);
+    expect(snapshot.nodeId).toBe('10:20');
+    expect(snapshot.fileKey).toBeUndefined();
+    expect(snapshot.document.name).toBe('Profile Screen');
+  });
+
+  it('should fail clearly without figmaUrl or snapshotPath', async () => {
+    const result = await executeGetScreen({ projectRoot: workspace.root }, '');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('snapshotPath');
+  });
+
+  it('should require a token for live fetch', async () => {
+    const result = await executeGetScreen(
+      { figmaUrl: 'https://www.figma.com/design/ABC123?node-id=10-20', projectRoot: workspace.root },
+      ''
+    );
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('FIGMA_TOKEN');
+  });
+});
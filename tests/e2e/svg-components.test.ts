@@ -0,0 +1,138 @@
+/**
+ * E2E tests for react-native-svg icon components
+ *
+ * FigmaClient network methods and the asset download are stubbed; SVG
+ * conversion, generation and .figma/ output run for real.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createTempWorkspace, TempWorkspace } from '../helpers/temp-workspace';
+import { FigmaClient } from '../../src/api/client';
+import { executeGetScreen } from '../../src/edge/tools/get-screen';
+
+const SEARCH_SVG = `<svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+<path d="M11 4a7 7 0 1 0 0 14a7 7 0 0 0 0-14z" stroke="#222222" stroke-width="2"/>
+</svg>`;
+
+function iconInstance(id: string, x: number) {
+  return {
+    id,
+    name: 'Search',
+    type: 'INSTANCE',
+    componentId: 'c-search',
+    absoluteBoundingBox: { x, y: 0, width: 24, height: 24 },
+    absoluteRenderBounds: { x, y: 0, width: 24, height: 24 },
+    children: [
+      {
+        id: `${id}-v`,
+        name: 'Vector',
+        type: 'VECTOR',
+        absoluteBoundingBox: { x: x + 3, y: 3, width: 18, height: 18 },
+        absoluteRenderBounds: { x: x + 3, y: 3, width: 18, height: 18 },
+        strokes: [{ type: 'SOLID', color: { r: 0.13, g: 0.13, b: 0.13, a: 1 } }],
+      },
+    ],
+  };
+}
+
+const document = {
+  id: '1:1',
+  name: 'Catalog',
+  type: 'FRAME',
+  absoluteBoundingBox: { x: 0, y: 0, width: 375, height: 100 },
+  absoluteRenderBounds: { x: 0, y: 0, width: 375, height: 100 },
+  layoutMode: 'VERTICAL',
+  itemSpacing: 16,
+  fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+  children: [
+    iconInstance('1:2', 0),
+    {
+      id: '1:3',
+      name: 'Toolbar',
+      type: 'FRAME',
+      absoluteBoundingBox: { x: 0, y: 40, width: 375, height: 24 },
+      absoluteRenderBounds: { x: 0, y: 40, width: 375, height: 24 },
+      layoutMode: 'HORIZONTAL',
+      itemSpacing: 8,
+      children: [
+        {
+          id: '1:4',
+          name: 'Label',
+          type: 'TEXT',
+          characters: 'Find products',
+          absoluteBoundingBox: { x: 0, y: 40, width: 200, height: 24 },
+          absoluteRenderBounds: { x: 0, y: 40, width: 200, height: 24 },
+          style: { fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeightPx: 24, letterSpacing: 0 },
+          fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+        },
+        iconInstance('1:5', 208),
+      ],
+    },
+  ],
+};
+
+describe('svg icon components', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace();
+    vi.spyOn(FigmaClient.prototype, 'getFileVersion').mockResolvedValue('v1');
+    vi.spyOn(FigmaClient.prototype, 'fetchVariables').mockResolvedValue({
+      success: false,
+      isEnterprise: false,
+      variables: {},
+      colors: {},
+      collections: {},
+      error: 'Variables API requires Figma Enterprise plan',
+    });
+    vi.spyOn(FigmaClient.prototype, 'fetchNodes').mockImplementation(async (fileKey, nodeIds) => ({
+      fileKey,
+      nodes: Object.fromEntries(nodeIds.map((id) => [id, { id, name: 'Catalog', type: 'FRAME', document }])),
+    }));
+    vi.spyOn(FigmaClient.prototype, 'exportImages').mockImplementation(async (_fileKey, nodeIds, options) =>
+      options?.format === 'svg' ? nodeIds.map((nodeId) => ({ nodeId, url: `https://figma.test/${nodeId}.svg` })) : []
+    );
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(SEARCH_SVG)));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await workspace.cleanup();
+  });
+
+  it('should write one component per Figma icon and import it in the screen', async () => {
+    const result = await executeGetScreen(
+      {
+        figmaUrl: 'https://www.figma.com/design/ABC123/App?node-id=1-1',
+        projectRoot: workspace.root,
+        svgComponents: true,
+      },
+      'token'
+    );
+
+    expect(result.success).toBe(true);
+    const icons = '.figma/screens/Catalog/assets/icons';
+    expect(await workspace.readFile(`${icons}/index.ts`)).toBe("export { SearchIcon } from './SearchIcon';\n");
+
+    const icon = await workspace.readFile(`${icons}/SearchIcon.tsx`);
+    expect(icon).toContain("export function SearchIcon({ width = 24, height = 24, color = '#222222', ...props }: SvgProps)");
+    expect(icon).toContain('stroke={color}');
+
+    const code = await workspace.readFile('.figma/screens/Catalog/index.tsx');
+    expect(code).toContain("import { SearchIcon } from './assets/icons';");
+    expect(code.match(/<SearchIcon style=/g)).toHaveLength(2);
+    expect(code).not.toContain('SvgIcon');
+  });
+
+  it('should keep SvgIcon with require() by default', async () => {
+    await executeGetScreen(
+      { figmaUrl: 'https://www.figma.com/design/ABC123/App?node-id=1-1', projectRoot: workspace.root },
+      'token'
+    );
+
+    const code = await workspace.readFile('.figma/screens/Catalog/index.tsx');
+    expect(code).toContain("<SvgIcon source={require('./assets/icons/");
+    expect(workspace.exists('.figma/screens/Catalog/assets/icons/index.ts')).toBe(false);
+  });
+});
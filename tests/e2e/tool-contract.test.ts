@@ -1,9 +1,9 @@
-import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
 import { tmpdir } from 'os';
 import { join } from 'path';
-import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
 import { buildUniqueAssetFilename } from '../../src/edge/asset-downloader';
-import { createMCPClient, MCPClient } from '../helpers/mcp-client';
+import { createMCPClient, MCPClient, type MCPToolResult } from '../helpers/mcp-client';
 import {
   analyzeGeneratedCode,
   analyzeInputOutputFidelity,
@@ -13,6 +13,74 @@ import {
 } from '../../src/edge/tools/get-screen';
 import type { ScreenIR } from '../../src/core/types';
 
+const box = (x: number, y: number, width: number, height: number) => ({
+  absoluteBoundingBox: { x, y, width, height },
+  absoluteRenderBounds: { x, y, width, height },
+});
+
+function textNode(id: string, characters: string, y: number, gray = 0.4) {
+  return {
+    id,
+    name: characters,
+    type: 'TEXT',
+    characters,
+    ...box(16, y, 200, 20),
+    style: { fontFamily: 'Inter', fontSize: 16, fontWeight: 400, lineHeightPx: 20, letterSpacing: 0 },
+    fills: [{ type: 'SOLID', color: { r: gray, g: gray, b: gray, a: 1 } }],
+  };
+}
+
+function inputNode(id: string, name: string, placeholder: string, y: number, cornerRadius: number) {
+  return {
+    id,
+    name,
+    type: 'FRAME',
+    ...box(16, y, 343, 48),
+    layoutMode: 'HORIZONTAL',
+    paddingLeft: 12,
+    cornerRadius,
+    strokes: [{ type: 'SOLID', color: { r: 0.8, g: 0.8, b: 0.8, a: 1 } }],
+    strokeWeight: 1,
+    children: [textNode(`${id}-t`, placeholder, y + 14)],
+  };
+}
+
+/** Login form snapshot: two labelled inputs and a primary button */
+const loginSnapshot = {
+  id: '5:1',
+  name: 'Login',
+  type: 'FRAME',
+  ...box(0, 0, 375, 300),
+  layoutMode: 'VERTICAL',
+  itemSpacing: 16,
+  fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } }],
+  children: [
+    textNode('5:6', 'Email', 0),
+    inputNode('5:2', 'Input', 'you@example.com', 24, 8),
+    textNode('5:7', 'Password', 88),
+    inputNode('5:3', 'Password Input', 'Password', 112, 12),
+    {
+      id: '5:4',
+      name: 'Button',
+      type: 'FRAME',
+      ...box(16, 176, 343, 48),
+      layoutMode: 'HORIZONTAL',
+      primaryAxisAlignItems: 'CENTER',
+      counterAxisAlignItems: 'CENTER',
+      cornerRadius: 8,
+      fills: [{ type: 'SOLID', color: { r: 0.2, g: 0.4, b: 1, a: 1 } }],
+      children: [textNode('5:5', 'Log in', 190, 1)],
+    },
+  ],
+};
+
+function textContent(result: MCPToolResult): string {
+  return result.content
+    .filter((part): part is Extract<typeof part, { type: 'text' }> => part.type === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
 describe('MCP tool contract', () => {
   let client: MCPClient;
 
@@ -26,10 +94,10 @@ describe('MCP tool contract', () => {
     }
   });
 
-  it('should expose only get_screen in tools/list', async () => {
+  it('should expose get_screen, get_screens and get_flow in tools/list', async () => {
     const tools = await client.listTools();
-    expect(tools).toHaveLength(1);
-    expect(tools[0]?.name).toBe('get_screen');
+    expect(tools).toHaveLength(3);
+    expect(tools.map((tool) => tool.name)).toEqual(['get_screen', 'get_screens', 'get_flow']);
   });
 
   it('should return unknown tool error without legacy names', async () => {
@@ -43,10 +111,64 @@ describe('MCP tool contract', () => {
     expect(text).toContain('Unknown tool: unknown_tool');
     expect(text).toContain('Available tools:');
     expect(text).toContain('- get_screen');
+    expect(text).toContain('- get_screens');
+    expect(text).toContain('- get_flow');
     expect(text).not.toContain('generate_screen');
     expect(text).not.toContain('generate_flow');
   });
 
+  describe('get_screen arguments', () => {
+    let root: string;
+
+    beforeEach(async () => {
+      root = await mkdtemp(join(tmpdir(), 'tool-args-'));
+      await writeFile(join(root, 'login.json'), JSON.stringify(loginSnapshot));
+    });
+
+    afterEach(async () => {
+      await rm(root, { recursive: true, force: true });
+    });
+
+    it('should forward forms to the generator', async () => {
+      const result = await client.callTool('get_screen', {
+        snapshotPath: 'login.json',
+        projectRoot: root,
+        componentName: 'LoginScreen',
+        forms: true,
+      });
+      const text = textContent(result);
+
+      expect(result.isError).toBeFalsy();
+      expect(text).toContain("import { Controller, useForm } from 'react-hook-form';");
+      expect(text).toContain('resolver: zodResolver(loginScreenSchema)');
+    });
+
+    it('should forward svgComponents to the generator', async () => {
+      const result = await client.callTool('get_screen', {
+        snapshotPath: 'login.json',
+        projectRoot: root,
+        componentName: 'LoginScreen',
+        svgComponents: true,
+      });
+
+      expect(result.isError).toBeFalsy();
+      expect(textContent(result)).toContain('svgComponents skipped: snapshot generation downloads no SVG icons.');
+    });
+
+    it('should forward exportTokens to the generator', async () => {
+      const result = await client.callTool('get_screen', {
+        snapshotPath: 'login.json',
+        projectRoot: root,
+        componentName: 'LoginScreen',
+        exportTokens: true,
+      });
+
+      expect(result.isError).toBeFalsy();
+      const tokens = JSON.parse(await readFile(join(root, '.figma/tokens/tokens.json'), 'utf-8'));
+      expect(Object.keys(tokens)).toContain('color');
+    });
+  });
+
   it('should include machine-readable summary and code in get_screen response formatting', () => {
     const response = formatGetScreenResponse({
       success: true,
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { isDesignTokensDocument, parseDesignTokens } from '../../src/theme-parser/design-tokens.js';
+
+const dtcg = {
+  color: {
+    $type: 'color',
+    brand: {
+      500: { $value: '#3b82f6' },
+    },
+    text: {
+      primary: { $value: '{color.brand.500}' },
+    },
+  },
+  spacing: {
+    $type: 'dimension',
+    base: { $value: '8px' },
+    md: { $value: { value: 1, unit: 'rem' } },
+  },
+  radius: {
+    card: { $type: 'dimension', $value: '12px' },
+  },
+  font: {
+    family: { $type: 'fontFamily', $value: ['Inter', 'sans-serif'] },
+  },
+  typography: {
+    body: {
+      $type: 'typography',
+      $value: { fontFamily: '{font.family}', fontSize: '16px', fontWeight: 400, lineHeight: 1.5, letterSpacing: '0px' },
+    },
+  },
+  shadow: {
+    card: {
+      $type: 'shadow',
+      $value: { color: '#00000026', offsetX: '0px', offsetY: '4px', blur: '12px', spread: '0px' },
+    },
+  },
+};
+
+const tokensStudio = {
+  global: {
+    blue: { 500: { value: '#2563EB', type: 'color' } },
+    space: { base: { value: '4', type: 'spacing' } },
+  },
+  light: {
+    bg: { surface: { value: '#FFFFFF', type: 'color' }, accent: { value: '{blue.500}', type: 'color' } },
+    space: { lg: { value: '{space.base} * 4', type: 'spacing' } },
+    heading: {
+      value: { fontFamily: 'Inter', fontWeight: 'Semi Bold', fontSize: '24', lineHeight: '125%' },
+      type: 'typography',
+    },
+  },
+  dark: {
+    bg: { surface: { value: '#111111', type: 'color' }, accent: { value: '{blue.500}', type: 'color' } },
+  },
+  $themes: [
+    { name: 'Light', selectedTokenSets: { global: 'source', light: 'enabled' } },
+    { name: 'Dark', selectedTokenSets: { global: 'source', dark: 'enabled' } },
+  ],
+  $metadata: { tokenSetOrder: ['global', 'light', 'dark'] },
+};
+
+describe('isDesignTokensDocument', () => {
+  it('should recognize DTCG and Tokens Studio documents but not plain themes', () => {
+    expect(isDesignTokensDocument(dtcg)).toBe(true);
+    expect(isDesignTokensDocument(tokensStudio)).toBe(true);
+    expect(isDesignTokensDocument({ colors: { primary: '#3B82F6' }, spacing: { md: 16 } })).toBe(false);
+  });
+});
+
+describe('parseDesignTokens', () => {
+  it('should map DTCG tokens with aliases into theme tokens', () => {
+    const tokens = parseDesignTokens(dtcg);
+
+    expect(tokens.colors.get('#3B82F6')).toEqual({ value: '#3B82F6', path: 'theme.color.text.primary', name: 'primary' });
+    expect(tokens.spacing).toEqual(new Map([['theme.spacing.base', 8], ['theme.spacing.md', 16]]));
+    expect(tokens.radii).toEqual(new Map([['theme.radius.card', 12]]));
+    expect(tokens.fonts.get('Inter-400')?.path).toBe('theme.font.family');
+    expect(tokens.typography?.get('theme.typography.body')).toEqual({
+      path: 'theme.typography.body',
+      fontSize: 16,
+      lineHeight: 24,
+      fontWeight: 400,
+      fontFamily: 'Inter',
+      letterSpacing: 0,
+    });
+    expect(tokens.shadows?.get('theme.shadow.card')).toEqual({
+      offsetX: 0,
+      offsetY: 4,
+      blur: 12,
+      spread: 0,
+      color: '#00000026',
+    });
+  });
+
+  it('should read the enabled sets of a Tokens Studio theme and resolve aliases from source sets', () => {
+    const light = parseDesignTokens(tokensStudio);
+
+    expect(light.colors.get('#FFFFFF')?.path).toBe('theme.bg.surface');
+    expect(light.colors.get('#2563EB')?.path).toBe('theme.bg.accent');
+    expect(light.colors.has('#111111')).toBe(false);
+    expect(light.spacing?.get('theme.space.lg')).toBe(16);
+    expect(light.spacing?.has('theme.space.base')).toBe(false);
+    expect(light.typography?.get('theme.heading')).toMatchObject({ fontSize: 24, lineHeight: 30, fontWeight: 600 });
+
+    const dark = parseDesignTokens(tokensStudio, { theme: 'dark' });
+    expect(dark.colors.get('#111111')?.path).toBe('theme.bg.surface');
+    expect(dark.colors.has('#FFFFFF')).toBe(false);
+  });
+
+  it('should keep unresolvable and circular aliases out of the theme', () => {
+    const tokens = parseDesignTokens({
+      color: {
+        $type: 'color',
+        a: { $value: '{color.b}' },
+        b: { $value: '{color.a}' },
+        missing: { $value: '{color.none}' },
+      },
+    });
+
+    expect(tokens.colors.size).toBe(0);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createTempWorkspace, TempWorkspace } from '../helpers/temp-workspace';
+import { isTailwindConfigFile, parseTailwindConfig } from '../../src/theme-parser/tailwind-config.js';
+
+describe('parseTailwindConfig', () => {
+  let workspace: TempWorkspace;
+
+  beforeEach(async () => {
+    workspace = await createTempWorkspace();
+  });
+
+  afterEach(async () => {
+    await workspace.cleanup();
+  });
+
+  it('should recognize Tailwind config files', () => {
+    expect(isTailwindConfigFile('/app/tailwind.config.js')).toBe(true);
+    expect(isTailwindConfigFile('tailwind.config.ts')).toBe(true);
+    expect(isTailwindConfigFile('/app/tailwind.js')).toBe(false);
+  });
+
+  it('should extend the default scales with theme.extend', async () => {
+    await workspace.writeFile('tailwind.config.js', `
+      module.exports = {
+        theme: {
+          extend: {
+            colors: {
+              brand: { DEFAULT: '#1E3A8A', 500: '#3b82f6' },
+              surface: '#fff',
+            },
+            spacing: { '4.5': '1.125rem' },
+            borderRadius: { card: '14px' },
+            fontSize: { title: ['22px', { lineHeight: '28px' }] },
+          },
+        },
+      };
+    `);
+
+    const tokens = parseTailwindConfig(`${workspace.root}/tailwind.config.js`);
+
+    expect(tokens.colors.get('#1E3A8A')?.path).toBe('theme.colors.brand.DEFAULT');
+    expect(tokens.colors.get('#3B82F6')?.path).toBe("theme.colors.brand['500']");
+    expect(tokens.colors.get('#FFFFFF')?.path).toBe('theme.colors.surface');
+    expect(tokens.spacing?.get("theme.spacing['4.5']")).toBe(18);
+    expect(tokens.spacing?.get("theme.spacing['4']")).toBe(16);
+    expect(tokens.radii?.get('theme.borderRadius.card')).toBe(14);
+    expect(tokens.radii?.get('theme.borderRadius.DEFAULT')).toBe(4);
+    expect(tokens.fontSizes?.get('theme.fontSize.title')).toBe(22);
+    expect(tokens.fontSizes?.get('theme.fontSize.lg')).toBe(18);
+  });
+
+  it('should replace a default scale set under theme', async () => {
+    await workspace.writeFile('tailwind.config.ts', `
+      import type { Config } from 'tailwindcss';
+
+      const config = {
+        content: [],
+        theme: {
+          spacing: { sm: 8, md: 16 },
+        },
+      } satisfies Config;
+
+      export default config;
+    `);
+
+    const tokens = parseTailwindConfig(`${workspace.root}/tailwind.config.ts`);
+
+    expect([...tokens.spacing!.entries()]).toEqual([
+      ['theme.spacing.sm', 8],
+      ['theme.spacing.md', 16],
+    ]);
+    expect(tokens.radii?.get('theme.borderRadius.lg')).toBe(8);
+  });
+});